@@ -3,6 +3,9 @@ import { Search, Mountain, Loader2, Star, Bot, Sparkles, Send, Map, AlertTriangl
 import { ResortData, TopResort } from './types';
 import { fetchResortSnowData, fetchTopSnowfallRegions, askSkiAssistant } from './services/geminiService';
 import * as api from './services/api';
+import { toResortId } from './services/resortIdentity';
+import { UnitSystem, DEFAULT_UNITS, parseUnitSystem, formatSnow } from './services/units';
+import { LOCALES, isLocaleChosen, parseLocale, useI18n } from './i18n';
 import ResortCard from './components/ResortCard';
 import TopSnowList from './components/TopSnowList';
 import MapView from './components/MapView';
@@ -19,11 +22,14 @@ const FAVORITES_STORAGE_KEY = 'snowPeakFavorites';
 const FAVORITES_VERSION_KEY = 'snowPeakFavoritesVersion';
 const FAVORITES_VERSION = 3;
 const PREVIOUS_DEFAULTS_V2 = ["Crystal Mountain", "Big Sky", "Whistler", "Copper Mountain"];
+// Only set once the visitor picks their units
+const UNITS_STORAGE_KEY = 'snowPeakUnits';
 
 // Check if backend is available
 const USE_BACKEND = import.meta.env.VITE_API_URL || false;
 
 const App: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
   const [selectedResort, setSelectedResort] = useState<string>("Crystal Mountain");
   const [resortData, setResortData] = useState<ResortData | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -58,6 +64,11 @@ const App: React.FC = () => {
     }
   });
 
+  // Units preference, saved locally and with the synced favorites
+  const [units, setUnits] = useState<UnitSystem>(
+    () => parseUnitSystem(localStorage.getItem(UNITS_STORAGE_KEY)) || DEFAULT_UNITS
+  );
+
   // Top 5 State
   const [topResorts, setTopResorts] = useState<TopResort[]>([]);
   const [isTopLoading, setIsTopLoading] = useState<boolean>(false);
@@ -70,16 +81,45 @@ const App: React.FC = () => {
 
   // Cache States
   const [dataCache, setDataCache] = useState<Record<string, ResortData>>({});
+  // Backend ids of resorts found through search, by display name
+  const [resortIds, setResortIds] = useState<Record<string, string>>({});
   const [topListCache, setTopListCache] = useState<Record<string, TopResort[]>>({});
 
   // Alert banner
   const [snowAlert, setSnowAlert] = useState<{ resort: string; snow: number } | null>(null);
 
+  const changeUnits = (next: UnitSystem) => {
+    localStorage.setItem(UNITS_STORAGE_KEY, next);
+    setUnits(next);
+  };
+
+  // Restore units and language saved with this visitor's favorites (e.g. after clearing site data)
+  useEffect(() => {
+    const needsUnits = !localStorage.getItem(UNITS_STORAGE_KEY);
+    const needsLocale = !isLocaleChosen();
+    if (!USE_BACKEND || (!needsUnits && !needsLocale)) return;
+    api.fetchFavorites()
+      .then(({ units: savedUnits, locale: savedLocale }) => {
+        if (needsUnits && savedUnits) changeUnits(savedUnits);
+        if (needsLocale && savedLocale) setLocale(savedLocale);
+      })
+      .catch(e => console.error("Failed to load saved preferences", e));
+  }, []);
+
   // Save favorites when changed
   useEffect(() => {
     localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
     localStorage.setItem(FAVORITES_VERSION_KEY, String(FAVORITES_VERSION));
-  }, [favorites]);
+
+    // Favorited resorts are refreshed more often by the backend
+    if (USE_BACKEND) {
+      const chosenUnits = localStorage.getItem(UNITS_STORAGE_KEY) ? units : undefined;
+      const chosenLocale = isLocaleChosen() ? locale : undefined;
+      api.syncFavorites(favorites.map(name => resortIds[name] || toResortId(name)), chosenUnits, chosenLocale).catch(e => {
+        console.error("Favorites sync failed", e);
+      });
+    }
+  }, [favorites, units, locale]);
 
   // Load Top 5 Lists
   const loadTopList = useCallback(async (region: string, forceRefresh = false) => {
@@ -101,7 +141,7 @@ const App: React.FC = () => {
       // Call backend API - backend will check its own database cache first
       const data = USE_BACKEND 
         ? await api.fetchTopResortsWithRefresh(region, 5, forceRefresh)
-        : await fetchTopSnowfallRegions(region);
+        : await fetchTopSnowfallRegions(region, locale);
       
       setTopResorts(data);
       setTopListCache(prev => ({ ...prev, [region]: data }));
@@ -115,7 +155,7 @@ const App: React.FC = () => {
     } finally {
       setIsTopLoading(false);
     }
-  }, [topListCache]);
+  }, [topListCache, locale]);
 
   // Initial load for Top List
   useEffect(() => {
@@ -128,7 +168,7 @@ const App: React.FC = () => {
   };
 
   const loadData = useCallback(async (name: string, forceRefresh = false) => {
-    const cacheKey = name.toLowerCase().replace(/\s+/g, '-');
+    const cacheKey = resortIds[name] || toResortId(name);
     
     // Check frontend (browser) cache first - but only use if data has valid forecast
     const cachedData = dataCache[cacheKey];
@@ -148,8 +188,8 @@ const App: React.FC = () => {
       // Only pass refresh=true when user explicitly requests it (clicks refresh button)
       // The backend has its own 1-hour database cache that it will check first
       const data = USE_BACKEND 
-        ? await api.fetchResortData(cacheKey, forceRefresh)  // Only force when user clicks refresh
-        : await fetchResortSnowData(name);
+        ? await api.fetchResortData(cacheKey, forceRefresh, locale)  // Only force when user clicks refresh
+        : await fetchResortSnowData(name, locale);
       
       setResortData(data);
       setDataCache(prev => ({ ...prev, [cacheKey]: data }));
@@ -158,18 +198,32 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [dataCache]);
+  }, [dataCache, resortIds, locale]);
 
   // Initial load for Resort Data
   useEffect(() => {
     loadData(selectedResort);
   }, [selectedResort, loadData]);
 
-  const handleSearchSubmit = (e: React.FormEvent) => {
+  const handleSearchSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      setSelectedResort(searchQuery);
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    if (USE_BACKEND) {
+      // Resolve former names, abbreviations and typos to a known resort
+      try {
+        const [best] = await api.searchResorts(query, { limit: 1 });
+        if (best) {
+          setResortIds(prev => ({ ...prev, [best.name]: best.id }));
+          setSelectedResort(best.name);
+          return;
+        }
+      } catch (e) {
+        console.error("Resort search failed", e);
+      }
     }
+    setSelectedResort(query);
   };
 
   const toggleFavorite = (name: string) => {
@@ -192,17 +246,17 @@ const App: React.FC = () => {
     
     try {
       const response = USE_BACKEND
-        ? await api.askSkiAssistant(chatQuery)
-        : await askSkiAssistant(chatQuery);
+        ? await api.askSkiAssistant(chatQuery, locale)
+        : await askSkiAssistant(chatQuery, locale);
       setChatResponse(response);
     } catch (e) {
-      setChatResponse("Sorry, I couldn't process your question. Please try again.");
+      setChatResponse(t('chat.error'));
     }
     setIsChatLoading(false);
   };
 
-  const handleMapResortSelect = (resortId: string) => {
-    const resortName = resortId.replace(/-/g, ' ');
+  const handleMapResortSelect = (resortId: string, resortName: string) => {
+    setResortIds(prev => ({ ...prev, [resortName]: resortId }));
     setSelectedResort(resortName);
     setShowMap(false);
   };
@@ -221,7 +275,7 @@ const App: React.FC = () => {
         <div className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-2 px-4 text-center text-sm font-medium">
           <span className="inline-flex items-center gap-2">
             <AlertTriangle size={16} />
-            🌨️ POWDER ALERT: {snowAlert.resort} expecting {snowAlert.snow}" in the next 5 days!
+            {t('app.powderAlert', { resort: snowAlert.resort, snow: formatSnow(snowAlert.snow, units) })}
             <button 
               onClick={() => setSnowAlert(null)} 
               className="ml-2 opacity-70 hover:opacity-100"
@@ -243,7 +297,7 @@ const App: React.FC = () => {
               <h1 className="text-lg font-bold tracking-tight text-slate-900">
                 SnowPeak <span className="text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-indigo-600">Tracker</span>
               </h1>
-              <p className="text-[10px] text-slate-400 -mt-0.5">FREE Snow Forecasts</p>
+              <p className="text-[10px] text-slate-400 -mt-0.5">{t('app.tagline')}</p>
             </div>
           </div>
           
@@ -256,13 +310,35 @@ const App: React.FC = () => {
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search ski resort..."
+                placeholder={t('app.searchPlaceholder')}
                 className="block w-full pl-10 pr-4 py-2 bg-slate-100 border-none rounded-full text-sm focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all placeholder:text-slate-400"
               />
             </form>
             
+            {/* Units Toggle */}
+            <button
+              onClick={() => changeUnits(units === 'metric' ? 'imperial' : 'metric')}
+              className="flex-shrink-0 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-semibold rounded-xl transition-colors"
+              title={t(units === 'metric' ? 'app.units.toImperial' : 'app.units.toMetric')}
+            >
+              {units === 'metric' ? 'cm · °C' : 'in · °F'}
+            </button>
+
+            {/* Language Picker */}
+            <select
+              value={locale}
+              onChange={(e) => setLocale(parseLocale(e.target.value) || locale)}
+              className="flex-shrink-0 px-2 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-semibold rounded-xl border-none transition-colors cursor-pointer"
+              title={t('app.language')}
+            >
+              {LOCALES.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+
             {/* Notification Bell */}
             <NotificationBell 
+              units={units}
               onSelectResort={(name) => {
                 setSelectedResort(name);
                 window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -274,10 +350,10 @@ const App: React.FC = () => {
               onClick={() => {}}
               disabled
               className="flex items-center gap-2 px-3 py-2 bg-slate-300 text-slate-500 text-sm font-medium rounded-xl cursor-not-allowed opacity-60"
-              title="Coming soon - Snow Map feature is under development"
+              title={t('app.snowMapComingSoon')}
             >
               <Map size={16} />
-              <span className="hidden sm:inline">Snow Map</span>
+              <span className="hidden sm:inline">{t('map.title')}</span>
             </button>
           </div>
         </div>
@@ -286,6 +362,7 @@ const App: React.FC = () => {
       {/* Map Modal */}
       {showMap && (
         <MapView 
+          units={units}
           onSelectResort={handleMapResortSelect}
           onClose={() => setShowMap(false)}
         />
@@ -301,21 +378,21 @@ const App: React.FC = () => {
                   <TrendingUp size={20} className="text-blue-600" />
                 </div>
                 <div>
-                  <p className="text-xs text-slate-500 uppercase font-medium">5-Day Snow Forecast</p>
-                  <p className="text-2xl font-bold text-slate-900">{totalForecastSnow}" <span className="text-sm font-normal text-slate-500">total</span></p>
+                  <p className="text-xs text-slate-500 uppercase font-medium">{t('forecast.fiveDay')}</p>
+                  <p className="text-2xl font-bold text-slate-900">{formatSnow(totalForecastSnow, units)} <span className="text-sm font-normal text-slate-500">{t('app.total')}</span></p>
                 </div>
               </div>
               <div className="flex gap-6 text-center">
                 <div>
-                  <p className="text-xs text-slate-500">24hr</p>
-                  <p className="text-lg font-bold text-cyan-600">{resortData.last24Hours}"</p>
+                  <p className="text-xs text-slate-500">{t('window.24h')}</p>
+                  <p className="text-lg font-bold text-cyan-600">{formatSnow(resortData.last24Hours, units)}</p>
                 </div>
                 <div>
-                  <p className="text-xs text-slate-500">Base</p>
-                  <p className="text-lg font-bold text-blue-600">{resortData.baseDepth}"</p>
+                  <p className="text-xs text-slate-500">{t('app.base')}</p>
+                  <p className="text-lg font-bold text-blue-600">{formatSnow(resortData.baseDepth, units)}</p>
                 </div>
                 <div>
-                  <p className="text-xs text-slate-500">Lifts</p>
+                  <p className="text-xs text-slate-500">{t('app.lifts')}</p>
                   <p className="text-lg font-bold text-indigo-600">{resortData.liftsOpen}/{resortData.totalLifts}</p>
                 </div>
               </div>
@@ -331,11 +408,11 @@ const App: React.FC = () => {
             <div>
               <div className="flex items-center gap-2 mb-3 px-1">
                 <Star size={14} className="text-amber-500 fill-amber-500" />
-                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">My Favorites</h3>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{t('app.favorites')}</h3>
               </div>
               <div className="flex gap-2 overflow-x-auto pb-2 no-scrollbar lg:flex-col lg:overflow-visible">
                 {favorites.length === 0 && (
-                   <div className="text-sm text-slate-400 italic px-2">No favorites yet</div>
+                   <div className="text-sm text-slate-400 italic px-2">{t('app.noFavorites')}</div>
                 )}
                 {favorites.map((resort) => (
                   <button
@@ -361,6 +438,7 @@ const App: React.FC = () => {
             <div className="hidden lg:block">
               <TopSnowList 
                 data={topResorts} 
+                units={units}
                 isLoading={isTopLoading} 
                 activeRegion={activeRegion}
                 onSelectRegion={handleRegionChange}
@@ -380,6 +458,7 @@ const App: React.FC = () => {
             <div className="lg:hidden">
                <TopSnowList 
                 data={topResorts} 
+                units={units}
                 isLoading={isTopLoading} 
                 activeRegion={activeRegion}
                 onSelectRegion={handleRegionChange}
@@ -395,15 +474,16 @@ const App: React.FC = () => {
               {isLoading ? (
                 <div className="flex flex-col items-center justify-center h-64 space-y-4 animate-in fade-in duration-500 bg-white rounded-3xl border border-slate-100 shadow-sm">
                   <Loader2 className="w-10 h-10 text-blue-500 animate-spin" />
-                  <p className="text-slate-500 font-medium">Analyzing {selectedResort}...</p>
+                  <p className="text-slate-500 font-medium">{t('app.analyzing', { resort: selectedResort })}</p>
                   <div className="text-xs text-slate-400 max-w-xs text-center">
-                    Fetching 10-day forecast & live conditions
+                    {t('app.analyzingDetail')}
                   </div>
                 </div>
               ) : resortData ? (
                 <div className="animate-in slide-in-from-bottom-4 duration-500">
                   <ResortCard 
                     data={resortData} 
+                    units={units}
                     isFavorite={isCurrentFavorite}
                     onRefresh={() => loadData(selectedResort, true)}
                     onToggleFavorite={() => toggleFavorite(resortData.name)}
@@ -412,7 +492,7 @@ const App: React.FC = () => {
               ) : (
                 <div className="flex flex-col items-center justify-center h-64 text-center p-6 bg-white rounded-3xl border border-dashed border-slate-300">
                   <Mountain size={48} className="text-slate-200 mb-4" />
-                  <p className="text-slate-500">Unable to load data. Try searching for another resort.</p>
+                  <p className="text-slate-500">{t('app.loadFailed')}</p>
                 </div>
               )}
             </div>
@@ -432,9 +512,9 @@ const App: React.FC = () => {
                 <div className="p-1.5 bg-gradient-to-br from-indigo-500 to-purple-500 text-white rounded-lg shadow-sm">
                   <Bot size={18} />
                 </div>
-                <h3 className="font-bold text-slate-800">AI Ski Assistant</h3>
+                <h3 className="font-bold text-slate-800">{t('chat.title')}</h3>
                 <span className="text-xs font-medium text-indigo-600 bg-indigo-100 px-2 py-0.5 rounded-full">
-                  Powered by Gemini
+                  {t('chat.poweredBy')}
                 </span>
               </div>
               
@@ -448,7 +528,7 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <p className="text-slate-400 italic">
-                    "Ask me anything about skiing - gear, technique, conditions, or resort tips!"
+                    {t('chat.intro')}
                   </p>
                 )}
               </div>
@@ -458,7 +538,7 @@ const App: React.FC = () => {
                   type="text"
                   value={chatQuery}
                   onChange={(e) => setChatQuery(e.target.value)}
-                  placeholder="Ask something..."
+                  placeholder={t('chat.placeholder')}
                   className="flex-1 bg-white border-transparent focus:border-indigo-500 focus:ring-2 focus:ring-indigo-200 rounded-xl px-4 py-2.5 text-sm text-slate-800 placeholder:text-slate-400 transition-all shadow-sm"
                   disabled={isChatLoading}
                 />
@@ -484,10 +564,9 @@ const App: React.FC = () => {
             <div className="flex items-center gap-3">
               <div className="text-3xl">🏆</div>
               <div>
-                <h4 className="font-semibold text-emerald-800">Why Choose SnowPeak?</h4>
+                <h4 className="font-semibold text-emerald-800">{t('app.whyTitle')}</h4>
                 <p className="text-sm text-emerald-700">
-                  <span className="font-medium">100% FREE</span> 10-day forecasts • No ads • AI-powered insights • 
-                  Real-time data from Google Search
+                  <span className="font-medium">{t('app.whyFree')}</span> {t('app.whyBody')}
                 </p>
               </div>
             </div>
@@ -496,14 +575,14 @@ const App: React.FC = () => {
 
         {/* Info Section */}
         <div className="mt-12 text-center border-t border-slate-200 pt-8">
-            <h4 className="text-sm font-semibold text-slate-900 mb-2">About SnowPeak Tracker</h4>
+            <h4 className="text-sm font-semibold text-slate-900 mb-2">{t('app.aboutTitle')}</h4>
             <p className="text-sm text-slate-500 max-w-lg mx-auto leading-relaxed">
-              Free snow forecasting app powered by Google Gemini AI with real-time search.
+              {t('app.aboutBody')}
               <br />
-              10-day forecasts, live conditions, and intelligent caching. Data for reference only - always check official safety warnings.
+              {t('app.aboutDisclaimer')}
             </p>
             <p className="text-xs text-slate-400 mt-4">
-              Built to beat OpenSnow 💪 • Made with ❄️ in 2026
+              {t('app.footer')}
             </p>
         </div>
       </main>
@@ -0,0 +1,884 @@
+/**
+ * In-memory Supabase client
+ *
+ * Implements the subset of the PostgREST query builder the backend uses
+ * (`from/select/eq/gte/order/upsert/...`, embedded `table!inner(*)` selects)
+ * on top of plain arrays, so the API runs without a Supabase project.
+ * Tables mirror `supabase/migrations`. Set `LOCAL_DB_FILE` to persist the data
+ * as JSON between restarts.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+type Row = Record<string, any>;
+
+interface ForeignKey {
+  column: string;
+  table: string;
+  references: string;
+}
+
+interface TableSchema {
+  /** Column defaults; `NOW` is replaced by the current timestamp */
+  columns: Record<string, unknown>;
+  /** Serial `id` primary key */
+  autoIncrement?: boolean;
+  /** Unique constraints (the first one is the primary key) */
+  unique: string[][];
+  foreignKeys?: ForeignKey[];
+}
+
+interface MemoryError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+interface MemoryResponse {
+  data: any;
+  error: MemoryError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+const NOW = Symbol('now');
+
+const resortFk = (column = 'resort_id'): ForeignKey => ({ column, table: 'resorts', references: 'id' });
+
+// ============================================
+// SCHEMA (mirrors supabase/migrations)
+// ============================================
+
+export const MEMORY_SCHEMA: Record<string, TableSchema> = {
+  resorts: {
+    columns: {
+      id: null, name: null, location: null, country: 'US', state: 'US', sub_region: null, region: 'Other',
+      latitude: 0, longitude: 0,
+      website_url: null, total_lifts: 0, total_trails: 0, vertical_drop: null, base_elevation: null,
+      summit_elevation: null, created_at: NOW, updated_at: NOW,
+    },
+    unique: [['id']],
+  },
+  resort_aliases: {
+    columns: { id: null, resort_id: null, alias: null, normalized: null, kind: 'alias', created_at: NOW },
+    autoIncrement: true,
+    unique: [['id'], ['resort_id', 'normalized']],
+    foreignKeys: [resortFk()],
+  },
+  resort_external_ids: {
+    columns: { id: null, resort_id: null, source: null, external_id: null, created_at: NOW },
+    autoIncrement: true,
+    unique: [['id'], ['source', 'external_id']],
+    foreignKeys: [resortFk()],
+  },
+  snow_reports: {
+    columns: {
+      id: null, resort_id: null, report_date: null, base_depth: 0, last_24_hours: 0, last_48_hours: 0,
+      last_7_days: 0, season_total: null, lifts_open: 0, trails_open: 0, conditions: null, snow_quality: null,
+      grooming_status: null, data_source: 'gemini', raw_response: null, provenance: null, confidence: null,
+      sources_disagree: false, created_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id'], ['resort_id', 'report_date']],
+    foreignKeys: [resortFk()],
+  },
+  forecasts: {
+    columns: {
+      id: null, resort_id: null, forecast_date: null, predicted_snow: 0, temp_high: null, temp_low: null,
+      condition: null, snow_probability: null, wind_speed: null, wind_direction: null, humidity: null,
+      powder_score: null, snow_to_liquid: null, rain_risk: null, wind_loading: null, snow_line: null,
+      snow_quality: null, fetched_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id'], ['resort_id', 'forecast_date']],
+    foreignKeys: [resortFk()],
+  },
+  hourly_forecasts: {
+    columns: {
+      id: null, resort_id: null, forecast_time: null, base_elevation: null, base_snow: 0, base_rain: 0,
+      base_temp: null, base_wind_speed: null, summit_elevation: null, summit_snow: null, summit_rain: null,
+      summit_temp: null, summit_wind_speed: null, freezing_level: null, source: null, fetched_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id'], ['resort_id', 'forecast_time']],
+    foreignKeys: [resortFk()],
+  },
+  forecast_snapshots: {
+    columns: {
+      id: null, resort_id: null, source: null, issued_at: NOW, issue_date: null, forecast_date: null,
+      lead_days: null, predicted_snow: 0, observed_snow: null, verified_at: null,
+    },
+    autoIncrement: true,
+    unique: [['id'], ['resort_id', 'source', 'forecast_date', 'issued_at']],
+    foreignKeys: [resortFk()],
+  },
+  alert_subscriptions: {
+    columns: {
+      id: null, visitor_id: null, email: null, resort_id: null, resort_name: null, scope_type: 'resort', scope: null,
+      scope_key: null, threshold: null, rule: null, timeframe: 5, is_active: true, last_triggered: null,
+      last_checked: null, created_at: NOW, updated_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id'], ['visitor_id', 'scope_key']],
+    foreignKeys: [resortFk()],
+  },
+  alert_notifications: {
+    columns: {
+      id: null, subscription_id: null, title: null, message: null, predicted_snow: null, forecast_date: null,
+      resorts: null, kind: 'forecast', is_read: false, created_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id']],
+    foreignKeys: [{ column: 'subscription_id', table: 'alert_subscriptions', references: 'id' }],
+  },
+  alert_channels: {
+    columns: {
+      id: null, subscription_id: null, type: null, url: null, secret: null, is_active: true, created_at: NOW,
+      updated_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id']],
+    foreignKeys: [{ column: 'subscription_id', table: 'alert_subscriptions', references: 'id' }],
+  },
+  alert_deliveries: {
+    columns: {
+      id: null, channel_id: null, notification_id: null, payload: null, status: 'pending', attempts: 0,
+      response_status: null, last_error: null, created_at: NOW, updated_at: NOW, delivered_at: null,
+    },
+    autoIncrement: true,
+    unique: [['id']],
+    foreignKeys: [
+      { column: 'channel_id', table: 'alert_channels', references: 'id' },
+      { column: 'notification_id', table: 'alert_notifications', references: 'id' },
+    ],
+  },
+  users: {
+    columns: {
+      id: null, email: null, name: null, visitor_id: null, preferences: {}, created_at: NOW, updated_at: NOW,
+    },
+    unique: [['id'], ['email'], ['visitor_id']],
+  },
+  favorites: {
+    columns: { id: null, user_id: null, visitor_id: null, resort_id: null, created_at: NOW },
+    autoIncrement: true,
+    unique: [['id'], ['visitor_id', 'resort_id'], ['user_id', 'resort_id']],
+    foreignKeys: [resortFk(), { column: 'user_id', table: 'users', references: 'id' }],
+  },
+  chat_messages: {
+    columns: { id: null, session_id: null, role: null, content: null, metadata: null, created_at: NOW },
+    autoIncrement: true,
+    unique: [['id']],
+  },
+  search_logs: {
+    columns: {
+      id: null, visitor_id: null, query: null, region: null, results_count: null, resort_id: null, created_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id']],
+  },
+  jobs: {
+    columns: {
+      id: null, type: null, payload: {}, status: 'queued', dedupe_key: null, parent_id: null, priority: 0,
+      attempts: 0, max_attempts: 3, run_at: NOW, locked_by: null, locked_until: null, last_error: null,
+      result: null, created_at: NOW, started_at: null, finished_at: null, updated_at: NOW,
+    },
+    autoIncrement: true,
+    unique: [['id'], ['dedupe_key']],
+  },
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  404: 'Not Found',
+  406: 'Not Acceptable',
+  409: 'Conflict',
+};
+
+function pgError(code: string, message: string, status = 400): MemoryResponse {
+  return {
+    data: null,
+    error: { message, code, details: null, hint: null },
+    count: null,
+    status,
+    statusText: STATUS_TEXT[status] || 'Bad Request',
+  };
+}
+
+function missingTable(table: string): MemoryResponse {
+  return pgError('PGRST205', `Could not find the table 'public.${table}' in the schema cache`, 404);
+}
+
+// ============================================
+// STORE
+// ============================================
+
+export class MemoryDatabase {
+  private tables: Record<string, Row[]> = {};
+  private sequences: Record<string, number> = {};
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private file?: string) {
+    for (const table of Object.keys(MEMORY_SCHEMA)) {
+      this.tables[table] = [];
+      this.sequences[table] = 0;
+    }
+    if (file) this.load(file);
+  }
+
+  hasTable(table: string): boolean {
+    return table in MEMORY_SCHEMA;
+  }
+
+  rows(table: string): Row[] {
+    return this.tables[table];
+  }
+
+  nextId(table: string): number {
+    this.sequences[table] += 1;
+    return this.sequences[table];
+  }
+
+  /** Keep the sequence ahead of explicitly inserted ids */
+  bumpSequence(table: string, id: unknown): void {
+    if (typeof id === 'number' && id > this.sequences[table]) {
+      this.sequences[table] = id;
+    }
+  }
+
+  replace(table: string, rows: Row[]): void {
+    this.tables[table] = rows;
+  }
+
+  /** Debounced write to the JSON file (if persistence is enabled) */
+  scheduleSave(): void {
+    if (!this.file || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 250);
+    this.saveTimer.unref?.();
+  }
+
+  save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify({ tables: this.tables, sequences: this.sequences }));
+      fs.renameSync(tmp, this.file);
+    } catch (error) {
+      console.error('[LocalDB] Failed to persist data:', error);
+    }
+  }
+
+  private load(file: string): void {
+    if (!fs.existsSync(file)) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+      for (const [table, rows] of Object.entries(saved.tables || {})) {
+        if (this.hasTable(table) && Array.isArray(rows)) this.tables[table] = rows as Row[];
+      }
+      for (const [table, value] of Object.entries(saved.sequences || {})) {
+        if (this.hasTable(table) && typeof value === 'number') this.sequences[table] = value;
+      }
+      console.log(`[LocalDB] Loaded data from ${file}`);
+    } catch (error) {
+      console.error(`[LocalDB] Could not read ${file}, starting empty:`, error);
+    }
+  }
+}
+
+// ============================================
+// SELECT PARSING
+// ============================================
+
+interface SelectNode {
+  columns: string[]; // plain columns, '*' for all
+  embeds: EmbedNode[];
+}
+
+interface EmbedNode {
+  key: string; // response key (alias or table name)
+  table: string;
+  inner: boolean;
+  select: SelectNode;
+}
+
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of input) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseSelect(input: string): SelectNode {
+  const node: SelectNode = { columns: [], embeds: [] };
+  for (const part of splitTopLevel(input.replace(/\s+/g, ''))) {
+    const open = part.indexOf('(');
+    if (open === -1) {
+      node.columns.push(part.includes(':') ? part.split(':')[1] : part);
+      continue;
+    }
+
+    let head = part.slice(0, open);
+    let key: string | undefined;
+    if (head.includes(':')) [key, head] = head.split(':');
+    const [table, ...hints] = head.split('!');
+    node.embeds.push({
+      key: key || table,
+      table,
+      inner: hints.includes('inner'),
+      select: parseSelect(part.slice(open + 1, -1)),
+    });
+  }
+  if (node.columns.length === 0 && node.embeds.length === 0) node.columns.push('*');
+  return node;
+}
+
+// ============================================
+// FILTERS
+// ============================================
+
+type Predicate = (row: Row) => boolean;
+
+interface Filter {
+  /** Embedded table the filter applies to (undefined = root table) */
+  table?: string;
+  predicate: Predicate;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' || typeof b === 'number') {
+    const na = Number(a);
+    const nb = Number(b);
+    if (!Number.isNaN(na) && !Number.isNaN(nb)) return na - nb;
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return String(a) === String(b) ? 0 : String(a) < String(b) ? -1 : 1;
+  }
+  const sa = String(a);
+  const sb = String(b);
+  return sa === sb ? 0 : sa < sb ? -1 : 1;
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+function parseFilterValue(raw: string): unknown {
+  if (raw === 'null') return null;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  // PostgREST quotes values with spaces or reserved characters
+  if (/^".*"$/.test(raw)) return raw.slice(1, -1);
+  return raw;
+}
+
+function buildPredicate(column: string, operator: string, value: unknown): Predicate {
+  return (row) => {
+    const actual = row[column];
+    switch (operator) {
+      case 'eq':
+        return actual !== null && actual !== undefined && compare(actual, value) === 0;
+      case 'neq':
+        return actual !== null && actual !== undefined && compare(actual, value) !== 0;
+      case 'gt':
+        return actual !== null && actual !== undefined && compare(actual, value) > 0;
+      case 'gte':
+        return actual !== null && actual !== undefined && compare(actual, value) >= 0;
+      case 'lt':
+        return actual !== null && actual !== undefined && compare(actual, value) < 0;
+      case 'lte':
+        return actual !== null && actual !== undefined && compare(actual, value) <= 0;
+      case 'in':
+        return (value as unknown[]).some((v) => actual !== null && actual !== undefined && compare(actual, v) === 0);
+      case 'is':
+        return value === null ? actual === null || actual === undefined : actual === value;
+      case 'like':
+        return typeof actual === 'string' && likeToRegExp(String(value), '').test(actual);
+      case 'ilike':
+        return typeof actual === 'string' && likeToRegExp(String(value), 'i').test(actual);
+      default:
+        throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  };
+}
+
+/** Parse a PostgREST `or` expression such as `state.eq.CO,region.eq.Rockies` */
+function parseOrExpression(expression: string): Predicate {
+  const predicates = splitTopLevel(expression).map((condition) => {
+    const [column, operator, ...rest] = condition.split('.');
+    const raw = rest.join('.');
+    if (operator === 'in') {
+      const values = raw.replace(/^\(|\)$/g, '').split(',').map(parseFilterValue);
+      return buildPredicate(column, 'in', values);
+    }
+    return buildPredicate(column, operator, parseFilterValue(raw));
+  });
+  return (row) => predicates.some((p) => p(row));
+}
+
+// ============================================
+// QUERY BUILDER
+// ============================================
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+
+class MemoryQueryBuilder implements PromiseLike<MemoryResponse> {
+  private action: Action = 'select';
+  private selectNode: SelectNode = parseSelect('*');
+  private returning = false;
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private onConflict?: string;
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean; nullsFirst?: boolean; table?: string }[] = [];
+  private limitCount?: number;
+  private offset = 0;
+  private resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private countRequested = false;
+  private headOnly = false;
+
+  constructor(private db: MemoryDatabase, private table: string) {}
+
+  // ---------- actions ----------
+
+  select(columns = '*', options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }): this {
+    this.selectNode = parseSelect(columns);
+    if (this.action === 'select') {
+      this.countRequested = !!options?.count;
+      this.headOnly = !!options?.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): this {
+    this.action = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.onConflict = options?.onConflict;
+    this.ignoreDuplicates = !!options?.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.patch = values;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  // ---------- filters ----------
+
+  private addFilter(column: string, operator: string, value: unknown): this {
+    const dot = column.indexOf('.');
+    if (dot !== -1) {
+      this.filters.push({
+        table: column.slice(0, dot),
+        predicate: buildPredicate(column.slice(dot + 1), operator, value),
+      });
+    } else {
+      this.filters.push({ predicate: buildPredicate(column, operator, value) });
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.addFilter(column, 'eq', value); }
+  neq(column: string, value: unknown) { return this.addFilter(column, 'neq', value); }
+  gt(column: string, value: unknown) { return this.addFilter(column, 'gt', value); }
+  gte(column: string, value: unknown) { return this.addFilter(column, 'gte', value); }
+  lt(column: string, value: unknown) { return this.addFilter(column, 'lt', value); }
+  lte(column: string, value: unknown) { return this.addFilter(column, 'lte', value); }
+  like(column: string, pattern: string) { return this.addFilter(column, 'like', pattern); }
+  ilike(column: string, pattern: string) { return this.addFilter(column, 'ilike', pattern); }
+  is(column: string, value: unknown) { return this.addFilter(column, 'is', value); }
+  in(column: string, values: unknown[]) { return this.addFilter(column, 'in', values); }
+
+  not(column: string, operator: string, value: unknown): this {
+    this.addFilter(column, operator, value);
+    const filter = this.filters[this.filters.length - 1];
+    const predicate = filter.predicate;
+    filter.predicate = (row) => !predicate(row);
+    return this;
+  }
+
+  match(query: Row): this {
+    for (const [column, value] of Object.entries(query)) this.eq(column, value);
+    return this;
+  }
+
+  or(expression: string, options?: { foreignTable?: string; referencedTable?: string }): this {
+    this.filters.push({
+      table: options?.foreignTable || options?.referencedTable,
+      predicate: parseOrExpression(expression),
+    });
+    return this;
+  }
+
+  // ---------- modifiers ----------
+
+  order(
+    column: string,
+    options?: { ascending?: boolean; nullsFirst?: boolean; foreignTable?: string; referencedTable?: string },
+  ): this {
+    this.orders.push({
+      column,
+      ascending: options?.ascending ?? true,
+      nullsFirst: options?.nullsFirst,
+      table: options?.foreignTable || options?.referencedTable,
+    });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.resultMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.resultMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = MemoryResponse, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  // ---------- execution ----------
+
+  private execute(): MemoryResponse {
+    if (!this.db.hasTable(this.table)) return missingTable(this.table);
+
+    try {
+      switch (this.action) {
+        case 'select':
+          return this.runSelect();
+        case 'insert':
+          return this.runInsert(false);
+        case 'upsert':
+          return this.runInsert(true);
+        case 'update':
+          return this.runUpdate();
+        case 'delete':
+          return this.runDelete();
+      }
+    } catch (error) {
+      if (error && typeof error === 'object' && 'error' in error) return error as MemoryResponse;
+      throw error;
+    }
+  }
+
+  private schema(table = this.table): TableSchema {
+    return MEMORY_SCHEMA[table];
+  }
+
+  private assertColumns(row: Row, table = this.table): void {
+    const columns = this.schema(table).columns;
+    for (const key of Object.keys(row)) {
+      if (!(key in columns)) {
+        throw pgError('PGRST204', `Could not find the '${key}' column of '${table}' in the schema cache`);
+      }
+    }
+  }
+
+  private rootFilters(): Predicate[] {
+    return this.filters.filter((f) => !f.table).map((f) => f.predicate);
+  }
+
+  private matchingRows(): Row[] {
+    const predicates = this.rootFilters();
+    return this.db.rows(this.table).filter((row) => predicates.every((p) => p(row)));
+  }
+
+  /** Resolve an embedded table into a many-to-one or one-to-many relation */
+  private relation(fromTable: string, toTable: string): { kind: 'one' | 'many'; fk: ForeignKey } {
+    const outgoing = this.schema(fromTable).foreignKeys?.find((fk) => fk.table === toTable);
+    if (outgoing) return { kind: 'one', fk: outgoing };
+
+    const incoming = this.schema(toTable)?.foreignKeys?.find((fk) => fk.table === fromTable);
+    if (incoming) return { kind: 'many', fk: incoming };
+
+    throw pgError(
+      'PGRST200',
+      `Could not find a relationship between '${fromTable}' and '${toTable}' in the schema cache`,
+    );
+  }
+
+  /** Project a row through a select tree; returns null when an `!inner` embed has no match */
+  private project(table: string, row: Row, node: SelectNode, topLevel: boolean): Row | null {
+    const out: Row = {};
+    for (const column of node.columns) {
+      if (column === '*') Object.assign(out, row);
+      else out[column] = row[column] ?? null;
+    }
+
+    for (const embed of node.embeds) {
+      if (!this.db.hasTable(embed.table)) throw missingTable(embed.table);
+      const { kind, fk } = this.relation(table, embed.table);
+      const filters = topLevel
+        ? this.filters.filter((f) => f.table === embed.key || f.table === embed.table).map((f) => f.predicate)
+        : [];
+      const matches = (r: Row) => filters.every((p) => p(r));
+
+      if (kind === 'one') {
+        const target = this.db.rows(embed.table).find((r) => compare(r[fk.references], row[fk.column]) === 0);
+        const projected =
+          target && matches(target) ? this.project(embed.table, target, embed.select, false) : null;
+        if (!projected && embed.inner) return null;
+        out[embed.key] = projected;
+      } else {
+        let children = this.db
+          .rows(embed.table)
+          .filter((r) => compare(r[fk.column], row[fk.references]) === 0 && matches(r));
+        const orders = topLevel ? this.orders.filter((o) => o.table === embed.key || o.table === embed.table) : [];
+        if (orders.length) children = sortRows(children, orders);
+        const projected = children
+          .map((child) => this.project(embed.table, child, embed.select, false))
+          .filter((c): c is Row => c !== null);
+        if (projected.length === 0 && embed.inner) return null;
+        out[embed.key] = projected;
+      }
+    }
+    return out;
+  }
+
+  private shape(table: string, rows: Row[], node: SelectNode): Row[] {
+    return rows
+      .map((row) => this.project(table, row, node, true))
+      .filter((r): r is Row => r !== null);
+  }
+
+  private respond(rows: Row[], count: number | null = null): MemoryResponse {
+    if (this.resultMode !== 'many') {
+      if (rows.length > 1 || (rows.length === 0 && this.resultMode === 'single')) {
+        return pgError(
+          'PGRST116',
+          'JSON object requested, multiple (or no) rows returned',
+          406,
+        );
+      }
+      return { data: rows[0] ?? null, error: null, count, status: 200, statusText: 'OK' };
+    }
+    return { data: rows, error: null, count, status: 200, statusText: 'OK' };
+  }
+
+  private runSelect(): MemoryResponse {
+    // Project first so `!inner` embeds and foreign filters can drop rows
+    let rows = this.shape(this.table, this.matchingRows(), this.selectNode);
+    const rootOrders = this.orders.filter((o) => !o.table);
+    if (rootOrders.length) rows = sortRows(rows, rootOrders);
+
+    const count = this.countRequested ? rows.length : null;
+    if (this.headOnly) return { data: null, error: null, count, status: 200, statusText: 'OK' };
+
+    rows = rows.slice(this.offset, this.limitCount !== undefined ? this.offset + this.limitCount : undefined);
+    return this.respond(structuredClone(rows), count);
+  }
+
+  private buildRow(values: Row): Row {
+    const schema = this.schema();
+    const row: Row = {};
+    const timestamp = new Date().toISOString();
+    for (const [column, fallback] of Object.entries(schema.columns)) {
+      if (values[column] !== undefined) row[column] = values[column];
+      else if (fallback === NOW) row[column] = timestamp;
+      else row[column] = fallback && typeof fallback === 'object' ? structuredClone(fallback) : fallback;
+    }
+    if (schema.autoIncrement) {
+      if (row.id === null || row.id === undefined) row.id = this.db.nextId(this.table);
+      else this.db.bumpSequence(this.table, row.id);
+    }
+    return row;
+  }
+
+  private findConflict(row: Row, columns: string[], exclude?: Row): Row | undefined {
+    return this.db
+      .rows(this.table)
+      .find((existing) => existing !== exclude && columns.every((c) => row[c] !== null && row[c] !== undefined && compare(existing[c], row[c]) === 0));
+  }
+
+  private assertConstraints(row: Row, exclude?: Row): void {
+    const schema = this.schema();
+    for (const columns of schema.unique) {
+      if (this.findConflict(row, columns, exclude)) {
+        throw pgError('23505', `duplicate key value violates unique constraint "${this.table}_${columns.join('_')}_key"`, 409);
+      }
+    }
+    for (const fk of schema.foreignKeys || []) {
+      const value = row[fk.column];
+      if (value === null || value === undefined) continue;
+      const exists = this.db.rows(fk.table).some((r) => compare(r[fk.references], value) === 0);
+      if (!exists) {
+        throw pgError(
+          '23503',
+          `insert or update on table "${this.table}" violates foreign key constraint "${this.table}_${fk.column}_fkey"`,
+          409,
+        );
+      }
+    }
+  }
+
+  private runInsert(upsert: boolean): MemoryResponse {
+    const schema = this.schema();
+    const conflictColumns = this.onConflict ? this.onConflict.split(',').map((c) => c.trim()) : schema.unique[0];
+    const written: Row[] = [];
+
+    for (const values of this.payload) {
+      this.assertColumns(values);
+
+      if (upsert) {
+        const existing = this.findConflict(values, conflictColumns);
+        if (existing) {
+          if (this.ignoreDuplicates) continue;
+          const merged = { ...existing };
+          for (const [column, value] of Object.entries(values)) {
+            if (value !== undefined) merged[column] = value;
+          }
+          this.assertConstraints(merged, existing);
+          Object.assign(existing, merged);
+          written.push(existing);
+          continue;
+        }
+      }
+
+      const row = this.buildRow(values);
+      this.assertConstraints(row);
+      this.db.rows(this.table).push(row);
+      written.push(row);
+    }
+
+    this.db.scheduleSave();
+    return this.returnRows(written);
+  }
+
+  private runUpdate(): MemoryResponse {
+    this.assertColumns(this.patch);
+    const updated: Row[] = [];
+    for (const row of this.matchingRows()) {
+      const merged = { ...row };
+      for (const [column, value] of Object.entries(this.patch)) {
+        if (value !== undefined) merged[column] = value;
+      }
+      this.assertConstraints(merged, row);
+      Object.assign(row, merged);
+      updated.push(row);
+    }
+    if (updated.length) this.db.scheduleSave();
+    return this.returnRows(updated);
+  }
+
+  private runDelete(): MemoryResponse {
+    const removed = this.matchingRows();
+    if (removed.length) {
+      const removedSet = new Set(removed);
+      this.db.replace(this.table, this.db.rows(this.table).filter((r) => !removedSet.has(r)));
+      this.cascade(this.table, removed);
+      this.db.scheduleSave();
+    }
+    return this.returnRows(removed);
+  }
+
+  /** ON DELETE CASCADE for every table referencing the deleted rows */
+  private cascade(table: string, removed: Row[]): void {
+    for (const [childTable, schema] of Object.entries(MEMORY_SCHEMA)) {
+      for (const fk of schema.foreignKeys || []) {
+        if (fk.table !== table) continue;
+        const keys = new Set(removed.map((r) => String(r[fk.references])));
+        const rows = this.db.rows(childTable);
+        const orphans = rows.filter((r) => r[fk.column] !== null && keys.has(String(r[fk.column])));
+        if (orphans.length === 0) continue;
+        this.db.replace(childTable, rows.filter((r) => !orphans.includes(r)));
+        this.cascade(childTable, orphans);
+      }
+    }
+  }
+
+  private returnRows(rows: Row[]): MemoryResponse {
+    if (!this.returning) {
+      return { data: null, error: null, count: null, status: 201, statusText: 'Created' };
+    }
+    return this.respond(structuredClone(this.shape(this.table, rows, this.selectNode)));
+  }
+}
+
+function sortRows(
+  rows: Row[],
+  orders: { column: string; ascending: boolean; nullsFirst?: boolean }[],
+): Row[] {
+  return [...rows].sort((a, b) => {
+    for (const { column, ascending, nullsFirst } of orders) {
+      const av = a[column];
+      const bv = b[column];
+      const aNull = av === null || av === undefined;
+      const bNull = bv === null || bv === undefined;
+      if (aNull || bNull) {
+        if (aNull && bNull) continue;
+        // Postgres default: NULLS LAST for ASC, NULLS FIRST for DESC
+        const nullsGoFirst = nullsFirst ?? !ascending;
+        return aNull === nullsGoFirst ? -1 : 1;
+      }
+      const diff = compare(av, bv);
+      if (diff !== 0) return ascending ? diff : -diff;
+    }
+    return 0;
+  });
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+export interface MemoryClient {
+  from(table: string): MemoryQueryBuilder;
+  database: MemoryDatabase;
+}
+
+export function createMemoryClient(options: { file?: string } = {}): MemoryClient {
+  const database = new MemoryDatabase(options.file);
+  return {
+    database,
+    from: (table: string) => new MemoryQueryBuilder(database, table),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Alert subscription & notification repository
+ *
+ * Unlike the resort data repositories, errors (including missing tables) are
+ * always thrown so the alert routes can answer with a setup hint.
+ */
+
+import { supabase } from '../supabase.js';
+import type {
+  AlertSubscription,
+  AlertSubscriptionInsert,
+  AlertSubscriptionUpdate,
+  AlertNotification,
+  AlertNotificationInsert,
+  AlertChannel,
+  AlertChannelInsert,
+  AlertDelivery,
+  AlertDeliveryInsert,
+  AlertDeliveryUpdate,
+} from '../../types/database.js';
+import { dialectFor, assertWrite } from './dialect.js';
+
+export type AlertSubscriptionWithNotifications = AlertSubscription & {
+  notifications: AlertNotification[];
+};
+
+export type AlertNotificationWithSubscription = AlertNotification & {
+  subscription: AlertSubscription;
+};
+
+function unwrap<T>(result: { data: T | null; error: any }, fallback: T): T {
+  if (result.error) throw result.error;
+  return result.data ?? fallback;
+}
+
+export class AlertRepo {
+  // ============================================
+  // SUBSCRIPTIONS
+  // ============================================
+
+  /** Create or update the visitor's subscription for a scope (resort, state, region, ...) */
+  async upsertSubscription(subscription: AlertSubscriptionInsert): Promise<AlertSubscription> {
+    const t = await dialectFor('alert_subscriptions');
+    const row = unwrap(
+      await supabase
+        .from(t.name)
+        .upsert(t.toDb({ updated_at: new Date().toISOString(), ...subscription }), {
+          onConflict: t.cols(['visitor_id', 'scope_key']),
+        })
+        .select()
+        .single(),
+      null,
+    );
+    return t.fromDb<AlertSubscription>(row);
+  }
+
+  async findSubscription(id: number): Promise<AlertSubscription | null> {
+    const t = await dialectFor('alert_subscriptions');
+    const row = unwrap(await supabase.from(t.name).select('*').eq('id', id).maybeSingle(), null);
+    return row ? t.fromDb<AlertSubscription>(row) : null;
+  }
+
+  async findSubscriptionForVisitor(id: number, visitorId: string): Promise<AlertSubscription | null> {
+    const t = await dialectFor('alert_subscriptions');
+    const row = unwrap(
+      await supabase.from(t.name).select('*').eq('id', id).eq(t.col('visitor_id'), visitorId).maybeSingle(),
+      null,
+    );
+    return row ? t.fromDb<AlertSubscription>(row) : null;
+  }
+
+  /** Active subscriptions for a visitor with their notifications, newest first */
+  async listActiveForVisitor(visitorId: string): Promise<AlertSubscriptionWithNotifications[]> {
+    const t = await dialectFor('alert_subscriptions');
+    const n = await dialectFor('alert_notifications');
+    const rows = unwrap(
+      await supabase
+        .from(t.name)
+        .select(`*, ${n.name}(*)`)
+        .eq(t.col('visitor_id'), visitorId)
+        .eq(t.col('is_active'), true)
+        .order(t.col('created_at'), { ascending: false }),
+      [] as any[],
+    );
+    return rows.map((row) => ({
+      ...t.fromDb<AlertSubscription>(row),
+      notifications: (row[n.name] || []).map((notif: any) => n.fromDb<AlertNotification>(notif)),
+    }));
+  }
+
+  async listSubscriptionIds(options: { visitorId?: string; activeOnly?: boolean } = {}): Promise<number[]> {
+    const t = await dialectFor('alert_subscriptions');
+    let query = supabase.from(t.name).select('id');
+    if (options.visitorId) query = query.eq(t.col('visitor_id'), options.visitorId);
+    if (options.activeOnly) query = query.eq(t.col('is_active'), true);
+    const rows = unwrap(await query, [] as any[]);
+    return rows.map((r) => r.id);
+  }
+
+  async listActiveSubscriptions(): Promise<AlertSubscription[]> {
+    const t = await dialectFor('alert_subscriptions');
+    const rows = unwrap(await supabase.from(t.name).select('*').eq(t.col('is_active'), true), [] as any[]);
+    return rows.map((row) => t.fromDb<AlertSubscription>(row));
+  }
+
+  /** Active resort subscriptions per resort id (scopes of several resorts aren't counted) */
+  async countActiveByResort(): Promise<Map<string, number>> {
+    const t = await dialectFor('alert_subscriptions');
+    const rows = unwrap(
+      await supabase.from(t.name).select(t.col('resort_id')).eq(t.col('is_active'), true),
+      [] as any[],
+    );
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const resortId = t.fromDb<AlertSubscription>(row).resort_id;
+      if (!resortId) continue;
+      counts.set(resortId, (counts.get(resortId) || 0) + 1);
+    }
+    return counts;
+  }
+
+  /** Subscriptions (active or not) matching every option given */
+  async listSubscriptions(
+    options: { visitorId?: string; resortId?: string; scopeType?: AlertSubscription['scope_type'] } = {},
+  ): Promise<AlertSubscription[]> {
+    const t = await dialectFor('alert_subscriptions');
+    let query = supabase.from(t.name).select('*');
+    if (options.visitorId) query = query.eq(t.col('visitor_id'), options.visitorId);
+    if (options.resortId) query = query.eq(t.col('resort_id'), options.resortId);
+    if (options.scopeType) query = query.eq(t.col('scope_type'), options.scopeType);
+    const rows = unwrap(await query, [] as any[]);
+    return rows.map((row) => t.fromDb<AlertSubscription>(row));
+  }
+
+  async updateSubscription(id: number, patch: AlertSubscriptionUpdate): Promise<void> {
+    const t = await dialectFor('alert_subscriptions');
+    assertWrite(await supabase.from(t.name).update(t.toDb(patch)).eq('id', id));
+  }
+
+  async deleteSubscription(id: number): Promise<void> {
+    const t = await dialectFor('alert_subscriptions');
+    assertWrite(await supabase.from(t.name).delete().eq('id', id));
+  }
+
+  // ============================================
+  // NOTIFICATIONS
+  // ============================================
+
+  async listNotificationsForVisitor(
+    visitorId: string,
+    options: { includeRead?: boolean; limit?: number } = {},
+  ): Promise<AlertNotificationWithSubscription[]> {
+    const t = await dialectFor('alert_notifications');
+    const s = await dialectFor('alert_subscriptions');
+
+    let query = supabase
+      .from(t.name)
+      .select(`*, ${s.name}!inner(*)`)
+      .eq(`${s.name}.${s.col('visitor_id')}`, visitorId)
+      .order(t.col('created_at'), { ascending: false })
+      .limit(options.limit ?? 20);
+
+    if (!options.includeRead) {
+      query = query.eq(t.col('is_read'), false);
+    }
+
+    const rows = unwrap(await query, [] as any[]);
+    return rows.map((row) => ({
+      ...t.fromDb<AlertNotification>(row),
+      subscription: s.fromDb<AlertSubscription>(row[s.name]),
+    }));
+  }
+
+  /** Whether a notification of this kind for this forecast day was already created since `sinceIso` */
+  async hasRecentNotification(
+    subscriptionId: number,
+    forecastDate: string,
+    sinceIso: string,
+    kind: AlertNotification['kind'] = 'forecast',
+  ): Promise<boolean> {
+    const t = await dialectFor('alert_notifications');
+    const rows = unwrap(
+      await supabase
+        .from(t.name)
+        .select('id')
+        .eq(t.col('subscription_id'), subscriptionId)
+        .eq(t.col('forecast_date'), forecastDate)
+        .eq(t.col('kind'), kind)
+        .gte(t.col('created_at'), sinceIso)
+        .limit(1),
+      [] as any[],
+    );
+    return rows.length > 0;
+  }
+
+  async insertNotification(notification: AlertNotificationInsert): Promise<AlertNotification> {
+    const t = await dialectFor('alert_notifications');
+    const row = unwrap(await supabase.from(t.name).insert(t.toDb(notification)).select().single(), null);
+    return t.fromDb<AlertNotification>(row);
+  }
+
+  async markNotificationRead(id: number): Promise<void> {
+    const t = await dialectFor('alert_notifications');
+    assertWrite(await supabase.from(t.name).update(t.toDb({ is_read: true })).eq('id', id));
+  }
+
+  async markAllRead(subscriptionIds: number[]): Promise<void> {
+    if (subscriptionIds.length === 0) return;
+    const t = await dialectFor('alert_notifications');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .update(t.toDb({ is_read: true }))
+        .in(t.col('subscription_id'), subscriptionIds)
+        .eq(t.col('is_read'), false),
+    );
+  }
+
+  // ============================================
+  // CHANNELS
+  // ============================================
+
+  async insertChannel(channel: AlertChannelInsert): Promise<AlertChannel> {
+    const t = await dialectFor('alert_channels');
+    const now = new Date().toISOString();
+    const row = unwrap(
+      await supabase
+        .from(t.name)
+        .insert(t.toDb({ created_at: now, updated_at: now, ...channel }))
+        .select()
+        .single(),
+      null,
+    );
+    return t.fromDb<AlertChannel>(row);
+  }
+
+  async findChannel(id: number): Promise<AlertChannel | null> {
+    const t = await dialectFor('alert_channels');
+    const row = unwrap(await supabase.from(t.name).select('*').eq('id', id).maybeSingle(), null);
+    return row ? t.fromDb<AlertChannel>(row) : null;
+  }
+
+  /** A subscription's channels, oldest first */
+  async listChannels(subscriptionId: number, options: { activeOnly?: boolean } = {}): Promise<AlertChannel[]> {
+    const t = await dialectFor('alert_channels');
+    let query = supabase
+      .from(t.name)
+      .select('*')
+      .eq(t.col('subscription_id'), subscriptionId)
+      .order(t.col('created_at'), { ascending: true });
+    if (options.activeOnly) query = query.eq(t.col('is_active'), true);
+    const rows = unwrap(await query, [] as any[]);
+    return rows.map((row) => t.fromDb<AlertChannel>(row));
+  }
+
+  async deleteChannel(id: number): Promise<void> {
+    const t = await dialectFor('alert_channels');
+    assertWrite(await supabase.from(t.name).delete().eq('id', id));
+  }
+
+  // ============================================
+  // DELIVERIES
+  // ============================================
+
+  async insertDelivery(delivery: AlertDeliveryInsert): Promise<AlertDelivery> {
+    const t = await dialectFor('alert_deliveries');
+    const now = new Date().toISOString();
+    const row = unwrap(
+      await supabase
+        .from(t.name)
+        .insert(t.toDb({ created_at: now, updated_at: now, ...delivery }))
+        .select()
+        .single(),
+      null,
+    );
+    return t.fromDb<AlertDelivery>(row);
+  }
+
+  async findDelivery(id: number): Promise<AlertDelivery | null> {
+    const t = await dialectFor('alert_deliveries');
+    const row = unwrap(await supabase.from(t.name).select('*').eq('id', id).maybeSingle(), null);
+    return row ? t.fromDb<AlertDelivery>(row) : null;
+  }
+
+  async updateDelivery(id: number, patch: AlertDeliveryUpdate): Promise<void> {
+    const t = await dialectFor('alert_deliveries');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .update(t.toDb({ updated_at: new Date().toISOString(), ...patch }))
+        .eq('id', id),
+    );
+  }
+
+  /** The newest deliveries to some channels */
+  async listDeliveries(channelIds: number[], limit = 50): Promise<AlertDelivery[]> {
+    if (channelIds.length === 0) return [];
+    const t = await dialectFor('alert_deliveries');
+    const rows = unwrap(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .in(t.col('channel_id'), channelIds)
+        .order(t.col('created_at'), { ascending: false })
+        .limit(limit),
+      [] as any[],
+    );
+    return rows.map((row) => t.fromDb<AlertDelivery>(row));
+  }
+}
+
+export const alertRepo = new AlertRepo();
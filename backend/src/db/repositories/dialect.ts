@@ -0,0 +1,236 @@
+/**
+ * Schema dialect handling
+ *
+ * The backend runs against either the Supabase migration (snake_case tables
+ * such as `snow_reports.last_24_hours`) or a database created from the Prisma
+ * schema (PascalCase tables such as `SnowReport.last24Hours`). Repositories use
+ * `TableDialect` to translate table and column names so callers only ever see
+ * the snake_case row types from `types/database.ts`.
+ */
+
+import { supabase } from '../supabase.js';
+
+export type DbMode = 'snake' | 'prisma';
+
+export type TableName =
+  | 'resorts'
+  | 'resort_aliases'
+  | 'resort_external_ids'
+  | 'snow_reports'
+  | 'forecasts'
+  | 'hourly_forecasts'
+  | 'forecast_snapshots'
+  | 'alert_subscriptions'
+  | 'alert_notifications'
+  | 'alert_channels'
+  | 'alert_deliveries'
+  | 'users'
+  | 'favorites'
+  | 'search_logs'
+  | 'jobs';
+
+interface TableDefinition {
+  /** Table name in the Prisma schema */
+  prisma: string;
+  /** snake_case columns that also exist (camelCased) in the Prisma schema */
+  columns: string[];
+}
+
+const TABLES: Record<TableName, TableDefinition> = {
+  resorts: {
+    prisma: 'Resort',
+    columns: [
+      'id', 'name', 'location', 'country', 'state', 'sub_region', 'region', 'latitude', 'longitude', 'website_url',
+      'total_lifts', 'total_trails', 'vertical_drop', 'base_elevation', 'summit_elevation',
+      'created_at', 'updated_at',
+    ],
+  },
+  resort_aliases: {
+    prisma: 'ResortAlias',
+    columns: ['id', 'resort_id', 'alias', 'normalized', 'kind', 'created_at'],
+  },
+  resort_external_ids: {
+    prisma: 'ResortExternalId',
+    columns: ['id', 'resort_id', 'source', 'external_id', 'created_at'],
+  },
+  snow_reports: {
+    prisma: 'SnowReport',
+    columns: [
+      'id', 'resort_id', 'report_date', 'base_depth', 'last_24_hours', 'last_48_hours', 'last_7_days',
+      'season_total', 'lifts_open', 'trails_open', 'conditions', 'data_source', 'raw_response', 'provenance',
+      'confidence', 'sources_disagree', 'created_at',
+    ],
+  },
+  forecasts: {
+    prisma: 'Forecast',
+    columns: [
+      'id', 'resort_id', 'forecast_date', 'predicted_snow', 'temp_high', 'temp_low', 'condition',
+      'snow_probability', 'wind_speed', 'humidity', 'powder_score', 'snow_to_liquid', 'rain_risk',
+      'wind_loading', 'snow_line', 'snow_quality', 'fetched_at',
+    ],
+  },
+  hourly_forecasts: {
+    prisma: 'HourlyForecast',
+    columns: [
+      'id', 'resort_id', 'forecast_time', 'base_elevation', 'base_snow', 'base_rain', 'base_temp',
+      'base_wind_speed', 'summit_elevation', 'summit_snow', 'summit_rain', 'summit_temp', 'summit_wind_speed',
+      'freezing_level', 'source', 'fetched_at',
+    ],
+  },
+  forecast_snapshots: {
+    prisma: 'ForecastSnapshot',
+    columns: [
+      'id', 'resort_id', 'source', 'issued_at', 'issue_date', 'forecast_date', 'lead_days', 'predicted_snow',
+      'observed_snow', 'verified_at',
+    ],
+  },
+  alert_subscriptions: {
+    prisma: 'AlertSubscription',
+    columns: [
+      'id', 'visitor_id', 'email', 'resort_id', 'resort_name', 'scope_type', 'scope', 'scope_key', 'threshold', 'rule',
+      'timeframe', 'is_active', 'last_triggered', 'last_checked', 'created_at', 'updated_at',
+    ],
+  },
+  alert_notifications: {
+    prisma: 'AlertNotification',
+    columns: [
+      'id', 'subscription_id', 'title', 'message', 'predicted_snow', 'forecast_date', 'resorts', 'kind', 'is_read',
+      'created_at',
+    ],
+  },
+  alert_channels: {
+    prisma: 'AlertChannel',
+    columns: ['id', 'subscription_id', 'type', 'url', 'secret', 'is_active', 'created_at', 'updated_at'],
+  },
+  alert_deliveries: {
+    prisma: 'AlertDelivery',
+    columns: [
+      'id', 'channel_id', 'notification_id', 'payload', 'status', 'attempts', 'response_status', 'last_error',
+      'created_at', 'updated_at', 'delivered_at',
+    ],
+  },
+  users: {
+    prisma: 'User',
+    columns: ['id', 'email', 'name', 'visitor_id', 'preferences', 'created_at', 'updated_at'],
+  },
+  favorites: {
+    prisma: 'Favorite',
+    columns: ['id', 'user_id', 'visitor_id', 'resort_id', 'created_at'],
+  },
+  search_logs: {
+    prisma: 'SearchLog',
+    // The Prisma model logs `query`/`resortId` and timestamps as `searchedAt`
+    columns: ['id', 'query', 'resort_id'],
+  },
+  jobs: {
+    prisma: 'Job',
+    columns: [
+      'id', 'type', 'payload', 'status', 'dedupe_key', 'parent_id', 'priority', 'attempts', 'max_attempts',
+      'run_at', 'locked_by', 'locked_until', 'last_error', 'result', 'created_at', 'started_at', 'finished_at',
+      'updated_at',
+    ],
+  },
+};
+
+export function isMissingTableError(error: any): boolean {
+  return (
+    error &&
+    typeof error === 'object' &&
+    // Supabase PostgREST uses PGRST205 when a table/view isn't present
+    (error.code === 'PGRST205' ||
+      (typeof error.message === 'string' && error.message.includes('Could not find the table')))
+  );
+}
+
+let dbMode: DbMode | null = null;
+
+export async function detectDbMode(): Promise<DbMode> {
+  if (dbMode) return dbMode;
+
+  // Prefer snake_case tables (what this backend was originally written for),
+  // but fall back to Prisma-style PascalCase tables if those are what exist.
+  const snakeProbe = await supabase.from('resorts').select('id').limit(1);
+  if (!snakeProbe.error || !isMissingTableError(snakeProbe.error)) {
+    // Unexpected errors (permissions, etc.) still count as snake to keep behavior stable.
+    dbMode = 'snake';
+    return dbMode;
+  }
+
+  const prismaProbe = await supabase.from('Resort').select('id').limit(1);
+  dbMode = prismaProbe.error ? 'snake' : 'prisma';
+  return dbMode;
+}
+
+function toCamelCase(column: string): string {
+  return column.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export class TableDialect {
+  private definition: TableDefinition;
+
+  constructor(readonly table: TableName, readonly mode: DbMode) {
+    this.definition = TABLES[table];
+  }
+
+  /** Physical table name */
+  get name(): string {
+    return this.mode === 'prisma' ? this.definition.prisma : this.table;
+  }
+
+  /** Physical column name for a snake_case column */
+  col(column: string): string {
+    return this.mode === 'prisma' ? toCamelCase(column) : column;
+  }
+
+  /** Comma separated physical column list (for `onConflict` and selects) */
+  cols(columns: string[]): string {
+    return columns.map((c) => this.col(c)).join(',');
+  }
+
+  /**
+   * Convert a snake_case row into the physical shape. Columns the Prisma schema
+   * doesn't have are dropped so inserts don't fail on unknown columns.
+   */
+  toDb(row: Record<string, unknown>): Record<string, unknown> {
+    if (this.mode === 'snake') return row;
+
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (value === undefined || !this.definition.columns.includes(key)) continue;
+      out[toCamelCase(key)] = value;
+    }
+    return out;
+  }
+
+  /** Convert a physical record back to the snake_case row type */
+  fromDb<T>(record: any): T {
+    if (!record || this.mode === 'snake') return record as T;
+
+    const out: Record<string, unknown> = {};
+    for (const column of this.definition.columns) {
+      out[column] = record[toCamelCase(column)] ?? null;
+    }
+    return out as T;
+  }
+}
+
+export async function dialectFor(table: TableName): Promise<TableDialect> {
+  return new TableDialect(table, await detectDbMode());
+}
+
+/**
+ * Unwrap a read result. Missing tables read as `fallback` so the API keeps
+ * working against a partially migrated database; other errors are thrown.
+ */
+export function readOrFallback<T>(result: { data: T | null; error: any }, fallback: T): T {
+  if (result.error) {
+    if (isMissingTableError(result.error)) return fallback;
+    throw result.error;
+  }
+  return result.data ?? fallback;
+}
+
+/** Throw on any write error */
+export function assertWrite(result: { error: any }): void {
+  if (result.error) throw result.error;
+}
@@ -0,0 +1,59 @@
+/**
+ * Favorite repository
+ *
+ * Anonymous visitors keep their favorites in the browser and sync the list
+ * here, keyed by `visitor_id`.
+ */
+
+import { supabase } from '../supabase.js';
+import type { Favorite } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+export class FavoriteRepo {
+  async listForVisitor(visitorId: string): Promise<Favorite[]> {
+    const t = await dialectFor('favorites');
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .eq(t.col('visitor_id'), visitorId)
+        .order(t.col('created_at'), { ascending: true }),
+      [] as any[],
+    );
+    return rows.map((r) => t.fromDb<Favorite>(r));
+  }
+
+  /** Make a visitor's favorites exactly `resortIds` */
+  async replaceForVisitor(visitorId: string, resortIds: string[]): Promise<void> {
+    const t = await dialectFor('favorites');
+    const existing = await this.listForVisitor(visitorId);
+    const removed = existing.filter((f) => !resortIds.includes(f.resort_id)).map((f) => f.id);
+
+    if (removed.length > 0) {
+      assertWrite(await supabase.from(t.name).delete().in('id', removed));
+    }
+    if (resortIds.length > 0) {
+      assertWrite(
+        await supabase.from(t.name).upsert(
+          resortIds.map((resortId) => t.toDb({ visitor_id: visitorId, resort_id: resortId })),
+          { onConflict: t.cols(['visitor_id', 'resort_id']), ignoreDuplicates: true },
+        ),
+      );
+    }
+  }
+
+  /** Number of visitors and users that favorited each resort */
+  async countByResort(): Promise<Map<string, number>> {
+    const t = await dialectFor('favorites');
+    const rows = readOrFallback(await supabase.from(t.name).select(t.col('resort_id')), [] as any[]);
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const resortId = t.fromDb<Favorite>(row).resort_id;
+      counts.set(resortId, (counts.get(resortId) || 0) + 1);
+    }
+    return counts;
+  }
+}
+
+export const favoriteRepo = new FavoriteRepo();
@@ -0,0 +1,101 @@
+/**
+ * Forecast repository
+ */
+
+import { supabase, getToday } from '../supabase.js';
+import type { Forecast, ForecastInsert, Resort } from '../../types/database.js';
+import type { PlaceFilter } from '../../services/regions.js';
+import { dialectFor, readOrFallback, assertWrite, type TableDialect } from './dialect.js';
+
+export type ForecastWithResort = Forecast & { resort: Resort };
+
+/**
+ * `fetched_at` of the sample forecasts seeded into the local store: old enough
+ * that every freshness check refetches them
+ */
+export const SAMPLE_FETCHED_AT = '1970-01-01T00:00:00.000Z';
+
+export interface ForecastQueryOptions {
+  resortId?: string;
+  resortIds?: string[];
+  /** Inclusive forecast_date range (YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+  minSnow?: number;
+  fetchedSince?: string;
+  orderBy?: 'date' | 'snow';
+  limit?: number;
+  /** Leave out the local store's sample forecasts */
+  excludeSamples?: boolean;
+}
+
+export class ForecastRepo {
+  async list(options: ForecastQueryOptions = {}): Promise<Forecast[]> {
+    const t = await dialectFor('forecasts');
+    const query = this.applyFilters(supabase.from(t.name).select('*'), t, options);
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<Forecast>(r));
+  }
+
+  /** Forecasts from today onwards for a single resort, soonest first */
+  async listUpcoming(resortId: string, limit = 10): Promise<Forecast[]> {
+    return this.list({ resortId, from: getToday(), orderBy: 'date', limit });
+  }
+
+  /**
+   * Forecasts joined with their resort. `place` matches the resort's
+   * country, state and region (every field set must match).
+   */
+  async listWithResorts(
+    options: ForecastQueryOptions & { place?: PlaceFilter | null } = {},
+  ): Promise<ForecastWithResort[]> {
+    const t = await dialectFor('forecasts');
+    const r = await dialectFor('resorts');
+
+    let query = this.applyFilters(supabase.from(t.name).select(`*, ${r.name}!inner(*)`), t, options);
+
+    for (const column of ['country', 'state', 'region'] as const) {
+      const value = options.place?.[column];
+      if (!value) continue;
+      // Filters on an embedded table need `foreignTable` and unprefixed columns;
+      // values are quoted and stripped to letters, digits and spaces (Western Canada, 01)
+      const safe = value.replace(/[^A-Za-z0-9 -]/g, '');
+      query = (query as any).or(`${r.col(column)}.eq."${safe}"`, { foreignTable: r.name });
+    }
+
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((row) => ({
+      ...t.fromDb<Forecast>(row),
+      resort: r.fromDb<Resort>(row[r.name]),
+    }));
+  }
+
+  async upsert(forecast: ForecastInsert): Promise<void> {
+    const t = await dialectFor('forecasts');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .upsert(t.toDb(forecast), { onConflict: t.cols(['resort_id', 'forecast_date']) }),
+    );
+  }
+
+  private applyFilters(query: any, t: TableDialect, options: ForecastQueryOptions) {
+    if (options.resortId) query = query.eq(t.col('resort_id'), options.resortId);
+    if (options.resortIds) query = query.in(t.col('resort_id'), options.resortIds);
+    if (options.from) query = query.gte(t.col('forecast_date'), options.from);
+    if (options.to) query = query.lte(t.col('forecast_date'), options.to);
+    if (options.minSnow !== undefined) query = query.gte(t.col('predicted_snow'), options.minSnow);
+    if (options.fetchedSince) query = query.gte(t.col('fetched_at'), options.fetchedSince);
+    if (options.excludeSamples) query = query.gt(t.col('fetched_at'), SAMPLE_FETCHED_AT);
+
+    if (options.orderBy === 'snow') {
+      query = query.order(t.col('predicted_snow'), { ascending: false });
+    } else if (options.orderBy === 'date') {
+      query = query.order(t.col('forecast_date'), { ascending: true });
+    }
+    if (options.limit) query = query.limit(options.limit);
+    return query;
+  }
+}
+
+export const forecastRepo = new ForecastRepo();
@@ -0,0 +1,94 @@
+/**
+ * Forecast snapshot repository
+ *
+ * Snapshots are write-once, one row per resort/source/day and issue time;
+ * only verification fills in the observed value.
+ */
+
+import { supabase } from '../supabase.js';
+import type { ForecastSnapshot, ForecastSnapshotInsert } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite, type TableDialect } from './dialect.js';
+
+export interface ForecastSnapshotQueryOptions {
+  resortId?: string;
+  resortIds?: string[];
+  source?: string;
+  leadDays?: number;
+  /** Inclusive forecast_date range (YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+}
+
+export class ForecastSnapshotRepo {
+  /** Insert snapshots, ignoring any that were already recorded */
+  async recordMany(snapshots: ForecastSnapshotInsert[]): Promise<void> {
+    if (snapshots.length === 0) return;
+    const t = await dialectFor('forecast_snapshots');
+    assertWrite(
+      await supabase.from(t.name).upsert(
+        snapshots.map((s) => t.toDb(s)),
+        { onConflict: t.cols(['resort_id', 'source', 'forecast_date', 'issued_at']), ignoreDuplicates: true },
+      ),
+    );
+  }
+
+  /**
+   * Unverified snapshots for forecast days from `fromDate` up to (not
+   * including) `beforeDate`, oldest first
+   */
+  async listUnverified(fromDate: string, beforeDate: string, limit = 1000): Promise<ForecastSnapshot[]> {
+    const t = await dialectFor('forecast_snapshots');
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .is(t.col('verified_at'), null)
+        .gte(t.col('forecast_date'), fromDate)
+        .lt(t.col('forecast_date'), beforeDate)
+        .order(t.col('forecast_date'), { ascending: true })
+        .limit(limit),
+      [] as any[],
+    );
+    return rows.map((r) => t.fromDb<ForecastSnapshot>(r));
+  }
+
+  async markVerified(id: number, observedSnow: number): Promise<void> {
+    const t = await dialectFor('forecast_snapshots');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .update(t.toDb({ observed_snow: observedSnow, verified_at: new Date().toISOString() }))
+        .eq(t.col('id'), id),
+    );
+  }
+
+  /** Snapshots that have an observed value to score against */
+  async listVerified(options: ForecastSnapshotQueryOptions = {}): Promise<ForecastSnapshot[]> {
+    const t = await dialectFor('forecast_snapshots');
+    const query = this.applyFilters(supabase.from(t.name).select('*').not(t.col('verified_at'), 'is', null), t, options);
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<ForecastSnapshot>(r));
+  }
+
+  /** Snapshots in issue order (oldest first), e.g. to follow how a day's forecast moved */
+  async list(options: ForecastSnapshotQueryOptions = {}): Promise<ForecastSnapshot[]> {
+    const t = await dialectFor('forecast_snapshots');
+    const query = this.applyFilters(supabase.from(t.name).select('*'), t, options).order(t.col('issued_at'), {
+      ascending: true,
+    });
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<ForecastSnapshot>(r));
+  }
+
+  private applyFilters(query: any, t: TableDialect, options: ForecastSnapshotQueryOptions) {
+    if (options.resortId) query = query.eq(t.col('resort_id'), options.resortId);
+    if (options.resortIds) query = query.in(t.col('resort_id'), options.resortIds);
+    if (options.source) query = query.eq(t.col('source'), options.source);
+    if (options.leadDays !== undefined) query = query.eq(t.col('lead_days'), options.leadDays);
+    if (options.from) query = query.gte(t.col('forecast_date'), options.from);
+    if (options.to) query = query.lte(t.col('forecast_date'), options.to);
+    return query;
+  }
+}
+
+export const forecastSnapshotRepo = new ForecastSnapshotRepo();
@@ -0,0 +1,52 @@
+/**
+ * Hourly forecast repository
+ */
+
+import { supabase } from '../supabase.js';
+import type { HourlyForecast, HourlyForecastInsert } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+export class HourlyForecastRepo {
+  /** Hours from `fromIso` onwards for a resort, soonest first */
+  async listForResort(resortId: string, fromIso: string, limit?: number): Promise<HourlyForecast[]> {
+    const t = await dialectFor('hourly_forecasts');
+    let query = supabase
+      .from(t.name)
+      .select('*')
+      .eq(t.col('resort_id'), resortId)
+      .gte(t.col('forecast_time'), fromIso)
+      .order(t.col('forecast_time'), { ascending: true });
+    if (limit) query = query.limit(limit);
+
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<HourlyForecast>(r));
+  }
+
+  /** One row per resort per hour */
+  async upsertMany(forecasts: HourlyForecastInsert[]): Promise<void> {
+    if (forecasts.length === 0) return;
+    const t = await dialectFor('hourly_forecasts');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .upsert(
+          forecasts.map((f) => t.toDb(f)),
+          { onConflict: t.cols(['resort_id', 'forecast_time']) },
+        ),
+    );
+  }
+
+  /** Drop a resort's hours before `beforeIso` */
+  async deleteBefore(resortId: string, beforeIso: string): Promise<void> {
+    const t = await dialectFor('hourly_forecasts');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .delete()
+        .eq(t.col('resort_id'), resortId)
+        .lt(t.col('forecast_time'), beforeIso),
+    );
+  }
+}
+
+export const hourlyForecastRepo = new HourlyForecastRepo();
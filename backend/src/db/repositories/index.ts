@@ -0,0 +1,21 @@
+/**
+ * Typed repositories over the Supabase client.
+ *
+ * Every repository speaks the snake_case row types from `types/database.ts`
+ * and works against both the Supabase migration and the Prisma schema.
+ */
+
+export * from './dialect.js';
+export * from './resortRepo.js';
+export * from './resortAliasRepo.js';
+export * from './resortExternalIdRepo.js';
+export * from './resortMergeRepo.js';
+export * from './snowReportRepo.js';
+export * from './forecastRepo.js';
+export * from './hourlyForecastRepo.js';
+export * from './forecastSnapshotRepo.js';
+export * from './alertRepo.js';
+export * from './favoriteRepo.js';
+export * from './userRepo.js';
+export * from './searchLogRepo.js';
+export * from './jobRepo.js';
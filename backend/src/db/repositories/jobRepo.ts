@@ -0,0 +1,217 @@
+/**
+ * Job repository
+ *
+ * Claiming is optimistic: a candidate row is only taken if it is still in the
+ * state it was read in (same status and `updated_at`), so two workers never
+ * run the same job even without database-side locking.
+ */
+
+import { supabase, parseDbTimestamp } from '../supabase.js';
+import type { Job, JobInsert, JobStatus, JobUpdate } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite, isMissingTableError } from './dialect.js';
+
+export interface JobListOptions {
+  status?: JobStatus;
+  type?: string;
+  parentId?: number;
+  limit?: number;
+}
+
+export class JobRepo {
+  /**
+   * Insert a job. Returns null when a queued or running job with the same
+   * `dedupe_key` already exists.
+   */
+  async enqueue(job: JobInsert): Promise<Job | null> {
+    const t = await dialectFor('jobs');
+    const now = new Date().toISOString();
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .upsert(t.toDb({ run_at: now, created_at: now, updated_at: now, ...job }), {
+          onConflict: t.col('dedupe_key'),
+          ignoreDuplicates: true,
+        })
+        .select('*'),
+      [] as any[],
+    );
+    return rows.length > 0 ? t.fromDb<Job>(rows[0]) : null;
+  }
+
+  async findById(id: number): Promise<Job | null> {
+    const t = await dialectFor('jobs');
+    const row = readOrFallback(await supabase.from(t.name).select('*').eq('id', id).maybeSingle(), null);
+    return row ? t.fromDb<Job>(row) : null;
+  }
+
+  async findByDedupeKey(dedupeKey: string): Promise<Job | null> {
+    const t = await dialectFor('jobs');
+    const row = readOrFallback(
+      await supabase.from(t.name).select('*').eq(t.col('dedupe_key'), dedupeKey).maybeSingle(),
+      null,
+    );
+    return row ? t.fromDb<Job>(row) : null;
+  }
+
+  /** Most recently created job of a type */
+  async findLatest(type: string): Promise<Job | null> {
+    const t = await dialectFor('jobs');
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .eq(t.col('type'), type)
+        .order(t.col('created_at'), { ascending: false })
+        .limit(1),
+      [] as any[],
+    );
+    return rows.length > 0 ? t.fromDb<Job>(rows[0]) : null;
+  }
+
+  async list(options: JobListOptions = {}): Promise<Job[]> {
+    const t = await dialectFor('jobs');
+    let query = supabase.from(t.name).select('*').order(t.col('created_at'), { ascending: false });
+
+    if (options.status) query = query.eq(t.col('status'), options.status);
+    if (options.type) query = query.eq(t.col('type'), options.type);
+    if (options.parentId !== undefined) query = query.eq(t.col('parent_id'), options.parentId);
+    query = query.limit(options.limit ?? 50);
+
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<Job>(r));
+  }
+
+  /** Job counts by status, optionally for the children of one job */
+  async countByStatus(parentId?: number): Promise<Record<JobStatus, number>> {
+    const t = await dialectFor('jobs');
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+    for (const status of Object.keys(counts) as JobStatus[]) {
+      let query = supabase.from(t.name).select('id', { count: 'exact', head: true }).eq(t.col('status'), status);
+      if (parentId !== undefined) query = query.eq(t.col('parent_id'), parentId);
+      const { count, error } = await query;
+      if (error && !isMissingTableError(error)) throw error;
+      counts[status] = count ?? 0;
+    }
+    return counts;
+  }
+
+  /**
+   * Runnable jobs: queued and due, or running with an expired lease (the
+   * worker died), highest priority first and then oldest `run_at`.
+   */
+  async listRunnable(nowIso: string, types: string[], limit: number): Promise<Job[]> {
+    if (types.length === 0 || limit <= 0) return [];
+    const t = await dialectFor('jobs');
+
+    const due = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .eq(t.col('status'), 'queued')
+        .in(t.col('type'), types)
+        .lte(t.col('run_at'), nowIso)
+        .order(t.col('priority'), { ascending: false })
+        .order(t.col('run_at'), { ascending: true })
+        .limit(limit),
+      [] as any[],
+    );
+    const expired = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .eq(t.col('status'), 'running')
+        .in(t.col('type'), types)
+        .lt(t.col('locked_until'), nowIso)
+        .limit(limit),
+      [] as any[],
+    );
+
+    return [...expired, ...due]
+      .map((r) => t.fromDb<Job>(r))
+      .sort((a, b) => b.priority - a.priority || parseDbTimestamp(a.run_at) - parseDbTimestamp(b.run_at))
+      .slice(0, limit);
+  }
+
+  /**
+   * Take a job read by `listRunnable`. Returns the claimed job, or null if
+   * another worker got it first. A job whose lease expired after its last
+   * attempt (the worker died on it every time) is marked failed instead.
+   */
+  async claim(job: Job, workerId: string, leaseUntil: string): Promise<Job | null> {
+    const t = await dialectFor('jobs');
+    const now = new Date().toISOString();
+    const exhausted = job.status === 'running' && job.attempts >= job.max_attempts;
+    const patch: JobUpdate = exhausted
+      ? {
+          status: 'failed',
+          locked_by: null,
+          locked_until: null,
+          last_error: `Lease expired (attempt ${job.attempts}/${job.max_attempts})`,
+          dedupe_key: null,
+          finished_at: now,
+          updated_at: now,
+        }
+      : {
+          status: 'running',
+          locked_by: workerId,
+          locked_until: leaseUntil,
+          attempts: job.attempts + 1,
+          started_at: now,
+          updated_at: now,
+        };
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .update(t.toDb(patch))
+        .eq('id', job.id)
+        .eq(t.col('status'), job.status)
+        .eq(t.col('updated_at'), job.updated_at)
+        .select('*'),
+      [] as any[],
+    );
+    return rows.length > 0 && !exhausted ? t.fromDb<Job>(rows[0]) : null;
+  }
+
+  /** Extend the lease of a job this worker holds. Returns false if the lease was lost. */
+  async extendLease(id: number, workerId: string, leaseUntil: string): Promise<boolean> {
+    const t = await dialectFor('jobs');
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        // Bumping updated_at keeps another worker from claiming it as expired meanwhile
+        .update(t.toDb({ locked_until: leaseUntil, updated_at: new Date().toISOString() }))
+        .eq('id', id)
+        .eq(t.col('locked_by'), workerId)
+        .eq(t.col('status'), 'running')
+        .select('id'),
+      [] as any[],
+    );
+    return rows.length > 0;
+  }
+
+  /** Update a job this worker holds */
+  async finish(id: number, workerId: string, patch: JobUpdate): Promise<void> {
+    const t = await dialectFor('jobs');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .update(t.toDb({ ...patch, locked_by: null, locked_until: null, updated_at: new Date().toISOString() }))
+        .eq('id', id)
+        .eq(t.col('locked_by'), workerId),
+    );
+  }
+
+  /** Delete finished jobs created before `beforeIso` */
+  async deleteFinishedBefore(beforeIso: string): Promise<void> {
+    const t = await dialectFor('jobs');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .delete()
+        .in(t.col('status'), ['succeeded', 'failed'])
+        .lt(t.col('created_at'), beforeIso),
+    );
+  }
+}
+
+export const jobRepo = new JobRepo();
@@ -0,0 +1,30 @@
+/**
+ * Resort alias repository
+ *
+ * Former names, abbreviations and nicknames used by resort search.
+ */
+
+import { supabase } from '../supabase.js';
+import type { ResortAlias, ResortAliasInsert } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+export class ResortAliasRepo {
+  async listAll(): Promise<ResortAlias[]> {
+    const t = await dialectFor('resort_aliases');
+    const rows = readOrFallback(await supabase.from(t.name).select('*'), [] as any[]);
+    return rows.map((r) => t.fromDb<ResortAlias>(r));
+  }
+
+  async upsertMany(aliases: ResortAliasInsert[]): Promise<void> {
+    if (aliases.length === 0) return;
+    const t = await dialectFor('resort_aliases');
+    assertWrite(
+      await supabase.from(t.name).upsert(
+        aliases.map((a) => t.toDb(a)),
+        { onConflict: t.cols(['resort_id', 'normalized']), ignoreDuplicates: true },
+      ),
+    );
+  }
+}
+
+export const resortAliasRepo = new ResortAliasRepo();
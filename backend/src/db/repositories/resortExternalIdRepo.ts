@@ -0,0 +1,48 @@
+/**
+ * Resort external id repository
+ *
+ * The first resort an external id is linked to keeps it; merging resorts
+ * re-points the links of the merged duplicate.
+ */
+
+import { supabase } from '../supabase.js';
+import type { ResortExternalId, ResortExternalIdInsert } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+export class ResortExternalIdRepo {
+  async findResortId(source: string, externalId: string): Promise<string | null> {
+    const t = await dialectFor('resort_external_ids');
+    const row = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select(t.col('resort_id'))
+        .eq(t.col('source'), source)
+        .eq(t.col('external_id'), externalId)
+        .maybeSingle(),
+      null as any,
+    );
+    return row ? t.fromDb<ResortExternalId>(row).resort_id : null;
+  }
+
+  async listForResort(resortId: string): Promise<ResortExternalId[]> {
+    const t = await dialectFor('resort_external_ids');
+    const rows = readOrFallback(
+      await supabase.from(t.name).select('*').eq(t.col('resort_id'), resortId),
+      [] as any[],
+    );
+    return rows.map((r) => t.fromDb<ResortExternalId>(r));
+  }
+
+  async linkMany(links: ResortExternalIdInsert[]): Promise<void> {
+    if (links.length === 0) return;
+    const t = await dialectFor('resort_external_ids');
+    assertWrite(
+      await supabase.from(t.name).upsert(
+        links.map((l) => t.toDb(l)),
+        { onConflict: t.cols(['source', 'external_id']), ignoreDuplicates: true },
+      ),
+    );
+  }
+}
+
+export const resortExternalIdRepo = new ResortExternalIdRepo();
@@ -0,0 +1,53 @@
+/**
+ * Resort merge repository
+ *
+ * Moves the rows of every resort-owned table from a duplicate resort to the
+ * resort it is merged into.
+ */
+
+import { supabase } from '../supabase.js';
+import { dialectFor, readOrFallback, assertWrite, type TableName } from './dialect.js';
+
+export interface MoveResult {
+  moved: number;
+  /** Rows left behind because the target already had a row with the same key */
+  skipped: number;
+}
+
+export class ResortMergeRepo {
+  /**
+   * Re-point `fromId`'s rows in `table` to `toId`. When `keyColumns` are given,
+   * rows whose key (besides `resort_id`) the target already has are skipped:
+   * the target's row wins and the skipped row goes when the duplicate resort
+   * is deleted.
+   */
+  async moveRows(table: TableName, fromId: string, toId: string, keyColumns: string[] = []): Promise<MoveResult> {
+    const t = await dialectFor(table);
+    const load = async (resortId: string) =>
+      readOrFallback(await supabase.from(t.name).select('*').eq(t.col('resort_id'), resortId), [] as any[]).map(
+        (r) => t.fromDb<Record<string, any>>(r),
+      );
+
+    const rows = await load(fromId);
+    if (rows.length === 0) return { moved: 0, skipped: 0 };
+
+    const keyOf = (row: Record<string, any>) => keyColumns.map((c) => String(row[c] ?? '')).join('|');
+    const taken = new Set(keyColumns.length > 0 ? (await load(toId)).map(keyOf) : []);
+
+    let moved = 0;
+    let skipped = 0;
+    for (const row of rows) {
+      if (keyColumns.length > 0 && taken.has(keyOf(row))) {
+        skipped++;
+        continue;
+      }
+      assertWrite(
+        await supabase.from(t.name).update(t.toDb({ resort_id: toId })).eq(t.col('id'), row.id),
+      );
+      moved++;
+    }
+    return { moved, skipped };
+  }
+}
+
+export const resortMergeRepo = new ResortMergeRepo();
@@ -0,0 +1,103 @@
+/**
+ * Resort repository
+ */
+
+import { supabase } from '../supabase.js';
+import type { Resort, ResortInsert, ResortUpdate } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite, type TableDialect } from './dialect.js';
+
+export interface ResortListOptions {
+  ids?: string[];
+  country?: string;
+  region?: string;
+  state?: string;
+  limit?: number;
+  /** Only resorts with real coordinates (excludes 0,0 placeholders) */
+  withCoordinates?: boolean;
+}
+
+export class ResortRepo {
+  async list(options: ResortListOptions = {}): Promise<Resort[]> {
+    const t = await dialectFor('resorts');
+    let query = supabase.from(t.name).select('*').order('name', { ascending: true });
+
+    if (options.ids) query = query.in('id', options.ids);
+    if (options.country) query = query.eq(t.col('country'), options.country);
+    if (options.region) query = query.eq(t.col('region'), options.region);
+    if (options.state) query = query.eq(t.col('state'), options.state);
+    if (options.withCoordinates) {
+      query = query.neq(t.col('latitude'), 0).neq(t.col('longitude'), 0);
+    }
+    if (options.limit) query = query.limit(options.limit);
+
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<Resort>(r));
+  }
+
+  async findById(id: string): Promise<Resort | null> {
+    const t = await dialectFor('resorts');
+    const row = readOrFallback(await supabase.from(t.name).select('*').eq('id', id).maybeSingle(), null);
+    return row ? t.fromDb<Resort>(row) : null;
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const t = await dialectFor('resorts');
+    const row = readOrFallback(await supabase.from(t.name).select('id').eq('id', id).maybeSingle(), null);
+    return !!row;
+  }
+
+  /** Resort ids, most recently updated first */
+  async listIds(limit = 500): Promise<string[]> {
+    const t = await dialectFor('resorts');
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('id')
+        .order(t.col('updated_at'), { ascending: false })
+        .limit(limit),
+      [] as any[],
+    );
+    return rows.map((r) => r.id).filter(Boolean);
+  }
+
+  async upsert(resort: ResortInsert): Promise<void> {
+    const t = await dialectFor('resorts');
+    assertWrite(await supabase.from(t.name).upsert(t.toDb(this.withDefaults(t, resort)), { onConflict: 'id' }));
+  }
+
+  async insert(resort: ResortInsert): Promise<void> {
+    const t = await dialectFor('resorts');
+    assertWrite(await supabase.from(t.name).insert(t.toDb(this.withDefaults(t, resort))));
+  }
+
+  /** Update some columns of an existing resort */
+  async update(id: string, fields: ResortUpdate): Promise<void> {
+    const t = await dialectFor('resorts');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .update(t.toDb({ ...fields, updated_at: new Date().toISOString() }))
+        .eq('id', id),
+    );
+  }
+
+  /** Delete a resort; its reports, forecasts and subscriptions cascade */
+  async delete(id: string): Promise<void> {
+    const t = await dialectFor('resorts');
+    assertWrite(await supabase.from(t.name).delete().eq('id', id));
+  }
+
+  private withDefaults(t: TableDialect, resort: ResortInsert): ResortInsert {
+    const row: ResortInsert = { updated_at: new Date().toISOString(), ...resort };
+    if (t.mode === 'prisma') {
+      // The Prisma schema has no database defaults for these columns
+      row.state ??= 'US';
+      row.region ??= 'Other';
+      row.latitude ??= 0;
+      row.longitude ??= 0;
+    }
+    return row;
+  }
+}
+
+export const resortRepo = new ResortRepo();
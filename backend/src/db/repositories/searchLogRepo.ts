@@ -0,0 +1,38 @@
+/**
+ * Search log repository
+ */
+
+import { supabase } from '../supabase.js';
+import type { SearchLog, SearchLogInsert } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+export class SearchLogRepo {
+  async insert(log: SearchLogInsert): Promise<void> {
+    const t = await dialectFor('search_logs');
+    assertWrite(await supabase.from(t.name).insert(t.toDb(log)));
+  }
+
+  /** Searches that resolved to each resort since `sinceIso` */
+  async countByResortSince(sinceIso: string): Promise<Map<string, number>> {
+    const t = await dialectFor('search_logs');
+    // The Prisma model timestamps searches as `searchedAt`
+    const timestamp = t.mode === 'prisma' ? 'searchedAt' : 'created_at';
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select(t.col('resort_id'))
+        .not(t.col('resort_id'), 'is', null)
+        .gte(timestamp, sinceIso),
+      [] as any[],
+    );
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const resortId = t.fromDb<SearchLog>(row).resort_id;
+      if (resortId) counts.set(resortId, (counts.get(resortId) || 0) + 1);
+    }
+    return counts;
+  }
+}
+
+export const searchLogRepo = new SearchLogRepo();
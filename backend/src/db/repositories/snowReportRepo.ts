@@ -0,0 +1,112 @@
+/**
+ * Snow report repository
+ */
+
+import { supabase } from '../supabase.js';
+import type { SnowReport, SnowReportInsert } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+/** `data_source` of the sample reports seeded into the local store */
+export const SAMPLE_DATA_SOURCE = 'sample';
+
+export interface ReportRangeOptions {
+  /** Leave out the local store's sample reports */
+  excludeSamples?: boolean;
+}
+
+export class SnowReportRepo {
+  /** Most recently written report for a resort */
+  async findLatest(resortId: string): Promise<SnowReport | null> {
+    const t = await dialectFor('snow_reports');
+    const row = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('*')
+        .eq(t.col('resort_id'), resortId)
+        .order(t.col('created_at'), { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      null,
+    );
+    return row ? t.fromDb<SnowReport>(row) : null;
+  }
+
+  /** Latest report per resort, keyed by resort id */
+  async findLatestByResort(): Promise<Map<string, SnowReport>> {
+    const t = await dialectFor('snow_reports');
+    const rows = readOrFallback(
+      await supabase.from(t.name).select('*').order(t.col('created_at'), { ascending: false }),
+      [] as any[],
+    );
+
+    const latest = new Map<string, SnowReport>();
+    for (const row of rows) {
+      const report = t.fromDb<SnowReport>(row);
+      if (!latest.has(report.resort_id)) latest.set(report.resort_id, report);
+    }
+    return latest;
+  }
+
+  async hasReportSince(resortId: string, sinceIso: string): Promise<boolean> {
+    const t = await dialectFor('snow_reports');
+    const rows = readOrFallback(
+      await supabase
+        .from(t.name)
+        .select('id')
+        .eq(t.col('resort_id'), resortId)
+        .gte(t.col('created_at'), sinceIso)
+        .limit(1),
+      [] as any[],
+    );
+    return rows.length > 0;
+  }
+
+  /** A resort's reports in an inclusive report_date range, oldest first */
+  async listForResort(resortId: string, from: string, to: string): Promise<SnowReport[]> {
+    return this.listForResorts([resortId], from, to);
+  }
+
+  /** Several resorts' reports in an inclusive report_date range, oldest first */
+  async listForResorts(
+    resortIds: string[],
+    from: string,
+    to: string,
+    options: ReportRangeOptions = {},
+  ): Promise<SnowReport[]> {
+    const t = await dialectFor('snow_reports');
+    let query = supabase
+      .from(t.name)
+      .select('*')
+      .in(t.col('resort_id'), resortIds)
+      .gte(t.col('report_date'), from)
+      .lte(t.col('report_date'), to);
+    if (options.excludeSamples) query = query.neq(t.col('data_source'), SAMPLE_DATA_SOURCE);
+    const rows = readOrFallback(await query.order(t.col('report_date'), { ascending: true }), [] as any[]);
+    return rows.map((r) => t.fromDb<SnowReport>(r));
+  }
+
+  /** Reports with report_date in the inclusive range (YYYY-MM-DD) */
+  async listBetween(from: string, to: string, options: ReportRangeOptions = {}): Promise<SnowReport[]> {
+    const t = await dialectFor('snow_reports');
+    let query = supabase
+      .from(t.name)
+      .select('*')
+      .gte(t.col('report_date'), from)
+      .lte(t.col('report_date'), to);
+    if (options.excludeSamples) query = query.neq(t.col('data_source'), SAMPLE_DATA_SOURCE);
+    const rows = readOrFallback(await query, [] as any[]);
+    return rows.map((r) => t.fromDb<SnowReport>(r));
+  }
+
+  /** One report per resort per day */
+  async upsert(report: SnowReportInsert): Promise<void> {
+    const t = await dialectFor('snow_reports');
+    assertWrite(
+      await supabase
+        .from(t.name)
+        .upsert(t.toDb(report), { onConflict: t.cols(['resort_id', 'report_date']) }),
+    );
+  }
+}
+
+export const snowReportRepo = new SnowReportRepo();
@@ -0,0 +1,60 @@
+/**
+ * User repository
+ *
+ * Anonymous visitors get a `users` row, keyed by `visitor_id`, the first time
+ * they save a preference (such as their units) alongside their favorites.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { supabase } from '../supabase.js';
+import type { Json, User } from '../../types/database.js';
+import { dialectFor, readOrFallback, assertWrite } from './dialect.js';
+
+export type UserPreferences = Record<string, Json | undefined>;
+
+function preferencesOf(user: User | null): UserPreferences {
+  const preferences = user?.preferences;
+  return preferences && typeof preferences === 'object' && !Array.isArray(preferences) ? preferences : {};
+}
+
+export class UserRepo {
+  async findByVisitorId(visitorId: string): Promise<User | null> {
+    const t = await dialectFor('users');
+    const row = readOrFallback(
+      await supabase.from(t.name).select('*').eq(t.col('visitor_id'), visitorId).maybeSingle(),
+      null,
+    );
+    return row ? t.fromDb<User>(row) : null;
+  }
+
+  /** Visitor's saved preferences, `{}` when they have none */
+  async getPreferences(visitorId: string): Promise<UserPreferences> {
+    return preferencesOf(await this.findByVisitorId(visitorId));
+  }
+
+  /** Merge `preferences` into the visitor's saved ones, creating their row if needed */
+  async savePreferences(visitorId: string, preferences: UserPreferences): Promise<UserPreferences> {
+    const t = await dialectFor('users');
+    const existing = await this.findByVisitorId(visitorId);
+    const merged = { ...preferencesOf(existing), ...preferences };
+    const now = new Date().toISOString();
+
+    if (existing) {
+      assertWrite(
+        await supabase
+          .from(t.name)
+          .update(t.toDb({ preferences: merged, updated_at: now }))
+          .eq('id', existing.id),
+      );
+    } else {
+      assertWrite(
+        await supabase.from(t.name).insert(
+          t.toDb({ id: randomUUID(), visitor_id: visitorId, preferences: merged, created_at: now, updated_at: now }),
+        ),
+      );
+    }
+    return merged;
+  }
+}
+
+export const userRepo = new UserRepo();
@@ -1,7 +1,20 @@
-import { supabase } from './supabase.js';
+import { pathToFileURL } from 'node:url';
+import {
+  resortRepo,
+  resortAliasRepo,
+  forecastRepo,
+  snowReportRepo,
+  SAMPLE_DATA_SOURCE,
+  SAMPLE_FETCHED_AT,
+} from './repositories/index.js';
+import { getToday } from './supabase.js';
+import { normalizeResortName } from '../services/resortSearch.js';
+import { placeFor } from '../services/regions.js';
+import { addDays } from '../services/snowHistory.js';
+import { assessSnowQuality, toForecastColumns } from '../services/snowQuality.js';
 
-// Major US Ski Resorts with coordinates
-const SKI_RESORTS = [
+// Major ski resorts with coordinates (US unless `country` says otherwise)
+export const SKI_RESORTS = [
   // COLORADO (Rockies)
   { id: 'vail', name: 'Vail', state: 'CO', region: 'Rockies', lat: 39.6403, lng: -106.3742, lifts: 31, trails: 195 },
   { id: 'breckenridge', name: 'Breckenridge', state: 'CO', region: 'Rockies', lat: 39.4817, lng: -106.0384, lifts: 35, trails: 187 },
@@ -100,37 +113,212 @@ const SKI_RESORTS = [
   
   // MINNESOTA (Midwest)
   { id: 'lutsen', name: 'Lutsen Mountains', state: 'MN', region: 'Midwest', lat: 47.6633, lng: -90.7028, lifts: 8, trails: 95 },
+
+  // CANADA
+  { id: 'whistler-blackcomb', name: 'Whistler Blackcomb', country: 'CA', state: 'BC', region: 'Western Canada', lat: 50.1163, lng: -122.9574, lifts: 37, trails: 200 },
+  { id: 'revelstoke', name: 'Revelstoke', country: 'CA', state: 'BC', region: 'Western Canada', lat: 50.9583, lng: -118.1637, lifts: 5, trails: 75 },
+  { id: 'lake-louise', name: 'Lake Louise', country: 'CA', state: 'AB', region: 'Western Canada', lat: 51.4419, lng: -116.1622, lifts: 10, trails: 164 },
+  { id: 'banff-sunshine', name: 'Banff Sunshine', country: 'CA', state: 'AB', region: 'Western Canada', lat: 51.0783, lng: -115.7730, lifts: 12, trails: 137 },
+  { id: 'mont-tremblant', name: 'Mont Tremblant', country: 'CA', state: 'QC', region: 'Eastern Canada', lat: 46.2094, lng: -74.5850, lifts: 14, trails: 102 },
+
+  // ALPS
+  { id: 'chamonix', name: 'Chamonix', country: 'FR', state: '74', region: 'Alps', lat: 45.9237, lng: 6.8694, lifts: 47, trails: 74 },
+  { id: 'val-disere', name: "Val d'Isère", country: 'FR', state: '73', region: 'Alps', lat: 45.4481, lng: 6.9806, lifts: 78, trails: 154 },
+  { id: 'zermatt', name: 'Zermatt', country: 'CH', state: 'VS', region: 'Alps', lat: 46.0207, lng: 7.7491, lifts: 52, trails: 110 },
+  { id: 'verbier', name: 'Verbier', country: 'CH', state: 'VS', region: 'Alps', lat: 46.0961, lng: 7.2286, lifts: 34, trails: 80 },
+  { id: 'st-anton', name: 'St. Anton', country: 'AT', state: '7', region: 'Alps', lat: 47.1297, lng: 10.2685, lifts: 88, trails: 139 },
+  { id: 'cervinia', name: 'Cervinia', country: 'IT', state: '23', region: 'Alps', lat: 45.9336, lng: 7.6297, lifts: 20, trails: 70 },
+
+  // JAPAN
+  { id: 'niseko-united', name: 'Niseko United', country: 'JP', state: '01', region: 'Hokkaido', lat: 42.8625, lng: 140.6987, lifts: 30, trails: 61 },
+  { id: 'hakuba-happo-one', name: 'Hakuba Happo-One', country: 'JP', state: '20', region: 'Honshu', lat: 36.6983, lng: 137.8322, lifts: 20, trails: 16 },
 ];
 
-async function seed() {
-  console.log('🌱 Starting database seed with Supabase...');
-  
-  // Seed all resorts
+// Names people search for that differ from the resort's current name.
+// "Mt"/"Mount" style variants don't need entries: search normalizes them.
+export const RESORT_ALIASES: Array<{ resortId: string; alias: string; kind: string }> = [
+  { resortId: 'squaw-valley', alias: 'Squaw Valley', kind: 'former_name' },
+  { resortId: 'squaw-valley', alias: 'Squaw', kind: 'former_name' },
+  { resortId: 'squaw-valley', alias: 'Palisades', kind: 'nickname' },
+  { resortId: 'squaw-valley', alias: 'Alpine Meadows', kind: 'nickname' },
+  { resortId: 'arapahoe-basin', alias: 'A-Basin', kind: 'abbreviation' },
+  { resortId: 'jackson-hole', alias: 'JHMR', kind: 'abbreviation' },
+  { resortId: 'jackson-hole', alias: 'Jackson Hole Mountain Resort', kind: 'alias' },
+  { resortId: 'mammoth-mountain', alias: 'Mammoth', kind: 'nickname' },
+  { resortId: 'purgatory', alias: 'Durango Mountain Resort', kind: 'former_name' },
+  { resortId: 'powder-mountain', alias: 'Pow Mow', kind: 'nickname' },
+  { resortId: 'heavenly', alias: 'Heavenly Valley', kind: 'former_name' },
+  { resortId: 'whitefish', alias: 'Big Mountain', kind: 'former_name' },
+  { resortId: 'taos', alias: 'Taos', kind: 'nickname' },
+  { resortId: 'big-bear', alias: 'Bear Mountain', kind: 'alias' },
+  { resortId: 'big-bear', alias: 'Snow Summit', kind: 'alias' },
+  { resortId: 'timberline', alias: 'Timberline', kind: 'nickname' },
+  { resortId: 'aspen-snowmass', alias: 'Snowmass', kind: 'nickname' },
+  { resortId: 'aspen-mountain', alias: 'Ajax', kind: 'nickname' },
+  { resortId: 'steamboat', alias: 'Steamboat Springs', kind: 'alias' },
+  { resortId: 'mt-hood-meadows', alias: 'Hood Meadows', kind: 'nickname' },
+  { resortId: 'mt-rose', alias: 'Mount Rose Ski Tahoe', kind: 'alias' },
+  { resortId: 'mt-rose', alias: 'Slide Mountain', kind: 'former_name' },
+  { resortId: 'big-sky', alias: 'Big Sky Resort', kind: 'alias' },
+  { resortId: 'whiteface', alias: 'Whiteface Mountain', kind: 'alias' },
+  { resortId: 'okemo', alias: 'Okemo Mountain', kind: 'alias' },
+  { resortId: 'stratton', alias: 'Stratton Mountain', kind: 'alias' },
+  { resortId: 'jay-peak', alias: 'Jay', kind: 'nickname' },
+  { resortId: 'ski-santa-fe', alias: 'Santa Fe', kind: 'nickname' },
+  { resortId: 'whistler-blackcomb', alias: 'Whistler', kind: 'nickname' },
+  { resortId: 'niseko-united', alias: 'Niseko', kind: 'nickname' },
+  { resortId: 'niseko-united', alias: 'Niseko Grand Hirafu', kind: 'alias' },
+  { resortId: 'chamonix', alias: 'Chamonix Mont-Blanc', kind: 'alias' },
+  { resortId: 'val-disere', alias: "Val d'Isere", kind: 'alias' },
+  { resortId: 'st-anton', alias: 'St. Anton am Arlberg', kind: 'alias' },
+  { resortId: 'cervinia', alias: 'Breuil-Cervinia', kind: 'alias' },
+  { resortId: 'hakuba-happo-one', alias: 'Hakuba', kind: 'nickname' },
+];
+
+/**
+ * Upsert the bundled resort list. Also used at startup to populate the local
+ * in-memory database.
+ */
+export async function seedResorts(options?: { quiet?: boolean }): Promise<number> {
+  let seeded = 0;
   for (const resort of SKI_RESORTS) {
-    const { error } = await supabase
-      .from('resorts')
-      .upsert({
+    try {
+      const place = placeFor(resort.country, resort.state);
+      await resortRepo.upsert({
         id: resort.id,
         name: resort.name,
-        location: `${resort.state}, USA`,
+        location: place.location,
+        country: place.country,
         state: resort.state,
+        sub_region: place.subRegion,
         region: resort.region,
         latitude: resort.lat,
         longitude: resort.lng,
         total_lifts: resort.lifts,
         total_trails: resort.trails,
         updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'id',
       });
-    
-    if (error) {
+      seeded++;
+      if (!options?.quiet) console.log(`  ✓ ${resort.name}`);
+    } catch (error: any) {
       console.error(`  ❌ ${resort.name}: ${error.message}`);
-    } else {
-      console.log(`  ✓ ${resort.name}`);
     }
   }
 
+  try {
+    await resortAliasRepo.upsertMany(
+      RESORT_ALIASES.map((a) => ({
+        resort_id: a.resortId,
+        alias: a.alias,
+        normalized: normalizeResortName(a.alias),
+        kind: a.kind,
+      })),
+    );
+  } catch (error: any) {
+    console.error(`  ❌ Resort aliases: ${error.message}`);
+  }
+  return seeded;
+}
+
+// Forecast days written per resort by seedSampleConditions
+const SAMPLE_FORECAST_DAYS = 7;
+
+const SAMPLE_CONDITIONS = ['Sunny', 'Partly Cloudy', 'Cloudy', 'Light Snow', 'Snow', 'Heavy Snow'];
+
+// Deterministic 0..1 value for a resort and a key, so restarts give the same sample
+function sampleValue(resortId: string, key: string): number {
+  let hash = 2166136261;
+  for (const char of `${resortId}:${key}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+  }
+  return (hash >>> 0) / 0xffffffff;
+}
+
+/**
+ * Write a sample week of forecasts and today's snow report for every bundled
+ * resort without a real report, so the local in-memory database has
+ * conditions to show without any provider. Samples are dated
+ * `SAMPLE_FETCHED_AT`, so every freshness check treats them as stale and
+ * refetches, and reports are marked `data_source: 'sample'`; alerts and
+ * forecast verification leave both out.
+ */
+export async function seedSampleConditions(): Promise<number> {
+  const today = getToday();
+  const reported = await snowReportRepo.findLatestByResort();
+
+  let seeded = 0;
+  for (const resort of SKI_RESORTS) {
+    const latest = reported.get(resort.id);
+    if (latest && latest.data_source !== SAMPLE_DATA_SOURCE) continue;
+    try {
+      const days = Array.from({ length: SAMPLE_FORECAST_DAYS }, (_, i) => {
+        const date = addDays(today, i);
+        const stormy = sampleValue(resort.id, date) > 0.6;
+        const tempHigh = Math.round(18 + sampleValue(resort.id, `${date}:high`) * 20);
+        return {
+          date,
+          predictedSnow: stormy ? Math.round(sampleValue(resort.id, `${date}:snow`) * 14) : 0,
+          tempHigh,
+          tempLow: tempHigh - 8 - Math.round(sampleValue(resort.id, `${date}:low`) * 10),
+          windSpeed: Math.round(5 + sampleValue(resort.id, `${date}:wind`) * 25),
+          stormy,
+        };
+      });
+
+      for (const day of days) {
+        const quality = assessSnowQuality({
+          predictedSnow: day.predictedSnow,
+          tempHigh: day.tempHigh,
+          tempLow: day.tempLow,
+          windSpeed: day.windSpeed,
+        });
+        const condition = day.stormy
+          ? SAMPLE_CONDITIONS[3 + Math.min(2, Math.floor(day.predictedSnow / 5))]
+          : SAMPLE_CONDITIONS[Math.floor(sampleValue(resort.id, `${day.date}:sky`) * 3)];
+        await forecastRepo.upsert({
+          resort_id: resort.id,
+          forecast_date: day.date,
+          predicted_snow: day.predictedSnow,
+          temp_high: day.tempHigh,
+          temp_low: day.tempLow,
+          condition,
+          snow_probability: day.stormy ? 60 + Math.round(sampleValue(resort.id, `${day.date}:pop`) * 40) : 10,
+          wind_speed: day.windSpeed,
+          ...toForecastColumns(quality),
+          fetched_at: SAMPLE_FETCHED_AT,
+        });
+      }
+
+      const last24Hours = Math.round(sampleValue(resort.id, `${today}:24h`) * 8);
+      const last48Hours = last24Hours + Math.round(sampleValue(resort.id, `${today}:48h`) * 6);
+      await snowReportRepo.upsert({
+        resort_id: resort.id,
+        report_date: today,
+        base_depth: Math.round(30 + sampleValue(resort.id, 'base') * 60),
+        last_24_hours: last24Hours,
+        last_48_hours: last48Hours,
+        last_7_days: last48Hours + Math.round(sampleValue(resort.id, `${today}:7d`) * 12),
+        season_total: Math.round(60 + sampleValue(resort.id, 'season') * 200),
+        lifts_open: Math.round(resort.lifts * (0.6 + sampleValue(resort.id, 'lifts') * 0.4)),
+        trails_open: Math.round(resort.trails * (0.5 + sampleValue(resort.id, 'trails') * 0.5)),
+        conditions: last24Hours >= 4 ? 'Powder' : 'Packed Powder',
+        data_source: SAMPLE_DATA_SOURCE,
+        created_at: SAMPLE_FETCHED_AT,
+      });
+      seeded++;
+    } catch (error: any) {
+      console.error(`  ❌ Sample conditions for ${resort.name}: ${error.message}`);
+    }
+  }
+  return seeded;
+}
+
+async function seed() {
+  console.log('🌱 Starting database seed with Supabase...');
+  
+  // Seed all resorts
+  await seedResorts();
+
   console.log(`\n✅ Seeded ${SKI_RESORTS.length} ski resorts`);
   
   // Print stats
@@ -145,8 +333,11 @@ async function seed() {
   }
 }
 
-seed()
-  .catch((e) => {
-    console.error('❌ Seed error:', e);
-    process.exit(1);
-  });
+// Only run when executed directly (`npm run seed`), not when imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  seed()
+    .catch((e) => {
+      console.error('❌ Seed error:', e);
+      process.exit(1);
+    });
+}
@@ -5,6 +5,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createMemoryClient } from './memoryClient.js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -15,9 +16,17 @@ export const isSupabaseConfigured = (): boolean => {
   return !!(supabaseUrl && (supabaseServiceKey || supabaseAnonKey));
 };
 
+/**
+ * Use the in-memory store instead of Supabase. Happens automatically when
+ * Supabase isn't configured; `DB_DRIVER=memory` forces it.
+ */
+export const isLocalStore = (): boolean => {
+  return process.env.DB_DRIVER === 'memory' || !isSupabaseConfigured();
+};
+
 let supabaseInstance: SupabaseClient;
 
-if (isSupabaseConfigured()) {
+if (!isLocalStore()) {
   // Use service role key for backend (bypasses Row Level Security)
   // Fall back to anon key if service key not available
   const key = supabaseServiceKey || supabaseAnonKey;
@@ -31,56 +40,16 @@ if (isSupabaseConfigured()) {
   
   console.log('✅ Supabase client initialized');
 } else {
-  console.warn('⚠️ Supabase environment variables missing!');
-  console.warn('   Required: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY)');
-  console.warn('   Falling back to mock client...');
-  
-  // Create a mock client for development without Supabase
-  const createMockResponse = (data: unknown = null, error: unknown = null) => 
-    Promise.resolve({ data, error, count: 0 });
+  if (!isSupabaseConfigured()) {
+    console.warn('⚠️ Supabase environment variables missing!');
+    console.warn('   Required: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY)');
+  }
   
-  const createMockChain = (): unknown => ({
-    select: () => createMockChain(),
-    insert: () => createMockResponse(null, { message: 'Supabase not configured' }),
-    update: () => createMockResponse(null, { message: 'Supabase not configured' }),
-    upsert: () => createMockResponse(null, { message: 'Supabase not configured' }),
-    delete: () => createMockResponse(null, { message: 'Supabase not configured' }),
-    eq: () => createMockChain(),
-    neq: () => createMockChain(),
-    gt: () => createMockChain(),
-    gte: () => createMockChain(),
-    lt: () => createMockChain(),
-    lte: () => createMockChain(),
-    like: () => createMockChain(),
-    ilike: () => createMockChain(),
-    is: () => createMockChain(),
-    in: () => createMockChain(),
-    or: () => createMockChain(),
-    order: () => createMockChain(),
-    limit: () => createMockChain(),
-    range: () => createMockChain(),
-    single: () => createMockResponse(null, { code: 'PGRST116', message: 'Not found' }),
-    maybeSingle: () => createMockResponse(null),
-    then: (resolve: (value: unknown) => unknown) => resolve({ data: [], error: null }),
-  });
+  const file = process.env.LOCAL_DB_FILE;
+  console.warn(`   Using local in-memory database${file ? ` (persisted to ${file})` : ''}`);
   
-  supabaseInstance = {
-    from: () => createMockChain(),
-    rpc: () => createMockResponse([]),
-    storage: {
-      from: () => ({
-        upload: () => createMockResponse(null, { message: 'Supabase not configured' }),
-        getPublicUrl: () => ({ data: { publicUrl: '' } }),
-        remove: () => createMockResponse(null),
-      }),
-    },
-    auth: {
-      getSession: () => createMockResponse({ session: null }),
-      getUser: () => createMockResponse({ user: null }),
-      signInWithPassword: () => createMockResponse(null, { message: 'Supabase not configured' }),
-      signOut: () => createMockResponse(null),
-    },
-  } as unknown as SupabaseClient;
+  // The memory client implements the query builder subset used by the repositories
+  supabaseInstance = createMemoryClient({ file }) as unknown as SupabaseClient;
 }
 
 export const supabase = supabaseInstance;
@@ -119,18 +88,55 @@ export function getDaysFromNow(days: number): string {
 }
 
 /**
- * Format date as MM/DD
+ * Epoch milliseconds of a database timestamp (0 when missing or invalid)
  */
-export function formatDateShort(dateStr: string): string {
-  const date = new Date(dateStr);
-  return `${date.getMonth() + 1}/${date.getDate()}`;
+export function parseDbTimestamp(value: unknown): number {
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return 0;
+
+  // Supabase/PostgREST can return `timestamp without time zone` values like
+  // `2026-01-12T03:19:40.195` (no timezone). JS interprets that as local time,
+  // which can make cache ages negative depending on machine TZ.
+  const hasTz = value.endsWith('Z') || value.includes('+') || /-\d\d:\d\d$/.test(value);
+  const iso = hasTz ? value : `${value}Z`;
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? ms : 0;
 }
 
 /**
- * Get day name from date
+ * Parse a provider forecast date (M/D or YYYY-MM-DD) into YYYY-MM-DD
  */
-export function getDayName(dateStr: string): string {
-  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  const date = new Date(dateStr);
-  return days[date.getDay()];
+export function parseForecastDate(dateStr: string): string | null {
+  try {
+    if (!dateStr) return null;
+    
+    // Check if already in YYYY-MM-DD format
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      return dateStr;
+    }
+
+    const year = new Date().getFullYear();
+    const [month, day] = dateStr.split('/').map(Number);
+    if (month && day) {
+      // Handle year rollover (e.g. today is Dec, forecast is Jan)
+      // If the parsed date is more than 6 months in the past, assume it's next year
+      const now = new Date();
+      let date = new Date(year, month - 1, day);
+      
+      const diffMonths = (now.getMonth() - (month - 1)) + (12 * (now.getFullYear() - year));
+      if (diffMonths > 6) {
+         date = new Date(year + 1, month - 1, day);
+      } else if (diffMonths < -6) {
+         // Rare: forecast says Dec when we are in Jan (maybe old data?)
+         date = new Date(year - 1, month - 1, day);
+      }
+
+      return date.toISOString().split('T')[0];
+    }
+    return null;
+  } catch {
+    return null;
+  }
 }
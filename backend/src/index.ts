@@ -5,8 +5,22 @@ import { forecastRoutes } from './routes/forecasts.js';
 import { mapRoutes } from './routes/map.js';
 import { chatRoutes } from './routes/chat.js';
 import { alertRoutes } from './routes/alerts.js';
-import { quickPreload, preloadAllData } from './services/preloader.js';
-import { refreshAllCachedResorts, startBackgroundRefreshScheduler, populateKnownResorts } from './services/backgroundRefresh.js';
+import { jobRoutes } from './routes/jobs.js';
+import { favoriteRoutes } from './routes/favorites.js';
+import { unitsMiddleware } from './middleware/units.js';
+import { localeMiddleware } from './middleware/locale.js';
+import { input, validate } from './middleware/validate.js';
+import { admin as schemas } from './schemas/index.js';
+import { openApiDocument } from './services/openapi.js';
+import { startBackgroundRefreshScheduler } from './services/backgroundRefresh.js';
+import { enqueueJob, jobWorker } from './services/jobQueue.js';
+import { registerJobHandlers } from './services/jobHandlers.js';
+import { snowDataRegistry } from './services/providers/index.js';
+import { scraperHttp } from './services/http/index.js';
+import { parseDriftMonitor } from './services/parseDrift.js';
+import { verifyForecastSnapshots } from './services/forecastVerification.js';
+import { isLocalStore } from './db/supabase.js';
+import { seedResorts, seedSampleConditions } from './db/seed.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -36,6 +50,7 @@ app.use(cors({
     }
   },
   credentials: true,
+  exposedHeaders: ['X-Units', 'Content-Language'],
 }));
 app.use(express.json());
 
@@ -46,28 +61,44 @@ app.use((req, res, next) => {
 });
 
 // Health check
-app.get('/health', (req, res) => {
+app.get('/health', validate(schemas.health), (req, res) => {
   res.json({ 
     status: 'ok', 
     service: 'snowpeak-api',
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    database: isLocalStore() ? 'memory' : 'supabase',
+    providers: snowDataRegistry.getHealth(),
+    scraping: scraperHttp.getHostMetrics(),
   });
 });
 
+// Scraper fetch metrics per host, parse-drift counts and the most recent fetches
+app.get('/health/scraping', validate(schemas.scrapingHealth), (req, res) => {
+  res.json({
+    hosts: scraperHttp.getHostMetrics(),
+    parseDrift: parseDriftMonitor.getStats(),
+    recent: scraperHttp.getRecentFetches(),
+  });
+});
+
+// OpenAPI 3.1 document for every route, generated from the zod schemas in src/schemas
+app.get('/api/openapi.json', validate(schemas.openApiDocument), (req, res) => {
+  res.json(openApiDocument());
+});
+
 // Preload endpoint (can be triggered by cron or manually)
-app.post('/api/preload', async (req, res) => {
+app.post('/api/preload', validate(schemas.preload), async (req, res) => {
   try {
-    const { mode = 'quick', maxResorts } = req.body;
+    const { mode, maxResorts } = input(res, schemas.preload).body;
     
     console.log(`\n🚀 Preload triggered via API (mode: ${mode})\n`);
     
-    if (mode === 'full') {
-      const result = await preloadAllData({ maxResorts });
-      res.json({ success: true, ...result });
-    } else {
-      await quickPreload();
-      res.json({ success: true, mode: 'quick' });
-    }
+    const { job, deduplicated } = await enqueueJob(
+      'preload',
+      { mode, ...(maxResorts !== undefined ? { maxResorts } : {}) },
+      { dedupeKey: 'preload' },
+    );
+    res.json({ success: true, mode, jobId: job.id, alreadyQueued: deduplicated });
   } catch (error) {
     console.error('Preload failed:', error);
     res.status(500).json({ error: 'Preload failed' });
@@ -75,7 +106,7 @@ app.post('/api/preload', async (req, res) => {
 });
 
 // Crawl endpoint - Discovery + Refresh
-app.post('/api/crawl', async (req, res) => {
+app.post('/api/crawl', validate(schemas.crawl), async (req, res) => {
   try {
     const secret = process.env.CRON_SECRET;
     if (secret) {
@@ -86,17 +117,15 @@ app.post('/api/crawl', async (req, res) => {
     }
 
     console.log('[Crawl] Manual crawl requested');
-    // Run in background so we don't timeout the request
-    (async () => {
-      try {
-        await populateKnownResorts();
-        await refreshAllCachedResorts({ maxResorts: 1000 });
-      } catch (e) {
-        console.error('[Crawl] Background job failed:', e);
-      }
-    })();
+    // Discovery, then one refresh job per resort; progress at /api/jobs/:id
+    const { job, deduplicated } = await enqueueJob('crawl', { maxResorts: 1000 }, { dedupeKey: 'crawl' });
 
-    res.json({ ok: true, message: 'Crawl started in background' });
+    res.json({
+      ok: true,
+      jobId: job.id,
+      alreadyQueued: deduplicated,
+      message: deduplicated ? 'Crawl already in progress' : 'Crawl queued',
+    });
   } catch (error) {
     console.error('Crawl trigger failed:', error);
     res.status(500).json({ error: 'Crawl trigger failed' });
@@ -104,7 +133,7 @@ app.post('/api/crawl', async (req, res) => {
 });
 
 // Refresh endpoint (safe to call from cron). Protect with CRON_SECRET if set.
-app.post('/api/refresh', async (req, res) => {
+app.post('/api/refresh', validate(schemas.refreshAll), async (req, res) => {
   try {
     const secret = process.env.CRON_SECRET;
     if (secret) {
@@ -114,22 +143,69 @@ app.post('/api/refresh', async (req, res) => {
       }
     }
 
-    const { maxResorts } = req.body || {};
-    const result = await refreshAllCachedResorts({ maxResorts: typeof maxResorts === 'number' ? maxResorts : undefined });
-    // Avoid duplicate keys since `result` includes `{ success: number }`
-    res.json({ ok: true, ...result });
+    const { maxResorts } = input(res, schemas.refreshAll).body;
+    const { job, deduplicated } = await enqueueJob(
+      'refresh_all',
+      maxResorts !== undefined ? { maxResorts } : {},
+      { dedupeKey: 'refresh_all' },
+    );
+    res.json({ ok: true, jobId: job.id, alreadyQueued: deduplicated });
   } catch (error) {
     console.error('Refresh failed:', error);
     res.status(500).json({ error: 'Refresh failed' });
   }
 });
 
+// Run due jobs for up to `maxSeconds` (for hosts without a long-lived worker). Protect with CRON_SECRET if set.
+app.post('/api/jobs/run', validate(schemas.runJobs), async (req, res) => {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (secret) {
+      const auth = req.header('authorization') || '';
+      if (auth !== `Bearer ${secret}`) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const { maxSeconds } = input(res, schemas.runJobs).body;
+    const started = await jobWorker.drain(maxSeconds * 1000);
+    res.json({ ok: true, started });
+  } catch (error) {
+    console.error('Job run failed:', error);
+    res.status(500).json({ error: 'Job run failed' });
+  }
+});
+
+// Forecast verification endpoint (safe to call from cron). Protect with CRON_SECRET if set.
+app.post('/api/verify', validate(schemas.verifyForecasts), async (req, res) => {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (secret) {
+      const auth = req.header('authorization') || '';
+      if (auth !== `Bearer ${secret}`) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const result = await verifyForecastSnapshots();
+    res.json({ ok: true, ...result });
+  } catch (error) {
+    console.error('Verification failed:', error);
+    res.status(500).json({ error: 'Verification failed' });
+  }
+});
+
 // API Routes
-app.use('/api/resorts', resortRoutes);
-app.use('/api/forecasts', forecastRoutes);
-app.use('/api/map', mapRoutes);
+// Day names, timestamps and assistant answers in the client's language (?locale= or Accept-Language)
+app.use('/api', localeMiddleware);
+// Snow, temperature, wind and elevation values in the client's units (?units= or X-Units)
+app.use('/api/resorts', unitsMiddleware, resortRoutes);
+app.use('/api/forecasts', unitsMiddleware, forecastRoutes);
+app.use('/api/map', unitsMiddleware, mapRoutes);
 app.use('/api/chat', chatRoutes);
-app.use('/api/alerts', alertRoutes);
+app.use('/api/alerts', unitsMiddleware, alertRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/favorites', favoriteRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -142,6 +218,9 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
   res.status(500).json({ error: 'Internal server error' });
 });
 
+// Job types the worker (and /api/jobs/run) can run
+registerJobHandlers();
+
 // Start server
 app.listen(PORT, () => {
   console.log(`
@@ -151,26 +230,39 @@ app.listen(PORT, () => {
   📊 Environment: ${process.env.NODE_ENV || 'development'}
   ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   `);
+
+  // The local in-memory database starts empty; load the bundled resort list
+  // and sample conditions so forecasts, the map and alerts work offline
+  if (isLocalStore()) {
+    seedResorts({ quiet: true })
+      .then(async (count) => {
+        const sampled = process.env.SEED_SAMPLE_CONDITIONS === 'false' ? 0 : await seedSampleConditions();
+        console.log(`  🌱 Local database seeded with ${count} resorts (${sampled} with sample conditions)\n`);
+      })
+      .catch((err) => console.error('Local seed failed:', err));
+  }
   
-  // Auto-preload on startup (runs in background, doesn't block server)
+  // Background jobs (crawls, refreshes, preloads, alert checks) run from the jobs table
+  if (process.env.JOB_WORKER_ENABLED !== 'false') {
+    jobWorker.start();
+  }
+
+  // Auto-preload on startup (queued as a job, doesn't block server)
   const AUTO_PRELOAD = process.env.AUTO_PRELOAD !== 'false';
   const FULL_STARTUP_REFRESH = process.env.FULL_STARTUP_REFRESH === 'true';
   
   if (AUTO_PRELOAD) {
-    console.log('  🔄 Starting background preload...\n');
+    console.log('  🔄 Queueing background preload...\n');
     
-    // Run preload in background after 2 seconds
+    // Queue after 2 seconds so the local database is seeded first
     setTimeout(() => {
-      if (FULL_STARTUP_REFRESH) {
-        console.log('  🔄 Full resort refresh on startup enabled');
-        refreshAllCachedResorts({ maxResorts: 100 }).catch(err => {
-          console.error('Startup refresh failed:', err);
-        });
-      } else {
-        quickPreload().catch(err => {
-          console.error('Background preload failed:', err);
-        });
-      }
+      const queued = FULL_STARTUP_REFRESH
+        ? enqueueJob('refresh_all', { maxResorts: 100 }, { dedupeKey: 'refresh_all' })
+        : enqueueJob('preload', { mode: 'quick' }, { dedupeKey: 'preload' });
+      if (FULL_STARTUP_REFRESH) console.log('  🔄 Full resort refresh on startup enabled');
+      queued.catch(err => {
+        console.error('Background preload failed:', err);
+      });
     }, 2000);
   }
 
@@ -0,0 +1,24 @@
+import type { Request, Response, NextFunction } from 'express';
+import { LOCALES, negotiateLocale, parseLocale } from '../services/i18n/index.js';
+import { validationError } from './validate.js';
+
+/**
+ * Locale for a request: `?locale=en|zh-CN`, else the best match for the
+ * `Accept-Language` header, else English. Routes read it from
+ * `res.locals.locale`; it's echoed in the `Content-Language` header.
+ */
+export function localeMiddleware(req: Request, res: Response, next: NextFunction) {
+  const requested = req.query.locale;
+  const locale = requested === undefined ? negotiateLocale(req.header('accept-language')) : parseLocale(requested);
+
+  if (!locale) {
+    return res
+      .status(400)
+      .json(validationError([{ in: 'query', path: 'locale', message: `Must be: ${LOCALES.join(' or ')}` }]));
+  }
+
+  res.locals.locale = locale;
+  res.setHeader('Content-Language', locale);
+  res.vary('Accept-Language');
+  next();
+}
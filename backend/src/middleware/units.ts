@@ -0,0 +1,33 @@
+import type { Request, Response, NextFunction } from 'express';
+import { DEFAULT_UNITS, UNIT_SYSTEMS, parseUnitSystem, type UnitSystem } from '../services/units.js';
+import { validationError } from './validate.js';
+
+/**
+ * Unit preference for a request: `?units=metric|imperial`, else the
+ * `X-Units` header, else imperial, in `res.locals.units`. Routes whose spec
+ * sets `units` read their query amounts and write their response amounts in
+ * those units (see `validate`). The units used are echoed in the `X-Units`
+ * response header.
+ */
+export function unitsMiddleware(req: Request, res: Response, next: NextFunction) {
+  const fromQuery = typeof req.query.units === 'string';
+  const requested = fromQuery ? req.query.units : req.header('x-units');
+  const units: UnitSystem | null = requested ? parseUnitSystem(requested) : DEFAULT_UNITS;
+
+  if (!units) {
+    return res.status(400).json(
+      validationError([
+        {
+          in: fromQuery ? 'query' : 'header',
+          path: fromQuery ? 'units' : 'X-Units',
+          message: `Must be: ${UNIT_SYSTEMS.join(' or ')}`,
+        },
+      ]),
+    );
+  }
+
+  res.locals.units = units;
+  res.setHeader('X-Units', units);
+  res.vary('X-Units');
+  next();
+}
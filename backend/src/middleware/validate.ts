@@ -0,0 +1,84 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { z } from 'zod/v4';
+import type { RequestInput, RouteSpec, ValidationIssue } from '../schemas/index.js';
+import { amountsFromUnits, toMetric, type UnitSystem } from '../services/units.js';
+
+const REQUEST_PARTS = ['params', 'query', 'body'] as const;
+
+const PART_NAMES: Record<ValidationIssue['in'], string> = {
+  params: 'path parameter',
+  query: 'query parameter',
+  body: 'body field',
+  header: 'header',
+};
+
+// Responses are checked against their schema outside production (mismatches are logged, never sent)
+const CHECK_RESPONSES = process.env.NODE_ENV !== 'production';
+
+/** 400 body for invalid input: the first issue as `error`, all of them in `issues` */
+export function validationError(issues: ValidationIssue[]) {
+  const [first] = issues;
+  return {
+    error: first.path ? `Invalid ${PART_NAMES[first.in]} "${first.path}": ${first.message}` : first.message,
+    code: 'VALIDATION_ERROR' as const,
+    issues,
+  };
+}
+
+function toIssues(part: ValidationIssue['in'], error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({ in: part, path: issue.path.join('.'), message: issue.message }));
+}
+
+/**
+ * Parse a request's params, query and body with the route's schemas (400
+ * `VALIDATION_ERROR` on failure). Handlers read the parsed, defaulted values
+ * with `input(res, spec)`. For a route with `units`, the query amounts its
+ * schema declares are read in the request's units and the response's are
+ * written in them (bodies are converted by the route, e.g. alert rules).
+ */
+export function validate(spec: RouteSpec) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+    const parsed: Record<string, unknown> = {};
+
+    for (const part of REQUEST_PARTS) {
+      const schema = spec.request?.[part];
+      if (!schema) continue;
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) parsed[part] = result.data;
+      else issues.push(...toIssues(part, result.error));
+    }
+
+    if (issues.length > 0) {
+      return res.status(400).json(validationError(issues));
+    }
+    const units: UnitSystem | undefined = spec.units ? res.locals.units : undefined;
+    if (units === 'metric') {
+      if (spec.request?.query && parsed.query) parsed.query = amountsFromUnits(spec.request.query, parsed.query, units);
+      const json = res.json.bind(res);
+      res.json = (body?: any) => json(res.statusCode < 400 ? toMetric(spec.response, body) : body);
+    }
+    res.locals.input = parsed;
+
+    if (CHECK_RESPONSES) {
+      const json = res.json.bind(res);
+      res.json = (body?: any) => {
+        if (res.statusCode < 400) {
+          const result = spec.response.safeParse(body);
+          if (!result.success) {
+            const problems = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+            console.warn(`[Schema] ${spec.method.toUpperCase()} ${spec.path} response mismatch: ${problems.slice(0, 5).join('; ')}`);
+          }
+        }
+        return json(body);
+      };
+    }
+
+    next();
+  };
+}
+
+/** The request's parsed input for a route guarded by `validate(spec)` */
+export function input<S extends RouteSpec>(res: Response, _spec: S): RequestInput<S> {
+  return res.locals.input as RequestInput<S>;
+}
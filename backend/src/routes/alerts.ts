@@ -1,19 +1,28 @@
 import { Router } from 'express';
-import { supabase, getToday, getDaysFromNow } from '../db/supabase.js';
-import { sendAlertEmail } from '../services/email.js';
+import { alertRepo, isMissingTableError, resortRepo } from '../db/repositories/index.js';
+import { checkForAlerts, notificationResorts, subscriptionLabel, subscriptionRule } from '../services/alerts.js';
+import { presetRule, ruleFromUnits } from '../services/alertRules.js';
+import { describeScope, scopeColumns, subscriptionScope, type AlertScope } from '../services/alertScopes.js';
+import {
+  MAX_CHANNELS_PER_SUBSCRIPTION,
+  generateSecret,
+  maskUrl,
+  sendTestDelivery,
+  testPayload,
+  type AlertPayload,
+} from '../services/alertChannels.js';
+import { geocodePlace } from '../services/geocoding.js';
+import { webhookUrlProblem } from '../services/webhookTarget.js';
+import { allRegions, findSubdivision } from '../services/regions.js';
+import { enqueueJob } from '../services/jobQueue.js';
+import type { Locale } from '../services/i18n/index.js';
+import type { UnitSystem } from '../services/units.js';
+import { input, validate, validationError } from '../middleware/validate.js';
+import { alerts as schemas } from '../schemas/index.js';
+import type { AlertChannel, AlertDelivery, AlertNotification, AlertSubscription, Json } from '../types/database.js';
 
 export const alertRoutes = Router();
 
-function isMissingTableError(error: any): boolean {
-  return (
-    error &&
-    typeof error === 'object' &&
-    // Supabase PostgREST uses PGRST205 when a table/view isn't present
-    (error.code === 'PGRST205' ||
-      (typeof error.message === 'string' && error.message.includes('Could not find the table')))
-  );
-}
-
 function missingTablesResponse() {
   return {
     error:
@@ -22,77 +31,127 @@ function missingTablesResponse() {
   };
 }
 
-// Threshold definitions (in inches)
-const THRESHOLDS = {
-  light: { min: 1, max: 5, label: 'Light Snow (1-5")' },
-  good: { min: 5, max: 15, label: 'Good Snow (5-15")' },
-  great: { min: 15, max: 30, label: 'Great Snow (15-30")' },
-};
+function subscriptionFields(subscription: AlertSubscription, locale: Locale, units: UnitSystem) {
+  const scope = subscriptionScope(subscription);
+  return {
+    id: subscription.id,
+    resortId: subscription.resort_id,
+    resortName: subscription.resort_name,
+    scope,
+    scopeLabel: describeScope(scope, locale, subscription.resort_name),
+    threshold: subscription.threshold,
+    thresholdLabel: subscriptionLabel(subscription, locale, units),
+    rule: subscriptionRule(subscription),
+    timeframe: subscription.timeframe,
+    isActive: subscription.is_active,
+  };
+}
+
+function notificationFields(notification: AlertNotification) {
+  return {
+    id: notification.id,
+    title: notification.title,
+    message: notification.message,
+    predictedSnow: notification.predicted_snow,
+    forecastDate: notification.forecast_date,
+    kind: notification.kind,
+    resorts: notificationResorts(notification),
+    isRead: notification.is_read,
+    createdAt: notification.created_at,
+  };
+}
+
+function channelFields(channel: AlertChannel) {
+  return {
+    id: channel.id,
+    type: channel.type,
+    url: maskUrl(channel.url),
+    signed: channel.secret !== null,
+    isActive: channel.is_active,
+    createdAt: channel.created_at,
+  };
+}
+
+function deliveryFields(delivery: AlertDelivery) {
+  const payload = delivery.payload as unknown as AlertPayload;
+  return {
+    id: delivery.id,
+    channelId: delivery.channel_id,
+    notificationId: delivery.notification_id,
+    event: payload.event,
+    title: payload.title,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.response_status,
+    lastError: delivery.last_error,
+    createdAt: delivery.created_at,
+    deliveredAt: delivery.delivered_at,
+  };
+}
 
 /**
  * POST /api/alerts/subscribe
- * Create a new alert subscription
+ * Create a new alert subscription for a resort or a scope (list, state,
+ * region or radius), from a preset threshold or a custom rule (amounts in
+ * the request's units)
  */
-alertRoutes.post('/subscribe', async (req, res) => {
+alertRoutes.post('/subscribe', validate(schemas.subscribeToAlert), async (req, res) => {
   try {
-    const { visitorId, email, resortId, resortName, threshold, timeframe } = req.body;
-
-    // Validate required fields
-    if (!visitorId || !resortId || !resortName || !threshold) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: visitorId, resortId, resortName, threshold' 
-      });
+    const body = input(res, schemas.subscribeToAlert).body;
+    const { visitorId, email, threshold, rule, timeframe } = body;
+    const requested = body.scope ?? { type: 'resort' as const, resortId: body.resortId! };
+
+    if (requested.type === 'state' && !findSubdivision(requested.country, requested.state)) {
+      return res.status(400).json(
+        validationError([
+          { in: 'body', path: 'scope.state', message: `Unknown state "${requested.state}" in ${requested.country}` },
+        ]),
+      );
     }
-
-    // Validate threshold
-    if (!['light', 'good', 'great'].includes(threshold)) {
-      return res.status(400).json({ 
-        error: 'Invalid threshold. Must be: light, good, or great' 
-      });
+    if ((requested.type === 'region' || requested.type === 'radius') && requested.region && !allRegions().includes(requested.region)) {
+      return res.status(400).json(
+        validationError([
+          { in: 'body', path: 'scope.region', message: `Unknown region; use one of ${allRegions().join(', ')}` },
+        ]),
+      );
     }
 
-    // Validate timeframe
-    const validTimeframe = timeframe === 10 ? 10 : 5;
-
-    // Create or update subscription (upsert)
-    const { data: subscription, error } = await supabase
-      .from('alert_subscriptions')
-      .upsert({
-        visitor_id: visitorId,
-        email,
-        resort_id: resortId,
-        resort_name: resortName,
-        threshold,
-        timeframe: validTimeframe,
-        is_active: true,
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'visitor_id,resort_id',
-      })
-      .select()
-      .single();
-
-    if (error) {
-      if (isMissingTableError(error)) {
-        return res.status(503).json(missingTablesResponse());
+    // A radius needs its center's coordinates
+    let scope = requested as AlertScope;
+    if (requested.type === 'radius' && (requested.latitude === undefined || requested.longitude === undefined)) {
+      const place = await geocodePlace(requested.place).catch((error) => {
+        console.warn(`Geocoding "${requested.place}" failed:`, error);
+        return null;
+      });
+      if (!place) {
+        return res.status(422).json({ error: `Couldn't find a place called "${requested.place}"` });
       }
-      throw error;
+      scope = { ...requested, latitude: place.latitude, longitude: place.longitude };
     }
 
+    const resortName =
+      scope.type === 'resort'
+        ? body.resortName ?? (await resortRepo.findById(scope.resortId))?.name ?? scope.resortId
+        : null;
+
+    // Create or update subscription (upsert); presets are stored as their rule
+    const subscription = await alertRepo.upsertSubscription({
+      visitor_id: visitorId,
+      email,
+      ...scopeColumns(scope),
+      resort_name: resortName,
+      threshold: rule ? 'custom' : threshold!,
+      rule: (rule ? ruleFromUnits(rule, res.locals.units) : presetRule(threshold!)) as unknown as Json,
+      timeframe,
+      is_active: true,
+    });
+
     // Check if there's already snow predicted that meets the threshold
     const alertCheck = await checkForAlerts(subscription.id);
 
     res.json({
       success: true,
-      subscription: {
-        id: subscription.id,
-        resortId: subscription.resort_id,
-        resortName: subscription.resort_name,
-        threshold: subscription.threshold,
-        thresholdLabel: THRESHOLDS[threshold as keyof typeof THRESHOLDS].label,
-        timeframe: subscription.timeframe,
-        isActive: subscription.is_active,
-      },
+      subscription: subscriptionFields(subscription, res.locals.locale, res.locals.units),
       immediateAlert: alertCheck,
     });
   } catch (error) {
@@ -108,51 +167,21 @@ alertRoutes.post('/subscribe', async (req, res) => {
  * GET /api/alerts/my
  * Get all alert subscriptions for a visitor
  */
-alertRoutes.get('/my', async (req, res) => {
+alertRoutes.get('/my', validate(schemas.myAlerts), async (req, res) => {
   try {
-    const { visitorId } = req.query;
-
-    if (!visitorId) {
-      return res.status(400).json({ error: 'visitorId is required' });
-    }
+    const { visitorId } = input(res, schemas.myAlerts).query;
 
     // Get subscriptions with notifications
-    const { data: subscriptions, error } = await supabase
-      .from('alert_subscriptions')
-      .select('*, alert_notifications(*)')
-      .eq('visitor_id', visitorId)
-      .eq('is_active', true)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      if (isMissingTableError(error)) {
-        return res.status(503).json(missingTablesResponse());
-      }
-      throw error;
-    }
+    const subscriptions = await alertRepo.listActiveForVisitor(visitorId);
 
     // Format response
-    const formatted = (subscriptions || []).map((sub: any) => {
-      const unreadNotifs = (sub.alert_notifications || []).filter((n: any) => !n.is_read);
+    const formatted = subscriptions.map((sub) => {
+      const unreadNotifs = sub.notifications.filter((n) => !n.is_read);
       return {
-        id: sub.id,
-        resortId: sub.resort_id,
-        resortName: sub.resort_name,
-        threshold: sub.threshold,
-        thresholdLabel: THRESHOLDS[sub.threshold as keyof typeof THRESHOLDS]?.label || sub.threshold,
-        timeframe: sub.timeframe,
-        isActive: sub.is_active,
+        ...subscriptionFields(sub, res.locals.locale, res.locals.units),
         createdAt: sub.created_at,
         unreadNotifications: unreadNotifs.length,
-        notifications: unreadNotifs.slice(0, 5).map((n: any) => ({
-          id: n.id,
-          title: n.title,
-          message: n.message,
-          predictedSnow: n.predicted_snow,
-          forecastDate: n.forecast_date,
-          isRead: n.is_read,
-          createdAt: n.created_at,
-        })),
+        notifications: unreadNotifs.slice(0, 5).map(notificationFields),
       };
     });
 
@@ -173,33 +202,18 @@ alertRoutes.get('/my', async (req, res) => {
  * DELETE /api/alerts/:id
  * Unsubscribe from an alert
  */
-alertRoutes.delete('/:id', async (req, res) => {
+alertRoutes.delete('/:id', validate(schemas.unsubscribeAlert), async (req, res) => {
   try {
-    const { id } = req.params;
-    const { visitorId } = req.query;
-
-    if (!visitorId) {
-      return res.status(400).json({ error: 'visitorId is required' });
-    }
+    const { params: { id }, query: { visitorId } } = input(res, schemas.unsubscribeAlert);
 
     // Verify ownership and delete
-    const { data: subscription, error: findError } = await supabase
-      .from('alert_subscriptions')
-      .select('id')
-      .eq('id', parseInt(id))
-      .eq('visitor_id', visitorId)
-      .single();
-
-    if (findError || !subscription) {
+    const subscription = await alertRepo.findSubscriptionForVisitor(id, visitorId);
+
+    if (!subscription) {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
-    const { error: deleteError } = await supabase
-      .from('alert_subscriptions')
-      .delete()
-      .eq('id', parseInt(id));
-
-    if (deleteError) throw deleteError;
+    await alertRepo.deleteSubscription(subscription.id);
 
     res.json({ success: true, message: 'Unsubscribed successfully' });
   } catch (error) {
@@ -212,29 +226,17 @@ alertRoutes.delete('/:id', async (req, res) => {
  * GET /api/alerts/notifications
  * Get all unread notifications for a visitor
  */
-alertRoutes.get('/notifications', async (req, res) => {
+alertRoutes.get('/notifications', validate(schemas.listNotifications), async (req, res) => {
   try {
-    const { visitorId, includeRead } = req.query;
+    const { visitorId, includeRead } = input(res, schemas.listNotifications).query;
 
-    if (!visitorId) {
-      return res.status(400).json({ error: 'visitorId is required' });
-    }
-
-    // Build query
-    let query = supabase
-      .from('alert_notifications')
-      .select('*, alert_subscriptions!inner(visitor_id, resort_id, resort_name)')
-      .eq('alert_subscriptions.visitor_id', visitorId)
-      .order('created_at', { ascending: false })
-      .limit(20);
-
-    if (includeRead !== 'true') {
-      query = query.eq('is_read', false);
-    }
-
-    const { data: notifications, error } = await query;
-
-    if (error) {
+    let notifications;
+    try {
+      notifications = await alertRepo.listNotificationsForVisitor(visitorId, {
+        includeRead,
+        limit: 20,
+      });
+    } catch (error) {
       // Don't spam the UI with 500s if alerts tables aren't migrated yet.
       if (isMissingTableError(error)) {
         return res.json({
@@ -248,18 +250,16 @@ alertRoutes.get('/notifications', async (req, res) => {
     }
 
     res.json({
-      count: notifications?.length || 0,
-      notifications: (notifications || []).map(n => ({
-        id: n.id,
-        title: n.title,
-        message: n.message,
-        predictedSnow: n.predicted_snow,
-        forecastDate: n.forecast_date,
-        resortId: n.alert_subscriptions.resort_id,
-        resortName: n.alert_subscriptions.resort_name,
-        isRead: n.is_read,
-        createdAt: n.created_at,
-      })),
+      count: notifications.length,
+      notifications: notifications.map((n) => {
+        // Scope notifications open their snowiest resort
+        const [top] = notificationResorts(n);
+        return {
+          ...notificationFields(n),
+          resortId: n.subscription.resort_id ?? top?.resortId,
+          resortName: n.subscription.resort_name ?? top?.resortName,
+        };
+      }),
     });
   } catch (error) {
     console.error('Error fetching notifications:', error);
@@ -279,16 +279,11 @@ alertRoutes.get('/notifications', async (req, res) => {
  * POST /api/alerts/notifications/:id/read
  * Mark a notification as read
  */
-alertRoutes.post('/notifications/:id/read', async (req, res) => {
+alertRoutes.post('/notifications/:id/read', validate(schemas.markNotificationRead), async (req, res) => {
   try {
-    const { id } = req.params;
-
-    const { error } = await supabase
-      .from('alert_notifications')
-      .update({ is_read: true })
-      .eq('id', parseInt(id));
+    const { id } = input(res, schemas.markNotificationRead).params;
 
-    if (error) throw error;
+    await alertRepo.markNotificationRead(id);
 
     res.json({ success: true });
   } catch (error) {
@@ -304,29 +299,13 @@ alertRoutes.post('/notifications/:id/read', async (req, res) => {
  * POST /api/alerts/notifications/read-all
  * Mark all notifications as read for a visitor
  */
-alertRoutes.post('/notifications/read-all', async (req, res) => {
+alertRoutes.post('/notifications/read-all', validate(schemas.markAllNotificationsRead), async (req, res) => {
   try {
-    const { visitorId } = req.body;
-
-    if (!visitorId) {
-      return res.status(400).json({ error: 'visitorId is required' });
-    }
+    const { visitorId } = input(res, schemas.markAllNotificationsRead).body;
 
     // Get subscription IDs for this visitor
-    const { data: subscriptions } = await supabase
-      .from('alert_subscriptions')
-      .select('id')
-      .eq('visitor_id', visitorId);
-
-    if (subscriptions && subscriptions.length > 0) {
-      const subscriptionIds = subscriptions.map((s: any) => s.id);
-      
-      await supabase
-        .from('alert_notifications')
-        .update({ is_read: true })
-        .in('subscription_id', subscriptionIds)
-        .eq('is_read', false);
-    }
+    const subscriptionIds = await alertRepo.listSubscriptionIds({ visitorId });
+    await alertRepo.markAllRead(subscriptionIds);
 
     res.json({ success: true });
   } catch (error) {
@@ -340,148 +319,173 @@ alertRoutes.post('/notifications/read-all', async (req, res) => {
 
 /**
  * POST /api/alerts/check
- * Manually trigger alert check for all active subscriptions
+ * Queue an alert check for all active subscriptions
  * (This would typically be called by a cron job)
  */
-alertRoutes.post('/check', async (req, res) => {
+alertRoutes.post('/check', validate(schemas.checkAlerts), async (req, res) => {
   try {
-    const { data: activeSubscriptions, error } = await supabase
-      .from('alert_subscriptions')
-      .select('id')
-      .eq('is_active', true);
-
-    if (error) throw error;
-
-    let triggeredCount = 0;
-    
-    for (const sub of activeSubscriptions || []) {
-      const triggered = await checkForAlerts(sub.id);
-      if (triggered) triggeredCount++;
-    }
+    const { job, deduplicated } = await enqueueJob('check_alerts', {}, { dedupeKey: 'check_alerts' });
 
     res.json({
       success: true,
-      checked: activeSubscriptions?.length || 0,
-      triggered: triggeredCount,
+      jobId: job.id,
+      status: job.status,
+      alreadyQueued: deduplicated,
     });
   } catch (error) {
-    console.error('Error checking alerts:', error);
+    console.error('Error queueing alert check:', error);
     res.status(500).json({ error: 'Failed to check alerts' });
   }
 });
 
+// ============================================
+// CHANNELS
+// ============================================
+
 /**
- * Helper: Check if a subscription should trigger an alert
+ * GET /api/alerts/:id/channels
+ * A subscription's webhook channels
  */
-async function checkForAlerts(subscriptionId: number): Promise<boolean> {
+alertRoutes.get('/:id/channels', validate(schemas.listAlertChannels), async (req, res) => {
   try {
-    const { data: subscription, error: subError } = await supabase
-      .from('alert_subscriptions')
-      .select('*')
-      .eq('id', subscriptionId)
-      .single();
-
-    if (subError || !subscription || !subscription.is_active) return false;
-
-    const threshold = THRESHOLDS[subscription.threshold as keyof typeof THRESHOLDS];
-    if (!threshold) return false;
-
-    // Get forecasts for the resort within the timeframe
-    const today = getToday();
-    const futureDate = getDaysFromNow(subscription.timeframe);
-
-    const { data: forecasts, error: forecastError } = await supabase
-      .from('forecasts')
-      .select('*')
-      .eq('resort_id', subscription.resort_id)
-      .gte('forecast_date', today)
-      .lte('forecast_date', futureDate)
-      .gte('predicted_snow', threshold.min)
-      .order('predicted_snow', { ascending: false })
-      .limit(1);
-
-    if (forecastError || !forecasts || forecasts.length === 0) return false;
-
-    const forecast = forecasts[0];
-
-    // Check if we already sent a notification for this forecast recently
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    
-    const { data: recentNotification } = await supabase
-      .from('alert_notifications')
-      .select('id')
-      .eq('subscription_id', subscriptionId)
-      .eq('forecast_date', forecast.forecast_date)
-      .gte('created_at', oneDayAgo)
-      .limit(1);
-
-    if (recentNotification && recentNotification.length > 0) return false;
-
-    // Create notification
-    const snowLabel = forecast.predicted_snow >= 15 ? '🟣 Great' : 
-                      forecast.predicted_snow >= 5 ? '🔵 Good' : '🩵 Light';
-
-    const { error: notifError } = await supabase
-      .from('alert_notifications')
-      .insert({
-        subscription_id: subscriptionId,
-        title: `${snowLabel} Snow Alert: ${subscription.resort_name}`,
-        message: `${forecast.predicted_snow}" of snow predicted for ${formatDate(forecast.forecast_date)}!`,
-        predicted_snow: forecast.predicted_snow,
-        forecast_date: forecast.forecast_date,
-      });
+    const { params: { id }, query: { visitorId } } = input(res, schemas.listAlertChannels);
 
-    if (notifError) {
-      console.error('Error creating notification:', notifError);
-      return false;
+    const subscription = await alertRepo.findSubscriptionForVisitor(id, visitorId);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
     }
 
-    // Update last triggered
-    await supabase
-      .from('alert_subscriptions')
-      .update({ 
-        last_triggered: new Date().toISOString(),
-        last_checked: new Date().toISOString(),
-      })
-      .eq('id', subscriptionId);
-
-    // Email (optional): send if user provided an email and Resend is configured
-    if (subscription.email) {
-      const subject = `${snowLabel} Snow Alert: ${subscription.resort_name}`;
-      const html = `
-        <div style="font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial;">
-          <h2 style="margin:0 0 8px 0;">${subject}</h2>
-          <p style="margin:0 0 8px 0;">${forecast.predicted_snow}" of snow predicted for <b>${formatDate(
-            forecast.forecast_date,
-          )}</b>.</p>
-          <p style="margin:0;color:#64748b;">SnowPeak Tracker • You can manage alerts in the app.</p>
-        </div>
-      `;
-
-      try {
-        await sendAlertEmail({
-          to: subscription.email,
-          subject,
-          html,
-        });
-      } catch (e) {
-        console.error('Error sending alert email (Resend):', e);
-        // do not fail the alert creation if email delivery fails
-      }
+    const channels = await alertRepo.listChannels(subscription.id);
+    res.json({ channels: channels.map(channelFields) });
+  } catch (error) {
+    console.error('Error fetching channels:', error);
+    if (isMissingTableError(error)) {
+      return res.status(503).json(missingTablesResponse());
+    }
+    res.status(500).json({ error: 'Failed to fetch channels' });
+  }
+});
+
+/**
+ * POST /api/alerts/:id/channels
+ * Add a webhook, Slack or Discord channel; webhook sends are signed with a
+ * secret that is only returned here
+ */
+alertRoutes.post('/:id/channels', validate(schemas.addAlertChannel), async (req, res) => {
+  try {
+    const { params: { id }, body } = input(res, schemas.addAlertChannel);
+
+    const problem = await webhookUrlProblem(body.url);
+    if (problem) {
+      return res.status(400).json(validationError([{ in: 'body', path: 'url', message: problem }]));
     }
 
-    return true;
+    const subscription = await alertRepo.findSubscriptionForVisitor(id, body.visitorId);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const existing = await alertRepo.listChannels(subscription.id);
+    if (existing.length >= MAX_CHANNELS_PER_SUBSCRIPTION) {
+      return res.status(409).json({ error: `A subscription can have at most ${MAX_CHANNELS_PER_SUBSCRIPTION} channels` });
+    }
+
+    const secret = body.type === 'webhook' ? body.secret ?? generateSecret() : null;
+    const channel = await alertRepo.insertChannel({
+      subscription_id: subscription.id,
+      type: body.type,
+      url: body.url,
+      secret,
+    });
+
+    res.json({ success: true, channel: channelFields(channel), secret });
   } catch (error) {
-    console.error('Error checking alerts:', error);
-    return false;
+    console.error('Error adding channel:', error);
+    if (isMissingTableError(error)) {
+      return res.status(503).json(missingTablesResponse());
+    }
+    res.status(500).json({ error: 'Failed to add channel' });
   }
-}
+});
 
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString('en-US', { 
-    weekday: 'short', 
-    month: 'short', 
-    day: 'numeric' 
-  });
-}
+/**
+ * DELETE /api/alerts/:id/channels/:channelId
+ * Remove a channel (and its delivery log)
+ */
+alertRoutes.delete('/:id/channels/:channelId', validate(schemas.deleteAlertChannel), async (req, res) => {
+  try {
+    const { params: { id, channelId }, query: { visitorId } } = input(res, schemas.deleteAlertChannel);
+
+    const subscription = await alertRepo.findSubscriptionForVisitor(id, visitorId);
+    const channel = subscription ? await alertRepo.findChannel(channelId) : null;
+    if (!subscription || !channel || channel.subscription_id !== subscription.id) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    await alertRepo.deleteChannel(channel.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting channel:', error);
+    res.status(500).json({ error: 'Failed to delete channel' });
+  }
+});
+
+/**
+ * POST /api/alerts/:id/channels/:channelId/test
+ * Send a test message right away and return how it went
+ */
+alertRoutes.post('/:id/channels/:channelId/test', validate(schemas.testAlertChannel), async (req, res) => {
+  try {
+    const { params: { id, channelId }, body: { visitorId } } = input(res, schemas.testAlertChannel);
+
+    const subscription = await alertRepo.findSubscriptionForVisitor(id, visitorId);
+    const channel = subscription ? await alertRepo.findChannel(channelId) : null;
+    if (!subscription || !channel || channel.subscription_id !== subscription.id) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    const { locale, units } = res.locals;
+    const payload = testPayload(subscription, {
+      scope: describeScope(subscriptionScope(subscription), locale, subscription.resort_name),
+      locale,
+      units,
+    });
+    const delivery = await sendTestDelivery(channel, payload);
+
+    res.json({ success: true, delivery: deliveryFields(delivery) });
+  } catch (error) {
+    console.error('Error testing channel:', error);
+    if (isMissingTableError(error)) {
+      return res.status(503).json(missingTablesResponse());
+    }
+    res.status(500).json({ error: 'Failed to test channel' });
+  }
+});
+
+/**
+ * GET /api/alerts/:id/deliveries
+ * The delivery log of a subscription's channels
+ */
+alertRoutes.get('/:id/deliveries', validate(schemas.listAlertDeliveries), async (req, res) => {
+  try {
+    const { params: { id }, query: { visitorId, limit } } = input(res, schemas.listAlertDeliveries);
+
+    const subscription = await alertRepo.findSubscriptionForVisitor(id, visitorId);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const channels = await alertRepo.listChannels(subscription.id);
+    const deliveries = await alertRepo.listDeliveries(
+      channels.map((channel) => channel.id),
+      limit,
+    );
+    res.json({ count: deliveries.length, deliveries: deliveries.map(deliveryFields) });
+  } catch (error) {
+    console.error('Error fetching deliveries:', error);
+    if (isMissingTableError(error)) {
+      return res.status(503).json(missingTablesResponse());
+    }
+    res.status(500).json({ error: 'Failed to fetch deliveries' });
+  }
+});
@@ -1,25 +1,31 @@
 import { Router } from 'express';
-import { geminiService } from '../services/gemini.js';
+import { getGeminiService } from '../services/gemini.js';
+import { translate, type MessageKey } from '../services/i18n/index.js';
+import { input, validate } from '../middleware/validate.js';
+import { chat as schemas } from '../schemas/index.js';
 
 export const chatRoutes = Router();
 
+const SUGGESTIONS: MessageKey[] = [
+  'chat.suggestion.gear',
+  'chat.suggestion.length',
+  'chat.suggestion.powder',
+  'chat.suggestion.crowds',
+  'chat.suggestion.trailMap',
+  'chat.suggestion.baseDepth',
+  'chat.suggestion.cold',
+  'chat.suggestion.technique',
+];
+
 /**
  * POST /api/chat
- * AI Ski Assistant
+ * AI Ski Assistant, answering in the request's locale
  */
-chatRoutes.post('/', async (req, res) => {
+chatRoutes.post('/', validate(schemas.askAssistant), async (req, res) => {
   try {
-    const { question } = req.body;
-    
-    if (!question || typeof question !== 'string') {
-      return res.status(400).json({ error: 'Question is required' });
-    }
+    const { question } = input(res, schemas.askAssistant).body;
 
-    if (question.length > 500) {
-      return res.status(400).json({ error: 'Question too long (max 500 characters)' });
-    }
-
-    const answer = await geminiService.askSkiAssistant(question);
+    const answer = await getGeminiService().askSkiAssistant(question, res.locals.locale);
     
     res.json({
       question,
@@ -36,16 +42,12 @@ chatRoutes.post('/', async (req, res) => {
  * POST /api/chat/resort
  * Ask about a specific resort
  */
-chatRoutes.post('/resort', async (req, res) => {
+chatRoutes.post('/resort', validate(schemas.askAboutResort), async (req, res) => {
   try {
-    const { resortName, question } = req.body;
-    
-    if (!resortName || !question) {
-      return res.status(400).json({ error: 'Resort name and question are required' });
-    }
+    const { resortName, question } = input(res, schemas.askAboutResort).body;
 
     const contextualQuestion = `Regarding ${resortName} ski resort: ${question}`;
-    const answer = await geminiService.askSkiAssistant(contextualQuestion);
+    const answer = await getGeminiService().askSkiAssistant(contextualQuestion, res.locals.locale);
     
     res.json({
       resort: resortName,
@@ -61,19 +63,10 @@ chatRoutes.post('/resort', async (req, res) => {
 
 /**
  * GET /api/chat/suggestions
- * Get suggested questions for new users
+ * Get suggested questions for new users (in the request's locale)
  */
-chatRoutes.get('/suggestions', (req, res) => {
+chatRoutes.get('/suggestions', validate(schemas.chatSuggestions), (req, res) => {
   res.json({
-    suggestions: [
-      "What ski gear do I need as a beginner?",
-      "How do I choose the right ski length?",
-      "What's the difference between powder and groomed runs?",
-      "Best time to ski to avoid crowds?",
-      "How do I read a ski trail map?",
-      "What does 'base depth' mean?",
-      "Tips for skiing in cold weather?",
-      "How do I improve my skiing technique?",
-    ],
+    suggestions: SUGGESTIONS.map((key) => translate(res.locals.locale, key)),
   });
 });
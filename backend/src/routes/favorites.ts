@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { favoriteRepo, resortRepo, userRepo } from '../db/repositories/index.js';
+import { resolveResortId } from '../services/resortIdentity.js';
+import { parseUnitSystem } from '../services/units.js';
+import { parseLocale } from '../services/i18n/index.js';
+import { input, validate } from '../middleware/validate.js';
+import { favorites as schemas } from '../schemas/index.js';
+
+export const favoriteRoutes = Router();
+
+/**
+ * GET /api/favorites?visitorId=xxx
+ * Resort ids the visitor has favorited, and their units and locale (null if never chosen)
+ */
+favoriteRoutes.get('/', validate(schemas.getFavorites), async (req, res) => {
+  try {
+    const { visitorId } = input(res, schemas.getFavorites).query;
+
+    const [favorites, preferences] = await Promise.all([
+      favoriteRepo.listForVisitor(visitorId),
+      userRepo.getPreferences(visitorId),
+    ]);
+    res.json({
+      resortIds: favorites.map((f) => f.resort_id),
+      units: parseUnitSystem(preferences.units),
+      locale: parseLocale(preferences.locale),
+    });
+  } catch (error) {
+    console.error('Error fetching favorites:', error);
+    res.status(500).json({ error: 'Failed to fetch favorites' });
+  }
+});
+
+/**
+ * PUT /api/favorites
+ * Replace the visitor's favorites (synced from the browser). Names and
+ * non-canonical ids are resolved; resorts we don't know yet are skipped.
+ * Optional `units` (imperial or metric) and `locale` (en or zh-CN) are saved
+ * with them; alerts are written in that language and those units.
+ */
+favoriteRoutes.put('/', validate(schemas.syncFavorites), async (req, res) => {
+  try {
+    const { visitorId, resortIds, units, locale } = input(res, schemas.syncFavorites).body;
+
+    const resolved: string[] = [];
+    for (const value of resortIds) {
+      if (!value.trim()) continue;
+      const id = await resolveResortId(value.trim());
+      if (!resolved.includes(id) && (await resortRepo.exists(id))) resolved.push(id);
+    }
+
+    await favoriteRepo.replaceForVisitor(visitorId, resolved);
+    const changed = {
+      ...(units !== undefined ? { units } : {}),
+      ...(locale !== undefined ? { locale } : {}),
+    };
+    const preferences = Object.keys(changed).length > 0
+      ? await userRepo.savePreferences(visitorId, changed)
+      : await userRepo.getPreferences(visitorId);
+    res.json({
+      success: true,
+      resortIds: resolved,
+      units: parseUnitSystem(preferences.units),
+      locale: parseLocale(preferences.locale),
+    });
+  } catch (error) {
+    console.error('Error syncing favorites:', error);
+    res.status(500).json({ error: 'Failed to sync favorites' });
+  }
+});
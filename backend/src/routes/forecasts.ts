@@ -1,40 +1,16 @@
 import { Router } from 'express';
-import { supabase, getToday, getHoursAgo, getDaysFromNow } from '../db/supabase.js';
-import { geminiService } from '../services/gemini.js';
-import { onTheSnowScraper } from '../services/onTheSnow.js';
+import { getToday, getHoursAgo, getDaysFromNow } from '../db/supabase.js';
+import { resortRepo, forecastRepo } from '../db/repositories/index.js';
+import type { Resort } from '../types/database.js';
+import { snowDataOrchestrator, SnowDataUnavailableError } from '../services/providers/index.js';
+import { getForecastAccuracy, BIG_DAY_INCHES } from '../services/forecastVerification.js';
+import { resolveResortId } from '../services/resortIdentity.js';
+import { parsePlaceFilter, placeFor } from '../services/regions.js';
+import { input, validate } from '../middleware/validate.js';
+import { forecasts as schemas } from '../schemas/index.js';
 
 export const forecastRoutes = Router();
 
-type DbMode = 'snake' | 'prisma';
-let dbMode: DbMode | null = null;
-
-function isMissingTableError(error: any): boolean {
-  return (
-    error &&
-    typeof error === 'object' &&
-    (error.code === 'PGRST205' ||
-      (typeof error.message === 'string' && error.message.includes('Could not find the table')))
-  );
-}
-
-async function detectDbMode(): Promise<DbMode> {
-  if (dbMode) return dbMode;
-  const snakeProbe = await supabase.from('resorts').select('id').limit(1);
-  if (!snakeProbe.error) {
-    dbMode = 'snake';
-    return dbMode;
-  }
-  if (isMissingTableError(snakeProbe.error)) {
-    const prismaProbe = await supabase.from('Resort').select('id').limit(1);
-    if (!prismaProbe.error) {
-      dbMode = 'prisma';
-      return dbMode;
-    }
-  }
-  dbMode = 'snake';
-  return dbMode;
-}
-
 // In-memory cache for top resorts by region (refresh every 1 hour)
 const topResortsCache: Record<string, {
   data: any[];
@@ -46,20 +22,17 @@ const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
 /**
  * GET /api/forecasts/top
  * Get top resorts by predicted snowfall
- * Uses database cache first, only calls Gemini API when cache is stale (> 1 hour)
+ * Uses database cache first, only calls the provider chain when cache is stale (> 1 hour)
  */
-forecastRoutes.get('/top', async (req, res) => {
+forecastRoutes.get('/top', validate(schemas.topForecasts), async (req, res) => {
   try {
-    const { region = 'All', limit = '5', refresh } = req.query;
-    const regionStr = region as string;
-    const limitNum = parseInt(limit as string);
+    const { region: regionStr, limit: limitNum, refresh } = input(res, schemas.topForecasts).query;
     const now = Date.now();
-    const mode = await detectDbMode();
 
     // 1. Check in-memory cache first (fastest)
     const memoryCache = topResortsCache[regionStr];
     if (
-      refresh !== 'true' &&
+      !refresh &&
       memoryCache &&
       memoryCache.data.length > 0 &&
       now - memoryCache.timestamp < CACHE_DURATION
@@ -78,70 +51,33 @@ forecastRoutes.get('/top', async (req, res) => {
     // 2. Check database cache (within last hour)
     const oneHourAgo = getHoursAgo(1);
 
-    const resortsTable = mode === 'prisma' ? 'Resort' : 'resorts';
-    const forecastsTable = mode === 'prisma' ? 'Forecast' : 'forecasts';
-    const forecastDateCol = mode === 'prisma' ? 'forecastDate' : 'forecast_date';
-    const fetchedAtCol = mode === 'prisma' ? 'fetchedAt' : 'fetched_at';
-    const predictedSnowCol = mode === 'prisma' ? 'predictedSnow' : 'predicted_snow';
-    const resortIdCol = mode === 'prisma' ? 'resortId' : 'resort_id';
-
     // Use a 5-day window to compute the "top 5-day total" ranking.
     const today = getToday();
     const fiveDaysOut = getDaysFromNow(5);
 
-    // Build query for forecasts with resort data
-    // Prisma mode: join via Resort relationship
-    // Snake mode: join via resorts relationship
-    let query =
-      mode === 'prisma'
-        ? supabase
-            .from(forecastsTable)
-            .select(`*, ${resortsTable}!inner(*)`)
-            .gte(fetchedAtCol, oneHourAgo)
-            .gte(forecastDateCol, today)
-            .lte(forecastDateCol, fiveDaysOut)
-            .order(predictedSnowCol, { ascending: false })
-            .limit(limitNum * 40)
-        : supabase
-            .from(forecastsTable)
-            .select('*, resorts!inner(*)')
-            .gte(fetchedAtCol, oneHourAgo)
-            .gte(forecastDateCol, today)
-            .lte(forecastDateCol, fiveDaysOut)
-            .order(predictedSnowCol, { ascending: false })
-            .limit(limitNum * 40);
-
-    // Filter by region/state if specified
-    if (regionStr !== 'All') {
-      // IMPORTANT: When filtering on a joined (foreign) table in PostgREST, you must use `foreignTable`
-      // and refer to columns without the table prefix.
-      const safe = regionStr.replace(/[^A-Za-z]/g, ''); // basic hardening for PostgREST filter syntax
-      query =
-        mode === 'prisma'
-          ? (query as any).or(`state.eq.${safe},region.eq.${safe}`, { foreignTable: 'Resort' })
-          : (query as any).or(`state.eq.${safe},region.eq.${safe}`, { foreignTable: 'resorts' });
-    }
-
-    const { data: dbForecasts, error } = await query;
-
-    if (error && !isMissingTableError(error)) {
-      throw error;
-    }
+    const dbForecasts = await forecastRepo.listWithResorts({
+      fetchedSince: oneHourAgo,
+      from: today,
+      to: fiveDaysOut,
+      orderBy: 'snow',
+      limit: limitNum * 40,
+      // All, a state (CO, CA-BC), a country (Canada) or a region (Alps)
+      place: parsePlaceFilter(regionStr),
+    });
 
-    if (!error && dbForecasts && dbForecasts.length > 0) {
+    if (dbForecasts.length > 0) {
       // Group forecasts by resort and sum predicted snow
-      const resortSnowMap = new Map<string, { resort: any; totalSnow: number; fetchedAt: string }>();
+      const resortSnowMap = new Map<string, { resort: Resort; totalSnow: number; fetchedAt: string }>();
       
       for (const forecast of dbForecasts) {
-        const resortId = (forecast as any)[resortIdCol];
-        const existing = resortSnowMap.get(resortId);
+        const existing = resortSnowMap.get(forecast.resort_id);
         if (existing) {
-          existing.totalSnow += (forecast as any)[predictedSnowCol] || 0;
+          existing.totalSnow += forecast.predicted_snow || 0;
         } else {
-          resortSnowMap.set(resortId, {
-            resort: mode === 'prisma' ? (forecast as any).Resort : (forecast as any).resorts,
-            totalSnow: (forecast as any)[predictedSnowCol] || 0,
-            fetchedAt: (forecast as any)[fetchedAtCol],
+          resortSnowMap.set(forecast.resort_id, {
+            resort: forecast.resort,
+            totalSnow: forecast.predicted_snow || 0,
+            fetchedAt: forecast.fetched_at,
           });
         }
       }
@@ -151,12 +87,14 @@ forecastRoutes.get('/top', async (req, res) => {
         .sort((a, b) => b.totalSnow - a.totalSnow)
         .slice(0, limitNum);
 
-      if (refresh !== 'true' && dbResorts.length >= limitNum) {
+      if (!refresh && dbResorts.length >= limitNum) {
         console.log(`[Cache HIT] Database cache for region: ${regionStr}`);
         const formattedResorts = dbResorts.map(item => ({
           name: item.resort.name,
           location: item.resort.location,
+          country: item.resort.country,
           state: item.resort.state,
+          region: item.resort.region,
           predictedSnow: Math.round(item.totalSnow),
           summary: `Based on cached forecast data`,
           latitude: item.resort.latitude,
@@ -175,28 +113,15 @@ forecastRoutes.get('/top', async (req, res) => {
           resorts: formattedResorts,
           cached: true,
           cacheSource: 'database',
+          cacheAge: null,
         });
       }
     }
 
-    // 3. Cache miss or refresh requested - fetch fresh data from OnTheSnow scraper
+    // 3. Cache miss or refresh requested - fetch fresh data through the provider chain
     console.log(`[Cache MISS] Fetching fresh data for region: ${regionStr}`);
     
-    let topResorts: any[] = [];
-    try {
-      // Try OnTheSnow scraper first (real data)
-      const scrapedResorts = await onTheSnowScraper.fetchTopSnowfallResorts(regionStr, limitNum);
-      if (scrapedResorts.length > 0) {
-        topResorts = scrapedResorts;
-        console.log(`[Source] Got ${topResorts.length} resorts from OnTheSnow scraper`);
-      } else {
-        throw new Error('No data from scraper');
-      }
-    } catch (scraperError) {
-      // Fallback to Gemini if scraper fails
-      console.warn(`[Source] Scraper failed, falling back to Gemini:`, scraperError);
-      topResorts = await geminiService.fetchTopSnowfallResorts(regionStr, limitNum);
-    }
+    const { data: topResorts } = await snowDataOrchestrator.fetchTopSnowfallResorts(regionStr, limitNum);
     
     // Update memory cache
     topResortsCache[regionStr] = {
@@ -208,59 +133,31 @@ forecastRoutes.get('/top', async (req, res) => {
     const nowTimestamp = new Date().toISOString();
     
     for (const resort of topResorts) {
-      const id = resort.name.toLowerCase().replace(/\s+/g, '-');
+      const id = await resolveResortId(resort.name, { state: resort.state });
       
       // Upsert resort
-      const resortUpsert = await supabase
-        .from(mode === 'prisma' ? 'Resort' : 'resorts')
-        .upsert(
-          mode === 'prisma'
-            ? {
-                id,
-                name: resort.name,
-                location: resort.location,
-                state: resort.state || 'US',
-                region: determineRegionFromState(resort.state),
-                latitude: resort.latitude || 0,
-                longitude: resort.longitude || 0,
-                updatedAt: nowTimestamp,
-              }
-            : {
-                id,
-                name: resort.name,
-                location: resort.location,
-                state: resort.state || 'US',
-                region: determineRegionFromState(resort.state),
-                latitude: resort.latitude || 0,
-                longitude: resort.longitude || 0,
-                updated_at: nowTimestamp,
-              },
-          { onConflict: 'id' },
-        );
-      if (resortUpsert.error && !isMissingTableError(resortUpsert.error)) throw resortUpsert.error;
+      const place = placeFor(resort.country, resort.state);
+      await resortRepo.upsert({
+        id,
+        name: resort.name,
+        location: resort.location || place.location,
+        country: place.country,
+        state: place.state,
+        sub_region: place.subRegion,
+        region: resort.region || place.region,
+        latitude: resort.latitude || 0,
+        longitude: resort.longitude || 0,
+        updated_at: nowTimestamp,
+      });
 
       // Store forecast with explicit fetched_at
-      const forecastUpsert = await supabase
-        .from(mode === 'prisma' ? 'Forecast' : 'forecasts')
-        .upsert(
-          mode === 'prisma'
-            ? {
-                resortId: id,
-                forecastDate: today,
-                predictedSnow: resort.predictedSnow,
-                condition: resort.summary,
-                fetchedAt: nowTimestamp,
-              }
-            : {
-                resort_id: id,
-                forecast_date: today,
-                predicted_snow: resort.predictedSnow,
-                condition: resort.summary,
-                fetched_at: nowTimestamp,
-              },
-          { onConflict: mode === 'prisma' ? 'resortId,forecastDate' : 'resort_id,forecast_date' },
-        );
-      if (forecastUpsert.error && !isMissingTableError(forecastUpsert.error)) throw forecastUpsert.error;
+      await forecastRepo.upsert({
+        resort_id: id,
+        forecast_date: today,
+        predicted_snow: resort.predictedSnow,
+        condition: resort.summary,
+        fetched_at: nowTimestamp,
+      });
     }
     
     console.log(`[Cache STORED] Saved ${topResorts.length} resorts to database for region: ${regionStr}`);
@@ -270,9 +167,14 @@ forecastRoutes.get('/top', async (req, res) => {
       count: topResorts.length,
       resorts: topResorts,
       cached: false,
+      cacheSource: null,
+      cacheAge: null,
     });
   } catch (error) {
     console.error('Error fetching top forecasts:', error);
+    if (error instanceof SnowDataUnavailableError) {
+      return res.status(503).json({ error: 'No snow data source available', attempts: error.attempts });
+    }
     res.status(500).json({ error: 'Failed to fetch top forecasts' });
   }
 });
@@ -281,43 +183,25 @@ forecastRoutes.get('/top', async (req, res) => {
  * GET /api/forecasts/summary
  * Get national snowfall summary
  */
-forecastRoutes.get('/summary', async (req, res) => {
+forecastRoutes.get('/summary', validate(schemas.forecastSummary), async (req, res) => {
   try {
     const today = getToday();
     const fiveDaysOut = getDaysFromNow(5);
-    const mode = await detectDbMode();
-
     // Get forecasts with resort data
-    const { data: forecasts, error } =
-      mode === 'prisma'
-        ? await supabase
-            .from('Forecast')
-            .select('*, Resort!inner(*)')
-            .gte('forecastDate', today)
-            .lte('forecastDate', fiveDaysOut)
-            .order('predictedSnow', { ascending: false })
-        : await supabase
-            .from('forecasts')
-            .select('*, resorts!inner(*)')
-            .gte('forecast_date', today)
-            .lte('forecast_date', fiveDaysOut)
-            .order('predicted_snow', { ascending: false });
-
-    if (error) throw error;
+    const forecasts = await forecastRepo.listWithResorts({ from: today, to: fiveDaysOut, orderBy: 'snow' });
 
     // Aggregate by region
     const regionStats: Record<string, { totalSnow: number; resortCount: number; topResort: string }> = {};
     
-    for (const forecast of forecasts || []) {
-      const region = mode === 'prisma' ? (forecast as any).Resort.region : (forecast as any).resorts.region;
+    for (const forecast of forecasts) {
+      const region = forecast.resort.region;
       if (!regionStats[region]) {
         regionStats[region] = { totalSnow: 0, resortCount: 0, topResort: '' };
       }
-      regionStats[region].totalSnow += mode === 'prisma' ? (forecast as any).predictedSnow : (forecast as any).predicted_snow;
+      regionStats[region].totalSnow += forecast.predicted_snow;
       regionStats[region].resortCount++;
-      const predicted = mode === 'prisma' ? (forecast as any).predictedSnow : (forecast as any).predicted_snow;
-      if (!regionStats[region].topResort && predicted > 0) {
-        regionStats[region].topResort = mode === 'prisma' ? (forecast as any).Resort.name : (forecast as any).resorts.name;
+      if (!regionStats[region].topResort && forecast.predicted_snow > 0) {
+        regionStats[region].topResort = forecast.resort.name;
       }
     }
 
@@ -329,7 +213,7 @@ forecastRoutes.get('/summary', async (req, res) => {
         resortCount: stats.resortCount,
         topResort: stats.topResort,
       })),
-      totalResorts: forecasts?.length || 0,
+      totalResorts: forecasts.length,
       lastUpdated: new Date().toISOString(),
     });
   } catch (error) {
@@ -342,36 +226,31 @@ forecastRoutes.get('/summary', async (req, res) => {
  * GET /api/forecasts/alerts
  * Get resorts with significant snowfall predicted
  */
-forecastRoutes.get('/alerts', async (req, res) => {
+forecastRoutes.get('/alerts', validate(schemas.forecastAlerts), async (req, res) => {
   try {
-    const { threshold = '12', hours = '48' } = req.query;
-    const thresholdNum = parseInt(threshold as string);
-    const hoursNum = parseInt(hours as string);
+    const { threshold: thresholdNum, hours: hoursNum } = input(res, schemas.forecastAlerts).query;
 
     const today = getToday();
     const cutoffDays = Math.ceil(hoursNum / 24);
     const cutoffDate = getDaysFromNow(cutoffDays);
 
-    const { data: forecasts, error } = await supabase
-      .from('forecasts')
-      .select('*, resorts!inner(id, name, location, state)')
-      .gte('forecast_date', today)
-      .lte('forecast_date', cutoffDate)
-      .gte('predicted_snow', thresholdNum)
-      .order('predicted_snow', { ascending: false });
-
-    if (error) throw error;
+    const forecasts = await forecastRepo.listWithResorts({
+      from: today,
+      to: cutoffDate,
+      minSnow: thresholdNum,
+      orderBy: 'snow',
+    });
 
     res.json({
       threshold: thresholdNum,
       timeframe: `${hoursNum} hours`,
-      count: forecasts?.length || 0,
-      alerts: (forecasts || []).map((f: any) => ({
+      count: forecasts.length,
+      alerts: forecasts.map((f) => ({
         resort: {
-          id: f.resorts.id,
-          name: f.resorts.name,
-          location: f.resorts.location,
-          state: f.resorts.state,
+          id: f.resort.id,
+          name: f.resort.name,
+          location: f.resort.location,
+          state: f.resort.state,
         },
         forecastDate: f.forecast_date,
         predictedSnow: f.predicted_snow,
@@ -384,17 +263,20 @@ forecastRoutes.get('/alerts', async (req, res) => {
   }
 });
 
-// Helper function
-function determineRegionFromState(state: string | undefined): string {
-  if (!state) return 'Other';
-  
-  const regionMap: Record<string, string> = {
-    'CO': 'Rockies', 'UT': 'Rockies', 'WY': 'Rockies', 'MT': 'Rockies',
-    'ID': 'Rockies', 'NM': 'Rockies', 'AZ': 'Rockies',
-    'CA': 'Pacific', 'WA': 'Pacific', 'OR': 'Pacific', 'NV': 'Pacific',
-    'VT': 'Northeast', 'NH': 'Northeast', 'ME': 'Northeast', 'NY': 'Northeast',
-    'MA': 'Northeast', 'CT': 'Northeast', 'PA': 'Northeast',
-    'MI': 'Midwest', 'WI': 'Midwest', 'MN': 'Midwest', 'OH': 'Midwest',
-  };
-  return regionMap[state] || 'Other';
-}
+/**
+ * GET /api/forecasts/accuracy
+ * Bias, MAE and 6"+ day hit rate of past forecasts, per source, resort and lead time
+ */
+forecastRoutes.get('/accuracy', validate(schemas.forecastAccuracy), async (req, res) => {
+  try {
+    const report = await getForecastAccuracy(input(res, schemas.forecastAccuracy).query);
+
+    res.json({
+      bigDayInches: BIG_DAY_INCHES,
+      ...report,
+    });
+  } catch (error) {
+    console.error('Error fetching forecast accuracy:', error);
+    res.status(500).json({ error: 'Failed to fetch forecast accuracy' });
+  }
+});
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { jobRepo, isMissingTableError } from '../db/repositories/index.js';
+import { jobWorker } from '../services/jobQueue.js';
+import { refreshScheduleFromEnv } from '../services/backgroundRefresh.js';
+import { rankResortsForRefresh } from '../services/refreshPriority.js';
+import { input, validate } from '../middleware/validate.js';
+import { jobs as schemas } from '../schemas/index.js';
+import type { Job } from '../types/database.js';
+
+export const jobRoutes = Router();
+
+const MAX_JOBS = 200;
+
+function formatJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    payload: job.payload,
+    parentId: job.parent_id,
+    priority: job.priority,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    runAt: job.run_at,
+    lockedBy: job.locked_by,
+    lockedUntil: job.locked_until,
+    lastError: job.last_error,
+    result: job.result,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+  };
+}
+
+function missingTableResponse() {
+  return {
+    error: 'Jobs table is not set up yet. Run `backend/supabase/migrations/009_jobs.sql`, then restart the backend.',
+    code: 'JOB_TABLES_MISSING',
+  };
+}
+
+/**
+ * GET /api/jobs
+ * Recent jobs with counts by status and the jobs this instance is running
+ * Query: status, type, limit
+ */
+jobRoutes.get('/', validate(schemas.listJobs), async (req, res) => {
+  try {
+    const { status, type, limit } = input(res, schemas.listJobs).query;
+
+    const [counts, jobs] = await Promise.all([
+      jobRepo.countByStatus(),
+      jobRepo.list({ status, type, limit }),
+    ]);
+
+    res.json({
+      counts,
+      jobs: jobs.map(formatJob),
+      worker: { id: jobWorker.id, active: jobWorker.active },
+    });
+  } catch (error) {
+    if (isMissingTableError(error)) return res.status(503).json(missingTableResponse());
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+/**
+ * GET /api/jobs/refresh-priority
+ * How urgently each resort needs a refresh and why (storm, interest, staleness)
+ * Query: limit, due=true for only the resorts the next scheduled refresh would pick
+ */
+jobRoutes.get('/refresh-priority', validate(schemas.refreshPriority), async (req, res) => {
+  try {
+    const { limit, due } = input(res, schemas.refreshPriority).query;
+    const { baseIntervalHours } = refreshScheduleFromEnv();
+    const ranked = await rankResortsForRefresh({ baseIntervalHours });
+    const resorts = due ? ranked.filter((r) => r.due) : ranked;
+
+    res.json({
+      baseIntervalHours,
+      due: ranked.filter((r) => r.due).length,
+      dormant: ranked.filter((r) => r.dormant).length,
+      total: ranked.length,
+      resorts: resorts.slice(0, limit),
+    });
+  } catch (error) {
+    console.error('Error ranking resorts for refresh:', error);
+    res.status(500).json({ error: 'Failed to rank resorts for refresh' });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * One job with the progress of the jobs it queued (e.g. a crawl's per-resort refreshes)
+ */
+jobRoutes.get('/:id', validate(schemas.getJob), async (req, res) => {
+  try {
+    const { id } = input(res, schemas.getJob).params;
+
+    const job = await jobRepo.findById(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const [childCounts, children] = await Promise.all([
+      jobRepo.countByStatus(id),
+      jobRepo.list({ parentId: id, limit: MAX_JOBS }),
+    ]);
+
+    res.json({
+      job: formatJob(job),
+      children: {
+        counts: childCounts,
+        total: Object.values(childCounts).reduce((sum, n) => sum + n, 0),
+        jobs: children.map(formatJob),
+      },
+    });
+  } catch (error) {
+    if (isMissingTableError(error)) return res.status(503).json(missingTableResponse());
+    console.error('Error fetching job:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
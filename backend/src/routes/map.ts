@@ -1,6 +1,11 @@
 import { Router } from 'express';
-import { supabase, getToday } from '../db/supabase.js';
-import { geminiService } from '../services/gemini.js';
+import { getToday } from '../db/supabase.js';
+import { resortRepo, snowReportRepo, forecastRepo } from '../db/repositories/index.js';
+import { getGeminiService } from '../services/gemini.js';
+import { resolveResortId } from '../services/resortIdentity.js';
+import { allRegions, matchesPlaceFilter, parsePlaceFilter, placeFor } from '../services/regions.js';
+import { input, validate } from '../middleware/validate.js';
+import { map as schemas } from '../schemas/index.js';
 
 export const mapRoutes = Router();
 
@@ -8,9 +13,11 @@ export const mapRoutes = Router();
 const mapDataCache: {
   data: any[];
   timestamp: number;
+  source: 'database' | 'gemini';
 } = {
   data: [],
   timestamp: 0,
+  source: 'database',
 };
 
 const MAP_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
@@ -19,26 +26,21 @@ const MAP_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
  * GET /api/map/resorts
  * Get all resorts with coordinates and snow data for map visualization
  */
-mapRoutes.get('/resorts', async (req, res) => {
+mapRoutes.get('/resorts', validate(schemas.mapResorts), async (req, res) => {
   try {
-    const { refresh, region, minSnow = '0' } = req.query;
-    const minSnowNum = parseFloat(minSnow as string);
+    const { refresh, region, minSnow: minSnowNum } = input(res, schemas.mapResorts).query;
 
     const now = Date.now();
     
     // Check cache
     if (
-      refresh !== 'true' &&
+      !refresh &&
       mapDataCache.data.length > 0 &&
       now - mapDataCache.timestamp < MAP_CACHE_DURATION
     ) {
-      let filteredData = mapDataCache.data;
-      
-      if (region && region !== 'All') {
-        filteredData = filteredData.filter(r => 
-          r.state === region || r.region === region
-        );
-      }
+      // All, a state (CO, CA-BC), a country (Canada) or a region (Alps)
+      const place = parsePlaceFilter(region);
+      let filteredData = mapDataCache.data.filter((r) => matchesPlaceFilter(r, place));
       
       if (minSnowNum > 0) {
         filteredData = filteredData.filter(r => r.snow48h >= minSnowNum);
@@ -49,46 +51,38 @@ mapRoutes.get('/resorts', async (req, res) => {
         resorts: filteredData,
         cached: true,
         cacheAge: Math.floor((now - mapDataCache.timestamp) / 1000),
+        source: mapDataCache.source,
       });
     }
 
     // Get resorts with coordinates from database
-    const { data: dbResorts, error } = await supabase
-      .from('resorts')
-      .select('*')
-      .neq('latitude', 0)
-      .neq('longitude', 0);
+    const dbResorts = await resortRepo.list({ withCoordinates: true });
 
-    if (!error && dbResorts && dbResorts.length > 20) {
+    if (dbResorts.length > 20) {
       // Get forecasts for all resorts
       const today = getToday();
-      const { data: forecasts } = await supabase
-        .from('forecasts')
-        .select('*')
-        .gte('forecast_date', today);
+      const forecasts = await forecastRepo.list({ from: today, orderBy: 'date' });
 
       // Get latest snow reports
-      const { data: snowReports } = await supabase
-        .from('snow_reports')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const latestReports = await snowReportRepo.findLatestByResort();
 
       // Build map data
-      const mapData = dbResorts.map((resort: any) => {
-        const resortForecasts = forecasts?.filter((f: any) => f.resort_id === resort.id) || [];
-        const latestReport = snowReports?.find((r: any) => r.resort_id === resort.id);
+      const mapData = dbResorts.map((resort) => {
+        const resortForecasts = forecasts.filter((f) => f.resort_id === resort.id);
+        const latestReport = latestReports.get(resort.id);
         
         return {
           id: resort.id,
           name: resort.name,
+          country: resort.country,
           state: resort.state,
           region: resort.region,
           latitude: resort.latitude,
           longitude: resort.longitude,
           currentBase: latestReport?.base_depth || 0,
           snow24h: resortForecasts[0]?.predicted_snow || 0,
-          snow48h: resortForecasts.slice(0, 2).reduce((sum: number, f: any) => sum + f.predicted_snow, 0),
-          snow5day: resortForecasts.slice(0, 5).reduce((sum: number, f: any) => sum + f.predicted_snow, 0),
+          snow48h: resortForecasts.slice(0, 2).reduce((sum, f) => sum + f.predicted_snow, 0),
+          snow5day: resortForecasts.slice(0, 5).reduce((sum, f) => sum + f.predicted_snow, 0),
           liftsOpen: latestReport?.lifts_open || 0,
           totalLifts: resort.total_lifts,
         };
@@ -96,45 +90,50 @@ mapRoutes.get('/resorts', async (req, res) => {
 
       mapDataCache.data = mapData;
       mapDataCache.timestamp = now;
+      mapDataCache.source = 'database';
 
       return res.json({
         count: mapData.length,
         resorts: mapData,
         cached: false,
+        cacheAge: null,
         source: 'database',
       });
     }
 
     // Fetch from Gemini if database is empty
-    const mapData = await geminiService.fetchMapData(region as string || 'All');
+    const mapData = await getGeminiService().fetchMapData(region || 'All');
     
     // Store in database
+    const ids = new Map<string, string>();
     for (const resort of mapData) {
-      const id = resort.name.toLowerCase().replace(/\s+/g, '-');
+      const id = await resolveResortId(resort.name, { state: resort.state });
+      ids.set(resort.name, id);
       
       if (resort.latitude && resort.longitude) {
-        await supabase
-          .from('resorts')
-          .upsert({
-            id,
-            name: resort.name,
-            location: `${resort.state}, USA`,
-            state: resort.state,
-            region: determineRegionFromState(resort.state),
-            latitude: resort.latitude,
-            longitude: resort.longitude,
-            updated_at: new Date().toISOString(),
-          }, {
-            onConflict: 'id',
-          });
+        const place = placeFor(resort.country, resort.state);
+        await resortRepo.upsert({
+          id,
+          name: resort.name,
+          location: place.location,
+          country: place.country,
+          state: place.state,
+          sub_region: place.subRegion,
+          region: place.region,
+          latitude: resort.latitude,
+          longitude: resort.longitude,
+          updated_at: new Date().toISOString(),
+        });
       }
     }
 
     // Format for response
     const formattedData = mapData.map((r: any) => ({
-      id: r.name.toLowerCase().replace(/\s+/g, '-'),
+      id: ids.get(r.name),
       name: r.name,
+      country: r.country || 'US',
       state: r.state,
+      region: placeFor(r.country, r.state).region,
       latitude: r.latitude,
       longitude: r.longitude,
       currentBase: r.currentBase || 0,
@@ -145,11 +144,13 @@ mapRoutes.get('/resorts', async (req, res) => {
 
     mapDataCache.data = formattedData;
     mapDataCache.timestamp = now;
+    mapDataCache.source = 'gemini';
 
     res.json({
       count: formattedData.length,
       resorts: formattedData,
       cached: false,
+      cacheAge: null,
       source: 'gemini',
     });
   } catch (error) {
@@ -162,29 +163,17 @@ mapRoutes.get('/resorts', async (req, res) => {
  * GET /api/map/heatmap
  * Get data formatted for heatmap visualization
  */
-mapRoutes.get('/heatmap', async (req, res) => {
+mapRoutes.get('/heatmap', validate(schemas.mapHeatmap), async (req, res) => {
   try {
-    const { metric = 'snow48h' } = req.query;
+    const { metric } = input(res, schemas.mapHeatmap).query;
     const today = getToday();
     
     // Get resorts with forecasts
-    const { data: resorts, error } = await supabase
-      .from('resorts')
-      .select('*')
-      .neq('latitude', 0)
-      .neq('longitude', 0);
+    const resorts = await resortRepo.list({ withCoordinates: true });
+    const forecasts = await forecastRepo.list({ from: today, orderBy: 'date' });
 
-    if (error) throw error;
-
-    // Get forecasts
-    const { data: forecasts } = await supabase
-      .from('forecasts')
-      .select('*')
-      .gte('forecast_date', today)
-      .order('forecast_date', { ascending: true });
-
-    const heatmapData = (resorts || []).map((resort: any) => {
-      const resortForecasts = forecasts?.filter((f: any) => f.resort_id === resort.id) || [];
+    const heatmapData = resorts.map((resort) => {
+      const resortForecasts = forecasts.filter((f) => f.resort_id === resort.id);
       let value = 0;
       
       switch (metric) {
@@ -192,10 +181,10 @@ mapRoutes.get('/heatmap', async (req, res) => {
           value = resortForecasts[0]?.predicted_snow || 0;
           break;
         case 'snow48h':
-          value = resortForecasts.slice(0, 2).reduce((sum: number, f: any) => sum + f.predicted_snow, 0);
+          value = resortForecasts.slice(0, 2).reduce((sum, f) => sum + f.predicted_snow, 0);
           break;
         case 'snow5day':
-          value = resortForecasts.slice(0, 5).reduce((sum: number, f: any) => sum + f.predicted_snow, 0);
+          value = resortForecasts.slice(0, 5).reduce((sum, f) => sum + f.predicted_snow, 0);
           break;
       }
 
@@ -222,28 +211,21 @@ mapRoutes.get('/heatmap', async (req, res) => {
  * GET /api/map/regions
  * Get regional snowfall summaries
  */
-mapRoutes.get('/regions', async (req, res) => {
+mapRoutes.get('/regions', validate(schemas.mapRegions), async (req, res) => {
   try {
-    const regions = ['Rockies', 'Pacific', 'Northeast', 'Midwest'];
+    const regions = allRegions();
     const today = getToday();
     
     // Get all resorts and forecasts at once
-    const { data: allResorts } = await supabase
-      .from('resorts')
-      .select('*');
-
-    const { data: allForecasts } = await supabase
-      .from('forecasts')
-      .select('*')
-      .gte('forecast_date', today)
-      .order('forecast_date', { ascending: true });
+    const allResorts = await resortRepo.list();
+    const allForecasts = await forecastRepo.list({ from: today, orderBy: 'date' });
 
     const regionData = regions.map(region => {
-      const resorts = allResorts?.filter((r: any) => r.region === region) || [];
+      const resorts = allResorts.filter((r) => r.region === region);
       
-      const resortsWithSnow = resorts.map((resort: any) => {
-        const forecasts = allForecasts?.filter((f: any) => f.resort_id === resort.id).slice(0, 2) || [];
-        const snow48h = forecasts.reduce((sum: number, f: any) => sum + f.predicted_snow, 0);
+      const resortsWithSnow = resorts.map((resort) => {
+        const forecasts = allForecasts.filter((f) => f.resort_id === resort.id).slice(0, 2);
+        const snow48h = forecasts.reduce((sum, f) => sum + f.predicted_snow, 0);
         return { name: resort.name, snow: snow48h };
       });
 
@@ -269,16 +251,3 @@ mapRoutes.get('/regions', async (req, res) => {
     res.status(500).json({ error: 'Failed to fetch region data' });
   }
 });
-
-// Helper
-function determineRegionFromState(state: string): string {
-  const regionMap: Record<string, string> = {
-    'CO': 'Rockies', 'UT': 'Rockies', 'WY': 'Rockies', 'MT': 'Rockies',
-    'ID': 'Rockies', 'NM': 'Rockies', 'AZ': 'Rockies',
-    'CA': 'Pacific', 'WA': 'Pacific', 'OR': 'Pacific', 'NV': 'Pacific',
-    'VT': 'Northeast', 'NH': 'Northeast', 'ME': 'Northeast', 'NY': 'Northeast',
-    'MA': 'Northeast', 'CT': 'Northeast', 'PA': 'Northeast',
-    'MI': 'Midwest', 'WI': 'Midwest', 'MN': 'Midwest', 'OH': 'Midwest',
-  };
-  return regionMap[state] || 'Other';
-}
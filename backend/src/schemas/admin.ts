@@ -0,0 +1,156 @@
+import { z } from 'zod/v4';
+import { ErrorResponse, QueuedJobResponse, defineRoute } from './common.js';
+
+const TAG = 'Admin';
+
+const maxResorts = z.number().int().positive().optional();
+
+export const ProviderHealth = z
+  .object({
+    id: z.string(),
+    displayName: z.string(),
+    priority: z.number(),
+    trust: z.number(),
+    enabled: z.boolean(),
+    healthy: z.boolean(),
+    consecutiveFailures: z.number(),
+    totalSuccesses: z.number(),
+    totalFailures: z.number(),
+    lastSuccessAt: z.string().nullable(),
+    lastFailureAt: z.string().nullable(),
+    lastError: z.string().nullable(),
+    cooldownUntil: z.string().nullable(),
+  })
+  .meta({ id: 'ProviderHealth' });
+
+export const HostMetrics = z
+  .object({
+    host: z.string(),
+    fetches: z.number(),
+    outcomes: z.record(z.string(), z.number()),
+    statuses: z.record(z.string(), z.number()),
+    bytes: z.number(),
+    avgDurationMs: z.number(),
+    avgWaitMs: z.number(),
+    circuit: z.enum(['closed', 'open', 'half-open']),
+    consecutiveFailures: z.number(),
+    circuitRetryAt: z.string().nullable(),
+    lastFetchAt: z.string().nullable(),
+  })
+  .meta({ id: 'HostMetrics' });
+
+export const health = defineRoute({
+  method: 'get',
+  path: '/health',
+  summary: 'Service, provider and scraper health',
+  tag: TAG,
+  response: z.object({
+    status: z.literal('ok'),
+    service: z.string(),
+    timestamp: z.string(),
+    database: z.enum(['memory', 'supabase']),
+    providers: z.array(ProviderHealth),
+    scraping: z.array(HostMetrics),
+  }),
+});
+
+export const scrapingHealth = defineRoute({
+  method: 'get',
+  path: '/health/scraping',
+  summary: 'Scraper fetch metrics per host, parse-drift counts and the most recent fetches',
+  tag: TAG,
+  response: z.object({
+    hosts: z.array(HostMetrics),
+    parseDrift: z.array(
+      z.object({
+        kind: z.string(),
+        parses: z.number(),
+        suspect: z.number(),
+        lastSuspect: z.object({ url: z.string(), reasons: z.array(z.string()), at: z.string() }).nullable(),
+      }),
+    ),
+    recent: z.array(
+      z.object({
+        url: z.string(),
+        host: z.string(),
+        outcome: z.string(),
+        status: z.number().nullable(),
+        durationMs: z.number(),
+        waitedMs: z.number(),
+        bytes: z.number(),
+        error: z.string().nullable(),
+        at: z.string(),
+      }),
+    ),
+  }),
+});
+
+export const openApiDocument = defineRoute({
+  method: 'get',
+  path: '/api/openapi.json',
+  summary: 'This OpenAPI document',
+  tag: TAG,
+  response: z.record(z.string(), z.unknown()),
+});
+
+export const preload = defineRoute({
+  method: 'post',
+  path: '/api/preload',
+  summary: 'Queue a preload of popular resorts',
+  tag: TAG,
+  request: {
+    body: z.object({ mode: z.enum(['quick', 'full']).default('quick'), maxResorts }).default({ mode: 'quick' }),
+  },
+  response: z.object({
+    success: z.literal(true),
+    mode: z.enum(['quick', 'full']),
+    jobId: z.number(),
+    alreadyQueued: z.boolean(),
+  }),
+});
+
+export const crawl = defineRoute({
+  method: 'post',
+  path: '/api/crawl',
+  summary: 'Queue resort discovery followed by a refresh of every resort',
+  tag: TAG,
+  cronSecret: true,
+  response: QueuedJobResponse.extend({ message: z.string() }),
+  errors: { 401: ErrorResponse },
+});
+
+export const refreshAll = defineRoute({
+  method: 'post',
+  path: '/api/refresh',
+  summary: 'Queue a refresh of the resorts that are due (for cron)',
+  tag: TAG,
+  cronSecret: true,
+  request: {
+    body: z.object({ maxResorts }).default({}),
+  },
+  response: QueuedJobResponse,
+  errors: { 401: ErrorResponse },
+});
+
+export const runJobs = defineRoute({
+  method: 'post',
+  path: '/api/jobs/run',
+  summary: 'Run due jobs for up to maxSeconds (for hosts without a long-lived worker)',
+  tag: TAG,
+  cronSecret: true,
+  request: {
+    body: z.object({ maxSeconds: z.number().int().min(1).max(300).default(50) }).default({ maxSeconds: 50 }),
+  },
+  response: z.object({ ok: z.literal(true), started: z.number() }),
+  errors: { 401: ErrorResponse },
+});
+
+export const verifyForecasts = defineRoute({
+  method: 'post',
+  path: '/api/verify',
+  summary: 'Score past forecasts against the snow reports that followed (for cron)',
+  tag: TAG,
+  cronSecret: true,
+  response: z.object({ ok: z.literal(true), checked: z.number(), verified: z.number(), pending: z.number() }),
+  errors: { 401: ErrorResponse },
+});
@@ -0,0 +1,453 @@
+import { z } from 'zod/v4';
+import {
+  ErrorResponse,
+  SuccessResponse,
+  defineRoute,
+  fahrenheit,
+  inches,
+  numericIdParams,
+  queryFlag,
+  visitorId,
+} from './common.js';
+import { JobStatus } from './jobs.js';
+
+const TAG = 'Alerts';
+
+/** A preset rule, or `custom` */
+export const AlertThreshold = z.enum(['light', 'good', 'great', 'custom']).meta({ id: 'AlertThreshold' });
+
+const SnowfallCondition = z
+  .object({
+    type: z.literal('snowfall'),
+    /** At least this much snow over the window */
+    snow: inches(z.number().positive()),
+    /** Window length in consecutive forecast days (1 = any 24h) */
+    days: z.number().int().min(1).max(7).default(1),
+    /** Only windows ending on a Saturday or Sunday */
+    weekend: z.boolean().default(false),
+  })
+  .meta({ id: 'SnowfallCondition' });
+
+const BaseDepthCondition = z
+  .object({
+    type: z.literal('baseDepth'),
+    /** Met when the latest report reaches it and the one before was below */
+    baseDepth: inches(z.number().positive()),
+  })
+  .meta({ id: 'BaseDepthCondition' });
+
+const TemperatureCondition = z
+  .object({
+    type: z.literal('temperature'),
+    /** A forecast low at or below this */
+    temp: fahrenheit(),
+    /** ...after at least this much snow over the 2 days before (0 = any day) */
+    stormSnow: inches(z.number().min(0)).default(0),
+  })
+  .meta({ id: 'TemperatureCondition' });
+
+const ForecastChangeCondition = z
+  .object({
+    type: z.literal('forecastChange'),
+    /** up: upgraded, down: downgraded, any: either way */
+    direction: z.enum(['up', 'down', 'any']).default('up'),
+    /** A day's forecast moved by at least this much since the previous snapshot */
+    change: inches(z.number().positive()),
+  })
+  .meta({ id: 'ForecastChangeCondition' });
+
+const FreshSnowCondition = z
+  .object({
+    type: z.literal('freshSnow'),
+    /** Today's report has at least this much in the last 24 hours */
+    snow: inches(z.number().positive()),
+  })
+  .meta({ id: 'FreshSnowCondition' });
+
+const LiftsOpeningCondition = z
+  .object({
+    type: z.literal('liftsOpening'),
+    /** Today's report has at least this many more lifts open than the report before */
+    lifts: z.number().int().positive(),
+  })
+  .meta({ id: 'LiftsOpeningCondition' });
+
+export const AlertCondition = z
+  .discriminatedUnion('type', [
+    SnowfallCondition,
+    BaseDepthCondition,
+    TemperatureCondition,
+    ForecastChangeCondition,
+    FreshSnowCondition,
+    LiftsOpeningCondition,
+  ])
+  .meta({ id: 'AlertCondition' });
+
+/** Amounts in the request's units */
+export const AlertRule = z
+  .object({
+    match: z.enum(['all', 'any']).default('all'),
+    conditions: z.array(AlertCondition).min(1, 'Add at least one condition').max(5, 'At most 5 conditions'),
+  })
+  .meta({ id: 'AlertRule' });
+
+const ResortScope = z
+  .object({
+    type: z.literal('resort'),
+    resortId: z.string().trim().min(1),
+  })
+  .meta({ id: 'ResortScope' });
+
+const ListScope = z
+  .object({
+    type: z.literal('list'),
+    resortIds: z.array(z.string().trim().min(1)).max(50, 'At most 50 resorts').default([]),
+    /** Also the visitor's favorites, as synced when alerts are checked */
+    favorites: z.boolean().default(false),
+  })
+  .refine((scope) => scope.resortIds.length > 0 || scope.favorites, {
+    error: 'Add resorts or favorites',
+    path: ['resortIds'],
+  })
+  .meta({ id: 'ListScope' });
+
+const StateScope = z
+  .object({
+    type: z.literal('state'),
+    /** ISO 3166-1 alpha-2 */
+    country: z.string().trim().toUpperCase().length(2).default('US'),
+    /** State, province or prefecture code, e.g. UT or BC */
+    state: z.string().trim().min(1),
+  })
+  .meta({ id: 'StateScope' });
+
+const RegionScope = z
+  .object({
+    type: z.literal('region'),
+    /** e.g. Rockies, Pacific, Alps */
+    region: z.string().trim().min(1),
+  })
+  .meta({ id: 'RegionScope' });
+
+const RadiusScope = z
+  .object({
+    type: z.literal('radius'),
+    /** Town or city at the center, e.g. Seattle; geocoded when no coordinates are given */
+    place: z.string().trim().min(1),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    /** Hours of driving, approximated as a straight-line distance */
+    hours: z.number().positive().max(12),
+    /** Only resorts in this region */
+    region: z.string().trim().min(1).optional(),
+  })
+  .meta({ id: 'RadiusScope' });
+
+/** Which resorts a subscription watches */
+export const AlertScope = z
+  .discriminatedUnion('type', [ResortScope, ListScope, StateScope, RegionScope, RadiusScope])
+  .meta({ id: 'AlertScope' });
+
+const NotificationResort = z
+  .object({
+    resortId: z.string(),
+    resortName: z.string(),
+    forecastDate: z.string(),
+    predictedSnow: inches(),
+  })
+  .meta({ id: 'NotificationResort' });
+
+/** forecast: the rule was met; upgrade/downgrade: a day's forecast moved; report: today's snow report */
+const NotificationKind = z.enum(['forecast', 'upgrade', 'downgrade', 'report']).meta({ id: 'NotificationKind' });
+
+export const AlertNotification = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    message: z.string(),
+    predictedSnow: inches(),
+    forecastDate: z.string(),
+    kind: NotificationKind,
+    /** Only in the notification list (subscriptions carry their own); the snowiest resort for scopes */
+    resortId: z.string().optional(),
+    resortName: z.string().optional(),
+    /** Every resort that met the rule, snowiest first */
+    resorts: z.array(NotificationResort),
+    isRead: z.boolean(),
+    createdAt: z.string(),
+  })
+  .meta({ id: 'AlertNotification' });
+
+const subscriptionFields = {
+  id: z.number(),
+  /** Resort subscriptions only */
+  resortId: z.string().nullable(),
+  resortName: z.string().nullable(),
+  scope: AlertScope,
+  /** e.g. `Alta`, `Utah` or `Within 3h of Seattle`, in the request's locale */
+  scopeLabel: z.string(),
+  threshold: AlertThreshold,
+  /** e.g. `Good Snow (5-15")`, or a summary of a custom rule, in the request's locale and units */
+  thresholdLabel: z.string(),
+  rule: AlertRule,
+  /** Days of forecast watched */
+  timeframe: z.number(),
+  isActive: z.boolean(),
+};
+
+export const AlertSubscription = z
+  .object({
+    ...subscriptionFields,
+    createdAt: z.string(),
+    unreadNotifications: z.number(),
+    /** The 5 newest unread notifications */
+    notifications: z.array(AlertNotification),
+  })
+  .meta({ id: 'AlertSubscription' });
+
+export const subscribeToAlert = defineRoute({
+  method: 'post',
+  path: '/api/alerts/subscribe',
+  summary: 'Create or update an alert subscription for a resort or a scope of resorts, with a preset threshold or a custom rule',
+  tag: TAG,
+  units: true,
+  request: {
+    body: z
+      .object({
+        visitorId,
+        email: z.email().optional(),
+        /** The resort watched, when no scope is given */
+        resortId: z.string().trim().min(1).optional(),
+        resortName: z.string().trim().min(1).optional(),
+        scope: AlertScope.optional(),
+        /** A preset; ignored when a rule is given */
+        threshold: AlertThreshold.exclude(['custom']).optional(),
+        rule: AlertRule.optional(),
+        /** Days of forecast watched */
+        timeframe: z.number().int().min(1).max(16).default(5),
+      })
+      .refine((body) => body.threshold || body.rule, { error: 'threshold or rule is required', path: ['rule'] })
+      .refine((body) => body.resortId || body.scope, { error: 'resortId or scope is required', path: ['scope'] }),
+  },
+  response: z.object({
+    success: z.literal(true),
+    subscription: z.object(subscriptionFields),
+    /** Whether the current forecast already met the rule (a notification was created) */
+    immediateAlert: z.boolean(),
+  }),
+  errors: { 422: ErrorResponse, 503: ErrorResponse },
+});
+
+export const myAlerts = defineRoute({
+  method: 'get',
+  path: '/api/alerts/my',
+  summary: "The visitor's active subscriptions with their unread notifications",
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({ visitorId }),
+  },
+  response: z.object({ count: z.number(), subscriptions: z.array(AlertSubscription) }),
+  errors: { 503: ErrorResponse },
+});
+
+export const unsubscribeAlert = defineRoute({
+  method: 'delete',
+  path: '/api/alerts/{id}',
+  summary: "Delete one of the visitor's subscriptions",
+  tag: TAG,
+  units: true,
+  request: {
+    params: numericIdParams,
+    query: z.object({ visitorId }),
+  },
+  response: z.object({ success: z.literal(true), message: z.string() }),
+  errors: { 404: ErrorResponse },
+});
+
+export const listNotifications = defineRoute({
+  method: 'get',
+  path: '/api/alerts/notifications',
+  summary: "The visitor's 20 newest notifications (unread only unless includeRead=true)",
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      visitorId,
+      includeRead: queryFlag,
+    }),
+  },
+  response: z.object({
+    count: z.number(),
+    notifications: z.array(AlertNotification),
+    /** Set (with an empty list) when the alert tables aren't migrated yet */
+    unavailable: z.literal(true).optional(),
+    reason: z.string().optional(),
+  }),
+});
+
+export const markNotificationRead = defineRoute({
+  method: 'post',
+  path: '/api/alerts/notifications/{id}/read',
+  summary: 'Mark a notification as read',
+  tag: TAG,
+  units: true,
+  request: {
+    params: numericIdParams,
+  },
+  response: SuccessResponse,
+  errors: { 503: ErrorResponse },
+});
+
+export const markAllNotificationsRead = defineRoute({
+  method: 'post',
+  path: '/api/alerts/notifications/read-all',
+  summary: "Mark all of the visitor's notifications as read",
+  tag: TAG,
+  units: true,
+  request: {
+    body: z.object({ visitorId }),
+  },
+  response: SuccessResponse,
+  errors: { 503: ErrorResponse },
+});
+
+export const checkAlerts = defineRoute({
+  method: 'post',
+  path: '/api/alerts/check',
+  summary: 'Queue an alert check for every active subscription (for cron)',
+  tag: TAG,
+  units: true,
+  response: z.object({
+    success: z.literal(true),
+    jobId: z.number(),
+    status: JobStatus,
+    alreadyQueued: z.boolean(),
+  }),
+});
+
+export const AlertChannelType = z.enum(['webhook', 'slack', 'discord']).meta({ id: 'AlertChannelType' });
+
+/** pending: queued; retrying: failed, will be tried again; delivered / failed: final */
+const AlertDeliveryStatus = z.enum(['pending', 'retrying', 'delivered', 'failed']).meta({ id: 'AlertDeliveryStatus' });
+
+export const AlertChannel = z
+  .object({
+    id: z.number(),
+    type: AlertChannelType,
+    /** Masked, e.g. `https://hooks.slack.com/…/x9Qz` */
+    url: z.string(),
+    /** Whether sends are signed (webhook channels) */
+    signed: z.boolean(),
+    isActive: z.boolean(),
+    createdAt: z.string(),
+  })
+  .meta({ id: 'AlertChannel' });
+
+export const AlertDelivery = z
+  .object({
+    id: z.number(),
+    channelId: z.number(),
+    /** null for test sends */
+    notificationId: z.number().nullable(),
+    event: z.enum(['alert.notification', 'alert.test']),
+    title: z.string(),
+    status: AlertDeliveryStatus,
+    attempts: z.number(),
+    /** The channel's last HTTP status */
+    responseStatus: z.number().nullable(),
+    lastError: z.string().nullable(),
+    createdAt: z.string(),
+    deliveredAt: z.string().nullable(),
+  })
+  .meta({ id: 'AlertDelivery' });
+
+const channelParams = z.object({
+  id: z.coerce.number().int().positive(),
+  channelId: z.coerce.number().int().positive(),
+});
+
+export const listAlertChannels = defineRoute({
+  method: 'get',
+  path: '/api/alerts/{id}/channels',
+  summary: "A subscription's webhook channels",
+  tag: TAG,
+  units: true,
+  request: {
+    params: numericIdParams,
+    query: z.object({ visitorId }),
+  },
+  response: z.object({ channels: z.array(AlertChannel) }),
+  errors: { 404: ErrorResponse, 503: ErrorResponse },
+});
+
+export const addAlertChannel = defineRoute({
+  method: 'post',
+  path: '/api/alerts/{id}/channels',
+  summary: "Deliver a subscription's notifications to a webhook: signed JSON, Slack or Discord",
+  tag: TAG,
+  units: true,
+  request: {
+    params: numericIdParams,
+    body: z.object({
+      visitorId,
+      type: AlertChannelType,
+      /** https, on a public host (see ALERT_WEBHOOKS_ALLOW_LOCAL) */
+      url: z.url({ protocol: /^https?$/, error: 'url must be an http(s) URL' }),
+      /** Signing secret for webhook channels; generated when left out */
+      secret: z.string().min(16, 'secret must be at least 16 characters').max(256).optional(),
+    }),
+  },
+  response: z.object({
+    success: z.literal(true),
+    channel: AlertChannel,
+    /** Webhook channels: the signing secret, only shown here */
+    secret: z.string().nullable(),
+  }),
+  errors: { 404: ErrorResponse, 409: ErrorResponse, 503: ErrorResponse },
+});
+
+export const deleteAlertChannel = defineRoute({
+  method: 'delete',
+  path: '/api/alerts/{id}/channels/{channelId}',
+  summary: 'Remove a webhook channel from a subscription',
+  tag: TAG,
+  units: true,
+  request: {
+    params: channelParams,
+    query: z.object({ visitorId }),
+  },
+  response: SuccessResponse,
+  errors: { 404: ErrorResponse },
+});
+
+export const testAlertChannel = defineRoute({
+  method: 'post',
+  path: '/api/alerts/{id}/channels/{channelId}/test',
+  summary: 'Send a test message to a channel right away (no retries) and return its delivery',
+  tag: TAG,
+  units: true,
+  request: {
+    params: channelParams,
+    body: z.object({ visitorId }),
+  },
+  response: z.object({ success: z.literal(true), delivery: AlertDelivery }),
+  errors: { 404: ErrorResponse, 503: ErrorResponse },
+});
+
+export const listAlertDeliveries = defineRoute({
+  method: 'get',
+  path: '/api/alerts/{id}/deliveries',
+  summary: "The delivery log of a subscription's channels, newest first",
+  tag: TAG,
+  units: true,
+  request: {
+    params: numericIdParams,
+    query: z.object({
+      visitorId,
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+    }),
+  },
+  response: z.object({ count: z.number(), deliveries: z.array(AlertDelivery) }),
+  errors: { 404: ErrorResponse, 503: ErrorResponse },
+});
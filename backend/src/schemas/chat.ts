@@ -0,0 +1,43 @@
+import { z } from 'zod/v4';
+import { defineRoute } from './common.js';
+
+const TAG = 'Chat';
+
+const question = z
+  .string({ error: 'Question is required' })
+  .trim()
+  .min(1, 'Question is required')
+  .max(500, 'Question too long (max 500 characters)');
+
+export const askAssistant = defineRoute({
+  method: 'post',
+  path: '/api/chat',
+  summary: "AI ski assistant, answering in the request's locale",
+  tag: TAG,
+  request: {
+    body: z.object({ question }),
+  },
+  response: z.object({ question: z.string(), answer: z.string(), timestamp: z.string() }),
+});
+
+export const askAboutResort = defineRoute({
+  method: 'post',
+  path: '/api/chat/resort',
+  summary: 'Ask the assistant about a specific resort',
+  tag: TAG,
+  request: {
+    body: z.object({
+      resortName: z.string({ error: 'Resort name is required' }).trim().min(1, 'Resort name is required'),
+      question,
+    }),
+  },
+  response: z.object({ resort: z.string(), question: z.string(), answer: z.string(), timestamp: z.string() }),
+});
+
+export const chatSuggestions = defineRoute({
+  method: 'get',
+  path: '/api/chat/suggestions',
+  summary: "Suggested questions in the request's locale",
+  tag: TAG,
+  response: z.object({ suggestions: z.array(z.string()) }),
+});
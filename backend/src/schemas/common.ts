@@ -0,0 +1,147 @@
+import { z } from 'zod/v4';
+import { amountFields, type Quantity } from '../services/units.js';
+
+/**
+ * Shared request/response schemas and the route spec every route declares.
+ * Schemas with a `.meta({ id })` become named components in the OpenAPI
+ * document and named types in the frontend's `services/apiTypes.ts`.
+ */
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface RouteSpec {
+  method: HttpMethod;
+  /** Full path in OpenAPI form, e.g. /api/resorts/{id} */
+  path: string;
+  summary: string;
+  tag: string;
+  request?: {
+    params?: z.ZodType;
+    query?: z.ZodType;
+    body?: z.ZodType;
+  };
+  /** Body of a successful (2xx) response */
+  response: z.ZodType;
+  /** Documented error responses besides 400 and 500, by status */
+  errors?: Record<number, z.ZodType>;
+  /** Amounts declared with `inches()` etc. in the query and response follow `?units=` / `X-Units` */
+  units?: boolean;
+  /** Needs `Authorization: Bearer $CRON_SECRET` when CRON_SECRET is set */
+  cronSecret?: boolean;
+}
+
+export function defineRoute<const S extends RouteSpec>(spec: S): S {
+  return spec;
+}
+
+/** Parsed `params`, `query` and `body` of a request for `S` */
+export type RequestInput<S extends RouteSpec> = {
+  [K in keyof NonNullable<S['request']>]: NonNullable<S['request']>[K] extends z.ZodType
+    ? z.output<NonNullable<S['request']>[K]>
+    : never;
+};
+
+// ============================================
+// REQUEST HELPERS
+// ============================================
+
+/** A YYYY-MM-DD date that exists on the calendar (no 2025-13-45 or 2025-02-30) */
+export const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { error: 'Must be a YYYY-MM-DD date', abort: true })
+  .refine((value) => {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+  }, 'Must be a real calendar date');
+
+/** `?flag=true|false`, false when omitted */
+export const queryFlag = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((value) => value === 'true');
+
+export const visitorId = z.string({ error: 'visitorId is required' }).trim().min(1, 'visitorId is required');
+
+export const UnitSystem = z.enum(['imperial', 'metric']).meta({ id: 'UnitSystem' });
+
+export const Locale = z.enum(['en', 'zh-CN']).meta({ id: 'Locale' });
+
+/** Numeric path id (alert subscriptions, notifications, jobs) */
+export const numericIdParams = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const resortIdParams = z.object({
+  id: z.string().min(1),
+});
+
+// ============================================
+// AMOUNTS
+// ============================================
+
+function amount(quantity: Quantity) {
+  return <T extends z.ZodType = z.ZodNumber>(schema: T = z.number() as unknown as T): T => {
+    amountFields.add(schema as z.ZodType, { quantity });
+    return schema;
+  };
+}
+
+/** Snow, rain or depth in inches (cm for metric requests) */
+export const inches = amount('snow');
+
+/** °F (°C for metric requests) */
+export const fahrenheit = amount('temperature');
+
+/** mph (km/h for metric requests) */
+export const mph = amount('speed');
+
+/** Feet (m for metric requests) */
+export const feet = amount('elevation');
+
+// ============================================
+// RESPONSES
+// ============================================
+
+export const ErrorResponse = z
+  .object({
+    error: z.string(),
+    /** Machine-readable reason, e.g. ALERT_TABLES_MISSING */
+    code: z.string().optional(),
+  })
+  .meta({ id: 'ErrorResponse' });
+
+export const ValidationIssue = z
+  .object({
+    in: z.enum(['params', 'query', 'body', 'header']),
+    /** Dotted path of the offending field, e.g. `limit` or `resortIds.3` */
+    path: z.string(),
+    message: z.string(),
+  })
+  .meta({ id: 'ValidationIssue' });
+
+export const ValidationErrorResponse = z
+  .object({
+    error: z.string(),
+    code: z.literal('VALIDATION_ERROR'),
+    issues: z.array(ValidationIssue),
+  })
+  .meta({ id: 'ValidationErrorResponse' });
+
+/** 503 when no snow data provider answered */
+export const ProvidersUnavailableResponse = z
+  .object({
+    error: z.string(),
+    attempts: z.array(z.object({ provider: z.string(), error: z.string() })),
+  })
+  .meta({ id: 'ProvidersUnavailableResponse' });
+
+export const SuccessResponse = z.object({ success: z.literal(true) }).meta({ id: 'SuccessResponse' });
+
+/** A job queued (or already queued) by an endpoint */
+export const QueuedJobResponse = z.object({
+  ok: z.literal(true),
+  jobId: z.number(),
+  alreadyQueued: z.boolean(),
+});
+
+export type ValidationIssue = z.infer<typeof ValidationIssue>;
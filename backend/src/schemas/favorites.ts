@@ -0,0 +1,43 @@
+import { z } from 'zod/v4';
+import { Locale, UnitSystem, defineRoute, visitorId } from './common.js';
+
+const TAG = 'Favorites';
+
+const MAX_FAVORITES = 100;
+
+const favoritesResponse = {
+  resortIds: z.array(z.string()),
+  /** Null until the visitor picks units */
+  units: UnitSystem.nullable(),
+  /** Null until the visitor picks a language */
+  locale: Locale.nullable(),
+};
+
+export const getFavorites = defineRoute({
+  method: 'get',
+  path: '/api/favorites',
+  summary: 'Resort ids the visitor has favorited, and their units and locale',
+  tag: TAG,
+  request: {
+    query: z.object({ visitorId }),
+  },
+  response: z.object(favoritesResponse),
+});
+
+export const syncFavorites = defineRoute({
+  method: 'put',
+  path: '/api/favorites',
+  summary: "Replace the visitor's favorites; unknown resorts are skipped",
+  tag: TAG,
+  request: {
+    body: z.object({
+      visitorId,
+      /** Resort ids or names; non-canonical ids are resolved */
+      resortIds: z.array(z.string()).max(MAX_FAVORITES, `At most ${MAX_FAVORITES} favorites`),
+      /** Saved with the favorites; alerts use them */
+      units: UnitSystem.optional(),
+      locale: Locale.optional(),
+    }),
+  },
+  response: z.object({ success: z.literal(true), ...favoritesResponse }),
+});
@@ -0,0 +1,136 @@
+import { z } from 'zod/v4';
+import { ProvidersUnavailableResponse, defineRoute, inches, queryFlag } from './common.js';
+
+const TAG = 'Forecasts';
+
+export const TopResort = z
+  .object({
+    name: z.string(),
+    location: z.string(),
+    country: z.string().optional(),
+    state: z.string().optional(),
+    region: z.string().optional(),
+    /** Over the next 5 days */
+    predictedSnow: inches(),
+    summary: z.string(),
+    snow72h: inches().optional(),
+    baseDepth: inches().optional(),
+    conditions: z.string().optional(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+  })
+  .meta({ id: 'TopResort' });
+
+export const AccuracyStats = z
+  .object({
+    samples: z.number(),
+    /** Mean of predicted - observed (positive = over-forecast) */
+    bias: inches().nullable(),
+    /** Mean absolute error */
+    mae: inches().nullable(),
+    bigDays: z.object({ observed: z.number(), forecast: z.number(), hits: z.number() }),
+    hitRate: z.number().nullable(),
+    falseAlarmRate: z.number().nullable(),
+  })
+  .meta({ id: 'AccuracyStats' });
+
+export const topForecasts = defineRoute({
+  method: 'get',
+  path: '/api/forecasts/top',
+  summary: 'Top resorts by predicted 5-day snowfall (1-hour memory and database cache)',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      /** All, a state (CO, CA-BC), a country (Canada) or a region (Alps) */
+      region: z.string().default('All'),
+      limit: z.coerce.number().int().min(1).max(50).default(5),
+      refresh: queryFlag,
+    }),
+  },
+  response: z.object({
+    region: z.string(),
+    count: z.number(),
+    resorts: z.array(TopResort),
+    cached: z.boolean(),
+    /** Where a cached answer came from; null when just fetched */
+    cacheSource: z.enum(['memory', 'database']).nullable(),
+    /** Seconds since the memory cache was filled; null otherwise */
+    cacheAge: z.number().nullable(),
+  }),
+  errors: { 503: ProvidersUnavailableResponse },
+});
+
+export const forecastSummary = defineRoute({
+  method: 'get',
+  path: '/api/forecasts/summary',
+  summary: 'Average 5-day snowfall per region',
+  tag: TAG,
+  units: true,
+  response: z.object({
+    period: z.literal('5-day'),
+    regions: z.array(
+      z.object({
+        region: z.string(),
+        averageSnow: inches(),
+        resortCount: z.number(),
+        topResort: z.string(),
+      }),
+    ),
+    totalResorts: z.number(),
+    lastUpdated: z.string(),
+  }),
+});
+
+export const forecastAlerts = defineRoute({
+  method: 'get',
+  path: '/api/forecasts/alerts',
+  summary: 'Resorts with significant snowfall predicted',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      /** Minimum snow on a forecast day, in the request's units */
+      threshold: inches(z.coerce.number().min(0)).default(12),
+      hours: z.coerce.number().int().min(1).max(240).default(48),
+    }),
+  },
+  response: z.object({
+    threshold: inches(),
+    timeframe: z.string(),
+    count: z.number(),
+    alerts: z.array(
+      z.object({
+        resort: z.object({ id: z.string(), name: z.string(), location: z.string(), state: z.string() }),
+        forecastDate: z.string(),
+        predictedSnow: inches(),
+        condition: z.string().nullable(),
+      }),
+    ),
+  }),
+});
+
+export const forecastAccuracy = defineRoute({
+  method: 'get',
+  path: '/api/forecasts/accuracy',
+  summary: 'Bias, MAE and big-day hit rate of past forecasts, per source, resort and lead time',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      resortId: z.string().optional(),
+      source: z.string().optional(),
+      leadDays: z.coerce.number().int().min(0).max(16).optional(),
+      days: z.coerce.number().int().min(1).max(366).default(60),
+    }),
+  },
+  response: z.object({
+    bigDayInches: z.number(),
+    from: z.string(),
+    to: z.string(),
+    overall: AccuracyStats,
+    bySource: z.array(AccuracyStats.extend({ source: z.string() })),
+    byResort: z.array(AccuracyStats.extend({ resortId: z.string() })),
+    byLeadDays: z.array(AccuracyStats.extend({ leadDays: z.number() })),
+  }),
+});
@@ -0,0 +1,38 @@
+/**
+ * API schemas
+ *
+ * Every route's params, query, body and success response as zod schemas.
+ * Routes validate their input with `validate(spec)`; the OpenAPI document
+ * and the frontend's API types are generated from the same specs.
+ */
+
+import * as admin from './admin.js';
+import * as alerts from './alerts.js';
+import * as chat from './chat.js';
+import * as favorites from './favorites.js';
+import * as forecasts from './forecasts.js';
+import * as jobs from './jobs.js';
+import * as map from './map.js';
+import * as resorts from './resorts.js';
+import type { RouteSpec } from './common.js';
+
+export * from './common.js';
+export { admin, alerts, chat, favorites, forecasts, jobs, map, resorts };
+
+export type DocumentedRoute = RouteSpec & { operationId: string };
+
+function isRouteSpec(value: unknown): value is RouteSpec {
+  return typeof value === 'object' && value !== null && 'method' in value && 'path' in value && 'response' in value;
+}
+
+// Each spec's export name is its operation id
+function routesIn(module: Record<string, unknown>): DocumentedRoute[] {
+  return Object.entries(module)
+    .filter((entry): entry is [string, RouteSpec] => isRouteSpec(entry[1]))
+    .map(([operationId, spec]) => ({ ...spec, operationId }));
+}
+
+/** Every documented route, grouped by tag */
+export const ROUTES: DocumentedRoute[] = [resorts, forecasts, map, chat, alerts, jobs, favorites, admin].flatMap(
+  routesIn,
+);
@@ -0,0 +1,106 @@
+import { z } from 'zod/v4';
+import { ErrorResponse, defineRoute, numericIdParams, queryFlag } from './common.js';
+
+const TAG = 'Jobs';
+
+export const JobStatus = z.enum(['queued', 'running', 'succeeded', 'failed']).meta({ id: 'JobStatus' });
+
+export const Job = z
+  .object({
+    id: z.number(),
+    type: z.string(),
+    status: JobStatus,
+    payload: z.unknown(),
+    parentId: z.number().nullable(),
+    priority: z.number(),
+    attempts: z.number(),
+    maxAttempts: z.number(),
+    runAt: z.string(),
+    lockedBy: z.string().nullable(),
+    lockedUntil: z.string().nullable(),
+    lastError: z.string().nullable(),
+    result: z.unknown(),
+    createdAt: z.string(),
+    startedAt: z.string().nullable(),
+    finishedAt: z.string().nullable(),
+  })
+  .meta({ id: 'Job' });
+
+const JobCounts = z.record(JobStatus, z.number());
+
+export const RefreshPriority = z
+  .object({
+    resortId: z.string(),
+    name: z.string(),
+    signals: z.object({
+      /** Forecast snow over the storm window, inches */
+      stormInches: z.number(),
+      subscriptions: z.number(),
+      favorites: z.number(),
+      searches: z.number(),
+      stalenessHours: z.number().nullable(),
+    }),
+    weight: z.number(),
+    dormant: z.boolean(),
+    intervalHours: z.number(),
+    /** Staleness over interval; due at 1 */
+    score: z.number(),
+    due: z.boolean(),
+  })
+  .meta({ id: 'RefreshPriority' });
+
+export const listJobs = defineRoute({
+  method: 'get',
+  path: '/api/jobs',
+  summary: 'Recent jobs with counts by status and the jobs this instance is running',
+  tag: TAG,
+  request: {
+    query: z.object({
+      status: JobStatus.optional(),
+      type: z.string().optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    }),
+  },
+  response: z.object({
+    counts: JobCounts,
+    jobs: z.array(Job),
+    worker: z.object({ id: z.string(), active: z.array(z.object({ id: z.number(), type: z.string() })) }),
+  }),
+  errors: { 503: ErrorResponse },
+});
+
+export const refreshPriority = defineRoute({
+  method: 'get',
+  path: '/api/jobs/refresh-priority',
+  summary: 'How urgently each resort needs a refresh and why (storm, interest, staleness)',
+  tag: TAG,
+  request: {
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      /** Only the resorts the next scheduled refresh would pick */
+      due: queryFlag,
+    }),
+  },
+  response: z.object({
+    baseIntervalHours: z.number(),
+    due: z.number(),
+    dormant: z.number(),
+    total: z.number(),
+    resorts: z.array(RefreshPriority),
+  }),
+});
+
+export const getJob = defineRoute({
+  method: 'get',
+  path: '/api/jobs/{id}',
+  summary: "One job with the progress of the jobs it queued (e.g. a crawl's per-resort refreshes)",
+  tag: TAG,
+  request: {
+    params: numericIdParams,
+  },
+  response: z.object({
+    job: Job,
+    children: z.object({ counts: JobCounts, total: z.number(), jobs: z.array(Job) }),
+  }),
+  errors: { 404: ErrorResponse, 503: ErrorResponse },
+});
@@ -0,0 +1,85 @@
+import { z } from 'zod/v4';
+import { defineRoute, inches, queryFlag } from './common.js';
+
+const TAG = 'Map';
+
+export const MapResort = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    /** ISO 3166-1 alpha-2 */
+    country: z.string(),
+    state: z.string(),
+    region: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    currentBase: inches(),
+    snow24h: inches(),
+    snow48h: inches(),
+    snow5day: inches(),
+    liftsOpen: z.number().optional(),
+    totalLifts: z.number().optional(),
+  })
+  .meta({ id: 'MapResort' });
+
+export const RegionSummary = z
+  .object({
+    region: z.string(),
+    resortCount: z.number(),
+    averageSnow48h: inches(),
+    topResort: z.string().nullable(),
+  })
+  .meta({ id: 'RegionSummary' });
+
+export const mapResorts = defineRoute({
+  method: 'get',
+  path: '/api/map/resorts',
+  summary: 'Resorts with coordinates and snow totals for the map (1-hour cache)',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      refresh: queryFlag,
+      /** All, a state (CO, CA-BC), a country (Canada) or a region (Alps) */
+      region: z.string().optional(),
+      /** Minimum 48hr snow, in the request's units */
+      minSnow: inches(z.coerce.number().min(0)).default(0),
+    }),
+  },
+  response: z.object({
+    count: z.number(),
+    resorts: z.array(MapResort),
+    cached: z.boolean(),
+    /** Seconds since the cache was filled; null when just fetched */
+    cacheAge: z.number().nullable(),
+    /** Where the data came from when the cache was filled */
+    source: z.enum(['database', 'gemini']),
+  }),
+});
+
+export const mapHeatmap = defineRoute({
+  method: 'get',
+  path: '/api/map/heatmap',
+  summary: 'Predicted snowfall points for a heatmap',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      metric: z.enum(['snow24h', 'snow48h', 'snow5day']).default('snow48h'),
+    }),
+  },
+  response: z.object({
+    metric: z.enum(['snow24h', 'snow48h', 'snow5day']),
+    count: z.number(),
+    data: z.array(z.object({ lat: z.number(), lng: z.number(), value: z.number(), name: z.string() })),
+  }),
+});
+
+export const mapRegions = defineRoute({
+  method: 'get',
+  path: '/api/map/regions',
+  summary: 'Average 48hr snowfall and top resort per region',
+  tag: TAG,
+  units: true,
+  response: z.object({ regions: z.array(RegionSummary), lastUpdated: z.string() }),
+});
@@ -0,0 +1,328 @@
+import { z } from 'zod/v4';
+import {
+  ErrorResponse,
+  ProvidersUnavailableResponse,
+  defineRoute,
+  fahrenheit,
+  feet,
+  inches,
+  isoDate,
+  mph,
+  queryFlag,
+  resortIdParams,
+} from './common.js';
+
+const TAG = 'Resorts';
+
+export const Resort = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    location: z.string(),
+    /** ISO 3166-1 alpha-2 */
+    country: z.string(),
+    /** State, province or prefecture code */
+    state: z.string(),
+    sub_region: z.string().nullable(),
+    region: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    website_url: z.string().nullable(),
+    total_lifts: z.number(),
+    total_trails: z.number(),
+    vertical_drop: z.number().nullable(),
+    base_elevation: z.number().nullable(),
+    summit_elevation: z.number().nullable(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .meta({ id: 'Resort' });
+
+export const ResortSearchResult = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    state: z.string().nullable(),
+    region: z.string().nullable(),
+    location: z.string().nullable(),
+    /** 0-1 */
+    score: z.number(),
+    matchedOn: z.enum(['name', 'alias']),
+    matchedAlias: z.string().nullable(),
+  })
+  .meta({ id: 'ResortSearchResult' });
+
+export const DailyForecast = z
+  .object({
+    /** YYYY-MM-DD */
+    date: z.string(),
+    /** In the request's locale, e.g. "Mon" or "周一" */
+    dayName: z.string(),
+    snowInches: inches(),
+    tempHigh: fahrenheit().nullable(),
+    tempLow: fahrenheit().nullable(),
+    condition: z.string().nullable(),
+    snowProbability: z.number().nullable(),
+    windSpeed: mph().nullable(),
+    /** 0-100 */
+    powderScore: z.number().nullable(),
+    /** e.g. 12 for 12:1 */
+    snowToLiquid: z.number().nullable(),
+    /** 0-1 */
+    rainRisk: z.number().nullable(),
+    /** 0-1 */
+    windLoading: z.number().nullable(),
+    snowLine: feet().nullable(),
+    snowQuality: z.enum(['blower', 'powder', 'dense', 'heavy', 'rain', 'none']).nullable(),
+  })
+  .meta({ id: 'DailyForecast' });
+
+export const FieldProvenance = z
+  .object({
+    source: z.string(),
+    /** 0-1 */
+    confidence: z.number(),
+    method: z.enum(['single', 'blended', 'trusted']),
+    disagree: z.boolean(),
+    values: z.record(z.string(), z.number()),
+  })
+  .meta({ id: 'FieldProvenance' });
+
+export const ReportProvenance = z
+  .object({
+    sources: z.array(z.string()),
+    confidence: z.number(),
+    sourcesDisagree: z.boolean(),
+    disagreements: z.array(z.string()),
+    fields: z.record(z.string(), FieldProvenance),
+  })
+  .meta({ id: 'ReportProvenance' });
+
+export const ResortDetail = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    location: z.string(),
+    country: z.string(),
+    state: z.string(),
+    region: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    websiteUrl: z.string().nullable(),
+    ticketPrice: z.string().nullable(),
+    description: z.string().nullable(),
+    sourceUrls: z.array(z.string()),
+    totalLifts: z.number(),
+    totalTrails: z.number(),
+    baseDepth: inches(),
+    last24Hours: inches(),
+    last48Hours: inches(),
+    last7Days: inches().nullable(),
+    liftsOpen: z.number(),
+    trailsOpen: z.number(),
+    conditions: z.string().nullable(),
+    forecast: z.array(DailyForecast),
+    /** Today's forecast powder score */
+    powderScore: z.number().nullable(),
+    /** Provider whose report was used */
+    dataSource: z.string().nullable(),
+    sourcesDisagree: z.boolean(),
+    confidence: z.number().nullable(),
+    provenance: ReportProvenance.nullable(),
+    /** When the report was fetched, in the request's locale */
+    lastUpdated: z.string(),
+    /** Served from the database without asking the providers */
+    cached: z.boolean(),
+    /** Seconds since the report was fetched (null when just fetched) */
+    cacheAge: z.number().nullable(),
+  })
+  .meta({ id: 'ResortDetail' });
+
+const ElevationBandForecast = z
+  .object({
+    elevation: feet().nullable(),
+    snow: inches(),
+    rain: inches(),
+    temp: fahrenheit(),
+    windSpeed: mph(),
+    precipType: z.enum(['snow', 'rain', 'mixed']).nullable(),
+  })
+  .meta({ id: 'ElevationBandForecast' });
+
+export const HourlyForecast = z
+  .object({
+    /** ISO timestamp (UTC) of the start of the hour */
+    time: z.string(),
+    freezingLevel: feet().nullable(),
+    base: ElevationBandForecast,
+    summit: ElevationBandForecast.nullable(),
+  })
+  .meta({ id: 'HourlyForecast' });
+
+const DailyForecastResponse = z
+  .object({
+    resortId: z.string(),
+    granularity: z.literal('daily'),
+    count: z.number(),
+    forecasts: z.array(DailyForecast),
+  })
+  .meta({ id: 'DailyForecastResponse' });
+
+const HourlyForecastResponse = z
+  .object({
+    resortId: z.string(),
+    granularity: z.literal('hourly'),
+    elevations: z.object({ base: feet().nullable(), summit: feet().nullable() }),
+    source: z.string().nullable(),
+    fetchedAt: z.string().nullable(),
+    cached: z.boolean(),
+    count: z.number(),
+    hours: z.array(HourlyForecast),
+  })
+  .meta({ id: 'HourlyForecastResponse' });
+
+const BiggestDay = z.object({ date: z.string(), snowfall: inches() }).nullable();
+
+export const SnowHistory = z
+  .object({
+    resortId: z.string(),
+    from: z.string(),
+    to: z.string(),
+    days: z.array(
+      z.object({
+        date: z.string(),
+        /** Observed 24hr snowfall, null when no report was stored that day */
+        snowfall: inches().nullable(),
+        baseDepth: inches().nullable(),
+        seasonTotal: inches(),
+      }),
+    ),
+    summary: z.object({
+      reportedDays: z.number(),
+      totalSnowfall: inches(),
+      snowDays: z.number(),
+      biggestDay: BiggestDay,
+      baseDepthStart: inches().nullable(),
+      baseDepthEnd: inches().nullable(),
+      baseDepthChange: inches().nullable(),
+    }),
+  })
+  .meta({ id: 'SnowHistory' });
+
+export const SeasonSummary = z
+  .object({
+    resortId: z.string(),
+    /** e.g. 2025-26 */
+    season: z.string(),
+    seasonStart: z.string(),
+    asOf: z.string(),
+    seasonToDate: inches(),
+    reportedDays: z.number(),
+    snowDays: z.number(),
+    biggestDay: BiggestDay,
+    baseDepth: inches().nullable(),
+    peakBaseDepth: inches().nullable(),
+    previousSeasons: z.array(
+      z.object({ season: z.string(), toDate: inches(), total: inches(), reportedDays: z.number() }),
+    ),
+    averageToDate: inches().nullable(),
+    percentOfAverage: z.number().nullable(),
+  })
+  .meta({ id: 'SeasonSummary' });
+
+export const listResorts = defineRoute({
+  method: 'get',
+  path: '/api/resorts',
+  summary: 'List resorts',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      region: z.string().optional(),
+      state: z.string().optional(),
+      limit: z.coerce.number().int().min(1).max(1000).default(50),
+    }),
+  },
+  response: z.object({ count: z.number(), resorts: z.array(Resort) }),
+});
+
+export const searchResorts = defineRoute({
+  method: 'get',
+  path: '/api/resorts/search',
+  summary: 'Fuzzy resort search over names and aliases, best match first',
+  tag: TAG,
+  units: true,
+  request: {
+    query: z.object({
+      q: z.string({ error: 'q is required' }).trim().min(1, 'q is required'),
+      state: z.string().optional(),
+      region: z.string().optional(),
+      limit: z.coerce.number().int().min(1).max(50).default(10),
+      /** Recorded with the search for analytics */
+      visitorId: z.string().optional(),
+    }),
+  },
+  response: z.object({ query: z.string(), count: z.number(), results: z.array(ResortSearchResult) }),
+});
+
+export const getResort = defineRoute({
+  method: 'get',
+  path: '/api/resorts/{id}',
+  summary: 'Resort conditions and forecast, from the 1-hour cache or every snow data provider',
+  tag: TAG,
+  units: true,
+  request: {
+    params: resortIdParams,
+    query: z.object({ refresh: queryFlag }),
+  },
+  response: ResortDetail,
+  errors: { 503: ProvidersUnavailableResponse },
+});
+
+export const getResortForecast = defineRoute({
+  method: 'get',
+  path: '/api/resorts/{id}/forecast',
+  summary: 'Daily forecast, or hourly base/summit forecast with granularity=hourly',
+  tag: TAG,
+  units: true,
+  request: {
+    params: resortIdParams,
+    query: z.object({
+      days: z.coerce.number().int().min(1).max(16).default(10),
+      granularity: z.enum(['daily', 'hourly']).default('daily'),
+      hours: z.coerce.number().int().min(1).max(168).default(72),
+      refresh: queryFlag,
+    }),
+  },
+  response: z.discriminatedUnion('granularity', [DailyForecastResponse, HourlyForecastResponse]),
+  errors: { 404: ErrorResponse, 422: ErrorResponse, 503: ProvidersUnavailableResponse },
+});
+
+export const getResortHistory = defineRoute({
+  method: 'get',
+  path: '/api/resorts/{id}/history',
+  summary: 'Daily observed snowfall, base depth and season-to-date totals (default: last 30 days)',
+  tag: TAG,
+  units: true,
+  request: {
+    params: resortIdParams,
+    query: z.object({ from: isoDate.optional(), to: isoDate.optional() }),
+  },
+  response: SnowHistory,
+});
+
+export const getResortSeason = defineRoute({
+  method: 'get',
+  path: '/api/resorts/{id}/season',
+  summary: 'Season-to-date snowfall compared with previous seasons',
+  tag: TAG,
+  units: true,
+  request: {
+    params: resortIdParams,
+    query: z.object({
+      asOf: isoDate.optional(),
+      seasons: z.coerce.number().int().min(0).max(10).default(3),
+    }),
+  },
+  response: SeasonSummary,
+});
@@ -0,0 +1,35 @@
+/**
+ * Run the OnTheSnow parsers against saved pages (see scraperFixtures.ts)
+ *
+ *   npm run check:scrapers             # every fixture
+ *   npm run check:scrapers -- vail     # fixtures whose name contains "vail"
+ *
+ * To pin a markup change, save the new page next to the old one and describe
+ * what it should parse to. `npm test` runs the same fixtures.
+ */
+
+import { checkFixture, loadFixtures } from './scraperFixtures.js';
+
+async function main() {
+  const fixtures = await loadFixtures(process.argv[2]);
+
+  let failed = 0;
+  for (const fixture of fixtures) {
+    const { check, problems } = checkFixture(fixture);
+    if (problems.length === 0) {
+      console.log(`✅ ${fixture.name}${check.suspect ? ` (suspect: ${check.reasons.join('; ')})` : ''}`);
+    } else {
+      failed++;
+      console.log(`❌ ${fixture.name}`);
+      for (const problem of problems) console.log(`   ${problem}`);
+    }
+  }
+
+  console.log(`\n${fixtures.length - failed}/${fixtures.length} fixtures passed`);
+  if (failed > 0 || fixtures.length === 0) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error('❌ Fixture check error:', e);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+/**
+ * Generate the frontend's API types from the OpenAPI document
+ *
+ *   npm run generate:api-types             # write ../services/apiTypes.ts
+ *   npm run generate:api-types -- --check  # fail if it is out of date
+ *
+ * Every named schema becomes a type of the same name, and every operation
+ * gets `<OperationId>Response` (and `<OperationId>Body` when it takes one),
+ * so `services/api.ts` is typed from the same zod schemas the routes
+ * validate with.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { openApiDocument, type JsonSchema } from '../services/openapi.js';
+
+const OUTPUT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../services/apiTypes.ts');
+const COMPONENT_REF = '#/components/schemas/';
+const INDENT = '  ';
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 1 ? unique[0] : unique.join(' | ');
+}
+
+/** TypeScript for a JSON Schema; `depth` is the indentation of nested object literals */
+function toType(schema: JsonSchema, depth: number): string {
+  if (schema.$ref) return schema.$ref.slice(COMPONENT_REF.length);
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return union(schema.enum.map(literal));
+  if (schema.anyOf || schema.oneOf) return union((schema.anyOf || schema.oneOf).map((s: JsonSchema) => toType(s, depth)));
+  if (schema.allOf) return schema.allOf.map((s: JsonSchema) => toType(s, depth)).join(' & ');
+  if (Array.isArray(schema.type)) return union(schema.type.map((type: string) => toType({ ...schema, type }, depth)));
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? toType(schema.items, depth) : 'unknown';
+      return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      return objectType(schema, depth);
+    default:
+      return 'unknown';
+  }
+}
+
+function objectType(schema: JsonSchema, depth: number): string {
+  const properties = Object.entries((schema.properties ?? {}) as Record<string, JsonSchema>);
+  const extra = schema.additionalProperties;
+  const valueType = extra && typeof extra === 'object' ? toType(extra, depth) : null;
+
+  if (properties.length === 0) {
+    if (valueType) {
+      // Enum keys (e.g. job counts by status) are all present
+      const keys = schema.propertyNames?.enum ? toType(schema.propertyNames, depth) : 'string';
+      return `Record<${keys}, ${valueType}>`;
+    }
+    return extra === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+
+  const required = new Set<string>(schema.required ?? []);
+  const pad = INDENT.repeat(depth + 1);
+  const lines = properties.map(
+    ([name, property]) => `${pad}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${toType(property, depth + 1)};`,
+  );
+  if (valueType) lines.push(`${pad}[key: string]: ${valueType};`);
+  return `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`;
+}
+
+function declaration(name: string, schema: JsonSchema): string {
+  const type = toType(schema, 0);
+  return schema.type === 'object' && type.startsWith('{') ? `export interface ${name} ${type}` : `export type ${name} = ${type};`;
+}
+
+function generate(): string {
+  const document = openApiDocument();
+  const blocks = [
+    '// Generated by `npm run generate:api-types` in backend/ from the zod schemas in\n' +
+      '// backend/src/schemas. Do not edit by hand.',
+  ];
+
+  for (const [name, schema] of Object.entries(document.components.schemas as Record<string, JsonSchema>)) {
+    blocks.push(declaration(name, schema));
+  }
+
+  for (const methods of Object.values(document.paths as Record<string, Record<string, JsonSchema>>)) {
+    for (const operation of Object.values(methods)) {
+      const name = pascalCase(operation.operationId);
+      const body = operation.requestBody?.content['application/json'].schema;
+      if (body) blocks.push(declaration(`${name}Body`, body));
+      blocks.push(declaration(`${name}Response`, operation.responses[200].content['application/json'].schema));
+    }
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+async function main() {
+  const generated = generate();
+
+  if (process.argv.includes('--check')) {
+    const current = await readFile(OUTPUT, 'utf8').catch(() => '');
+    if (current !== generated) {
+      console.error(`❌ ${path.relative(process.cwd(), OUTPUT)} is out of date. Run: npm run generate:api-types`);
+      process.exit(1);
+    }
+    console.log('✅ API types are up to date');
+    return;
+  }
+
+  await writeFile(OUTPUT, generated);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main().catch((e) => {
+  console.error('❌ API type generation error:', e);
+  process.exit(1);
+});
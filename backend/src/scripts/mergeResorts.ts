@@ -0,0 +1,53 @@
+/**
+ * Consolidate duplicate resorts
+ *
+ *   npm run merge-resorts                      # list duplicates (dry run)
+ *   npm run merge-resorts -- --apply           # merge each group into its first resort
+ *   npm run merge-resorts -- <fromId> <intoId> # merge one resort into another
+ */
+
+import { findDuplicateResorts, mergeResorts, type MergeSummary } from '../services/resortIdentity.js';
+
+function printSummary(summary: MergeSummary) {
+  console.log(`✅ Merged ${summary.from} into ${summary.into}`);
+  for (const [table, result] of Object.entries(summary.tables)) {
+    if (!result || (result.moved === 0 && result.skipped === 0)) continue;
+    console.log(`   ${table}: ${result.moved} moved, ${result.skipped} already present`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const ids = args.filter((a) => !a.startsWith('--'));
+
+  if (ids.length === 2) {
+    printSummary(await mergeResorts(ids[0], ids[1]));
+    return;
+  }
+
+  const groups = await findDuplicateResorts();
+  if (groups.length === 0) {
+    console.log('No duplicate resorts found');
+    return;
+  }
+
+  const apply = args.includes('--apply');
+  for (const group of groups) {
+    const [into, ...duplicates] = group.resorts;
+    console.log(`\n"${group.normalizedName}": ${group.resorts.map((r) => `${r.id} (${r.state})`).join(', ')}`);
+    if (!apply) continue;
+
+    for (const duplicate of duplicates) {
+      printSummary(await mergeResorts(duplicate.id, into.id));
+    }
+  }
+
+  if (!apply) {
+    console.log(`\n${groups.length} duplicate groups. Re-run with --apply to merge each into its first resort.`);
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Merge error:', e);
+  process.exit(1);
+});
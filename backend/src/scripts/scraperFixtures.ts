@@ -0,0 +1,115 @@
+/**
+ * OnTheSnow parser fixtures
+ *
+ * Each `fixtures/onthesnow/<name>.html` has a `<name>.expected.json` with the
+ * page kind, whether the drift check should flag it (plus its reasons) and the
+ * fields the parse must produce. Expected objects are partial: only the keys
+ * they list are compared. Used by `npm run check:scrapers` and `npm test`.
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  parseResortReport,
+  parseResortOverview,
+  parseSkiReportTable,
+  parseResortDirectory,
+  type ResortReportContext,
+} from '../services/onTheSnowParser.js';
+import {
+  checkResortReport,
+  checkResortOverview,
+  checkSkiReportTable,
+  checkResortDirectory,
+  type DriftCheck,
+  type ParsedPageKind,
+} from '../services/parseDrift.js';
+
+const FIXTURE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../fixtures/onthesnow');
+const ONTHESNOW_URL = 'https://www.onthesnow.com';
+
+export interface FixtureSpec {
+  kind: ParsedPageKind;
+  /** Resort report only: what the scraper requested the page as */
+  context?: ResortReportContext;
+  suspect: boolean;
+  reasons?: string[];
+  expected?: unknown;
+}
+
+export interface Fixture {
+  name: string;
+  html: string;
+  spec: FixtureSpec;
+}
+
+export function parseFixture(html: string, spec: FixtureSpec): { data: unknown; check: DriftCheck } {
+  switch (spec.kind) {
+    case 'resortReport': {
+      const parsed = parseResortReport(html, spec.context ?? { name: 'Fixture', url: ONTHESNOW_URL });
+      return { data: parsed.data, check: checkResortReport(parsed) };
+    }
+    case 'resortOverview': {
+      const parsed = parseResortOverview(html);
+      return { data: parsed.data, check: checkResortOverview(parsed) };
+    }
+    case 'skiReportTable': {
+      const parsed = parseSkiReportTable(html);
+      return { data: parsed.data, check: checkSkiReportTable(parsed) };
+    }
+    case 'resortDirectory': {
+      const parsed = parseResortDirectory(html, ONTHESNOW_URL);
+      return { data: parsed.data, check: checkResortDirectory(parsed) };
+    }
+  }
+}
+
+/** Differences between an expected (partial) value and the parsed one */
+function diff(expected: unknown, actual: unknown, at: string): string[] {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return [`${at}: expected an array, got ${JSON.stringify(actual)}`];
+    if (actual.length !== expected.length) return [`${at}: expected ${expected.length} items, got ${actual.length}`];
+    return expected.flatMap((item, i) => diff(item, actual[i], `${at}[${i}]`));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return [`${at}: expected an object, got ${JSON.stringify(actual)}`];
+    return Object.entries(expected).flatMap(([key, value]) =>
+      diff(value, (actual as Record<string, unknown>)[key], at ? `${at}.${key}` : key),
+    );
+  }
+  return expected === actual ? [] : [`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+/** Saved pages, by name; `filter` keeps names containing it */
+export async function loadFixtures(filter?: string): Promise<Fixture[]> {
+  const names = (await readdir(FIXTURE_DIR))
+    .filter((file) => file.endsWith('.html'))
+    .map((file) => file.slice(0, -'.html'.length))
+    .filter((name) => !filter || name.includes(filter))
+    .sort();
+
+  return Promise.all(
+    names.map(async (name) => {
+      const [html, specJson] = await Promise.all([
+        readFile(path.join(FIXTURE_DIR, `${name}.html`), 'utf8'),
+        readFile(path.join(FIXTURE_DIR, `${name}.expected.json`), 'utf8'),
+      ]);
+      return { name, html, spec: JSON.parse(specJson) as FixtureSpec };
+    }),
+  );
+}
+
+/** Parse a fixture and list where it differs from its spec (empty when it matches) */
+export function checkFixture(fixture: Fixture): { check: DriftCheck; problems: string[] } {
+  const { spec } = fixture;
+  const { data, check } = parseFixture(fixture.html, spec);
+
+  const problems: string[] = [];
+  if (check.suspect !== spec.suspect) {
+    problems.push(`expected ${spec.suspect ? 'a suspect' : 'a clean'} parse, got reasons: ${check.reasons.join('; ') || 'none'}`);
+  }
+  if (spec.reasons) problems.push(...diff(spec.reasons, check.reasons, 'reasons'));
+  if (spec.expected !== undefined) problems.push(...diff(spec.expected, data, 'data'));
+  return { check, problems };
+}
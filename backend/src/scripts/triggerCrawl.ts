@@ -5,9 +5,10 @@ const URL = `http://localhost:${PORT}/api/crawl`;
 console.log(`Triggering crawl at ${URL}...`);
 
 fetch(URL, { method: 'POST' })
-  .then(res => {
+  .then(async res => {
     if (res.ok) {
-      console.log('✅ Crawl started successfully. Check server logs for progress.');
+      const { jobId } = (await res.json()) as { jobId: number };
+      console.log(`✅ Crawl queued as job #${jobId}. Progress: http://localhost:${PORT}/api/jobs/${jobId}`);
     } else {
       console.error(`❌ Failed to start crawl: ${res.status} ${res.statusText}`);
     }
@@ -0,0 +1,70 @@
+/**
+ * Local stand-in for an alert webhook
+ *
+ *   npm run webhook:stand-in                                   # listen on :4010
+ *   npm run webhook:stand-in -- --port 4011 --secret <secret> --fail 2
+ *
+ * Prints every request it receives (signed JSON, Slack or Discord), checks
+ * X-SnowPeak-Signature when given the channel's `--secret`, and answers 500
+ * to the first `--fail` requests so retries show up in the delivery log.
+ * Start the backend with ALERT_WEBHOOKS_ALLOW_LOCAL=true and add a channel
+ * with url http://localhost:4010/, then send it a test:
+ * POST /api/alerts/:id/channels/:channelId/test.
+ */
+
+import { createServer } from 'node:http';
+import { verifySignature } from '../services/webhookSignature.js';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const port = parseInt(option('port') || '4010', 10);
+const secret = option('secret');
+let failuresLeft = parseInt(option('fail') || '0', 10);
+let received = 0;
+
+function checkSignature(headers: Record<string, string | string[] | undefined>, body: string): string {
+  const signature = headers['x-snowpeak-signature'];
+  const timestamp = headers['x-snowpeak-timestamp'];
+  if (typeof signature !== 'string') return 'unsigned';
+  if (!secret) return 'signed (pass --secret to check it)';
+  if (typeof timestamp !== 'string') return '❌ signed without a timestamp';
+
+  return verifySignature(secret, timestamp, body, signature) ? '✅ signature valid' : '❌ signature mismatch';
+}
+
+function describeBody(body: string): string {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    received++;
+
+    const event = req.headers['x-snowpeak-event'] ?? 'slack/discord';
+    console.log(`\n📨 #${received} ${req.method} ${req.url} (${event}, ${checkSignature(req.headers, body)})`);
+    console.log(describeBody(body));
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`↩️  Answering 500 (${failuresLeft} more failures to go)`);
+      res.writeHead(500, { 'Content-Type': 'text/plain' }).end('stand-in failure');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🪝 Webhook stand-in listening on http://localhost:${port}/`);
+  if (failuresLeft > 0) console.log(`   Failing the first ${failuresLeft} requests`);
+});
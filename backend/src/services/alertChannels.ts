@@ -0,0 +1,320 @@
+/**
+ * Alert channels
+ *
+ * Where a subscription's notifications go besides the in-app list (and
+ * email): webhook channels that POST each notification to a URL. A channel
+ * type turns the notification into its request: a generic JSON body signed
+ * with the channel's secret, a Slack message or a Discord embed. Every send
+ * is an `alert_deliveries` row, delivered by a `deliver_alert` job so
+ * failures are retried with the job queue's backoff. Sends only reach public
+ * addresses (see webhookTarget.ts).
+ */
+
+import { randomBytes } from 'node:crypto';
+import { URL } from 'node:url';
+import { alertRepo } from '../db/repositories/index.js';
+import type {
+  AlertChannel,
+  AlertChannelType,
+  AlertDelivery,
+  AlertNotification,
+  AlertSubscription,
+  Json,
+} from '../types/database.js';
+import type { NotificationResort } from './alerts.js';
+import { enqueueJob } from './jobQueue.js';
+import { formatDate, translate, type Locale } from './i18n/index.js';
+import { formatSnow, type UnitSystem } from './units.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from './webhookSignature.js';
+import { postWebhook } from './webhookTarget.js';
+
+export const CHANNEL_TYPES: AlertChannelType[] = ['webhook', 'slack', 'discord'];
+
+export const MAX_CHANNELS_PER_SUBSCRIPTION = 5;
+
+// Attempts per delivery; the job queue waits 30s, 1m, 2m, 4m in between
+export const DELIVERY_MAX_ATTEMPTS = 5;
+
+// Deliveries run ahead of refreshes, like report alerts
+const DELIVERY_PRIORITY = 1000;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Resorts listed as Slack fields / Discord embed fields (both cap at 10)
+const MAX_RESORT_FIELDS = 10;
+
+/** What a delivery sends, before channel formatting; amounts in inches */
+export interface AlertPayload {
+  event: 'alert.notification' | 'alert.test';
+  /** null for test sends */
+  notificationId: number | null;
+  subscriptionId: number;
+  kind: AlertNotification['kind'];
+  /** Title and message as in the app, in `locale` and `units` */
+  title: string;
+  message: string;
+  forecastDate: string;
+  predictedSnow: number;
+  resorts: NotificationResort[];
+  /** e.g. `Alta` or `Within 3h of Seattle` */
+  scope: string;
+  locale: Locale;
+  units: UnitSystem;
+  /** The app, when FRONTEND_URL is set */
+  url: string | null;
+  createdAt: string;
+}
+
+interface ChannelRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+interface NotificationChannel {
+  format(payload: AlertPayload, channel: AlertChannel, delivery: AlertDelivery): ChannelRequest;
+}
+
+export function generateSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/** e.g. https://hooks.slack.com/…/x9Qz, so the log doesn't hand out the full URL */
+export function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const tail = parsed.pathname.replace(/\/+$/, '').split('/').pop()?.slice(-4);
+    return `${parsed.origin}/…${tail ? `/${tail}` : ''}`;
+  } catch {
+    return '…';
+  }
+}
+
+function resortLine(resort: NotificationResort, payload: AlertPayload): string {
+  return `${formatSnow(resort.predictedSnow, payload.units)} · ${formatDate(resort.forecastDate, payload.locale)}`;
+}
+
+// Generic JSON: the payload itself, signed so receivers can check it came from us (see webhookSignature.ts)
+const webhookChannel: NotificationChannel = {
+  format(payload, channel, delivery) {
+    const body = JSON.stringify(payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return {
+      body,
+      headers: {
+        'X-SnowPeak-Event': payload.event,
+        'X-SnowPeak-Delivery': String(delivery.id),
+        [TIMESTAMP_HEADER]: timestamp,
+        ...(channel.secret ? { [SIGNATURE_HEADER]: signPayload(channel.secret, timestamp, body) } : {}),
+      },
+    };
+  },
+};
+
+/** Slack mrkdwn treats &, < and > as control characters */
+function slackEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Slack incoming webhook: a header, the message, the resorts and where it came from
+const slackChannel: NotificationChannel = {
+  format(payload) {
+    const blocks: unknown[] = [
+      { type: 'header', text: { type: 'plain_text', text: payload.title, emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: slackEscape(payload.message) } },
+    ];
+    if (payload.resorts.length > 1) {
+      blocks.push({
+        type: 'section',
+        fields: payload.resorts.slice(0, MAX_RESORT_FIELDS).map((resort) => ({
+          type: 'mrkdwn',
+          text: `*${slackEscape(resort.resortName)}*\n${resortLine(resort, payload)}`,
+        })),
+      });
+    }
+    const context = payload.url ? `${slackEscape(payload.scope)} · <${payload.url}|SnowPeak>` : slackEscape(payload.scope);
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: context }] });
+
+    // `text` is the fallback for notifications and clients without blocks
+    return { body: JSON.stringify({ text: `${payload.title}\n${payload.message}`, blocks }), headers: {} };
+  },
+};
+
+const DISCORD_COLORS: Record<AlertPayload['kind'], number> = {
+  forecast: 0x3b82f6,
+  upgrade: 0x22c55e,
+  downgrade: 0x64748b,
+  report: 0xf59e0b,
+};
+
+// Discord webhook: one embed, with a field per resort
+const discordChannel: NotificationChannel = {
+  format(payload) {
+    const embed = {
+      title: payload.title,
+      description: payload.message,
+      ...(payload.url ? { url: payload.url } : {}),
+      color: DISCORD_COLORS[payload.kind],
+      fields:
+        payload.resorts.length > 1
+          ? payload.resorts.slice(0, MAX_RESORT_FIELDS).map((resort) => ({
+              name: resort.resortName,
+              value: resortLine(resort, payload),
+              inline: true,
+            }))
+          : [],
+      footer: { text: payload.scope },
+      timestamp: payload.createdAt,
+    };
+    return { body: JSON.stringify({ username: 'SnowPeak Alerts', embeds: [embed] }), headers: {} };
+  },
+};
+
+const CHANNELS: Record<AlertChannelType, NotificationChannel> = {
+  webhook: webhookChannel,
+  slack: slackChannel,
+  discord: discordChannel,
+};
+
+/** The payload for a notification; the scope label and locale come from the caller */
+export function alertPayload(
+  subscription: Pick<AlertSubscription, 'id'>,
+  notification: Pick<
+    AlertNotification,
+    'id' | 'kind' | 'title' | 'message' | 'forecast_date' | 'predicted_snow' | 'resorts' | 'created_at'
+  >,
+  context: { scope: string; locale: Locale; units: UnitSystem },
+): AlertPayload {
+  return {
+    event: 'alert.notification',
+    notificationId: notification.id,
+    subscriptionId: subscription.id,
+    kind: notification.kind,
+    title: notification.title,
+    message: notification.message,
+    forecastDate: notification.forecast_date,
+    predictedSnow: notification.predicted_snow,
+    resorts: (notification.resorts as unknown as NotificationResort[] | null) ?? [],
+    scope: context.scope,
+    locale: context.locale,
+    units: context.units,
+    url: process.env.FRONTEND_URL || null,
+    createdAt: notification.created_at,
+  };
+}
+
+/** A test message for a subscription's channels, in the visitor's language */
+export function testPayload(
+  subscription: Pick<AlertSubscription, 'id'>,
+  context: { scope: string; locale: Locale; units: UnitSystem },
+): AlertPayload {
+  const now = new Date().toISOString();
+  return {
+    event: 'alert.test',
+    notificationId: null,
+    subscriptionId: subscription.id,
+    kind: 'forecast',
+    title: translate(context.locale, 'alert.test.title', { scope: context.scope }),
+    message: translate(context.locale, 'alert.test.message', { scope: context.scope }),
+    forecastDate: now.slice(0, 10),
+    predictedSnow: 0,
+    resorts: [],
+    scope: context.scope,
+    locale: context.locale,
+    units: context.units,
+    url: process.env.FRONTEND_URL || null,
+    createdAt: now,
+  };
+}
+
+/** Log a delivery of `payload` to every active channel of the subscription, and queue the sends */
+export async function queueDeliveries(subscriptionId: number, payload: AlertPayload): Promise<number> {
+  const channels = await alertRepo.listChannels(subscriptionId, { activeOnly: true });
+  for (const channel of channels) {
+    const delivery = await alertRepo.insertDelivery({
+      channel_id: channel.id,
+      notification_id: payload.notificationId,
+      payload: payload as unknown as Json,
+    });
+    await enqueueJob(
+      'deliver_alert',
+      { deliveryId: delivery.id },
+      { dedupeKey: `deliver_alert:${delivery.id}`, priority: DELIVERY_PRIORITY, maxAttempts: DELIVERY_MAX_ATTEMPTS },
+    );
+  }
+  return channels.length;
+}
+
+/** Send `payload` to one channel right away, without retries (for testing a channel) */
+export async function sendTestDelivery(channel: AlertChannel, payload: AlertPayload): Promise<AlertDelivery> {
+  const delivery = await alertRepo.insertDelivery({ channel_id: channel.id, payload: payload as unknown as Json });
+  await deliverAlert(delivery.id);
+  return (await alertRepo.findDelivery(delivery.id)) ?? delivery;
+}
+
+export interface DeliveryResult {
+  deliveryId: number;
+  status: AlertDelivery['status'] | 'skipped';
+  responseStatus?: number;
+  error?: string;
+}
+
+// Redirects we don't follow and client errors other than timeouts and rate
+// limits won't go away on a retry
+function isPermanent(status: number): boolean {
+  return status >= 300 && status < 500 && status !== 408 && status !== 429;
+}
+
+/**
+ * Send a delivery to its channel and log the outcome. Throws on a failure
+ * worth retrying (network error, timeout, 5xx, 429) before the last attempt,
+ * so the `deliver_alert` job is retried with backoff.
+ */
+export async function deliverAlert(deliveryId: number, attempt = 1, maxAttempts = 1): Promise<DeliveryResult> {
+  const delivery = await alertRepo.findDelivery(deliveryId);
+  // Gone with its channel, or already sent
+  if (!delivery || delivery.status === 'delivered') return { deliveryId, status: 'skipped' };
+
+  const channel = await alertRepo.findChannel(delivery.channel_id);
+  if (!channel || !channel.is_active) {
+    await alertRepo.updateDelivery(deliveryId, { status: 'failed', last_error: 'Channel removed or paused' });
+    return { deliveryId, status: 'failed', error: 'Channel removed or paused' };
+  }
+
+  const payload = delivery.payload as unknown as AlertPayload;
+  const request = CHANNELS[channel.type].format(payload, channel, delivery);
+
+  let responseStatus: number | null = null;
+  let error: string;
+  try {
+    responseStatus = await postWebhook(
+      channel.url,
+      { 'Content-Type': 'application/json', 'User-Agent': 'SnowPeak-Alerts/1.0', ...request.headers },
+      request.body,
+      DELIVERY_TIMEOUT_MS,
+    );
+    if (responseStatus >= 200 && responseStatus < 300) {
+      await alertRepo.updateDelivery(deliveryId, {
+        status: 'delivered',
+        attempts: attempt,
+        response_status: responseStatus,
+        last_error: null,
+        delivered_at: new Date().toISOString(),
+      });
+      return { deliveryId, status: 'delivered', responseStatus };
+    }
+    // Only the status: the response body is the receiver's, not ours to show
+    error = `HTTP ${responseStatus}`;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const final = attempt >= maxAttempts || (responseStatus !== null && isPermanent(responseStatus));
+  await alertRepo.updateDelivery(deliveryId, {
+    status: final ? 'failed' : 'retrying',
+    attempts: attempt,
+    response_status: responseStatus,
+    last_error: error,
+  });
+  if (!final) throw new Error(`Delivery #${deliveryId} to ${channel.type} channel failed: ${error}`);
+  return { deliveryId, status: 'failed', ...(responseStatus !== null ? { responseStatus } : {}), error };
+}
@@ -0,0 +1,384 @@
+/**
+ * Alert rules
+ *
+ * A subscription is checked against a rule: one or more conditions on the
+ * forecast days in its window, how their forecasts changed since the
+ * previous snapshot and the resort's latest snow reports, matched all
+ * together (`all`) or any one of them (`any`). Report triggers (fresh snow,
+ * lifts opening) only look at today's report, and are also checked as soon
+ * as it is ingested. The light/good/great thresholds are preset rules.
+ * Amounts are stored in inches and °F.
+ */
+
+import type { AlertNotification, Forecast, ForecastSnapshot, SnowReport } from '../types/database.js';
+import { formatDate, translate, type Locale } from './i18n/index.js';
+import { formatSnow, formatTemp, fromUnits, type UnitSystem } from './units.js';
+
+/** At least `snow` over `days` consecutive forecast days, optionally only windows ending on a weekend */
+export interface SnowfallCondition {
+  type: 'snowfall';
+  snow: number;
+  days: number;
+  weekend: boolean;
+}
+
+/** The latest report's base depth reaches `baseDepth` (the report before it was below) */
+export interface BaseDepthCondition {
+  type: 'baseDepth';
+  baseDepth: number;
+}
+
+/** A forecast low at or below `temp`, after at least `stormSnow` over the 2 days before */
+export interface TemperatureCondition {
+  type: 'temperature';
+  temp: number;
+  stormSnow: number;
+}
+
+/** A day's forecast moved by at least `change` between its last two snapshots */
+export interface ForecastChangeCondition {
+  type: 'forecastChange';
+  /** up: upgraded, down: downgraded, any: either way */
+  direction: 'up' | 'down' | 'any';
+  change: number;
+}
+
+/** Today's report has at least `snow` in the last 24 hours */
+export interface FreshSnowCondition {
+  type: 'freshSnow';
+  snow: number;
+}
+
+/** Today's report has at least `lifts` more lifts open than the report before it */
+export interface LiftsOpeningCondition {
+  type: 'liftsOpening';
+  lifts: number;
+}
+
+export type AlertCondition =
+  | SnowfallCondition
+  | BaseDepthCondition
+  | TemperatureCondition
+  | ForecastChangeCondition
+  | FreshSnowCondition
+  | LiftsOpeningCondition;
+
+export type NotificationKind = AlertNotification['kind'];
+
+export interface AlertRule {
+  match: 'all' | 'any';
+  conditions: AlertCondition[];
+}
+
+// Threshold definitions (in inches)
+export const THRESHOLDS = {
+  light: { min: 1, max: 5 },
+  good: { min: 5, max: 15 },
+  great: { min: 15, max: 30 },
+};
+
+export type ThresholdId = keyof typeof THRESHOLDS;
+
+/** A threshold's rule: at least its minimum snowfall on any forecast day */
+export function presetRule(threshold: ThresholdId): AlertRule {
+  return {
+    match: 'all',
+    conditions: [{ type: 'snowfall', snow: THRESHOLDS[threshold].min, days: 1, weekend: false }],
+  };
+}
+
+/** A rule sent in `units`, in inches and °F */
+export function ruleFromUnits(rule: AlertRule, units: UnitSystem): AlertRule {
+  return {
+    match: rule.match,
+    conditions: rule.conditions.map((condition): AlertCondition => {
+      switch (condition.type) {
+        case 'snowfall':
+          return { ...condition, snow: fromUnits(condition.snow, 'snow', units) };
+        case 'baseDepth':
+          return { ...condition, baseDepth: fromUnits(condition.baseDepth, 'snow', units) };
+        case 'temperature':
+          return {
+            ...condition,
+            temp: fromUnits(condition.temp, 'temperature', units),
+            stormSnow: fromUnits(condition.stormSnow, 'snow', units),
+          };
+        case 'forecastChange':
+          return { ...condition, change: fromUnits(condition.change, 'snow', units) };
+        case 'freshSnow':
+          return { ...condition, snow: fromUnits(condition.snow, 'snow', units) };
+        case 'liftsOpening':
+          return condition;
+      }
+    }),
+  };
+}
+
+export interface RuleInput {
+  /** Forecast days in the subscription's window, soonest first */
+  forecasts: Forecast[];
+  /** The resort's recent reports, oldest first */
+  reports: SnowReport[];
+  /** Consensus snapshots for the days in the window, oldest issue first */
+  snapshots: ForecastSnapshot[];
+  /** YYYY-MM-DD; report triggers only fire on a report from this day */
+  today: string;
+}
+
+export interface ConditionMatch {
+  condition: AlertCondition;
+  /** Forecast day (or report day, for base depth) the condition is met */
+  date: string;
+  /** Snow behind the match: the window's total, the report's 24h, the storm's or the new forecast */
+  snow: number;
+  /** Forecast low, reported base depth or the previous forecast, when the condition is about one */
+  value?: number;
+  /** When the newer forecast of a change was issued */
+  issuedAt?: string;
+  /** Lifts open now and on the report before, for lift openings */
+  lifts?: { open: number; before: number };
+}
+
+export interface RuleMatch {
+  /** When the rule is met: the last condition to come true (`all`) or the first (`any`) */
+  date: string;
+  snow: number;
+  matches: ConditionMatch[];
+}
+
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/** The snowiest window (earliest on ties) with enough snow */
+function matchSnowfall(condition: SnowfallCondition, { forecasts }: RuleInput): ConditionMatch | null {
+  let best: ConditionMatch | null = null;
+  for (let end = condition.days - 1; end < forecasts.length; end++) {
+    const date = forecasts[end].forecast_date;
+    if (condition.weekend && !isWeekend(date)) continue;
+
+    const total = forecasts.slice(end - condition.days + 1, end + 1).reduce((sum, f) => sum + f.predicted_snow, 0);
+    if (total >= condition.snow && (!best || total > best.snow)) {
+      best = { condition, date, snow: total };
+    }
+  }
+  return best;
+}
+
+function matchBaseDepth(condition: BaseDepthCondition, { reports }: RuleInput): ConditionMatch | null {
+  const latest = reports[reports.length - 1];
+  const previous = reports[reports.length - 2];
+  if (!latest || !previous) return null;
+  if (latest.base_depth < condition.baseDepth || previous.base_depth >= condition.baseDepth) return null;
+  return { condition, date: latest.report_date, snow: latest.last_24_hours, value: latest.base_depth };
+}
+
+/** The first cold enough day; the storm before today's forecast comes from the latest report */
+function matchTemperature(condition: TemperatureCondition, { forecasts, reports }: RuleInput): ConditionMatch | null {
+  const latest = reports[reports.length - 1];
+  for (let i = 0; i < forecasts.length; i++) {
+    const low = forecasts[i].temp_low;
+    if (low === null || low > condition.temp) continue;
+
+    const forecastSnow = forecasts.slice(Math.max(0, i - 2), i).reduce((sum, f) => sum + f.predicted_snow, 0);
+    const reportedSnow = i === 0 ? latest?.last_48_hours ?? 0 : i === 1 ? latest?.last_24_hours ?? 0 : 0;
+    const storm = forecastSnow + reportedSnow;
+    if (storm >= condition.stormSnow) {
+      return { condition, date: forecasts[i].forecast_date, snow: storm, value: low };
+    }
+  }
+  return null;
+}
+
+/** The biggest move in the wanted direction between a day's last two snapshots (earliest day on ties) */
+function matchForecastChange(condition: ForecastChangeCondition, { snapshots }: RuleInput): ConditionMatch | null {
+  const byDate = new Map<string, ForecastSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byDate.get(snapshot.forecast_date);
+    if (list) list.push(snapshot);
+    else byDate.set(snapshot.forecast_date, [snapshot]);
+  }
+
+  let best: ConditionMatch | null = null;
+  let bestChange = 0;
+  for (const date of [...byDate.keys()].sort()) {
+    const list = byDate.get(date)!;
+    if (list.length < 2) continue;
+    const latest = list[list.length - 1];
+    const previous = list[list.length - 2];
+
+    const delta = latest.predicted_snow - previous.predicted_snow;
+    const change = condition.direction === 'up' ? delta : condition.direction === 'down' ? -delta : Math.abs(delta);
+    if (change >= condition.change && change > bestChange) {
+      bestChange = change;
+      best = { condition, date, snow: latest.predicted_snow, value: previous.predicted_snow, issuedAt: latest.issued_at };
+    }
+  }
+  return best;
+}
+
+function matchFreshSnow(condition: FreshSnowCondition, { reports, today }: RuleInput): ConditionMatch | null {
+  const latest = reports[reports.length - 1];
+  if (!latest || latest.report_date !== today || latest.last_24_hours < condition.snow) return null;
+  return { condition, date: latest.report_date, snow: latest.last_24_hours };
+}
+
+/** Whether `date` is the day after `previous` (both YYYY-MM-DD) */
+function isDayAfter(date: string, previous: string): boolean {
+  return Date.parse(date) - Date.parse(previous) === 24 * 60 * 60 * 1000;
+}
+
+// Only against yesterday's report: a resort's first report, or the first after
+// a gap, would otherwise count every open lift as just opened
+function matchLiftsOpening(condition: LiftsOpeningCondition, { reports, today }: RuleInput): ConditionMatch | null {
+  const latest = reports[reports.length - 1];
+  const previous = reports[reports.length - 2];
+  if (!latest || latest.report_date !== today) return null;
+  if (!previous || !isDayAfter(latest.report_date, previous.report_date)) return null;
+  const before = previous.lifts_open;
+  if (latest.lifts_open - before < condition.lifts) return null;
+  return {
+    condition,
+    date: latest.report_date,
+    snow: latest.last_24_hours,
+    lifts: { open: latest.lifts_open, before },
+  };
+}
+
+function matchCondition(condition: AlertCondition, input: RuleInput): ConditionMatch | null {
+  switch (condition.type) {
+    case 'snowfall':
+      return matchSnowfall(condition, input);
+    case 'baseDepth':
+      return matchBaseDepth(condition, input);
+    case 'temperature':
+      return matchTemperature(condition, input);
+    case 'forecastChange':
+      return matchForecastChange(condition, input);
+    case 'freshSnow':
+      return matchFreshSnow(condition, input);
+    case 'liftsOpening':
+      return matchLiftsOpening(condition, input);
+  }
+}
+
+/** Whether the rule is met, and by what */
+export function evaluateRule(rule: AlertRule, input: RuleInput): RuleMatch | null {
+  const results = rule.conditions.map((condition) => matchCondition(condition, input));
+  const matches = results.filter((match): match is ConditionMatch => match !== null);
+  if (matches.length === 0 || (rule.match === 'all' && matches.length < results.length)) return null;
+
+  const dates = matches.map((match) => match.date).sort();
+  return {
+    date: rule.match === 'all' ? dates[dates.length - 1] : dates[0],
+    snow: Math.max(...matches.map((match) => match.snow)),
+    matches,
+  };
+}
+
+/** Whether a condition fires on today's snow report */
+function isReportTrigger(condition: AlertCondition): boolean {
+  return condition.type === 'freshSnow' || condition.type === 'liftsOpening';
+}
+
+/** Whether a rule needs the resort's reports (base depth, the storm before today or a report trigger) */
+export function usesReports(rule: AlertRule): boolean {
+  return rule.conditions.some(
+    (condition) => condition.type === 'baseDepth' || condition.type === 'temperature' || isReportTrigger(condition),
+  );
+}
+
+/** Whether a rule should be checked as soon as a resort's report is ingested */
+export function usesReportTriggers(rule: AlertRule): boolean {
+  return rule.conditions.some(isReportTrigger);
+}
+
+/** Whether a rule needs forecast snapshots (forecast changes) */
+export function usesSnapshots(rule: AlertRule): boolean {
+  return rule.conditions.some((condition) => condition.type === 'forecastChange');
+}
+
+/** The forecast change behind a match, if any */
+export function changeMatch(match: RuleMatch): ConditionMatch | null {
+  return match.matches.find((conditionMatch) => conditionMatch.condition.type === 'forecastChange') ?? null;
+}
+
+/** What a match is news about: a storm upgraded or downgraded, today's report or the forecast meeting the rule */
+export function matchKind(match: RuleMatch): NotificationKind {
+  const change = changeMatch(match);
+  if (change) return change.snow > (change.value ?? 0) ? 'upgrade' : 'downgrade';
+  return match.matches.some((conditionMatch) => isReportTrigger(conditionMatch.condition)) ? 'report' : 'forecast';
+}
+
+function describeCondition(condition: AlertCondition, locale: Locale, units: UnitSystem): string {
+  switch (condition.type) {
+    case 'snowfall': {
+      const text = translate(locale, condition.days === 1 ? 'alert.rule.snowfall.day' : 'alert.rule.snowfall.days', {
+        snow: formatSnow(condition.snow, units),
+        days: condition.days,
+      });
+      return condition.weekend ? translate(locale, 'alert.rule.weekend', { condition: text }) : text;
+    }
+    case 'baseDepth':
+      return translate(locale, 'alert.rule.baseDepth', { depth: formatSnow(condition.baseDepth, units) });
+    case 'temperature':
+      return condition.stormSnow > 0
+        ? translate(locale, 'alert.rule.coldAfterStorm', {
+            temp: formatTemp(condition.temp, units),
+            snow: formatSnow(condition.stormSnow, units),
+          })
+        : translate(locale, 'alert.rule.cold', { temp: formatTemp(condition.temp, units) });
+    case 'forecastChange': {
+      const key = { up: 'alert.rule.upgrade', down: 'alert.rule.downgrade', any: 'alert.rule.change' } as const;
+      return translate(locale, key[condition.direction], { snow: formatSnow(condition.change, units) });
+    }
+    case 'freshSnow':
+      return translate(locale, 'alert.rule.freshSnow', { snow: formatSnow(condition.snow, units) });
+    case 'liftsOpening':
+      return translate(locale, 'alert.rule.liftsOpening', { lifts: condition.lifts });
+  }
+}
+
+/** e.g. `8"+ in 24h on a weekend and base depth reaches 40"` */
+export function describeRule(rule: AlertRule, locale: Locale, units: UnitSystem): string {
+  const text = rule.conditions
+    .map((condition) => describeCondition(condition, locale, units))
+    .join(translate(locale, rule.match === 'all' ? 'alert.rule.and' : 'alert.rule.or'));
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** e.g. `12" of snow predicted over 3 days through Sat, Jan 17` */
+export function describeMatch(match: ConditionMatch, locale: Locale, units: UnitSystem): string {
+  const date = formatDate(match.date, locale);
+  const snow = formatSnow(match.snow, units);
+  const { condition } = match;
+  switch (condition.type) {
+    case 'snowfall':
+      return condition.days === 1
+        ? translate(locale, 'alert.match.snowfall.day', { snow, date })
+        : translate(locale, 'alert.match.snowfall.days', { snow, days: condition.days, date });
+    case 'baseDepth':
+      return translate(locale, 'alert.match.baseDepth', { depth: formatSnow(match.value ?? 0, units), date });
+    case 'temperature': {
+      const temp = formatTemp(match.value ?? condition.temp, units);
+      return condition.stormSnow > 0
+        ? translate(locale, 'alert.match.coldAfterStorm', { temp, date, snow })
+        : translate(locale, 'alert.match.cold', { temp, date });
+    }
+    case 'forecastChange': {
+      const params = { from: formatSnow(match.value ?? 0, units), to: snow, date };
+      return match.snow > (match.value ?? 0)
+        ? translate(locale, 'alert.match.upgraded', params)
+        : translate(locale, 'alert.match.downgraded', params);
+    }
+    case 'freshSnow':
+      return translate(locale, 'alert.match.freshSnow', { snow, date });
+    case 'liftsOpening':
+      return translate(locale, 'alert.match.liftsOpening', {
+        open: match.lifts?.open ?? 0,
+        before: match.lifts?.before ?? 0,
+        date,
+      });
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Alert scopes
+ *
+ * What a subscription watches: one resort, a list of resorts (optionally
+ * with the visitor's favorites), every resort in a state or region, or every
+ * resort within some hours' drive of a place. Scopes are resolved to resorts
+ * each time alerts are checked, so new resorts and favorites are picked up.
+ */
+
+import { favoriteRepo, resortRepo } from '../db/repositories/index.js';
+import type { AlertSubscription, AlertSubscriptionInsert, Json, Resort } from '../types/database.js';
+import { translate, type Locale } from './i18n/index.js';
+import { findSubdivision } from './regions.js';
+
+export interface ResortScope {
+  type: 'resort';
+  resortId: string;
+}
+
+export interface ListScope {
+  type: 'list';
+  resortIds: string[];
+  /** Also the visitor's favorites, as synced when alerts are checked */
+  favorites: boolean;
+}
+
+export interface StateScope {
+  type: 'state';
+  /** ISO 3166-1 alpha-2 */
+  country: string;
+  /** Subdivision code, as on resorts */
+  state: string;
+}
+
+export interface RegionScope {
+  type: 'region';
+  region: string;
+}
+
+export interface RadiusScope {
+  type: 'radius';
+  /** Display name of the center, e.g. Seattle */
+  place: string;
+  latitude: number;
+  longitude: number;
+  /** Hours of driving, see DRIVE_MILES_PER_HOUR */
+  hours: number;
+  /** Only resorts in this region */
+  region?: string;
+}
+
+export type AlertScope = ResortScope | ListScope | StateScope | RegionScope | RadiusScope;
+
+export type ScopeType = AlertScope['type'];
+
+// Straight-line miles an hour of driving covers on the way to the mountains
+// (roads wind and climb, so well under highway speed)
+const DRIVE_MILES_PER_HOUR = 45;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two points, in miles */
+export function distanceMiles(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/** Identifies a scope among the visitor's subscriptions, e.g. resort:alta or state:US-UT */
+export function scopeKey(scope: AlertScope): string {
+  switch (scope.type) {
+    case 'resort':
+      return `resort:${scope.resortId}`;
+    case 'list':
+      return `list:${[...scope.resortIds].sort().join(',')}${scope.favorites ? '+favorites' : ''}`;
+    case 'state':
+      return `state:${scope.country}-${scope.state}`;
+    case 'region':
+      return `region:${scope.region}`;
+    case 'radius':
+      return `radius:${scope.latitude.toFixed(2)},${scope.longitude.toFixed(2)}:${scope.hours}h${scope.region ? `:${scope.region}` : ''}`;
+  }
+}
+
+/** Subscription columns for a scope; only resort subscriptions have a resort_id */
+export function scopeColumns(scope: AlertScope): Pick<AlertSubscriptionInsert, 'resort_id' | 'scope_type' | 'scope' | 'scope_key'> {
+  if (scope.type === 'resort') {
+    return { resort_id: scope.resortId, scope_type: 'resort', scope: null, scope_key: scopeKey(scope) };
+  }
+  const { type, ...params } = scope;
+  return { resort_id: null, scope_type: type, scope: params as unknown as Json, scope_key: scopeKey(scope) };
+}
+
+/** A subscription's scope; subscriptions from before scopes watch their resort */
+export function subscriptionScope(
+  subscription: Pick<AlertSubscription, 'resort_id' | 'scope_type' | 'scope'>,
+): AlertScope {
+  if (subscription.scope_type === 'resort' || !subscription.scope) {
+    return { type: 'resort', resortId: subscription.resort_id ?? '' };
+  }
+  return { ...(subscription.scope as object), type: subscription.scope_type } as AlertScope;
+}
+
+/** The resorts a scope covers right now */
+export async function resolveScope(scope: AlertScope, visitorId: string): Promise<Resort[]> {
+  switch (scope.type) {
+    case 'resort': {
+      const resort = await resortRepo.findById(scope.resortId);
+      return resort ? [resort] : [];
+    }
+    case 'list': {
+      const favorites = scope.favorites ? await favoriteRepo.listForVisitor(visitorId) : [];
+      const ids = [...new Set([...scope.resortIds, ...favorites.map((favorite) => favorite.resort_id)])];
+      return ids.length > 0 ? resortRepo.list({ ids }) : [];
+    }
+    case 'state':
+      return resortRepo.list({ country: scope.country, state: scope.state });
+    case 'region':
+      return resortRepo.list({ region: scope.region });
+    case 'radius': {
+      const resorts = await resortRepo.list({ region: scope.region, withCoordinates: true });
+      const maxMiles = scope.hours * DRIVE_MILES_PER_HOUR;
+      return resorts.filter((resort) => distanceMiles(scope, resort) <= maxMiles);
+    }
+  }
+}
+
+/** e.g. Alta, Utah, Pacific region or Within 3h of Seattle, in `locale` */
+export function describeScope(scope: AlertScope, locale: Locale, resortName?: string | null): string {
+  switch (scope.type) {
+    case 'resort':
+      return resortName || scope.resortId;
+    case 'list':
+      if (!scope.favorites) return translate(locale, 'alert.scope.list', { count: scope.resortIds.length });
+      return scope.resortIds.length > 0
+        ? translate(locale, 'alert.scope.favoritesPlus', { count: scope.resortIds.length })
+        : translate(locale, 'alert.scope.favorites');
+    case 'state':
+      return findSubdivision(scope.country, scope.state)?.name ?? scope.state;
+    case 'region':
+      return translate(locale, 'alert.scope.region', { region: scope.region });
+    case 'radius':
+      return scope.region
+        ? translate(locale, 'alert.scope.radiusRegion', { region: scope.region, hours: scope.hours, place: scope.place })
+        : translate(locale, 'alert.scope.radius', { hours: scope.hours, place: scope.place });
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Snow alerts
+ *
+ * Checks active subscriptions' rules against upcoming forecasts, how those
+ * forecasts changed between snapshots and recent snow reports at every
+ * resort in their scope, and creates one in-app notification per match
+ * (plus an email when the subscriber left one, and a delivery to each of the
+ * subscription's webhook channels), summarizing all the resorts
+ * that met the rule. Text is written in the locale and units the visitor
+ * saved with their favorites. Rules with report triggers are also checked
+ * when a resort's report is ingested (`checkReportAlerts`), rather than
+ * waiting for the next scheduled check.
+ */
+
+import { getToday, getDaysFromNow } from '../db/supabase.js';
+import { alertRepo, forecastRepo, forecastSnapshotRepo, snowReportRepo, userRepo } from '../db/repositories/index.js';
+import type { AlertNotification, AlertSubscription, Json, Resort } from '../types/database.js';
+import {
+  THRESHOLDS,
+  changeMatch,
+  describeMatch,
+  describeRule,
+  evaluateRule,
+  matchKind,
+  presetRule,
+  usesReportTriggers,
+  usesReports,
+  usesSnapshots,
+  type AlertRule,
+  type RuleMatch,
+  type ThresholdId,
+} from './alertRules.js';
+import { describeScope, resolveScope, subscriptionScope } from './alertScopes.js';
+import { alertPayload, queueDeliveries } from './alertChannels.js';
+import { escapeHtml, sendAlertEmail } from './email.js';
+import { CONSENSUS_SOURCE } from './forecastVerification.js';
+import { DEFAULT_LOCALE, parseLocale, translate, type Locale } from './i18n/index.js';
+import { DEFAULT_UNITS, formatSnow, parseUnitSystem, type UnitSystem } from './units.js';
+
+// Reports looked at for base depth crossings and the storm before today
+const REPORT_LOOKBACK_DAYS = 7;
+
+// Resorts spelled out in a scope notification's message; the rest are counted
+const MESSAGE_RESORTS = 3;
+
+/** A resort that met the rule, as stored on its notification */
+export interface NotificationResort {
+  resortId: string;
+  resortName: string;
+  forecastDate: string;
+  predictedSnow: number;
+}
+
+/** The resorts a notification is about, snowiest first (none for notifications from before scopes) */
+export function notificationResorts(notification: Pick<AlertNotification, 'resorts'>): NotificationResort[] {
+  return (notification.resorts as unknown as NotificationResort[] | null) ?? [];
+}
+
+/** e.g. `Good Snow (5-15")` / `中雪 (13-38 cm)`; the id itself for unknown thresholds */
+export function thresholdLabel(threshold: string, locale: Locale, units: UnitSystem = DEFAULT_UNITS): string {
+  const range = THRESHOLDS[threshold as ThresholdId];
+  if (!range) return threshold;
+  return translate(locale, `alert.threshold.${threshold as ThresholdId}`, {
+    min: units === 'metric' ? Math.round(range.min * 2.54) : range.min,
+    max: formatSnow(range.max, units),
+  });
+}
+
+/** The subscription's rule; subscriptions from before rules get their threshold's preset */
+export function subscriptionRule(subscription: Pick<AlertSubscription, 'rule' | 'threshold'>): AlertRule {
+  if (subscription.rule) return subscription.rule as unknown as AlertRule;
+  return presetRule(subscription.threshold in THRESHOLDS ? (subscription.threshold as ThresholdId) : 'good');
+}
+
+/** The threshold's label, or a summary of a custom rule */
+export function subscriptionLabel(
+  subscription: Pick<AlertSubscription, 'rule' | 'threshold'>,
+  locale: Locale,
+  units: UnitSystem = DEFAULT_UNITS,
+): string {
+  return subscription.threshold === 'custom'
+    ? describeRule(subscriptionRule(subscription), locale, units)
+    : thresholdLabel(subscription.threshold, locale, units);
+}
+
+function byResort<T extends { resort_id: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.resort_id);
+    if (list) list.push(row);
+    else grouped.set(row.resort_id, [row]);
+  }
+  return grouped;
+}
+
+function describeDetails(match: RuleMatch, locale: Locale, units: UnitSystem): string {
+  return match.matches
+    .map((conditionMatch) => describeMatch(conditionMatch, locale, units))
+    .join(translate(locale, 'alert.match.separator'));
+}
+
+/**
+ * Check if a subscription's rule is met at any resort in its scope, and
+ * create the notification (and email) if so
+ */
+export async function checkForAlerts(subscriptionId: number): Promise<boolean> {
+  try {
+    const subscription = await alertRepo.findSubscription(subscriptionId);
+
+    if (!subscription || !subscription.is_active) return false;
+
+    const rule = subscriptionRule(subscription);
+    const scope = subscriptionScope(subscription);
+    const resorts = await resolveScope(scope, subscription.visitor_id);
+    if (resorts.length === 0) return false;
+    const resortIds = resorts.map((resort) => resort.id);
+
+    // Forecast days within the timeframe, and recent reports and snapshots when the rule looks at them
+    // (never the local store's sample conditions)
+    const today = getToday();
+    const until = getDaysFromNow(subscription.timeframe);
+    const [forecasts, reports, snapshots] = await Promise.all([
+      forecastRepo.list({
+        resortIds,
+        from: today,
+        to: until,
+        orderBy: 'date',
+        excludeSamples: true,
+      }),
+      usesReports(rule)
+        ? snowReportRepo.listForResorts(resortIds, getDaysFromNow(-REPORT_LOOKBACK_DAYS), today, { excludeSamples: true })
+        : [],
+      usesSnapshots(rule)
+        ? forecastSnapshotRepo.list({ resortIds, source: CONSENSUS_SOURCE, from: today, to: until })
+        : [],
+    ]);
+
+    // Every resort that met the rule, snowiest (then soonest) first
+    const forecastsByResort = byResort(forecasts);
+    const reportsByResort = byResort(reports);
+    const snapshotsByResort = byResort(snapshots);
+    const matched = resorts
+      .map((resort) => ({
+        resort,
+        match: evaluateRule(rule, {
+          forecasts: forecastsByResort.get(resort.id) ?? [],
+          reports: reportsByResort.get(resort.id) ?? [],
+          snapshots: snapshotsByResort.get(resort.id) ?? [],
+          today,
+        }),
+      }))
+      .filter((entry): entry is { resort: Resort; match: RuleMatch } => entry.match !== null)
+      .sort((a, b) => b.match.snow - a.match.snow || a.match.date.localeCompare(b.match.date));
+    if (matched.length === 0) return false;
+    const [best] = matched;
+
+    // Check if we already sent a notification for this day recently; a forecast
+    // change is news once per snapshot that made it
+    const kind = matchKind(best.match);
+    const since = changeMatch(best.match)?.issuedAt ?? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    if (await alertRepo.hasRecentNotification(subscriptionId, best.match.date, since, kind)) return false;
+
+    // Create notification, in the visitor's language and units
+    const preferences = await userRepo.getPreferences(subscription.visitor_id);
+    const locale = parseLocale(preferences.locale) ?? DEFAULT_LOCALE;
+    const units = parseUnitSystem(preferences.units) ?? DEFAULT_UNITS;
+    const level: ThresholdId = best.match.snow >= 15 ? 'great' : best.match.snow >= 5 ? 'good' : 'light';
+    const levelText = translate(locale, `alert.level.${level}`);
+
+    let title: string;
+    let details: string;
+    if (matched.length === 1) {
+      const resort = best.resort.name;
+      title =
+        kind !== 'forecast'
+          ? translate(locale, `alert.title.${kind}`, { resort })
+          : best.match.snow > 0
+            ? translate(locale, 'alert.title', { level: levelText, resort })
+            : translate(locale, 'alert.title.conditions', { resort });
+      details = describeDetails(best.match, locale, units);
+    } else {
+      const params = {
+        level: levelText,
+        count: matched.length,
+        scope: describeScope(scope, locale, subscription.resort_name),
+      };
+      title =
+        kind !== 'forecast'
+          ? translate(locale, `alert.title.${kind}.scope`, params)
+          : best.match.snow > 0
+            ? translate(locale, 'alert.title.scope', params)
+            : translate(locale, 'alert.title.scope.conditions', params);
+      details = matched
+        .slice(0, MESSAGE_RESORTS)
+        .map(({ resort, match }) =>
+          translate(locale, 'alert.match.resort', { resort: resort.name, details: describeDetails(match, locale, units) }),
+        )
+        .join(translate(locale, 'alert.match.resortSeparator'));
+      if (matched.length > MESSAGE_RESORTS) {
+        details += translate(locale, 'alert.match.more', { count: matched.length - MESSAGE_RESORTS });
+      }
+    }
+    const message = translate(locale, 'alert.message', { details });
+    const summary: NotificationResort[] = matched.map(({ resort, match }) => ({
+      resortId: resort.id,
+      resortName: resort.name,
+      forecastDate: match.date,
+      predictedSnow: match.snow,
+    }));
+
+    let notification: AlertNotification;
+    try {
+      notification = await alertRepo.insertNotification({
+        subscription_id: subscriptionId,
+        title,
+        message,
+        predicted_snow: best.match.snow,
+        forecast_date: best.match.date,
+        kind,
+        resorts: summary as unknown as Json,
+      });
+    } catch (notifError) {
+      console.error('Error creating notification:', notifError);
+      return false;
+    }
+
+    // Update last triggered
+    await alertRepo.updateSubscription(subscriptionId, {
+      last_triggered: new Date().toISOString(),
+      last_checked: new Date().toISOString(),
+    });
+
+    // Webhook channels (optional): queued, so a slow or failing endpoint is retried on its own
+    try {
+      await queueDeliveries(
+        subscriptionId,
+        alertPayload(subscription, notification, {
+          scope: describeScope(scope, locale, subscription.resort_name),
+          locale,
+          units,
+        }),
+      );
+    } catch (e) {
+      console.error('Error queueing alert deliveries:', e);
+    }
+
+    // Email (optional): send if user provided an email and Resend is configured
+    if (subscription.email) {
+      const subject = title;
+      const html = `
+        <div lang="${locale}" style="font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial;">
+          <h2 style="margin:0 0 8px 0;">${escapeHtml(subject)}</h2>
+          <p style="margin:0 0 8px 0;">${escapeHtml(message)}</p>
+          <p style="margin:0;color:#64748b;">${translate(locale, 'alert.email.footer')}</p>
+        </div>
+      `;
+
+      try {
+        await sendAlertEmail({
+          to: subscription.email,
+          subject,
+          html,
+        });
+      } catch (e) {
+        console.error('Error sending alert email (Resend):', e);
+        // do not fail the alert creation if email delivery fails
+      }
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error checking alerts:', error);
+    return false;
+  }
+}
+
+/**
+ * Check the subscriptions with report triggers whose scope covers a resort,
+ * right after its report was ingested
+ */
+export async function checkReportAlerts(resortId: string): Promise<{ checked: number; triggered: number }> {
+  const subscriptions = (await alertRepo.listActiveSubscriptions()).filter((subscription) =>
+    usesReportTriggers(subscriptionRule(subscription)),
+  );
+
+  let checked = 0;
+  let triggered = 0;
+  for (const subscription of subscriptions) {
+    const scope = subscriptionScope(subscription);
+    const covered =
+      scope.type === 'resort'
+        ? scope.resortId === resortId
+        : (await resolveScope(scope, subscription.visitor_id)).some((resort) => resort.id === resortId);
+    if (!covered) continue;
+
+    checked++;
+    if (await checkForAlerts(subscription.id)) triggered++;
+  }
+
+  console.log(`[Alerts] ${resortId} report: checked ${checked} subscriptions, ${triggered} triggered`);
+  return { checked, triggered };
+}
+
+/** Check every active subscription */
+export async function checkAllAlerts(): Promise<{ checked: number; triggered: number }> {
+  const activeSubscriptionIds = await alertRepo.listSubscriptionIds({ activeOnly: true });
+
+  let triggered = 0;
+  for (const subscriptionId of activeSubscriptionIds) {
+    if (await checkForAlerts(subscriptionId)) triggered++;
+  }
+
+  console.log(`[Alerts] Checked ${activeSubscriptionIds.length} subscriptions, ${triggered} triggered`);
+  return { checked: activeSubscriptionIds.length, triggered };
+}
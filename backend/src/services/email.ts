@@ -16,6 +16,16 @@ function getResendClient(): Resend | null {
   return resendClient;
 }
 
+/** Escape text for an email's HTML (titles and messages carry user-named rules and places) */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export async function sendAlertEmail(params: SendEmailParams): Promise<void> {
   const resend = getResendClient();
   if (!resend) {
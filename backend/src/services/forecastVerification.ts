@@ -0,0 +1,264 @@
+/**
+ * Forecast verification
+ *
+ * `forecasts` only keeps the latest prediction per day, so every fetch also
+ * records write-once snapshots (one per provider plus the reconciled
+ * consensus) keyed by issue time: the first at each lead time, and any later
+ * one whose prediction moved, so same-day upgrades are kept too. Once a
+ * forecast day has passed, its snapshots are scored against that day's
+ * observed `snow_reports.last_24_hours`, counting the first snapshot per lead
+ * time.
+ */
+
+import { getToday, getDaysFromNow, parseForecastDate } from '../db/supabase.js';
+import { forecastSnapshotRepo, snowReportRepo, isMissingTableError } from '../db/repositories/index.js';
+import type { ForecastSnapshot, ForecastSnapshotInsert } from '../types/database.js';
+import type { ReconciledResult, ProviderForecastDay } from './providers/types.js';
+
+/** Snapshot source used for the reconciled forecast */
+export const CONSENSUS_SOURCE = 'consensus';
+
+/** Observed or predicted snowfall that counts as a "big day" for hit rates */
+export const BIG_DAY_INCHES = 6;
+
+/** Forecast days older than this without a snow report are left unscored */
+const VERIFY_LOOKBACK_DAYS = 7;
+
+export interface AccuracyStats {
+  samples: number;
+  /** Mean of predicted - observed, inches (positive = over-forecast) */
+  bias: number | null;
+  /** Mean absolute error, inches */
+  mae: number | null;
+  bigDays: {
+    observed: number;
+    forecast: number;
+    /** Observed big days that were also forecast as big days */
+    hits: number;
+  };
+  /** Share of observed big days that were forecast (null without any) */
+  hitRate: number | null;
+  /** Share of forecast big days that didn't happen (null without any) */
+  falseAlarmRate: number | null;
+}
+
+export interface ForecastAccuracyOptions {
+  resortId?: string;
+  source?: string;
+  leadDays?: number;
+  /** How many days of verified forecasts to include (default 60) */
+  days?: number;
+}
+
+export interface ForecastAccuracyReport {
+  from: string;
+  to: string;
+  overall: AccuracyStats;
+  bySource: Array<{ source: string } & AccuracyStats>;
+  byResort: Array<{ resortId: string } & AccuracyStats>;
+  byLeadDays: Array<{ leadDays: number } & AccuracyStats>;
+}
+
+let warnedMissingTable = false;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The snapshots worth keeping: the first for a source/day at its lead time,
+ * or a change from the latest one recorded for that source/day.
+ */
+function newSnapshots(snapshots: ForecastSnapshotInsert[], existing: ForecastSnapshot[]): ForecastSnapshotInsert[] {
+  const leads = new Set<string>();
+  const latest = new Map<string, number>();
+  // Oldest first, so the last one seen per day is the latest
+  for (const s of existing) {
+    leads.add(`${s.source}|${s.forecast_date}|${s.lead_days}`);
+    latest.set(`${s.source}|${s.forecast_date}`, s.predicted_snow);
+  }
+  return snapshots.filter(
+    (s) =>
+      !leads.has(`${s.source}|${s.forecast_date}|${s.lead_days}`) ||
+      latest.get(`${s.source}|${s.forecast_date}`) !== (s.predicted_snow ?? 0),
+  );
+}
+
+/** The first snapshot issued per resort, source, day and lead time */
+function firstIssues(snapshots: ForecastSnapshot[]): ForecastSnapshot[] {
+  const first = new Map<string, ForecastSnapshot>();
+  for (const s of snapshots) {
+    const key = `${s.resort_id}|${s.source}|${s.forecast_date}|${s.lead_days}`;
+    const kept = first.get(key);
+    if (!kept || s.issued_at < kept.issued_at) first.set(key, s);
+  }
+  return [...first.values()];
+}
+
+function toSnapshots(
+  resortId: string,
+  source: string,
+  forecast: ProviderForecastDay[] | undefined,
+  issuedAt: string,
+  issueDate: string,
+): ForecastSnapshotInsert[] {
+  const snapshots: ForecastSnapshotInsert[] = [];
+  for (const day of forecast || []) {
+    const forecastDate = parseForecastDate(day.date);
+    if (!forecastDate) continue;
+
+    const leadDays = daysBetween(issueDate, forecastDate);
+    if (leadDays < 0) continue;
+
+    snapshots.push({
+      resort_id: resortId,
+      source,
+      issued_at: issuedAt,
+      issue_date: issueDate,
+      forecast_date: forecastDate,
+      lead_days: leadDays,
+      predicted_snow: day.snowInches || 0,
+    });
+  }
+  return snapshots;
+}
+
+/**
+ * Record the forecasts from a reconciled fetch. Never throws: a missing
+ * snapshot table or write error must not fail the refresh that called it.
+ */
+export async function recordForecastSnapshots(resortId: string, result: ReconciledResult): Promise<void> {
+  const issuedAt = new Date().toISOString();
+  const issueDate = getToday();
+
+  const snapshots = [
+    ...toSnapshots(resortId, CONSENSUS_SOURCE, result.data.forecast, issuedAt, issueDate),
+    ...result.results.flatMap((r) => toSnapshots(resortId, r.source, r.data.forecast, issuedAt, issueDate)),
+  ];
+
+  try {
+    const existing = await forecastSnapshotRepo.list({ resortId, from: issueDate });
+    await forecastSnapshotRepo.recordMany(newSnapshots(snapshots, existing));
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      if (!warnedMissingTable) {
+        console.warn('[Verify] forecast_snapshots table missing - run supabase/migrations/003_forecast_snapshots.sql');
+        warnedMissingTable = true;
+      }
+      return;
+    }
+    console.error(`[Verify] Failed to record forecast snapshots for ${resortId}:`, error);
+  }
+}
+
+/**
+ * Score unverified snapshots whose forecast day has passed against the
+ * observed 24hr snowfall reported for that day.
+ */
+export async function verifyForecastSnapshots(): Promise<{ checked: number; verified: number; pending: number }> {
+  const today = getToday();
+  const since = getDaysFromNow(-VERIFY_LOOKBACK_DAYS);
+
+  // Filtered in the query: snapshots that never got a report stay unverified
+  // and would otherwise fill the page once they are older than the lookback
+  const snapshots = await forecastSnapshotRepo.listUnverified(since, today);
+  if (snapshots.length === 0) return { checked: 0, verified: 0, pending: 0 };
+
+  const from = snapshots[0].forecast_date;
+  const reports = await snowReportRepo.listBetween(from, today, { excludeSamples: true });
+  const observed = new Map<string, number>();
+  for (const report of reports) {
+    observed.set(`${report.resort_id}|${report.report_date}`, report.last_24_hours);
+  }
+
+  let verified = 0;
+  for (const snapshot of snapshots) {
+    const snow = observed.get(`${snapshot.resort_id}|${snapshot.forecast_date}`);
+    if (snow === undefined || snow === null) continue;
+
+    await forecastSnapshotRepo.markVerified(snapshot.id, snow);
+    verified++;
+  }
+
+  const pending = snapshots.length - verified;
+  console.log(`[Verify] Scored ${verified} forecast snapshots (${pending} awaiting snow reports)`);
+  return { checked: snapshots.length, verified, pending };
+}
+
+function computeStats(snapshots: ForecastSnapshot[]): AccuracyStats {
+  let errorSum = 0;
+  let absErrorSum = 0;
+  const bigDays = { observed: 0, forecast: 0, hits: 0 };
+
+  for (const s of snapshots) {
+    const observed = s.observed_snow ?? 0;
+    const error = s.predicted_snow - observed;
+    errorSum += error;
+    absErrorSum += Math.abs(error);
+
+    const observedBig = observed >= BIG_DAY_INCHES;
+    const forecastBig = s.predicted_snow >= BIG_DAY_INCHES;
+    if (observedBig) bigDays.observed++;
+    if (forecastBig) bigDays.forecast++;
+    if (observedBig && forecastBig) bigDays.hits++;
+  }
+
+  const samples = snapshots.length;
+  return {
+    samples,
+    bias: samples > 0 ? round(errorSum / samples) : null,
+    mae: samples > 0 ? round(absErrorSum / samples) : null,
+    bigDays,
+    hitRate: bigDays.observed > 0 ? round(bigDays.hits / bigDays.observed) : null,
+    falseAlarmRate: bigDays.forecast > 0 ? round((bigDays.forecast - bigDays.hits) / bigDays.forecast) : null,
+  };
+}
+
+function groupStats<K extends string | number>(
+  snapshots: ForecastSnapshot[],
+  keyOf: (s: ForecastSnapshot) => K,
+): Array<[K, AccuracyStats]> {
+  const groups = new Map<K, ForecastSnapshot[]>();
+  for (const s of snapshots) {
+    const key = keyOf(s);
+    const group = groups.get(key);
+    if (group) group.push(s);
+    else groups.set(key, [s]);
+  }
+  return [...groups.entries()].map(([key, group]) => [key, computeStats(group)]);
+}
+
+/** Bias, MAE and big-day hit rates of verified forecasts */
+export async function getForecastAccuracy(options: ForecastAccuracyOptions = {}): Promise<ForecastAccuracyReport> {
+  const to = getToday();
+  const from = getDaysFromNow(-(options.days ?? 60));
+
+  const snapshots = firstIssues(
+    await forecastSnapshotRepo.listVerified({
+      resortId: options.resortId,
+      source: options.source,
+      leadDays: options.leadDays,
+      from,
+      to,
+    }),
+  );
+
+  return {
+    from,
+    to,
+    overall: computeStats(snapshots),
+    bySource: groupStats(snapshots, (s) => s.source)
+      .map(([source, stats]) => ({ source, ...stats }))
+      .sort((a, b) => b.samples - a.samples),
+    byResort: groupStats(snapshots, (s) => s.resort_id)
+      .map(([resortId, stats]) => ({ resortId, ...stats }))
+      .sort((a, b) => b.samples - a.samples),
+    byLeadDays: groupStats(snapshots, (s) => s.lead_days)
+      .map(([leadDays, stats]) => ({ leadDays, ...stats }))
+      .sort((a, b) => a.leadDays - b.leadDays),
+  };
+}
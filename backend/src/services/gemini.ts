@@ -1,4 +1,7 @@
 import { GoogleGenAI, Type, Schema } from '@google/genai';
+import { slugifyResortName } from './resortIdentity.js';
+import { describePlaceFilter } from './regions.js';
+import { DEFAULT_LOCALE, languageName, type Locale } from './i18n/index.js';
 
 // Helper to get today's date formatted
 const getTodayDate = () => {
@@ -36,7 +39,7 @@ const resortDataSchema: Schema = {
   type: Type.OBJECT,
   properties: {
     name: { type: Type.STRING, description: "Full resort name" },
-    location: { type: Type.STRING, description: "Location (State, Region)" },
+    location: { type: Type.STRING, description: "Location (State or province, Country)" },
     baseDepth: { type: Type.NUMBER, description: "Current base snow depth (inches)" },
     last24Hours: { type: Type.NUMBER, description: "Snowfall in last 24 hours (inches)" },
     last48Hours: { type: Type.NUMBER, description: "Snowfall in last 48 hours (inches)" },
@@ -60,14 +63,15 @@ const topResortsSchema: Schema = {
     type: Type.OBJECT,
     properties: {
       name: { type: Type.STRING },
-      location: { type: Type.STRING },
-      state: { type: Type.STRING, description: "State abbreviation (e.g., CO, UT)" },
+      location: { type: Type.STRING, description: "State or province, Country (e.g., Hokkaido, Japan)" },
+      country: { type: Type.STRING, description: "ISO 3166-1 alpha-2 country code (e.g., US, CA, FR, JP)" },
+      state: { type: Type.STRING, description: "State or province code without the country prefix (e.g., CO, UT, BC, 74, 01)" },
       predictedSnow: { type: Type.NUMBER, description: "Total predicted snow next 5 days (inches)" },
       summary: { type: Type.STRING, description: "Brief reason for ranking" },
       latitude: { type: Type.NUMBER },
       longitude: { type: Type.NUMBER },
     },
-    required: ["name", "location", "state", "predictedSnow", "summary"],
+    required: ["name", "location", "country", "state", "predictedSnow", "summary"],
   },
 };
 
@@ -77,7 +81,8 @@ const mapDataSchema: Schema = {
     type: Type.OBJECT,
     properties: {
       name: { type: Type.STRING },
-      state: { type: Type.STRING },
+      country: { type: Type.STRING, description: "ISO 3166-1 alpha-2 country code (e.g., US, CA, FR, JP)" },
+      state: { type: Type.STRING, description: "State or province code without the country prefix (e.g., CO, BC, 74, 01)" },
       latitude: { type: Type.NUMBER },
       longitude: { type: Type.NUMBER },
       snow24h: { type: Type.NUMBER, description: "Predicted snow next 24 hours" },
@@ -85,7 +90,7 @@ const mapDataSchema: Schema = {
       snow5day: { type: Type.NUMBER, description: "Predicted snow next 5 days" },
       currentBase: { type: Type.NUMBER, description: "Current base depth" },
     },
-    required: ["name", "state", "latitude", "longitude", "snow24h", "snow48h", "snow5day"],
+    required: ["name", "country", "state", "latitude", "longitude", "snow24h", "snow48h", "snow5day"],
   },
 };
 
@@ -149,7 +154,7 @@ export class GeminiService {
         const data = JSON.parse(response.text);
         return {
           ...data,
-          id: resortName.toLowerCase().replace(/\s+/g, '-'),
+          id: slugifyResortName(resortName),
           lastUpdated: new Date().toISOString(),
           sourceUrls: [...new Set(sourceUrls)],
         };
@@ -167,7 +172,7 @@ export class GeminiService {
    */
   async fetchTopSnowfallResorts(region: string = 'All', limit: number = 10) {
     const today = getTodayDate();
-    const locationContext = region === 'All' ? 'USA' : region;
+    const locationContext = describePlaceFilter(region);
     
     const prompt = `
       Search for the ${limit} ski resorts in ${locationContext} with the highest predicted snowfall in the next 5 days.
@@ -178,7 +183,8 @@ export class GeminiService {
       
       Return a list with:
       - Resort name
-      - Location (state)
+      - Location (state or province, country)
+      - Country code and state/province code
       - Total predicted snowfall (inches)
       - Brief reason for the forecast
       - Latitude and longitude coordinates if available
@@ -214,14 +220,14 @@ export class GeminiService {
    */
   async fetchMapData(region: string = 'All') {
     const today = getTodayDate();
-    const locationContext = region === 'All' ? 'major US ski resorts' : `ski resorts in ${region}`;
+    const locationContext = `major ski resorts in ${describePlaceFilter(region)}`;
     
     const prompt = `
       Search for current snow conditions and forecasts for all ${locationContext}.
       
       For each resort, find:
       - Resort name
-      - State
+      - Country code and state/province code
       - Coordinates (latitude, longitude)
       - Predicted snow next 24 hours
       - Predicted snow next 48 hours
@@ -259,7 +265,7 @@ export class GeminiService {
   /**
    * AI Ski Assistant - answer ski-related questions
    */
-  async askSkiAssistant(question: string): Promise<string> {
+  async askSkiAssistant(question: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
     try {
       const response = await this.ai.models.generateContent({
         model: "gemini-2.0-flash",
@@ -267,7 +273,7 @@ export class GeminiService {
         
         Question: "${question}"
         
-        Keep your answer under 150 words. Be practical and give actionable advice.`,
+        Answer in ${languageName(locale)}. Keep your answer under 150 words. Be practical and give actionable advice.`,
       });
 
       return response.text || "I couldn't generate an answer. Please try again.";
@@ -278,5 +284,18 @@ export class GeminiService {
   }
 }
 
-// Export singleton instance
-export const geminiService = new GeminiService();
+/** Whether GEMINI_API_KEY is set; without it every Gemini call fails */
+export function isGeminiConfigured(): boolean {
+  return Boolean(process.env.GEMINI_API_KEY);
+}
+
+let geminiService: GeminiService | null = null;
+
+/**
+ * The shared instance, created on first use: a missing GEMINI_API_KEY fails
+ * that call (the chat, the map fallback) instead of the server's startup.
+ */
+export function getGeminiService(): GeminiService {
+  if (!geminiService) geminiService = new GeminiService();
+  return geminiService;
+}
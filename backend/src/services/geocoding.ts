@@ -0,0 +1,95 @@
+/**
+ * Resort geocoding
+ *
+ * Fallback coordinates for resorts whose overview page has none, from the
+ * Open-Meteo geocoding API (no key required). Only places in the resort's
+ * country and state are accepted, so "Alpine Meadows" doesn't land in
+ * another state.
+ */
+
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const REQUEST_TIMEOUT_MS = 10_000;
+const FEET_PER_METER = 3.28084;
+
+/** Words resort names carry that place names usually don't */
+const RESORT_SUFFIX = /\s+(ski (area|resort)|mountain resort|resort|ski ?bowl)$/i;
+
+interface GeocodingResponse {
+  results?: Array<{
+    name: string;
+    latitude: number;
+    longitude: number;
+    /** Meters */
+    elevation?: number;
+    admin1?: string;
+    country_code?: string;
+  }>;
+}
+
+export interface GeocodedPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** Feet */
+  elevation: number | null;
+  /** State or province name, e.g. Colorado, Hokkaido */
+  admin1: string | null;
+}
+
+async function search(name: string, countryCode?: string): Promise<NonNullable<GeocodingResponse['results']>> {
+  const params = new URLSearchParams({ name, count: '10', language: 'en', format: 'json' });
+  if (countryCode) params.set('countryCode', countryCode);
+  const response = await fetch(`${GEOCODING_URL}?${params}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Open-Meteo geocoding returned HTTP ${response.status}`);
+  }
+  const data = (await response.json()) as GeocodingResponse;
+  return data.results ?? [];
+}
+
+function toPlace(result: NonNullable<GeocodingResponse['results']>[number]): GeocodedPlace {
+  return {
+    name: result.name,
+    latitude: result.latitude,
+    longitude: result.longitude,
+    elevation: typeof result.elevation === 'number' ? Math.round(result.elevation * FEET_PER_METER) : null,
+    admin1: result.admin1 ?? null,
+  };
+}
+
+/**
+ * Best match for a resort name in a country (ISO code, US by default) and
+ * state (full name, e.g. "Utah"); tries the name without "Ski Area"/"Resort"
+ * when the full name finds nothing.
+ */
+export async function geocodeResort(
+  name: string,
+  countryCode: string = 'US',
+  stateName?: string,
+): Promise<GeocodedPlace | null> {
+  const names = [name, name.replace(RESORT_SUFFIX, '')].filter((n, i, all) => n && all.indexOf(n) === i);
+
+  for (const candidate of names) {
+    const results = await search(candidate, countryCode);
+    const match = results.find((r) => !stateName || r.admin1?.toLowerCase() === stateName.toLowerCase());
+    if (match) return toPlace(match);
+  }
+  return null;
+}
+
+/**
+ * A town or city anywhere, e.g. "Seattle" or "Portland, Maine" (the part
+ * after a comma must be the state name or country code); Open-Meteo's best
+ * match wins.
+ */
+export async function geocodePlace(query: string): Promise<GeocodedPlace | null> {
+  const [name, qualifier] = query.split(',').map((part) => part.trim());
+  if (!name) return null;
+
+  const results = await search(name);
+  const wanted = qualifier?.toLowerCase();
+  const match = wanted
+    ? results.find((r) => r.admin1?.toLowerCase() === wanted || r.country_code?.toLowerCase() === wanted)
+    : results[0];
+  return match ? toPlace(match) : null;
+}
@@ -0,0 +1,143 @@
+/**
+ * Hourly forecasts by elevation band
+ *
+ * Stored in `hourly_forecasts` and refreshed from the provider chain when the
+ * newest rows are older than an hour. Base and summit bands are kept apart so
+ * callers can tell rain at the base from snow up top.
+ */
+
+import { hourlyForecastRepo } from '../db/repositories/index.js';
+import type { HourlyForecast, HourlyForecastInsert, Resort } from '../types/database.js';
+import { snowDataOrchestrator } from './providers/index.js';
+import type { ElevationBandForecast, HourlyForecastPoint } from './providers/types.js';
+
+const HOURLY_CACHE_MS = 60 * 60 * 1000; // 1 hour
+
+export type PrecipType = 'snow' | 'rain' | 'mixed' | null;
+
+export type HourlyBand = ElevationBandForecast & { precipType: PrecipType };
+
+export interface HourlyForecastHour {
+  time: string;
+  freezingLevel: number | null;
+  base: HourlyBand;
+  summit: HourlyBand | null;
+}
+
+export interface HourlyForecastResult {
+  hours: HourlyForecastHour[];
+  source: string | null;
+  fetchedAt: string | null;
+  cached: boolean;
+}
+
+export function precipType(band: ElevationBandForecast): PrecipType {
+  if (band.snow > 0 && band.rain > 0) return 'mixed';
+  if (band.snow > 0) return 'snow';
+  if (band.rain > 0) return 'rain';
+  return null;
+}
+
+function withPrecipType(band: ElevationBandForecast): HourlyBand {
+  return { ...band, precipType: precipType(band) };
+}
+
+function toInsert(resortId: string, source: string, point: HourlyForecastPoint, fetchedAt: string): HourlyForecastInsert {
+  return {
+    resort_id: resortId,
+    forecast_time: point.time,
+    base_elevation: point.base.elevation,
+    base_snow: point.base.snow,
+    base_rain: point.base.rain,
+    base_temp: point.base.temp,
+    base_wind_speed: point.base.windSpeed,
+    summit_elevation: point.summit?.elevation ?? null,
+    summit_snow: point.summit?.snow ?? null,
+    summit_rain: point.summit?.rain ?? null,
+    summit_temp: point.summit?.temp ?? null,
+    summit_wind_speed: point.summit?.windSpeed ?? null,
+    freezing_level: point.freezingLevel,
+    source,
+    fetched_at: fetchedAt,
+  };
+}
+
+function fromRow(row: HourlyForecast): HourlyForecastHour {
+  const hasSummit = row.summit_temp !== null || row.summit_snow !== null;
+  return {
+    time: new Date(row.forecast_time).toISOString(),
+    freezingLevel: row.freezing_level,
+    base: withPrecipType({
+      elevation: row.base_elevation,
+      snow: row.base_snow ?? 0,
+      rain: row.base_rain ?? 0,
+      temp: row.base_temp ?? 0,
+      windSpeed: row.base_wind_speed ?? 0,
+    }),
+    summit: hasSummit
+      ? withPrecipType({
+          elevation: row.summit_elevation,
+          snow: row.summit_snow ?? 0,
+          rain: row.summit_rain ?? 0,
+          temp: row.summit_temp ?? 0,
+          windSpeed: row.summit_wind_speed ?? 0,
+        })
+      : null,
+  };
+}
+
+/** Start of the current UTC hour */
+function currentHourIso(): string {
+  const now = new Date();
+  now.setUTCMinutes(0, 0, 0);
+  return now.toISOString();
+}
+
+/**
+ * Upcoming hourly forecast for a resort with coordinates, served from the
+ * database unless it is older than an hour (or `refresh` is set).
+ */
+export async function getHourlyForecast(
+  resort: Resort,
+  options: { hours?: number; refresh?: boolean } = {},
+): Promise<HourlyForecastResult> {
+  const hours = options.hours ?? 72;
+  const from = currentHourIso();
+
+  const stored = await hourlyForecastRepo.listForResort(resort.id, from, hours);
+  const newestFetch = stored.reduce((max, r) => Math.max(max, Date.parse(r.fetched_at) || 0), 0);
+
+  if (!options.refresh && stored.length > 0 && Date.now() - newestFetch < HOURLY_CACHE_MS) {
+    return {
+      hours: stored.map(fromRow),
+      source: stored[0].source,
+      fetchedAt: new Date(newestFetch).toISOString(),
+      cached: true,
+    };
+  }
+
+  const { data: points, source } = await snowDataOrchestrator.fetchHourlyForecast({
+    name: resort.name,
+    latitude: resort.latitude!,
+    longitude: resort.longitude!,
+    baseElevation: resort.base_elevation,
+    summitElevation: resort.summit_elevation,
+  });
+
+  const fetchedAt = new Date().toISOString();
+  await hourlyForecastRepo.upsertMany(points.map((p) => toInsert(resort.id, source, p, fetchedAt)));
+  await hourlyForecastRepo.deleteBefore(resort.id, from);
+
+  const upcoming = points.filter((p) => p.time >= from).slice(0, hours);
+  return {
+    hours: upcoming.map((p) => ({
+      time: p.time,
+      freezingLevel: p.freezingLevel,
+      base: withPrecipType(p.base),
+      summit: p.summit ? withPrecipType(p.summit) : null,
+    })),
+    source,
+    fetchedAt,
+    cached: false,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Per-host circuit breaker. After `failureThreshold` failed requests in a row
+ * the circuit opens and requests fail fast for `cooldownMs`; then one trial
+ * request is let through (half-open) and its outcome closes or reopens it.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private failureThreshold: number,
+    private cooldownMs: number,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  get failures(): number {
+    return this.consecutiveFailures;
+  }
+
+  /** When an open circuit lets a trial request through */
+  get retryAt(): number | null {
+    return this.openedAt === null ? null : this.openedAt + this.cooldownMs;
+  }
+
+  /** Whether a request may go out now; reserves the trial slot when half-open */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /** Returns true when this failure opened the circuit */
+  recordFailure(): boolean {
+    this.consecutiveFailures++;
+    const wasTrial = this.trialInFlight;
+    this.trialInFlight = false;
+    if (wasTrial || (this.openedAt === null && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Shared HTTP layer for scrapers
+ *
+ * Defaults: identify as SnowPeakBot, at most 20 requests a minute per host
+ * (bursts of 3), responses cached under `.cache/http`, a host paused for 5
+ * minutes after 5 failed requests in a row. Override with the SCRAPER_* env
+ * variables; SCRAPER_CACHE_DIR=off disables the disk cache.
+ */
+
+import { PoliteFetcher } from './politeFetcher.js';
+
+export * from './politeFetcher.js';
+export type { FetchOutcome, FetchRecord, HostMetrics } from './metrics.js';
+export type { CircuitState } from './circuitBreaker.js';
+export { parseRobotsTxt } from './robots.js';
+export type { RobotsRules } from './robots.js';
+
+const DEFAULT_USER_AGENT = 'SnowPeakBot/1.0 (+https://github.com/francisyang1991/snowpeak_tracker)';
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const cacheDir = process.env.SCRAPER_CACHE_DIR || '.cache/http';
+
+export const scraperHttp = new PoliteFetcher({
+  userAgent: process.env.SCRAPER_USER_AGENT || DEFAULT_USER_AGENT,
+  cacheDir: cacheDir === 'off' ? null : cacheDir,
+  requestsPerMinute: envNumber('SCRAPER_REQUESTS_PER_MINUTE', 20),
+  burst: envNumber('SCRAPER_BURST', 3),
+  timeoutMs: envNumber('SCRAPER_TIMEOUT_MS', 15_000),
+  failureThreshold: envNumber('SCRAPER_FAILURE_THRESHOLD', 5),
+  cooldownMs: envNumber('SCRAPER_COOLDOWN_MS', 5 * 60 * 1000),
+  robotsMaxAgeMs: 24 * 60 * 60 * 1000,
+});
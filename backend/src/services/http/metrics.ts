@@ -0,0 +1,114 @@
+/**
+ * Fetch metrics: counters per host and a log of the most recent fetches.
+ */
+
+import type { CircuitState } from './circuitBreaker.js';
+
+/**
+ * network: downloaded; fresh: served from the cache without a request;
+ * revalidated: 304 Not Modified; the rest never reached the network or failed.
+ */
+export type FetchOutcome = 'network' | 'fresh' | 'revalidated' | 'robots-blocked' | 'circuit-open' | 'error';
+
+export interface FetchRecord {
+  url: string;
+  host: string;
+  outcome: FetchOutcome;
+  status: number | null;
+  /** Request time, excluding time waiting for the rate limiter */
+  durationMs: number;
+  /** Time spent waiting for a rate limit token */
+  waitedMs: number;
+  bytes: number;
+  error: string | null;
+  at: string;
+}
+
+export interface HostMetrics {
+  host: string;
+  fetches: number;
+  outcomes: Record<FetchOutcome, number>;
+  statuses: Record<string, number>;
+  bytes: number;
+  avgDurationMs: number;
+  avgWaitMs: number;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  circuitRetryAt: string | null;
+  lastFetchAt: string | null;
+}
+
+interface HostCounters {
+  fetches: number;
+  outcomes: Record<FetchOutcome, number>;
+  statuses: Record<string, number>;
+  bytes: number;
+  totalDurationMs: number;
+  totalWaitMs: number;
+  requests: number;
+  lastFetchAt: string | null;
+}
+
+const RECENT_FETCHES = 100;
+
+export class FetchMetrics {
+  private hosts = new Map<string, HostCounters>();
+  private recent: FetchRecord[] = [];
+
+  record(fetch: FetchRecord): void {
+    let counters = this.hosts.get(fetch.host);
+    if (!counters) {
+      counters = {
+        fetches: 0,
+        outcomes: { network: 0, fresh: 0, revalidated: 0, 'robots-blocked': 0, 'circuit-open': 0, error: 0 },
+        statuses: {},
+        bytes: 0,
+        totalDurationMs: 0,
+        totalWaitMs: 0,
+        requests: 0,
+        lastFetchAt: null,
+      };
+      this.hosts.set(fetch.host, counters);
+    }
+
+    counters.fetches++;
+    counters.outcomes[fetch.outcome]++;
+    if (fetch.status !== null) counters.statuses[fetch.status] = (counters.statuses[fetch.status] || 0) + 1;
+    counters.bytes += fetch.bytes;
+    counters.lastFetchAt = fetch.at;
+    // Averages only over fetches that went out on the network
+    if (fetch.outcome === 'network' || fetch.outcome === 'revalidated' || (fetch.outcome === 'error' && fetch.durationMs > 0)) {
+      counters.requests++;
+      counters.totalDurationMs += fetch.durationMs;
+      counters.totalWaitMs += fetch.waitedMs;
+    }
+
+    this.recent.push(fetch);
+    if (this.recent.length > RECENT_FETCHES) this.recent.shift();
+  }
+
+  hostMetrics(
+    circuitFor: (host: string) => { state: CircuitState; failures: number; retryAt: number | null },
+  ): HostMetrics[] {
+    return [...this.hosts.entries()].map(([host, c]) => {
+      const circuit = circuitFor(host);
+      return {
+        host,
+        fetches: c.fetches,
+        outcomes: { ...c.outcomes },
+        statuses: { ...c.statuses },
+        bytes: c.bytes,
+        avgDurationMs: c.requests ? Math.round(c.totalDurationMs / c.requests) : 0,
+        avgWaitMs: c.requests ? Math.round(c.totalWaitMs / c.requests) : 0,
+        circuit: circuit.state,
+        consecutiveFailures: circuit.failures,
+        circuitRetryAt: circuit.state !== 'closed' && circuit.retryAt ? new Date(circuit.retryAt).toISOString() : null,
+        lastFetchAt: c.lastFetchAt,
+      };
+    });
+  }
+
+  recentFetches(): FetchRecord[] {
+    return [...this.recent].reverse();
+  }
+}
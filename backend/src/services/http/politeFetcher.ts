@@ -0,0 +1,264 @@
+/**
+ * Polite fetcher for scrapers
+ *
+ * Every request to a host goes through, in order: the on-disk cache (served
+ * without a request while younger than `maxAgeMs`), the host's robots.txt, its
+ * circuit breaker and its token bucket. Stale cache entries are revalidated
+ * with If-None-Match / If-Modified-Since. Every fetch is recorded in the
+ * metrics, whatever its outcome.
+ */
+
+import { URL } from 'node:url';
+import { TokenBucket } from './tokenBucket.js';
+import { parseRobotsTxt, ALLOW_ALL, type RobotsRules } from './robots.js';
+import { DiskResponseCache, type CachedResponse } from './responseCache.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { FetchMetrics, type FetchOutcome, type FetchRecord, type HostMetrics } from './metrics.js';
+
+export interface PoliteFetcherConfig {
+  /** Honest bot User-Agent; its product token is matched against robots.txt groups */
+  userAgent: string;
+  /** Directory for cached responses; null disables the disk cache */
+  cacheDir: string | null;
+  requestsPerMinute: number;
+  /** Requests allowed back to back before the rate limit kicks in */
+  burst: number;
+  timeoutMs: number;
+  /** Failed requests in a row (network errors, 4xx except 404/410, 5xx) that open a host's circuit */
+  failureThreshold: number;
+  cooldownMs: number;
+  robotsMaxAgeMs: number;
+}
+
+export interface PoliteFetchOptions {
+  /** Serve a cached response without any request while it is younger than this */
+  maxAgeMs?: number;
+  /** Statuses returned to the caller instead of thrown, e.g. 404 for a guessed URL */
+  acceptStatuses?: number[];
+}
+
+export interface PoliteFetchResult {
+  url: string;
+  status: number;
+  body: string;
+  /** miss: downloaded; fresh: cached, no request; revalidated: cached, confirmed by a 304 */
+  cache: 'miss' | 'fresh' | 'revalidated';
+  fetchedAt: string;
+}
+
+export class HttpFetchError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status: number | null,
+  ) {
+    super(message);
+    this.name = 'HttpFetchError';
+  }
+}
+
+export class RobotsDisallowedError extends HttpFetchError {
+  constructor(url: string) {
+    super(`robots.txt disallows ${url}`, url, null);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+export class CircuitOpenError extends HttpFetchError {
+  constructor(
+    url: string,
+    public readonly retryAt: Date | null,
+  ) {
+    super(`Circuit open for ${new URL(url).host}${retryAt ? ` until ${retryAt.toISOString()}` : ''}`, url, null);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/** Missing pages are an answer, not a sign the host is in trouble */
+const NOT_FOUND_STATUSES = [404, 410];
+
+interface HostState {
+  bucket: TokenBucket;
+  circuit: CircuitBreaker;
+  robots: { rules: RobotsRules; loadedAt: number } | null;
+  robotsLoading: Promise<RobotsRules> | null;
+}
+
+export class PoliteFetcher {
+  private hosts = new Map<string, HostState>();
+  private cache: DiskResponseCache | null;
+  private metrics = new FetchMetrics();
+
+  constructor(private config: PoliteFetcherConfig) {
+    this.cache = config.cacheDir ? new DiskResponseCache(config.cacheDir) : null;
+  }
+
+  /** GET a page as text */
+  async fetchText(url: string, options: PoliteFetchOptions = {}): Promise<PoliteFetchResult> {
+    return this.fetchWithPolicy(url, options, true);
+  }
+
+  getHostMetrics(): HostMetrics[] {
+    return this.metrics.hostMetrics((host) => {
+      const circuit = this.hosts.get(host)?.circuit;
+      return { state: circuit?.state ?? 'closed', failures: circuit?.failures ?? 0, retryAt: circuit?.retryAt ?? null };
+    });
+  }
+
+  getRecentFetches(): FetchRecord[] {
+    return this.metrics.recentFetches();
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        bucket: new TokenBucket(this.config.burst, this.config.requestsPerMinute / 60),
+        circuit: new CircuitBreaker(this.config.failureThreshold, this.config.cooldownMs),
+        robots: null,
+        robotsLoading: null,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async fetchWithPolicy(url: string, options: PoliteFetchOptions, checkRobots: boolean): Promise<PoliteFetchResult> {
+    const parsed = new URL(url);
+    const host = parsed.host;
+    const state = this.hostState(host);
+    const record = (outcome: FetchOutcome, fields: Partial<FetchRecord> = {}) =>
+      this.metrics.record({
+        url,
+        host,
+        outcome,
+        status: null,
+        durationMs: 0,
+        waitedMs: 0,
+        bytes: 0,
+        error: null,
+        at: new Date().toISOString(),
+        ...fields,
+      });
+
+    const cached = this.cache ? await this.cache.get(url) : null;
+    if (cached && options.maxAgeMs && Date.now() - cached.fetchedAt < options.maxAgeMs) {
+      record('fresh', { status: cached.status });
+      return this.toResult(cached, 'fresh');
+    }
+
+    if (checkRobots) {
+      const rules = await this.robotsFor(parsed.origin, state);
+      if (!rules.isAllowed(parsed.pathname + parsed.search)) {
+        record('robots-blocked');
+        throw new RobotsDisallowedError(url);
+      }
+    }
+
+    if (!state.circuit.tryAcquire()) {
+      record('circuit-open');
+      const retryAt = state.circuit.retryAt;
+      throw new CircuitOpenError(url, retryAt ? new Date(retryAt) : null);
+    }
+
+    const waitedMs = await state.bucket.take();
+    const started = Date.now();
+    const headers: Record<string, string> = {
+      'User-Agent': this.config.userAgent,
+      Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.8',
+    };
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: AbortSignal.timeout(this.config.timeoutMs) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordHostFailure(host, state, message);
+      record('error', { durationMs: Date.now() - started, waitedMs, error: message });
+      throw new HttpFetchError(`Request to ${url} failed: ${message}`, url, null);
+    }
+    const durationMs = Date.now() - started;
+
+    if (response.status === 304 && cached) {
+      state.circuit.recordSuccess();
+      const refreshed = { ...cached, fetchedAt: Date.now() };
+      await this.cache?.set(refreshed);
+      record('revalidated', { status: 304, durationMs, waitedMs });
+      return this.toResult(refreshed, 'revalidated');
+    }
+
+    const body = await response.text();
+    const ok = response.ok || (options.acceptStatuses ?? []).includes(response.status);
+
+    if (response.ok || NOT_FOUND_STATUSES.includes(response.status)) {
+      state.circuit.recordSuccess();
+    } else {
+      this.recordHostFailure(host, state, `HTTP ${response.status}`);
+    }
+
+    if (!ok) {
+      record('error', { status: response.status, durationMs, waitedMs, bytes: body.length, error: `HTTP ${response.status}` });
+      throw new HttpFetchError(`HTTP ${response.status} for ${url}`, url, response.status);
+    }
+
+    const entry: CachedResponse = {
+      url,
+      status: response.status,
+      body,
+      contentType: response.headers.get('content-type'),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+      fetchedAt: Date.now(),
+    };
+    if (response.status === 200) await this.cache?.set(entry);
+    record('network', { status: response.status, durationMs, waitedMs, bytes: body.length });
+    return this.toResult(entry, 'miss');
+  }
+
+  private recordHostFailure(host: string, state: HostState, reason: string): void {
+    if (state.circuit.recordFailure()) {
+      console.warn(
+        `[HTTP] ${host} failed ${state.circuit.failures} times in a row (${reason}), pausing requests for ${this.config.cooldownMs / 1000}s`,
+      );
+    }
+  }
+
+  /**
+   * robots.txt rules for an origin (RFC 9309): a 4xx means no restrictions;
+   * an unreachable robots.txt or a 5xx means nothing may be fetched, so the
+   * error is passed on and the next fetch tries again.
+   */
+  private async robotsFor(origin: string, state: HostState): Promise<RobotsRules> {
+    if (state.robots && Date.now() - state.robots.loadedAt < this.config.robotsMaxAgeMs) return state.robots.rules;
+
+    state.robotsLoading ??= (async () => {
+      const url = `${origin}/robots.txt`;
+      try {
+        const result = await this.fetchWithPolicy(
+          url,
+          { maxAgeMs: this.config.robotsMaxAgeMs, acceptStatuses: [400, 401, 403, 404, 405, 410, 451] },
+          false,
+        );
+        const rules = result.status === 200 ? parseRobotsTxt(result.body, this.config.userAgent) : ALLOW_ALL;
+        if (rules.crawlDelaySeconds) state.bucket.limitInterval(rules.crawlDelaySeconds);
+        state.robots = { rules, loadedAt: Date.now() };
+        return rules;
+      } catch (error) {
+        throw new HttpFetchError(
+          `robots.txt for ${origin} is unavailable: ${error instanceof Error ? error.message : error}`,
+          url,
+          error instanceof HttpFetchError ? error.status : null,
+        );
+      } finally {
+        state.robotsLoading = null;
+      }
+    })();
+    return state.robotsLoading;
+  }
+
+  private toResult(entry: CachedResponse, cache: PoliteFetchResult['cache']): PoliteFetchResult {
+    return { url: entry.url, status: entry.status, body: entry.body, cache, fetchedAt: new Date(entry.fetchedAt).toISOString() };
+  }
+}
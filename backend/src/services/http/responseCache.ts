@@ -0,0 +1,55 @@
+/**
+ * On-disk HTTP response cache, one JSON file per URL. Entries keep the
+ * validators (ETag, Last-Modified) so stale entries can be revalidated with a
+ * conditional request instead of downloading the page again.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile, rm } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface CachedResponse {
+  url: string;
+  status: number;
+  body: string;
+  contentType: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  /** Epoch ms of the last download or successful revalidation */
+  fetchedAt: number;
+}
+
+export class DiskResponseCache {
+  private ready: Promise<void> | null = null;
+
+  constructor(private dir: string) {}
+
+  private fileFor(url: string): string {
+    return path.join(this.dir, `${createHash('sha256').update(url).digest('hex').slice(0, 32)}.json`);
+  }
+
+  async get(url: string): Promise<CachedResponse | null> {
+    try {
+      const entry = JSON.parse(await readFile(this.fileFor(url), 'utf8')) as CachedResponse;
+      // Guard against (unlikely) hash collisions
+      return entry.url === url ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    try {
+      this.ready ??= mkdir(this.dir, { recursive: true }).then(() => undefined);
+      await this.ready;
+      await writeFile(this.fileFor(entry.url), JSON.stringify(entry));
+    } catch (error) {
+      // A read-only filesystem (serverless) just means no cache
+      console.warn(`[HTTP] Failed to cache ${entry.url}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  async delete(url: string): Promise<void> {
+    await rm(this.fileFor(url), { force: true });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * robots.txt parsing (RFC 9309): the group for our user agent (or `*`),
+ * longest-match Allow/Disallow with `*` and `$` wildcards, and Crawl-delay.
+ */
+
+export interface RobotsRules {
+  isAllowed(path: string): boolean;
+  /** Seconds between requests the site asks for, if any */
+  crawlDelaySeconds: number | null;
+}
+
+interface Rule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+export const ALLOW_ALL: RobotsRules = { isAllowed: () => true, crawlDelaySeconds: null };
+export const DISALLOW_ALL: RobotsRules = { isAllowed: () => false, crawlDelaySeconds: null };
+
+function toRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/** Product token of a User-Agent header: "SnowPeakBot/1.0 (+url)" -> "snowpeakbot" */
+function productToken(userAgent: string): string {
+  return userAgent.split(/[\s/]/)[0].toLowerCase();
+}
+
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = productToken(userAgent);
+  const groups: Array<{ agents: string[]; rules: Rule[]; crawlDelay: number | null }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value, regex: toRegex(value) });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  const matching = groups.filter((g) => g.agents.some((a) => a !== '*' && token.startsWith(a)));
+  const selected = matching.length > 0 ? matching : groups.filter((g) => g.agents.includes('*'));
+  const rules = selected.flatMap((g) => g.rules);
+  const crawlDelays = selected.map((g) => g.crawlDelay).filter((d): d is number => d !== null);
+
+  return {
+    crawlDelaySeconds: crawlDelays.length > 0 ? Math.max(...crawlDelays) : null,
+    isAllowed(path: string) {
+      if (path === '/robots.txt') return true;
+      let best: Rule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        // Longest pattern wins; Allow wins a tie
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Token bucket rate limiter: allows bursts of up to `capacity` requests, then
+ * `refillPerSecond` requests per second on average.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  /** Waiters are served in order so a burst of callers can't starve one */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  /** Space requests at least `intervalSeconds` apart (robots.txt Crawl-delay), without bursts */
+  limitInterval(intervalSeconds: number): void {
+    if (intervalSeconds <= 0) return;
+    this.refill();
+    this.refillPerSecond = Math.min(this.refillPerSecond, 1 / intervalSeconds);
+    this.capacity = 1;
+    this.tokens = Math.min(this.tokens, 1);
+  }
+
+  /** Wait for a token; resolves with the time waited in ms */
+  take(): Promise<number> {
+    const started = Date.now();
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn.then(() => Date.now() - started);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+}
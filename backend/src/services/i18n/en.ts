@@ -0,0 +1,72 @@
+/**
+ * English messages (the reference catalog: every other locale has these keys)
+ */
+export const en = {
+  // Alert notifications and emails
+  'alert.level.light': '🩵 Light',
+  'alert.level.good': '🔵 Good',
+  'alert.level.great': '🟣 Great',
+  'alert.title': '{level} Snow Alert: {resort}',
+  'alert.title.conditions': '🔔 Conditions Alert: {resort}',
+  'alert.title.scope': '{level} Snow Alert: {count} resorts · {scope}',
+  'alert.title.scope.conditions': '🔔 Conditions Alert: {count} resorts · {scope}',
+  'alert.title.upgrade': '⬆️ Storm Upgraded: {resort}',
+  'alert.title.downgrade': '⬇️ Storm Downgraded: {resort}',
+  'alert.title.upgrade.scope': '⬆️ Storm Upgraded: {count} resorts · {scope}',
+  'alert.title.downgrade.scope': '⬇️ Storm Downgraded: {count} resorts · {scope}',
+  'alert.title.report': '🌅 Snow Report Alert: {resort}',
+  'alert.title.report.scope': '🌅 Snow Report Alert: {count} resorts · {scope}',
+  'alert.message': '{details}!',
+  'alert.test.title': '🔔 Test alert: {scope}',
+  'alert.test.message': 'This channel will get SnowPeak snow alerts for {scope}.',
+  'alert.email.footer': 'SnowPeak Tracker • You can manage alerts in the app.',
+  'alert.threshold.light': 'Light Snow ({min}-{max})',
+  'alert.threshold.good': 'Good Snow ({min}-{max})',
+  'alert.threshold.great': 'Great Snow ({min}-{max})',
+
+  // Alert rules (summaries) and what met them (notification text)
+  'alert.rule.snowfall.day': '{snow}+ in 24h',
+  'alert.rule.snowfall.days': '{snow}+ over {days} days',
+  'alert.rule.weekend': '{condition} on a weekend',
+  'alert.rule.baseDepth': 'base depth reaches {depth}',
+  'alert.rule.cold': 'low of {temp} or colder',
+  'alert.rule.coldAfterStorm': 'low of {temp} or colder after {snow}+ of snow',
+  'alert.rule.upgrade': 'forecast upgraded by {snow}+',
+  'alert.rule.downgrade': 'forecast downgraded by {snow}+',
+  'alert.rule.change': 'forecast changes by {snow}+',
+  'alert.rule.freshSnow': "{snow}+ in the morning report's last 24h",
+  'alert.rule.liftsOpening': '{lifts}+ more lifts open',
+  'alert.rule.and': ' and ',
+  'alert.rule.or': ' or ',
+  'alert.match.snowfall.day': '{snow} of snow predicted for {date}',
+  'alert.match.snowfall.days': '{snow} of snow predicted over {days} days through {date}',
+  'alert.match.baseDepth': 'Base depth reached {depth} on {date}',
+  'alert.match.cold': 'Low of {temp} predicted for {date}',
+  'alert.match.coldAfterStorm': 'Low of {temp} predicted for {date} after {snow} of snow',
+  'alert.match.upgraded': 'Upgraded from {from} to {to} for {date}',
+  'alert.match.downgraded': 'Downgraded from {from} to {to} for {date}',
+  'alert.match.freshSnow': '{snow} reported in the last 24h on {date}',
+  'alert.match.liftsOpening': '{open} lifts open on {date}, up from {before}',
+  'alert.match.separator': '; ',
+  'alert.match.resort': '{resort}: {details}',
+  'alert.match.resortSeparator': ' · ',
+  'alert.match.more': ' and {count} more',
+  'alert.scope.list': 'Selected resorts ({count})',
+  'alert.scope.favorites': 'My favorites',
+  'alert.scope.favoritesPlus': 'My favorites + {count} more',
+  'alert.scope.region': '{region} region',
+  'alert.scope.radius': 'Within {hours}h of {place}',
+  'alert.scope.radiusRegion': '{region} within {hours}h of {place}',
+
+  // Suggested questions for the ski assistant
+  'chat.suggestion.gear': 'What ski gear do I need as a beginner?',
+  'chat.suggestion.length': 'How do I choose the right ski length?',
+  'chat.suggestion.powder': "What's the difference between powder and groomed runs?",
+  'chat.suggestion.crowds': 'Best time to ski to avoid crowds?',
+  'chat.suggestion.trailMap': 'How do I read a ski trail map?',
+  'chat.suggestion.baseDepth': "What does 'base depth' mean?",
+  'chat.suggestion.cold': 'Tips for skiing in cold weather?',
+  'chat.suggestion.technique': 'How do I improve my skiing technique?',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,109 @@
+/**
+ * Localization
+ *
+ * Message catalogs for text the backend writes for people (alert
+ * notifications, emails, assistant suggestions) and locale-aware date
+ * formatting. English is the reference catalog; `zh-CN` must have the same
+ * keys. Stored data (resort descriptions, conditions) stays in English.
+ */
+
+import { en, type MessageKey } from './en.js';
+import { zhCN } from './zh-CN.js';
+
+export type { MessageKey };
+
+export type Locale = 'en' | 'zh-CN';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: Locale[] = ['en', 'zh-CN'];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+/** Language names for AI prompts ("Answer in ...") */
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  'zh-CN': 'Simplified Chinese',
+};
+
+/**
+ * Supported locale for a language tag: `en`/`en-GB` → en, `zh`/`zh-CN`/
+ * `zh-Hans` → zh-CN. Null for anything else (including Traditional Chinese).
+ */
+export function parseLocale(value: unknown): Locale | null {
+  if (typeof value !== 'string') return null;
+  const tag = value.trim().toLowerCase();
+  if (tag === 'en' || tag.startsWith('en-')) return 'en';
+  if (tag === 'zh' || tag === 'zh-cn' || tag === 'zh-sg' || tag.startsWith('zh-hans')) return 'zh-CN';
+  return null;
+}
+
+/** Best supported locale from an Accept-Language header, by q-value */
+export function negotiateLocale(acceptLanguage: string | undefined): Locale {
+  const ranked = (acceptLanguage || '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      return { tag, q: q ? parseFloat(q.slice(2)) || 0 : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { tag } of ranked) {
+    const locale = parseLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** Message in `locale` with `{name}` placeholders filled in */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  const template = CATALOGS[locale]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match,
+  );
+}
+
+export function languageName(locale: Locale): string {
+  return LANGUAGE_NAMES[locale];
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD) are formatted in UTC so the day doesn't shift
+ * with the server's time zone
+ */
+function formatDay(date: string, locale: Locale, options: Intl.DateTimeFormatOptions): string {
+  const parsed = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+}
+
+/** e.g. "Mon" / "周一" */
+export function formatDayName(date: string, locale: Locale): string {
+  return formatDay(date, locale, { weekday: 'short' });
+}
+
+/** e.g. "Mon, Jan 15" / "1月15日周一" */
+export function formatDate(date: string, locale: Locale): string {
+  return formatDay(date, locale, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** Timestamp with date and time, e.g. "01/15/2026, 14:30" */
+export function formatDateTime(date: Date | string, locale: Locale): string {
+  return new Date(date).toLocaleString(locale, {
+    month: '2-digit',
+    day: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
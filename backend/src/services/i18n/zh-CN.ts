@@ -0,0 +1,69 @@
+import type { MessageKey } from './en.js';
+
+/**
+ * Simplified Chinese messages
+ */
+export const zhCN: Record<MessageKey, string> = {
+  'alert.level.light': '🩵 小雪',
+  'alert.level.good': '🔵 中雪',
+  'alert.level.great': '🟣 大雪',
+  'alert.title': '{level}提醒：{resort}',
+  'alert.title.conditions': '🔔 雪况提醒：{resort}',
+  'alert.title.scope': '{level}提醒：{count} 个雪场 · {scope}',
+  'alert.title.scope.conditions': '🔔 雪况提醒：{count} 个雪场 · {scope}',
+  'alert.title.upgrade': '⬆️ 降雪预报上调：{resort}',
+  'alert.title.downgrade': '⬇️ 降雪预报下调：{resort}',
+  'alert.title.upgrade.scope': '⬆️ 降雪预报上调：{count} 个雪场 · {scope}',
+  'alert.title.downgrade.scope': '⬇️ 降雪预报下调：{count} 个雪场 · {scope}',
+  'alert.title.report': '🌅 雪况报告提醒：{resort}',
+  'alert.title.report.scope': '🌅 雪况报告提醒：{count} 个雪场 · {scope}',
+  'alert.message': '{details}！',
+  'alert.test.title': '🔔 测试提醒：{scope}',
+  'alert.test.message': '此频道将接收 {scope} 的 SnowPeak 降雪提醒。',
+  'alert.email.footer': 'SnowPeak Tracker • 可在应用中管理提醒。',
+  'alert.threshold.light': '小雪 ({min}-{max})',
+  'alert.threshold.good': '中雪 ({min}-{max})',
+  'alert.threshold.great': '大雪 ({min}-{max})',
+
+  'alert.rule.snowfall.day': '24 小时降雪 {snow} 以上',
+  'alert.rule.snowfall.days': '{days} 天累计降雪 {snow} 以上',
+  'alert.rule.weekend': '周末{condition}',
+  'alert.rule.baseDepth': '积雪深度达到 {depth}',
+  'alert.rule.cold': '最低气温 {temp} 或更低',
+  'alert.rule.coldAfterStorm': '降雪 {snow} 以上后最低气温 {temp} 或更低',
+  'alert.rule.upgrade': '预报降雪上调 {snow} 以上',
+  'alert.rule.downgrade': '预报降雪下调 {snow} 以上',
+  'alert.rule.change': '预报降雪变化 {snow} 以上',
+  'alert.rule.freshSnow': '早间报告 24 小时降雪 {snow} 以上',
+  'alert.rule.liftsOpening': '新开放缆车 {lifts} 条以上',
+  'alert.rule.and': '且',
+  'alert.rule.or': '或',
+  'alert.match.snowfall.day': '预计 {date} 降雪 {snow}',
+  'alert.match.snowfall.days': '预计 {days} 天累计降雪 {snow}（至 {date}）',
+  'alert.match.baseDepth': '{date} 积雪深度达到 {depth}',
+  'alert.match.cold': '预计 {date} 最低气温 {temp}',
+  'alert.match.coldAfterStorm': '降雪 {snow} 后，预计 {date} 最低气温 {temp}',
+  'alert.match.upgraded': '{date} 预报降雪从 {from} 上调至 {to}',
+  'alert.match.downgraded': '{date} 预报降雪从 {from} 下调至 {to}',
+  'alert.match.freshSnow': '{date} 报告过去 24 小时降雪 {snow}',
+  'alert.match.liftsOpening': '{date} 开放缆车 {open} 条，此前为 {before} 条',
+  'alert.match.separator': '；',
+  'alert.match.resort': '{resort}：{details}',
+  'alert.match.resortSeparator': ' · ',
+  'alert.match.more': '，另有 {count} 个雪场',
+  'alert.scope.list': '所选雪场（{count}）',
+  'alert.scope.favorites': '我的收藏',
+  'alert.scope.favoritesPlus': '我的收藏及另外 {count} 个雪场',
+  'alert.scope.region': '{region}地区',
+  'alert.scope.radius': '{place} {hours} 小时车程内',
+  'alert.scope.radiusRegion': '{place} {hours} 小时车程内的{region}地区',
+
+  'chat.suggestion.gear': '初学者需要准备哪些滑雪装备？',
+  'chat.suggestion.length': '如何选择合适的雪板长度？',
+  'chat.suggestion.powder': '粉雪道和压雪道有什么区别？',
+  'chat.suggestion.crowds': '什么时候滑雪人最少？',
+  'chat.suggestion.trailMap': '怎么看懂雪场地图？',
+  'chat.suggestion.baseDepth': '“积雪深度”是什么意思？',
+  'chat.suggestion.cold': '天气很冷时滑雪有什么建议？',
+  'chat.suggestion.technique': '如何提高滑雪技术？',
+};
@@ -0,0 +1,223 @@
+/**
+ * Resort ingestion
+ *
+ * Fetches a resort from every snow data provider, reconciles the answers and
+ * stores the result: the resort row, today's snow report, the forecast days
+ * (with their snow quality) and the forecast snapshots used for verification.
+ * A new or changed report queues the resort's report alerts. `GET
+ * /api/resorts/:id` calls it on a cache miss, the refresh jobs and the
+ * preloader call it directly.
+ */
+
+import { getToday, parseForecastDate } from '../db/supabase.js';
+import { resortRepo, snowReportRepo, forecastRepo } from '../db/repositories/index.js';
+import type { Resort, SnowReport } from '../types/database.js';
+import { snowDataOrchestrator } from './providers/index.js';
+import type { ProviderForecastDay, Reconciliation, ResortSnowData } from './providers/types.js';
+import { recordForecastSnapshots } from './forecastVerification.js';
+import { computeSeasonTotal } from './snowHistory.js';
+import { assessSnowQuality, toForecastColumns, type SnowQuality } from './snowQuality.js';
+import { getExternalIds, recordProviderIds } from './resortIdentity.js';
+import { OTHER_REGION, hasKnownSubdivision, placeFor, placeFromLocation } from './regions.js';
+import { enqueueJob } from './jobQueue.js';
+
+// Report fields alert report triggers look at
+const REPORT_TRIGGER_FIELDS = ['last24Hours', 'liftsOpen'];
+
+// Report alerts run ahead of refreshes, for the first chair
+const REPORT_ALERTS_PRIORITY = 1000;
+
+export interface IngestResortOptions {
+  /** Name to query the providers with when the resort isn't stored yet */
+  name?: string;
+  /** Known place; otherwise derived from the location the providers return */
+  country?: string;
+  state?: string;
+  region?: string;
+}
+
+export interface IngestedForecastDay extends ProviderForecastDay {
+  quality: SnowQuality;
+}
+
+export interface IngestionResult {
+  resortId: string;
+  /** Provider whose data was used */
+  source: string;
+  /** Every provider that answered */
+  sources: string[];
+  /** The resort wasn't in the database before */
+  created: boolean;
+  /** Resort and snow report fields whose stored value changed (API names, e.g. `baseDepth`) */
+  fieldsChanged: string[];
+  forecastDaysWritten: number;
+  data: ResortSnowData;
+  forecast: IngestedForecastDay[];
+  reconciliation: Reconciliation;
+}
+
+/** Stored value per API field, for `fieldsChanged` */
+function trackedValues(resort: Resort | null, report: SnowReport | null): Record<string, unknown> {
+  return {
+    name: resort?.name,
+    location: resort?.location,
+    country: resort?.country,
+    state: resort?.state,
+    region: resort?.region,
+    latitude: resort?.latitude,
+    longitude: resort?.longitude,
+    websiteUrl: resort?.website_url,
+    totalLifts: resort?.total_lifts,
+    totalTrails: resort?.total_trails,
+    baseDepth: report?.base_depth,
+    last24Hours: report?.last_24_hours,
+    last48Hours: report?.last_48_hours,
+    last7Days: report?.last_7_days,
+    liftsOpen: report?.lifts_open,
+    trailsOpen: report?.trails_open,
+    conditions: report?.conditions,
+  };
+}
+
+/** Fields left undefined in `after` weren't written, so they keep their stored value */
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  return Object.keys(after).filter(
+    (field) => after[field] !== undefined && (before[field] ?? null) !== after[field],
+  );
+}
+
+/**
+ * Fetch, reconcile and store one resort. Throws `SnowDataUnavailableError`
+ * when no provider answered.
+ */
+export async function ingestResort(resortId: string, options: IngestResortOptions = {}): Promise<IngestionResult> {
+  const [resort, previousReport] = await Promise.all([
+    resortRepo.findById(resortId),
+    snowReportRepo.findLatest(resortId),
+  ]);
+
+  const resortName = resort?.name || options.name || resortId.replace(/-/g, ' ');
+  const reconciled = await snowDataOrchestrator.fetchReconciledResortSnowData({
+    name: resortName,
+    state: options.state || resort?.state || undefined,
+    country: options.country || resort?.country || undefined,
+    externalIds: await getExternalIds(resortId),
+  });
+  const { data: freshData, source, reconciliation } = reconciled;
+
+  // Upsert resort
+  const nowTimestamp = new Date().toISOString();
+  // Keep what discovery already filled in when the providers don't know better
+  const place =
+    (options.state && placeFor(options.country, options.state)) ||
+    (resort && hasKnownSubdivision(resort) ? placeFor(resort.country, resort.state) : null) ||
+    placeFromLocation(freshData.location) ||
+    placeFor(options.country || resort?.country, null);
+  const storedResort = {
+    id: resortId,
+    name: resort?.name || freshData.name || resortName,
+    location: freshData.location || place.location,
+    country: place.country,
+    state: place.state,
+    sub_region: place.subRegion,
+    region: options.region || (resort && resort.region !== OTHER_REGION ? resort.region : place.region),
+    latitude: freshData.latitude ?? resort?.latitude,
+    longitude: freshData.longitude ?? resort?.longitude,
+    website_url: resort?.website_url || freshData.websiteUrl,
+    total_lifts: freshData.totalLifts || resort?.total_lifts || 0,
+    total_trails: freshData.totalTrails || resort?.total_trails || 0,
+    updated_at: nowTimestamp,
+  };
+  await resortRepo.upsert(storedResort);
+
+  // Insert snow report with explicit created_at to ensure cache works properly
+  const today = getToday();
+  const storedReport = {
+    resort_id: resortId,
+    report_date: today,
+    base_depth: freshData.baseDepth || 0,
+    last_24_hours: freshData.last24Hours || 0,
+    last_48_hours: freshData.last48Hours || 0,
+    last_7_days: freshData.last7Days || 0,
+    season_total: await computeSeasonTotal(resortId, today, freshData.last24Hours || 0),
+    lifts_open: freshData.liftsOpen || 0,
+    trails_open: freshData.trailsOpen || 0,
+    conditions: freshData.conditions ?? null,
+    data_source: source,
+    raw_response: freshData,
+    provenance: reconciliation,
+    confidence: reconciliation.confidence,
+    sources_disagree: reconciliation.sourcesDisagree,
+    created_at: nowTimestamp,
+  };
+  await snowReportRepo.upsert(storedReport);
+
+  // Score each forecast day's snow quality (powder score, SLR, rain risk)
+  const forecast: IngestedForecastDay[] = (Array.isArray(freshData.forecast) ? freshData.forecast : []).map((day) => ({
+    ...day,
+    quality: assessSnowQuality({
+      predictedSnow: day.snowInches || 0,
+      tempHigh: day.tempHigh,
+      tempLow: day.tempLow,
+      windSpeed: day.windSpeed,
+      baseElevation: resort?.base_elevation,
+      summitElevation: resort?.summit_elevation,
+    }),
+  }));
+
+  // Insert forecasts with explicit fetched_at
+  let forecastDaysWritten = 0;
+  for (const { quality, ...day } of forecast) {
+    const forecastDate = parseForecastDate(day.date);
+    if (!forecastDate) continue;
+    await forecastRepo.upsert({
+      resort_id: resortId,
+      forecast_date: forecastDate,
+      predicted_snow: day.snowInches || 0,
+      temp_high: day.tempHigh,
+      temp_low: day.tempLow,
+      condition: day.condition,
+      snow_probability: day.snowProbability,
+      wind_speed: day.windSpeed,
+      ...toForecastColumns(quality),
+      fetched_at: nowTimestamp,
+    });
+    forecastDaysWritten++;
+  }
+  console.log(`[Ingest] Saved resort ${resortId} from ${source} with ${forecastDaysWritten} forecast days`);
+
+  // Keep an immutable copy of each forecast for verification
+  await recordForecastSnapshots(resortId, reconciled);
+  await recordProviderIds(resortId, reconciled);
+
+  const fieldsChanged = changedFields(
+    trackedValues(resort, previousReport),
+    trackedValues(storedResort as Resort, storedReport as SnowReport),
+  );
+
+  // Today's first report, or new numbers in it: check report alerts now rather than at the next cron
+  if (previousReport?.report_date !== today || fieldsChanged.some((field) => REPORT_TRIGGER_FIELDS.includes(field))) {
+    try {
+      await enqueueJob(
+        'check_report_alerts',
+        { resortId },
+        { dedupeKey: `check_report_alerts:${resortId}`, priority: REPORT_ALERTS_PRIORITY },
+      );
+    } catch (e) {
+      // The report is stored either way; the scheduled check still covers it
+      console.error(`[Ingest] Failed to queue report alerts for ${resortId}:`, e);
+    }
+  }
+
+  return {
+    resortId,
+    source,
+    sources: reconciliation.sources,
+    created: !resort,
+    fieldsChanged,
+    forecastDaysWritten,
+    data: freshData,
+    forecast,
+    reconciliation,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Background job types
+ *
+ * Large runs fan out into one child job per resort or region, so a restart
+ * only loses the resort in flight, a failing resort is retried on its own and
+ * `GET /api/jobs/:id` shows the progress of the run.
+ */
+
+import { resortRepo } from '../db/repositories/index.js';
+import { registerJobHandler, type JobContext } from './jobQueue.js';
+import { refreshResort } from './backgroundRefresh.js';
+import { populateKnownResorts, enrichResort } from './resortDiscovery.js';
+import { preloadResort, preloadTopResorts, POPULAR_RESORTS, REGIONS_TO_PRELOAD } from './preloader.js';
+import { checkAllAlerts, checkReportAlerts } from './alerts.js';
+import { deliverAlert } from './alertChannels.js';
+import { selectResortsToRefresh } from './refreshPriority.js';
+import { verifyForecastSnapshots } from './forecastVerification.js';
+
+const CRAWL_LEASE_MS = 30 * 60 * 1000; // discovery scrapes many listing pages
+
+/** Queue a refresh job per resort, most recently updated first */
+async function queueResortRefreshes(context: JobContext, maxResorts: number): Promise<number> {
+  const ids = await resortRepo.listIds(maxResorts);
+  let queued = 0;
+  for (const id of ids) {
+    const { deduplicated } = await context.enqueueChild(
+      'refresh_resort',
+      { resortId: id },
+      { dedupeKey: `refresh_resort:${id}` },
+    );
+    if (!deduplicated) queued++;
+  }
+  return queued;
+}
+
+export function registerJobHandlers(): void {
+  // Discover new resorts from OnTheSnow, fill in their metadata, then refresh everything
+  registerJobHandler(
+    'crawl',
+    async (payload, context) => {
+      const { needsEnrichment, ...discovery } = await populateKnownResorts();
+      let enrichQueued = 0;
+      for (const resortId of needsEnrichment) {
+        // Ahead of the refreshes so new resorts reach the map first
+        const { deduplicated } = await context.enqueueChild(
+          'enrich_resort',
+          { resortId },
+          { dedupeKey: `enrich_resort:${resortId}`, priority: 1 },
+        );
+        if (!deduplicated) enrichQueued++;
+      }
+      const queued = await queueResortRefreshes(context, payload.maxResorts ?? 1000);
+      return { ...discovery, enrichQueued, queued };
+    },
+    { leaseMs: CRAWL_LEASE_MS },
+  );
+
+  registerJobHandler('enrich_resort', async (payload) => ({
+    ...(await enrichResort(payload.resortId)),
+  }));
+
+  registerJobHandler('refresh_all', async (payload, context) => ({
+    queued: await queueResortRefreshes(context, payload.maxResorts ?? 500),
+  }));
+
+  // Scheduled: only the resorts that are due, most overdue first
+  registerJobHandler('refresh_due', async (payload, context) => {
+    const due = await selectResortsToRefresh(payload.budget, { baseIntervalHours: payload.baseIntervalHours });
+    let queued = 0;
+    for (const resort of due) {
+      const { deduplicated } = await context.enqueueChild(
+        'refresh_resort',
+        { resortId: resort.resortId },
+        // More overdue resorts run first
+        { dedupeKey: `refresh_resort:${resort.resortId}`, priority: Math.min(Math.round(resort.score * 10), 1000) },
+      );
+      if (!deduplicated) queued++;
+    }
+    return { due: due.length, queued };
+  });
+
+  registerJobHandler(
+    'refresh_resort',
+    async (payload) => {
+      const { resortId, source, sources, created, fieldsChanged, forecastDaysWritten } = await refreshResort(
+        payload.resortId,
+      );
+      return { resortId, source, sources, created, fieldsChanged, forecastDaysWritten };
+    },
+    { concurrency: 2 },
+  );
+
+  // Quick: top lists per region; full: also the popular resorts
+  registerJobHandler('preload', async (payload, context) => {
+    for (const region of REGIONS_TO_PRELOAD) {
+      await context.enqueueChild('preload_top', { region }, { dedupeKey: `preload_top:${region}`, priority: 1 });
+    }
+
+    const resorts = payload.mode === 'full' ? POPULAR_RESORTS.slice(0, payload.maxResorts ?? POPULAR_RESORTS.length) : [];
+    for (const resort of resorts) {
+      await context.enqueueChild('preload_resort', resort, { dedupeKey: `preload_resort:${resort.name}` });
+    }
+    return { regions: REGIONS_TO_PRELOAD.length, resorts: resorts.length };
+  });
+
+  registerJobHandler('preload_top', async (payload) => {
+    const result = await preloadTopResorts(payload.region);
+    if (!result.success) throw new Error(result.error || `Preload of ${payload.region} failed`);
+    return { ...result };
+  });
+
+  registerJobHandler('preload_resort', async (payload) => {
+    const result = await preloadResort(payload);
+    if (!result.success) throw new Error(result.error || `Preload of ${payload.name} failed`);
+    return { ...result };
+  });
+
+  registerJobHandler('check_alerts', async () => checkAllAlerts());
+
+  // Queued by ingestion when a resort's report for today is new or changed
+  registerJobHandler('check_report_alerts', async (payload) => ({
+    resortId: payload.resortId,
+    ...(await checkReportAlerts(payload.resortId)),
+  }));
+
+  // One webhook send; throws to be retried with backoff (see alertChannels.ts)
+  registerJobHandler(
+    'deliver_alert',
+    async (payload, context) => ({
+      ...(await deliverAlert(payload.deliveryId, context.job.attempts, context.job.max_attempts)),
+    }),
+    { concurrency: 4 },
+  );
+
+  registerJobHandler('verify_forecasts', async () => verifyForecastSnapshots());
+}
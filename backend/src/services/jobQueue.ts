@@ -0,0 +1,309 @@
+/**
+ * Job queue
+ *
+ * Background work (crawls, per-resort refreshes, preloads, alert checks) is
+ * stored in the `jobs` table so it survives restarts and is shared between
+ * instances. A worker claims due jobs with a lease that it keeps extending
+ * while the handler runs; if the process dies the lease expires and another
+ * worker picks the job up. Failed jobs are retried with exponential backoff
+ * until `max_attempts`. A `dedupeKey` keeps a second copy of a job from being
+ * queued while one is still queued or running.
+ */
+
+import { hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { jobRepo, isMissingTableError } from '../db/repositories/index.js';
+import type { Job, Json } from '../types/database.js';
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+/**
+ * Payload of each job type (handlers are in jobHandlers.ts). The queue only
+ * stores what `enqueueJob` was given for that type, so a handler can rely on
+ * the shape it is registered with.
+ */
+export type JobPayloads = {
+  crawl: { maxResorts?: number };
+  enrich_resort: { resortId: string };
+  refresh_all: { maxResorts?: number };
+  refresh_due: { budget: number; baseIntervalHours: number };
+  refresh_resort: { resortId: string };
+  preload: { mode?: 'quick' | 'full'; maxResorts?: number };
+  preload_top: { region: string };
+  preload_resort: { name: string; country?: string; state: string; region: string };
+  check_alerts: Record<string, never>;
+  check_report_alerts: { resortId: string };
+  deliver_alert: { deliveryId: number };
+  verify_forecasts: Record<string, never>;
+};
+
+export type JobType = keyof JobPayloads;
+
+export interface JobContext {
+  job: Job;
+  /** Queue a job as a child of this one (shows up in its `/api/jobs/:id` progress) */
+  enqueueChild<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options?: Omit<EnqueueOptions, 'parentId'>,
+  ): Promise<EnqueueResult>;
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext) => Promise<Json | void>;
+
+export interface JobTypeOptions {
+  /** Jobs of this type one worker runs at the same time */
+  concurrency?: number;
+  maxAttempts?: number;
+  /** Lease length; extended while the handler is running */
+  leaseMs?: number;
+}
+
+export interface EnqueueOptions {
+  /** Only one queued or running job per key */
+  dedupeKey?: string;
+  /** Higher runs first */
+  priority?: number;
+  /** Run no earlier than this */
+  runAt?: Date;
+  parentId?: number;
+  maxAttempts?: number;
+}
+
+export interface EnqueueResult {
+  job: Job;
+  /** True when an existing job with the same `dedupeKey` was returned instead */
+  deduplicated: boolean;
+}
+
+interface RegisteredHandler {
+  handler: (payload: Json, context: JobContext) => Promise<Json | void>;
+  options: Required<JobTypeOptions>;
+}
+
+const handlers = new Map<string, RegisteredHandler>();
+
+export function registerJobHandler<T extends JobType>(
+  type: T,
+  handler: JobHandler<T>,
+  options: JobTypeOptions = {},
+): void {
+  handlers.set(type, {
+    // Rows of this type were written by enqueueJob<T>
+    handler: (payload, context) => handler(payload as JobPayloads[T], context),
+    options: {
+      concurrency: options.concurrency ?? 1,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      leaseMs: options.leaseMs ?? DEFAULT_LEASE_MS,
+    },
+  });
+}
+
+/** Delay before retry number `attempt` (1-based): 30s, 1m, 2m ... capped at 30m, +-20% jitter */
+export function retryDelayMs(attempt: number): number {
+  const base = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {},
+): Promise<EnqueueResult> {
+  const job = await jobRepo.enqueue({
+    type,
+    payload,
+    dedupe_key: options.dedupeKey ?? null,
+    parent_id: options.parentId ?? null,
+    priority: options.priority ?? 0,
+    max_attempts: options.maxAttempts ?? handlers.get(type)?.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    ...(options.runAt ? { run_at: options.runAt.toISOString() } : {}),
+  });
+
+  if (job) {
+    jobWorker.wake();
+    return { job, deduplicated: false };
+  }
+
+  const existing = options.dedupeKey ? await jobRepo.findByDedupeKey(options.dedupeKey) : null;
+  if (!existing) throw new Error(`Failed to enqueue ${type} job`);
+  return { job: existing, deduplicated: true };
+}
+
+export class JobWorker {
+  readonly id = `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+
+  private running = new Map<number, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private started = false;
+  private warnedMissingTable = false;
+
+  constructor(
+    private concurrency = parseInt(process.env.JOB_CONCURRENCY || '2', 10) || 2,
+    private pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10) || 5000,
+  ) {}
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    console.log(`🧰 Job worker ${this.id} started (concurrency ${this.concurrency})`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Poll right away, e.g. after a job was queued */
+  wake(): void {
+    if (this.started) this.schedule(0);
+  }
+
+  /** Ids and types of the jobs this worker is running */
+  get active(): Array<{ id: number; type: string }> {
+    return [...this.running.entries()].map(([id, type]) => ({ id, type }));
+  }
+
+  /**
+   * Run due jobs until none are left or `maxMs` has passed, for environments
+   * without a long-lived worker (cron-triggered serverless functions).
+   */
+  async drain(maxMs: number): Promise<number> {
+    const deadline = Date.now() + maxMs;
+    let started = 0;
+    while (Date.now() < deadline) {
+      const claimed = await this.claimAvailable();
+      started += claimed;
+      if (claimed === 0 && this.running.size === 0) break;
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    return started;
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      await this.claimAvailable();
+    } catch (error) {
+      if (isMissingTableError(error)) {
+        if (!this.warnedMissingTable) {
+          console.warn('[Jobs] jobs table missing - run supabase/migrations/009_jobs.sql');
+          this.warnedMissingTable = true;
+        }
+      } else {
+        console.error('[Jobs] Poll failed:', error);
+      }
+    } finally {
+      this.polling = false;
+      if (this.started) this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  private runningOfType(type: string): number {
+    let count = 0;
+    for (const running of this.running.values()) if (running === type) count++;
+    return count;
+  }
+
+  /** Claim and start as many due jobs as the concurrency limits allow */
+  private async claimAvailable(): Promise<number> {
+    const free = this.concurrency - this.running.size;
+    if (free <= 0) return 0;
+
+    const types = [...handlers.entries()]
+      .filter(([type, registered]) => this.runningOfType(type) < registered.options.concurrency)
+      .map(([type]) => type);
+    const candidates = await jobRepo.listRunnable(new Date().toISOString(), types, free * 2);
+
+    let claimed = 0;
+    for (const candidate of candidates) {
+      if (this.running.size >= this.concurrency) break;
+      const registered = handlers.get(candidate.type);
+      if (!registered || this.runningOfType(candidate.type) >= registered.options.concurrency) continue;
+
+      const job = await jobRepo.claim(candidate, this.id, new Date(Date.now() + registered.options.leaseMs).toISOString());
+      if (!job) continue;
+
+      claimed++;
+      this.running.set(job.id, job.type);
+      void this.run(job, registered);
+    }
+    return claimed;
+  }
+
+  private async run(job: Job, registered: RegisteredHandler): Promise<void> {
+    const { leaseMs } = registered.options;
+    const heartbeat = setInterval(() => {
+      jobRepo
+        .extendLease(job.id, this.id, new Date(Date.now() + leaseMs).toISOString())
+        .then((held) => {
+          if (!held) console.warn(`[Jobs] Lost the lease on ${job.type} #${job.id}`);
+        })
+        .catch((error) => console.error(`[Jobs] Failed to extend lease on #${job.id}:`, error));
+    }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+    const context: JobContext = {
+      job,
+      enqueueChild: (type, payload, options) => enqueueJob(type, payload, { ...options, parentId: job.id }),
+    };
+
+    try {
+      const result = await registered.handler(job.payload ?? {}, context);
+      await jobRepo.finish(job.id, this.id, {
+        status: 'succeeded',
+        result: (result as Json | undefined) ?? null,
+        last_error: null,
+        dedupe_key: null,
+        finished_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(job.id);
+      this.wake();
+    }
+  }
+
+  private async handleFailure(job: Job, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      if (job.attempts < job.max_attempts) {
+        const delayMs = retryDelayMs(job.attempts);
+        await jobRepo.finish(job.id, this.id, {
+          status: 'queued',
+          run_at: new Date(Date.now() + delayMs).toISOString(),
+          last_error: message,
+        });
+        console.warn(
+          `[Jobs] ${job.type} #${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${Math.round(delayMs / 1000)}s: ${message}`,
+        );
+      } else {
+        await jobRepo.finish(job.id, this.id, {
+          status: 'failed',
+          last_error: message,
+          dedupe_key: null,
+          finished_at: new Date().toISOString(),
+        });
+        console.error(`[Jobs] ${job.type} #${job.id} failed after ${job.attempts} attempts: ${message}`);
+      }
+    } catch (finishError) {
+      // The lease will expire and the job will be picked up again
+      console.error(`[Jobs] Failed to record failure of #${job.id}:`, finishError);
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
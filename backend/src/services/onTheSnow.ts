@@ -1,66 +1,87 @@
 
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-
-interface ForecastDay {
-  date: string;
-  dayName: string;
-  snowInches: number;
-  tempHigh: number;
-  tempLow: number;
-  condition: string;
-  snowProbability: number;
-  windSpeed: number;
-}
-
-export interface ScrapedResortData {
-  name: string;
-  location: string;
-  baseDepth: number;
-  last24Hours: number;
-  last48Hours: number;
-  last7Days: number;
-  liftsOpen: number;
-  totalLifts: number;
-  trailsOpen: number;
-  totalTrails: number;
-  ticketPrice: string;
-  websiteUrl: string;
-  conditions: string;
-  description: string;
-  forecast: ForecastDay[];
-  sourceUrls?: string[];
+import { scraperHttp } from './http/index.js';
+import {
+  parseResortReport,
+  parseResortOverview,
+  parseSkiReportTable,
+  parseResortDirectory,
+  type ResortOverview,
+  type ScrapedResortData,
+} from './onTheSnowParser.js';
+import {
+  assertNoDrift,
+  checkResortReport,
+  checkResortOverview,
+  checkSkiReportTable,
+  checkResortDirectory,
+} from './parseDrift.js';
+import {
+  COUNTRIES,
+  countriesForFilter,
+  findSubdivision,
+  matchesPlaceFilter,
+  parsePlaceFilter,
+  placeFor,
+  placeForSubdivision,
+  subdivisionForOnTheSnowSlug,
+  type Place,
+} from './regions.js';
+
+export type { ResortOverview, ScrapedResortData };
+
+// How long a fetched page is reused before asking OnTheSnow again
+const REPORT_MAX_AGE_MS = 10 * 60 * 1000;
+const TOP_LIST_MAX_AGE_MS = 30 * 60 * 1000;
+const DISCOVERY_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+const OVERVIEW_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Listing rows from one OnTheSnow section, with the place rows default to */
+interface SectionPage {
+  slug: string;
+  place: Place;
 }
 
 export class OnTheSnowScraper {
   private baseUrl = 'https://www.onthesnow.com';
 
   /**
-   * Fetch snow data for a resort by name and optional state
+   * Fetch snow data for a resort by name and optional state (and country,
+   * US by default), or by its known report path (e.g. "colorado/vail")
    */
-  async fetchResortSnowData(resortName: string, state?: string): Promise<ScrapedResortData> {
+  async fetchResortSnowData(
+    resortName: string,
+    state?: string,
+    reportPath?: string,
+    country?: string,
+  ): Promise<ScrapedResortData> {
     const slug = this.toSlug(resortName);
     let url = '';
-
-    // Try to construct URL based on state if provided
-    if (state) {
-      const region = this.mapStateToRegion(state);
+    let region = '';
+
+    if (reportPath) {
+      url = `${this.baseUrl}/${reportPath}/skireport`;
+      region = reportPath.split('/')[0];
+    } else if (state) {
+      // Try to construct URL based on state if provided
+      region = this.mapStateToRegion(state, country);
       url = `${this.baseUrl}/${region}/${slug}/skireport`;
-    } else {
+    } else if (!country || country === 'US') {
       // Default to trying Colorado or search (simplified for now to default to colorado if not known, or try a few)
       // For MVP, we might need a better discovery mechanism or just failover to Gemini if this fails.
       // Let's try to search or just guess common regions.
-      url = `${this.baseUrl}/colorado/${slug}/skireport`;
+      region = 'colorado';
+      url = `${this.baseUrl}/${region}/${slug}/skireport`;
+    } else {
+      throw new Error(`No OnTheSnow section known for ${resortName} (${country})`);
     }
 
+    // Location from the section the page is in, e.g. british-columbia -> "British Columbia, Canada"
+    const section = subdivisionForOnTheSnowSlug(region);
+    const location = section ? placeForSubdivision(section).location : state;
+
     try {
       console.log(`[Scraper] Fetching ${url}`);
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        },
-        validateStatus: (status) => status === 200 || status === 404
-      });
+      const response = await scraperHttp.fetchText(url, { maxAgeMs: REPORT_MAX_AGE_MS, acceptStatuses: [404] });
 
       if (response.status === 404) {
         // Fallback: Try searching or another region (not implemented for MVP, throwing to let Gemini handle it)
@@ -68,7 +89,7 @@ export class OnTheSnowScraper {
         throw new Error(`Resort not found at ${url}`);
       }
 
-      return this.parseResortPage(response.data, resortName, url, state);
+      return this.parseResortPage(response.body, resortName, url, state, location);
 
     } catch (error) {
       console.error(`[Scraper] Error fetching ${resortName}:`, error);
@@ -76,141 +97,29 @@ export class OnTheSnowScraper {
     }
   }
 
-  private parseResortPage(html: string, originalName: string, url: string, state?: string): ScrapedResortData {
-    const $ = cheerio.load(html);
-
-    // 1. Base Depth
-    // Looking for "Base" heading and the value near it
-    let baseDepth = 0;
-    const baseDepthText = $('h3:contains("Base")').next().text(); // e.g. "30""
-    if (baseDepthText) {
-      baseDepth = parseInt(baseDepthText.replace(/\D/g, ''), 10) || 0;
-    }
-
-    // 2. Recent Snowfall (24h, 48h)
-    let last24Hours = 0;
-    let last48Hours = 0;
-    // Find "Recent Snowfall" table
-    const recentSnowTable = $('h3:contains("Recent Snowfall")').parent().find('table');
-    if (recentSnowTable.length) {
-      // The table has headers like "Tue", "Wed"... "24h"
-      // And a row of values
-      // We need to find the index of "24h" column
-      const headers = recentSnowTable.find('thead th, tr:first-child th').map((i, el) => $(el).text().trim()).get();
-      const index24h = headers.indexOf('24h');
-      
-      // Values are in the next row
-      const values = recentSnowTable.find('tbody tr').first().find('td').map((i, el) => $(el).text().trim()).get();
-      
-      if (index24h !== -1 && values[index24h]) {
-        last24Hours = parseInt(values[index24h].replace(/\D/g, ''), 10) || 0;
-      }
-      
-      // 48h is usually the sum of the last 2 columns or explicitly shown?
-      // OnTheSnow usually shows daily + 24h. It doesn't always show 48h explicitly in that table.
-      // We might have to sum the last 2 days if dates match? 
-      // For now, let's assume 48h is not explicitly in the table unless we calculate it. 
-      // Let's leave 48h as 0 or equal to 24h if we can't find it.
-      // Actually, sometimes they have a "48h" column? In the snapshot it was just "24h".
-    }
-
-    // 3. Lifts & Trails
-    let liftsOpen = 0;
-    let totalLifts = 0;
-    let trailsOpen = 0;
-    let totalTrails = 0;
-
-    // "18/33 open" inside a container with "Lifts Open" text
-    const liftsText = $('div:contains("Lifts Open")').last().text(); // Might need more specific selector
-    // Strategy: Look for the text "Lifts Open" and find the "X/Y open" string nearby
-    // Based on snapshot: generic -> img, generic "Lifts Open", generic "18/33 open"
-    // They seem to be siblings or close.
-    
-    // Attempt to find via regex on the whole body text or specific sections if selectors fail
-    const liftsMatch = $('body').text().match(/(\d+)\/(\d+)\s+lifts open/i) || $('body').text().match(/Lifts Open\s*(\d+)\/(\d+)\s*open/i);
-    if (liftsMatch) {
-      liftsOpen = parseInt(liftsMatch[1], 10);
-      totalLifts = parseInt(liftsMatch[2], 10);
-    }
-
-    const trailsMatch = $('body').text().match(/(\d+)\/(\d+)\s+runs open/i) || $('body').text().match(/Runs Open\s*(\d+)\/(\d+)\s*open/i);
-    if (trailsMatch) {
-      trailsOpen = parseInt(trailsMatch[1], 10);
-      totalTrails = parseInt(trailsMatch[2], 10);
-    }
-
-    // 4. Forecast
-    const forecast: ForecastDay[] = [];
-    const forecastTable = $('h3:contains("Forecasted Snow")').parent().find('table');
-    
-    if (forecastTable.length) {
-      // The table structure on OnTheSnow can be variable.
-      // Often the headers (Mon, Tue...) are in a row, and values are in the next row.
-      const rows = forecastTable.find('tr');
-      let headerRowIndex = -1;
-      let valueRowIndex = -1;
-
-      // Find the row with day names
-      rows.each((i, row) => {
-        const text = $(row).text().trim();
-        // Check for day names (Mon, Tue, etc.)
-        if (/Mon|Tue|Wed|Thu|Fri|Sat|Sun/.test(text)) {
-          headerRowIndex = i;
-          valueRowIndex = i + 1; // Assume values are immediately below
-          return false; // break
-        }
-      });
-
-      if (headerRowIndex !== -1 && rows.eq(valueRowIndex).length) {
-        const headerCells = rows.eq(headerRowIndex).find('th, td');
-        const valueCells = rows.eq(valueRowIndex).find('td');
-
-        const today = new Date();
-
-        headerCells.each((i, el) => {
-          const dayName = $(el).text().trim();
-          // Skip non-day headers
-          if (!/Mon|Tue|Wed|Thu|Fri|Sat|Sun/.test(dayName)) return;
-          
-          const snowText = valueCells.eq(i).text().trim();
-          if (snowText) {
-             const forecastDate = new Date(today);
-             forecastDate.setDate(today.getDate() + i); // Simplification: sequential
-             const dateStr = forecastDate.toISOString().split('T')[0];
-
-             forecast.push({
-               date: dateStr,
-               dayName,
-               snowInches: parseInt(snowText.replace(/\D/g, ''), 10) || 0,
-               tempHigh: 0,
-               tempLow: 0,
-               condition: 'Cloudy',
-               snowProbability: 0,
-               windSpeed: 0
-             });
-          }
-        });
-      }
-    }
+  /**
+   * Coordinates, elevations, lift/trail totals and website from a resort's
+   * overview page, by its report path (e.g. "colorado/vail")
+   */
+  async fetchResortOverview(reportPath: string): Promise<ResortOverview> {
+    const url = `${this.baseUrl}/${reportPath}/ski-resort`;
+    console.log(`[Scraper] Fetching overview ${url}`);
+    const response = await scraperHttp.fetchText(url, { maxAgeMs: OVERVIEW_MAX_AGE_MS });
+    const parsed = parseResortOverview(response.body);
+    assertNoDrift('resortOverview', url, checkResortOverview(parsed));
+    return parsed.data;
+  }
 
-    return {
-      name: originalName, // Or extract from h1
-      location: state || 'USA',
-      baseDepth,
-      last24Hours,
-      last48Hours,
-      last7Days: 0, // Not easily found
-      liftsOpen,
-      totalLifts,
-      trailsOpen,
-      totalTrails,
-      ticketPrice: '',
-      websiteUrl: url,
-      conditions: $('div:contains("Machine Groomed")').length ? 'Machine Groomed' : 'Variable', // Simple check
-      description: `Latest report from OnTheSnow. Base depth: ${baseDepth}".`,
-      forecast,
-      sourceUrls: [url]
-    };
+  private parseResortPage(
+    html: string,
+    originalName: string,
+    url: string,
+    state?: string,
+    location?: string,
+  ): ScrapedResortData {
+    const parsed = parseResortReport(html, { name: originalName, url, state, location });
+    assertNoDrift('resortReport', url, checkResortReport(parsed));
+    return parsed.data;
   }
 
   private toSlug(name: string): string {
@@ -220,38 +129,43 @@ export class OnTheSnowScraper {
       .replace(/-+/g, '-');     // collapse hyphens
   }
 
-  private mapStateToRegion(state: string): string {
-    const map: Record<string, string> = {
-      'CO': 'colorado',
-      'UT': 'utah',
-      'CA': 'california',
-      'VT': 'vermont',
-      'WY': 'wyoming',
-      'MT': 'montana',
-      'ID': 'idaho',
-      'OR': 'oregon',
-      'WA': 'washington',
-      'NM': 'new-mexico',
-      'NY': 'new-york',
-      'MI': 'michigan',
-      'WI': 'wisconsin',
-      'MN': 'minnesota',
-      'ME': 'maine',
-      'NH': 'new-hampshire',
-      'NV': 'nevada',
-      'PA': 'pennsylvania'
-    };
-    return map[state.toUpperCase()] || 'colorado'; // Default fallback or error?
+  /** OnTheSnow section for a state or province; throws when OnTheSnow's section isn't known */
+  private mapStateToRegion(state: string, country?: string): string {
+    const subdivision = findSubdivision(country, state);
+    if (!subdivision) {
+      throw new Error(`No OnTheSnow section known for ${state} (${country || 'US'})`);
+    }
+    return subdivision.onTheSnowSlug;
+  }
+
+  /**
+   * Listing sections a region filter needs: the subdivision's own page for a
+   * state or province, else the whole-country page of each country it covers
+   */
+  private sectionsFor(region: string): SectionPage[] {
+    const filter = parsePlaceFilter(region);
+    const subdivision = filter?.state ? findSubdivision(filter.country, filter.state) : null;
+    if (subdivision) {
+      return [{ slug: subdivision.onTheSnowSlug, place: placeForSubdivision(subdivision) }];
+    }
+    return countriesForFilter(filter).map((country) => ({
+      slug: country.onTheSnowSlug,
+      place: placeFor(country.code, null),
+    }));
   }
 
   /**
    * Fetch top resorts by recent snowfall from OnTheSnow
-   * This scrapes the snow report table which shows 72-hour snowfall and 3-day forecast
+   * This scrapes the snow report table which shows 72-hour snowfall and 3-day forecast.
+   * `region` is a place filter (All, CO, CA-BC, Canada, Alps, ...); filters
+   * spanning several countries read each country's table.
    */
   async fetchTopSnowfallResorts(region: string = 'All', limit: number = 10): Promise<Array<{
     name: string;
     location: string;
+    country: string;
     state: string;
+    region: string;
     predictedSnow: number;
     snow72h: number;
     baseDepth: number;
@@ -260,228 +174,78 @@ export class OnTheSnowScraper {
     latitude?: number;
     longitude?: number;
   }>> {
-    // Map region filter to OnTheSnow URL
-    const regionUrls: Record<string, string> = {
-      'All': '/united-states/skireport',
-      'CO': '/colorado/skireport',
-      'UT': '/utah/skireport',
-      'CA': '/california/skireport',
-      'WA': '/washington/skireport',
-      'VT': '/vermont/skireport',
-      'WY': '/wyoming/skireport',
-      'MT': '/montana/skireport',
-      'ID': '/idaho/skireport',
-      'OR': '/oregon/skireport',
-      'NH': '/new-hampshire/skireport',
-      'ME': '/maine/skireport',
-      'NY': '/new-york/skireport',
-      'MI': '/michigan/skireport',
-      'NM': '/new-mexico/skireport',
-    };
-
-    const urlPath = regionUrls[region] || regionUrls['All'];
-    const url = `${this.baseUrl}${urlPath}`;
-
-    try {
-      console.log(`[Scraper] Fetching top snowfall from ${url}`);
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        }
-      });
+    const filter = parsePlaceFilter(region);
+    const resorts = [];
 
-      const $ = cheerio.load(response.data);
-      const resorts: Array<{
-        name: string;
-        location: string;
-        state: string;
-        predictedSnow: number;
-        snow72h: number;
-        baseDepth: number;
-        conditions: string;
-        summary: string;
-      }> = [];
+    for (const section of this.sectionsFor(region)) {
+      const url = `${this.baseUrl}/${section.slug}/skireport`;
+      try {
+        console.log(`[Scraper] Fetching top snowfall from ${url}`);
+        const response = await scraperHttp.fetchText(url, { maxAgeMs: TOP_LIST_MAX_AGE_MS });
 
-      // The table has columns: Resort Name, 72 Hour Snowfall, 3 Day Snow Forecast, Base Depth, Open Trails, Open Lifts
-      const table = $('table').first();
-      const rows = table.find('tbody tr');
+        const parsed = parseSkiReportTable(response.body);
+        assertNoDrift('skiReportTable', url, checkSkiReportTable(parsed));
 
-      rows.each((i, row) => {
-        if (resorts.length >= limit) return false; // Stop after limit
+        for (const row of parsed.data) {
+          if (row.snow72h <= 0 && row.forecast3d <= 0) continue;
+          const subdivision = row.region ? subdivisionForOnTheSnowSlug(row.region) : null;
+          const place = subdivision ? placeForSubdivision(subdivision) : section.place;
+          if (!matchesPlaceFilter(place, filter)) continue;
 
-        const cells = $(row).find('td');
-        if (cells.length < 4) return; // Skip malformed rows
-
-        // Resort Name (first cell, contains link)
-        const nameCell = cells.eq(0);
-        const nameLink = nameCell.find('a');
-        const name = nameLink.find('div, span').first().text().trim() || nameLink.text().trim().split('\n')[0].trim();
-        const href = nameLink.attr('href') || '';
-
-        // Extract state from URL (e.g., /colorado/vail/skireport -> colorado)
-        const urlMatch = href.match(/^\/([^\/]+)\//);
-        const stateFromUrl = urlMatch ? this.regionToState(urlMatch[1]) : 'US';
-
-        // 72 Hour Snowfall (second cell)
-        const snow72hText = cells.eq(1).text().trim();
-        const snow72h = parseInt(snow72hText.replace(/\D/g, ''), 10) || 0;
-
-        // 3 Day Snow Forecast (third cell)
-        const forecast3dText = cells.eq(2).text().trim();
-        const forecast3d = parseInt(forecast3dText.replace(/\D/g, ''), 10) || 0;
-
-        // Base Depth (fourth cell) - can be range like "51-75""
-        const baseDepthText = cells.eq(3).text().trim();
-        const baseMatch = baseDepthText.match(/(\d+)/);
-        const baseDepth = baseMatch ? parseInt(baseMatch[1], 10) : 0;
-
-        // Conditions from base depth cell (e.g., "Powder", "Variable Conditions")
-        const conditions = baseDepthText.replace(/[\d\-"]+/g, '').trim() || 'Variable';
-
-        if (name && (snow72h > 0 || forecast3d > 0)) {
           resorts.push({
-            name,
-            location: this.stateToFullName(stateFromUrl),
-            state: stateFromUrl,
-            predictedSnow: forecast3d > 0 ? forecast3d : snow72h, // Use forecast if available, else 72h
-            snow72h,
-            baseDepth,
-            conditions,
-            summary: `${snow72h}" in last 72h, ${forecast3d}" forecast. Base: ${baseDepth}". ${conditions}`,
+            name: row.name,
+            location: place.location,
+            country: place.country,
+            state: place.state,
+            region: place.region,
+            predictedSnow: row.forecast3d > 0 ? row.forecast3d : row.snow72h, // Use forecast if available, else 72h
+            snow72h: row.snow72h,
+            baseDepth: row.baseDepth,
+            conditions: row.conditions,
+            summary: `${row.snow72h}" in last 72h, ${row.forecast3d}" forecast. Base: ${row.baseDepth}". ${row.conditions}`,
           });
         }
-      });
-
-      // Sort by predictedSnow (or snow72h as fallback)
-      resorts.sort((a, b) => (b.predictedSnow || b.snow72h) - (a.predictedSnow || a.snow72h));
-
-      console.log(`[Scraper] Found ${resorts.length} resorts with snowfall data`);
-      return resorts.slice(0, limit);
-
-    } catch (error) {
-      console.error('[Scraper] Failed to fetch top snowfall:', error);
-      return [];
+      } catch (error) {
+        // One section failing shouldn't hide the others
+        console.error(`[Scraper] Failed to fetch top snowfall from ${url}:`, error);
+      }
     }
-  }
 
-  private regionToState(region: string): string {
-    const map: Record<string, string> = {
-      'colorado': 'CO',
-      'utah': 'UT',
-      'california': 'CA',
-      'vermont': 'VT',
-      'wyoming': 'WY',
-      'montana': 'MT',
-      'idaho': 'ID',
-      'oregon': 'OR',
-      'washington': 'WA',
-      'new-mexico': 'NM',
-      'new-york': 'NY',
-      'michigan': 'MI',
-      'wisconsin': 'WI',
-      'minnesota': 'MN',
-      'maine': 'ME',
-      'new-hampshire': 'NH',
-      'nevada': 'NV',
-      'pennsylvania': 'PA',
-      'alaska': 'AK',
-      'arizona': 'AZ',
-    };
-    return map[region.toLowerCase()] || 'US';
-  }
+    // Sort by predictedSnow (or snow72h as fallback)
+    resorts.sort((a, b) => (b.predictedSnow || b.snow72h) - (a.predictedSnow || a.snow72h));
 
-  private stateToFullName(state: string): string {
-    const map: Record<string, string> = {
-      'CO': 'Colorado',
-      'UT': 'Utah',
-      'CA': 'California',
-      'VT': 'Vermont',
-      'WY': 'Wyoming',
-      'MT': 'Montana',
-      'ID': 'Idaho',
-      'OR': 'Oregon',
-      'WA': 'Washington',
-      'NM': 'New Mexico',
-      'NY': 'New York',
-      'MI': 'Michigan',
-      'WI': 'Wisconsin',
-      'MN': 'Minnesota',
-      'ME': 'Maine',
-      'NH': 'New Hampshire',
-      'NV': 'Nevada',
-      'PA': 'Pennsylvania',
-      'AK': 'Alaska',
-      'AZ': 'Arizona',
-    };
-    return map[state] || state;
+    console.log(`[Scraper] Found ${resorts.length} resorts with snowfall data`);
+    return resorts.slice(0, limit);
   }
 
   /**
-   * Discover all resorts from the main United States list
+   * Discover all resorts from each covered country's resort directory,
+   * with the country whose directory listed them
    */
-  async discoverResorts(): Promise<Array<{ name: string; url: string; region: string }>> {
-    const startUrl = `${this.baseUrl}/united-states/ski-resorts`;
-    try {
-      console.log(`[Scraper] Discovering resorts from ${startUrl}`);
-      const response = await axios.get(startUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  async discoverResorts(): Promise<Array<{ name: string; url: string; region: string; country: string }>> {
+    const resorts: Array<{ name: string; url: string; region: string; country: string }> = [];
+    const seenUrls = new Set<string>();
+
+    for (const country of COUNTRIES) {
+      const startUrl = `${this.baseUrl}/${country.onTheSnowSlug}/ski-resorts`;
+      try {
+        console.log(`[Scraper] Discovering resorts from ${startUrl}`);
+        const response = await scraperHttp.fetchText(startUrl, { maxAgeMs: DISCOVERY_MAX_AGE_MS });
+
+        const parsed = parseResortDirectory(response.body, this.baseUrl);
+        assertNoDrift('resortDirectory', startUrl, checkResortDirectory(parsed));
+        for (const resort of parsed.data) {
+          if (seenUrls.has(resort.url)) continue;
+          seenUrls.add(resort.url);
+          resorts.push({ ...resort, country: country.code });
         }
-      });
-      
-      const $ = cheerio.load(response.data);
-      const resorts: Array<{ name: string; url: string; region: string }> = [];
-      const seenUrls = new Set<string>();
-
-      // Strategy: Look for links to /ski-resort pages.
-      // OnTheSnow usually lists resorts in a table or list.
-      // Links often look like: /colorado/vail/ski-resort or /colorado/vail/skireport
-      // We want to extract the base structure /state/resort-name
-      
-      $('a[href*="/ski-resort"]').each((i, el) => {
-        const href = $(el).attr('href');
-        if (!href) return;
-        
-        // Filter out non-resort links (like /united-states/ski-resorts itself)
-        // Expected format: /region/resort/ski-resort
-        // Regex: ^\/([^\/]+)\/([^\/]+)\/ski-resort$
-        const match = href.match(/^\/([^\/]+)\/([^\/]+)\/ski-resort$/);
-        if (match) {
-          const region = match[1]; // e.g. colorado
-          const slug = match[2];   // e.g. vail
-          
-          // Skip if region is "united-states" or other generic pages
-          if (region === 'united-states' || region === 'news' || region === 'epic-pass') return;
-
-          let name = $(el).text().trim() || slug;
-          // Clean name: remove "VIEW" and other noise
-          name = name.replace(/\s*VIEW\s*$/i, '').trim();
-          
-          if (!name) {
-             // Fallback to beautified slug
-             name = slug.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
-          }
-
-          // Normalize to skireport url for data fetching
-          const reportUrl = `${this.baseUrl}/${region}/${slug}/skireport`;
-          
-          if (!seenUrls.has(reportUrl)) {
-            seenUrls.add(reportUrl);
-            resorts.push({
-              name,
-              url: reportUrl,
-              region
-            });
-          }
-        }
-      });
-
-      console.log(`[Scraper] Discovered ${resorts.length} resorts`);
-      return resorts;
-    } catch (error) {
-      console.error('[Scraper] Discovery failed:', error);
-      return [];
+      } catch (error) {
+        console.error(`[Scraper] Discovery failed for ${country.name}:`, error);
+      }
     }
+
+    console.log(`[Scraper] Discovered ${resorts.length} resorts`);
+    return resorts;
   }
 }
 
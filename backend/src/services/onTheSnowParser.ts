@@ -0,0 +1,412 @@
+/**
+ * OnTheSnow page parsers
+ *
+ * Pure HTML → data functions for the page types the scraper reads: a
+ * resort's skireport and overview pages, a state's skireport table and the
+ * resort directory. Each parser also reports which markup landmarks it could
+ * not find, so `parseDrift.ts` can tell a closed resort from a redesigned page.
+ * Saved pages in `backend/fixtures/onthesnow` pin their behavior
+ * (`npm run check:scrapers`).
+ */
+
+import * as cheerio from 'cheerio';
+import { COUNTRIES } from './regions.js';
+
+export interface ScrapedForecastDay {
+  date: string;
+  dayName: string;
+  snowInches: number;
+  tempHigh: number;
+  tempLow: number;
+  condition: string;
+  snowProbability: number;
+  windSpeed: number;
+}
+
+export interface ScrapedResortData {
+  name: string;
+  location: string;
+  baseDepth: number;
+  last24Hours: number;
+  last48Hours: number;
+  last7Days: number;
+  liftsOpen: number;
+  totalLifts: number;
+  trailsOpen: number;
+  totalTrails: number;
+  ticketPrice: string;
+  websiteUrl: string;
+  conditions: string;
+  description: string;
+  forecast: ScrapedForecastDay[];
+  sourceUrls?: string[];
+}
+
+/** Landmarks on a resort's skireport page */
+export type ResortReportSection = 'base' | 'recentSnowfall' | 'lifts' | 'runs' | 'forecast';
+
+/** One row of a state's skireport table */
+export interface SkiReportRow {
+  name: string;
+  /** Report link, e.g. /colorado/vail/skireport */
+  href: string;
+  /** First path segment of the link, e.g. colorado */
+  region: string | null;
+  snow72h: number;
+  forecast3d: number;
+  baseDepth: number;
+  conditions: string;
+}
+
+export interface DirectoryResort {
+  name: string;
+  url: string;
+  region: string;
+}
+
+/** Resort facts from its overview (ski-resort) page; null when not on the page */
+export interface ResortOverview {
+  name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  /** Feet */
+  baseElevation: number | null;
+  summitElevation: number | null;
+  verticalDrop: number | null;
+  totalLifts: number | null;
+  totalTrails: number | null;
+  /** The resort's own site, not the OnTheSnow page */
+  websiteUrl: string | null;
+}
+
+export interface ParsedPage<T> {
+  data: T;
+  /** Landmarks the parser looked for and didn't find */
+  missing: string[];
+}
+
+export interface ResortReportContext {
+  /** Name the resort was requested by */
+  name: string;
+  url: string;
+  state?: string;
+  /** Display location, e.g. "British Columbia, Canada"; defaults to the state */
+  location?: string;
+  /** Day the first forecast column falls on; defaults to today */
+  today?: Date;
+}
+
+const DAY_NAME = /Mon|Tue|Wed|Thu|Fri|Sat|Sun/;
+
+function toInt(text: string): number {
+  return parseInt(text.replace(/\D/g, ''), 10) || 0;
+}
+
+export function parseResortReport(html: string, context: ResortReportContext): ParsedPage<ScrapedResortData> {
+  const $ = cheerio.load(html);
+  const missing: ResortReportSection[] = [];
+
+  // 1. Base Depth
+  // Looking for "Base" heading and the value near it
+  let baseDepth = 0;
+  const baseHeading = $('h3:contains("Base")');
+  const baseDepthText = baseHeading.next().text(); // e.g. "30""
+  if (baseDepthText) {
+    baseDepth = toInt(baseDepthText);
+  } else {
+    missing.push('base');
+  }
+
+  // 2. Recent Snowfall (24h, 48h)
+  let last24Hours = 0;
+  let last48Hours = 0;
+  // Find "Recent Snowfall" table
+  const recentSnowTable = $('h3:contains("Recent Snowfall")').parent().find('table');
+  if (recentSnowTable.length) {
+    // The table has headers like "Tue", "Wed"... "24h"
+    // And a row of values
+    // We need to find the index of "24h" column
+    const headers = recentSnowTable.find('thead th, tr:first-child th').map((i, el) => $(el).text().trim()).get();
+    const index24h = headers.indexOf('24h');
+
+    // Values are in the next row
+    const values = recentSnowTable.find('tbody tr').first().find('td').map((i, el) => $(el).text().trim()).get();
+
+    if (index24h !== -1 && values[index24h]) {
+      last24Hours = toInt(values[index24h]);
+    } else {
+      missing.push('recentSnowfall');
+    }
+
+    // OnTheSnow shows daily columns plus 24h; there is no explicit 48h column,
+    // so 48h is left at 0 for the reconciler to take from another source.
+  } else {
+    missing.push('recentSnowfall');
+  }
+
+  // 3. Lifts & Trails
+  // "18/33 open" next to a "Lifts Open" label; matched on the page text
+  // because the surrounding markup varies between resorts.
+  let liftsOpen = 0;
+  let totalLifts = 0;
+  let trailsOpen = 0;
+  let totalTrails = 0;
+  const bodyText = $('body').text();
+
+  const liftsMatch = bodyText.match(/(\d+)\/(\d+)\s+lifts open/i) || bodyText.match(/Lifts Open\s*(\d+)\/(\d+)\s*open/i);
+  if (liftsMatch) {
+    liftsOpen = parseInt(liftsMatch[1], 10);
+    totalLifts = parseInt(liftsMatch[2], 10);
+  } else {
+    missing.push('lifts');
+  }
+
+  const trailsMatch = bodyText.match(/(\d+)\/(\d+)\s+runs open/i) || bodyText.match(/Runs Open\s*(\d+)\/(\d+)\s*open/i);
+  if (trailsMatch) {
+    trailsOpen = parseInt(trailsMatch[1], 10);
+    totalTrails = parseInt(trailsMatch[2], 10);
+  } else {
+    missing.push('runs');
+  }
+
+  // 4. Forecast
+  const forecast: ScrapedForecastDay[] = [];
+  const forecastTable = $('h3:contains("Forecasted Snow")').parent().find('table');
+
+  if (forecastTable.length) {
+    // Day names are in one row and the values in the row below it
+    const rows = forecastTable.find('tr');
+    let headerRowIndex = -1;
+
+    rows.each((i, row) => {
+      if (DAY_NAME.test($(row).text().trim())) {
+        headerRowIndex = i;
+        return false; // break
+      }
+    });
+
+    const valueRow = rows.eq(headerRowIndex + 1);
+    if (headerRowIndex !== -1 && valueRow.length) {
+      const headerCells = rows.eq(headerRowIndex).find('th, td');
+      const valueCells = valueRow.find('td');
+      const today = context.today ?? new Date();
+
+      headerCells.each((i, el) => {
+        const dayName = $(el).text().trim();
+        // Skip non-day headers
+        if (!DAY_NAME.test(dayName)) return;
+
+        const snowText = valueCells.eq(i).text().trim();
+        if (snowText) {
+          const forecastDate = new Date(today);
+          forecastDate.setDate(today.getDate() + i); // Simplification: sequential
+
+          forecast.push({
+            date: forecastDate.toISOString().split('T')[0],
+            dayName,
+            snowInches: toInt(snowText),
+            tempHigh: 0,
+            tempLow: 0,
+            condition: 'Cloudy',
+            snowProbability: 0,
+            windSpeed: 0,
+          });
+        }
+      });
+    }
+  }
+  if (forecast.length === 0) missing.push('forecast');
+
+  return {
+    data: {
+      name: context.name,
+      location: context.location || context.state || '',
+      baseDepth,
+      last24Hours,
+      last48Hours,
+      last7Days: 0, // Not on the page
+      liftsOpen,
+      totalLifts,
+      trailsOpen,
+      totalTrails,
+      ticketPrice: '',
+      websiteUrl: context.url,
+      conditions: $('div:contains("Machine Groomed")').length ? 'Machine Groomed' : 'Variable',
+      description: `Latest report from OnTheSnow. Base depth: ${baseDepth}".`,
+      forecast,
+      sourceUrls: [context.url],
+    },
+    missing,
+  };
+}
+
+/**
+ * Every row of a state's skireport table. Columns: Resort Name, 72 Hour
+ * Snowfall, 3 Day Snow Forecast, Base Depth, Open Trails, Open Lifts.
+ * `missing` lists `table` when there is none and `rows` when no row parsed.
+ */
+export function parseSkiReportTable(html: string): ParsedPage<SkiReportRow[]> & { rowCount: number } {
+  const $ = cheerio.load(html);
+  const table = $('table').first();
+  const rows = table.find('tbody tr');
+  const resorts: SkiReportRow[] = [];
+
+  rows.each((i, row) => {
+    const cells = $(row).find('td');
+    if (cells.length < 4) return; // Skip malformed rows
+
+    // Resort Name (first cell, contains link)
+    const nameLink = cells.eq(0).find('a');
+    const name = nameLink.find('div, span').first().text().trim() || nameLink.text().trim().split('\n')[0].trim();
+    if (!name) return;
+    const href = nameLink.attr('href') || '';
+
+    // Region from the link (e.g., /colorado/vail/skireport -> colorado)
+    const regionMatch = href.match(/^\/([^\/]+)\//);
+
+    // Base Depth (fourth cell) - can be range like "51-75"" followed by the conditions
+    const baseDepthText = cells.eq(3).text().trim();
+    const baseMatch = baseDepthText.match(/(\d+)/);
+
+    resorts.push({
+      name,
+      href,
+      region: regionMatch ? regionMatch[1] : null,
+      snow72h: toInt(cells.eq(1).text().trim()),
+      forecast3d: toInt(cells.eq(2).text().trim()),
+      baseDepth: baseMatch ? parseInt(baseMatch[1], 10) : 0,
+      conditions: baseDepthText.replace(/[\d\-"]+/g, '').trim() || 'Variable',
+    });
+  });
+
+  const missing: string[] = [];
+  if (!table.length) missing.push('table');
+  else if (resorts.length === 0) missing.push('rows');
+
+  return { data: resorts, missing, rowCount: rows.length };
+}
+
+/** Regions in resort-style links that are site sections or whole countries, not places */
+const NON_RESORT_REGIONS = new Set(['news', 'epic-pass', ...COUNTRIES.map((c) => c.onTheSnowSlug)]);
+
+/**
+ * Resorts linked from the directory page. Links look like
+ * /colorado/vail/ski-resort and are normalized to the skireport URL.
+ */
+export function parseResortDirectory(html: string, baseUrl: string): ParsedPage<DirectoryResort[]> {
+  const $ = cheerio.load(html);
+  const resorts: DirectoryResort[] = [];
+  const seenUrls = new Set<string>();
+
+  $('a[href*="/ski-resort"]').each((i, el) => {
+    const match = ($(el).attr('href') || '').match(/^\/([^\/]+)\/([^\/]+)\/ski-resort$/);
+    if (!match) return;
+
+    const [, region, slug] = match;
+    if (NON_RESORT_REGIONS.has(region)) return;
+
+    // Clean name: remove "VIEW" and other noise, else beautify the slug
+    const name =
+      $(el).text().trim().replace(/\s*VIEW\s*$/i, '').trim() ||
+      slug.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+    const reportUrl = `${baseUrl}/${region}/${slug}/skireport`;
+    if (!seenUrls.has(reportUrl)) {
+      seenUrls.add(reportUrl);
+      resorts.push({ name, url: reportUrl, region });
+    }
+  });
+
+  return { data: resorts, missing: resorts.length === 0 ? ['resortLinks'] : [] };
+}
+
+function toNumber(text: string | undefined): number | null {
+  if (!text) return null;
+  const value = parseFloat(text.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+function validCoordinates(latitude: number | null, longitude: number | null): boolean {
+  return (
+    latitude !== null && longitude !== null && !(latitude === 0 && longitude === 0) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+  );
+}
+
+/** schema.org objects from the page's JSON-LD blocks, flattening @graph and arrays */
+function jsonLdObjects($: cheerio.CheerioAPI): Array<Record<string, any>> {
+  const objects: Array<Record<string, any>> = [];
+  $('script[type="application/ld+json"]').each((i, el) => {
+    try {
+      const parsed = JSON.parse($(el).text());
+      const queue = Array.isArray(parsed) ? [...parsed] : [parsed];
+      while (queue.length) {
+        const item = queue.shift();
+        if (!item || typeof item !== 'object') continue;
+        objects.push(item);
+        if (Array.isArray(item['@graph'])) queue.push(...item['@graph']);
+      }
+    } catch {
+      // Malformed JSON-LD: fall back to the page text
+    }
+  });
+  return objects;
+}
+
+/**
+ * A resort's overview page (/colorado/vail/ski-resort). Coordinates come from
+ * the JSON-LD `geo` or the map link, the rest from the stats block, e.g.
+ * "Base 8,120 ft", "Lifts 31". `missing` lists the facts not found.
+ */
+export function parseResortOverview(html: string): ParsedPage<ResortOverview> {
+  const $ = cheerio.load(html);
+  const jsonLd = jsonLdObjects($);
+  const place = jsonLd.find((o) => o.geo) ?? jsonLd.find((o) => /SkiResort|Place/.test(String(o['@type']))) ?? null;
+
+  let latitude = toNumber(place?.geo?.latitude?.toString());
+  let longitude = toNumber(place?.geo?.longitude?.toString());
+  if (!validCoordinates(latitude, longitude)) {
+    // Map links carry the coordinates: ?q=39.6061,-106.3550 or /@39.6061,-106.3550
+    const mapHref = $('a[href*="google.com/maps"], a[href*="maps.google"]').first().attr('href') || '';
+    const match = mapHref.match(/(?:[?&](?:q|ll|query)=|@)(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)/);
+    latitude = toNumber(match?.[1]);
+    longitude = toNumber(match?.[2]);
+  }
+  if (!validCoordinates(latitude, longitude)) {
+    latitude = null;
+    longitude = null;
+  }
+
+  const text = $('body').text().replace(/\s+/g, ' ');
+  const feet = (label: string) =>
+    toNumber(text.match(new RegExp(`${label}(?: Elevation)?:?\\s*([\\d,]+)\\s*(?:ft|')`, 'i'))?.[1]);
+  const count = (label: string) => toNumber(text.match(new RegExp(`(?:Total )?${label}:?\\s*(\\d+)(?!\\d|\\s*\\/)`, 'i'))?.[1]);
+
+  // The resort's own site: the JSON-LD sameAs/url when it isn't OnTheSnow, else a "website" link
+  const ldWebsite = [place?.sameAs, place?.url]
+    .flat()
+    .find((u): u is string => typeof u === 'string' && /^https?:\/\//.test(u) && !u.includes('onthesnow.com'));
+  const linkWebsite = $('a')
+    .filter((i, el) => /website/i.test($(el).text()))
+    .map((i, el) => $(el).attr('href'))
+    .get()
+    .find((u) => /^https?:\/\//.test(u) && !u.includes('onthesnow.com'));
+
+  const overview: ResortOverview = {
+    name: (typeof place?.name === 'string' ? place.name : $('h1').first().text()).trim() || null,
+    latitude,
+    longitude,
+    baseElevation: feet('Base'),
+    summitElevation: feet('Summit'),
+    verticalDrop: feet('Vertical(?: Drop)?'),
+    totalLifts: count('Lifts'),
+    totalTrails: count('(?:Runs|Trails)'),
+    websiteUrl: ldWebsite ?? linkWebsite ?? null,
+  };
+
+  const missing = (['latitude', 'baseElevation', 'summitElevation', 'totalLifts', 'totalTrails', 'websiteUrl'] as const)
+    .filter((field) => overview[field] === null)
+    .map((field) => (field === 'latitude' ? 'coordinates' : field));
+
+  return { data: overview, missing };
+}
@@ -0,0 +1,178 @@
+/**
+ * OpenAPI document
+ *
+ * Built from the route specs in `schemas/`: request schemas become
+ * parameters and request bodies, response schemas become responses, and every
+ * schema with a `.meta({ id })` is a shared component. Served at
+ * `/api/openapi.json` and used to generate the frontend's API types.
+ */
+
+import { z } from 'zod/v4';
+import {
+  ROUTES,
+  ErrorResponse,
+  ValidationErrorResponse,
+  type DocumentedRoute,
+} from '../schemas/index.js';
+import { LOCALES } from './i18n/index.js';
+import { UNIT_SYSTEMS } from './units.js';
+
+export type JsonSchema = { [key: string]: any };
+
+const API_VERSION = '1.0.0';
+const COMPONENT_REF = '#/components/schemas/';
+
+// z.int() bounds zod adds when a schema sets none
+const SAFE_INTEGER_BOUNDS = new Set([Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]);
+
+// Keys whose values map names to schemas (so an `id` in them is a field, not schema metadata)
+const SCHEMA_MAPS = new Set(['properties', 'patternProperties', '$defs']);
+
+/** A zod-generated JSON Schema in OpenAPI form: component refs, no draft or registry metadata */
+function clean(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(clean);
+  if (!node || typeof node !== 'object') return node;
+
+  const out: JsonSchema = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '$schema' || key === '$id' || (key === 'id' && typeof value === 'string')) continue;
+    if ((key === 'minimum' || key === 'maximum') && SAFE_INTEGER_BOUNDS.has(value as number)) continue;
+    if (key === '$ref' && typeof value === 'string') {
+      out.$ref = value.replace(/^#\/\$defs\//, COMPONENT_REF);
+    } else if (SCHEMA_MAPS.has(key) && value && typeof value === 'object') {
+      out[key] = Object.fromEntries(Object.entries(value).map(([name, schema]) => [name, clean(schema)]));
+    } else {
+      out[key] = clean(value);
+    }
+  }
+  return out;
+}
+
+/**
+ * JSON Schema for a request (`input`) or response (`output`) schema. Named
+ * schemas it uses are added to `components` and referenced.
+ */
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output', components: Record<string, JsonSchema>): JsonSchema {
+  const { $defs = {}, ...json } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+  for (const [name, definition] of Object.entries($defs as Record<string, JsonSchema>)) {
+    components[name] = clean(definition) as JsonSchema;
+  }
+
+  const id = z.globalRegistry.get(schema)?.id;
+  if (id) {
+    components[id] = clean(json) as JsonSchema;
+    return { $ref: COMPONENT_REF + id };
+  }
+  return clean(json) as JsonSchema;
+}
+
+function parametersFor(route: DocumentedRoute, where: 'path' | 'query', components: Record<string, JsonSchema>) {
+  const schema = route.request?.[where === 'path' ? 'params' : 'query'];
+  if (!schema) return [];
+  const { properties = {}, required = [] } = toJsonSchema(schema, 'input', components);
+  return Object.entries(properties as Record<string, JsonSchema>).map(([name, property]) => ({
+    name,
+    in: where,
+    required: where === 'path' || required.includes(name),
+    schema: property,
+  }));
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { content: { 'application/json': { schema } } };
+}
+
+function operationFor(route: DocumentedRoute, components: Record<string, JsonSchema>) {
+  const parameters = [
+    ...parametersFor(route, 'path', components),
+    ...parametersFor(route, 'query', components),
+    ...(route.path.startsWith('/api/') ? [{ $ref: '#/components/parameters/Locale' }] : []),
+    ...(route.units ? [{ $ref: '#/components/parameters/Units' }] : []),
+  ];
+
+  const body = route.request?.body;
+  const errors: Record<number, z.ZodType> = { 400: ValidationErrorResponse, ...route.errors, 500: ErrorResponse };
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body
+      ? {
+          requestBody: {
+            // Bodies that are all optional may be left out
+            required: !body.safeParse(undefined).success,
+            ...jsonContent(toJsonSchema(body, 'input', components)),
+          },
+        }
+      : {}),
+    responses: {
+      200: { description: 'OK', ...jsonContent(toJsonSchema(route.response, 'output', components)) },
+      ...Object.fromEntries(
+        Object.entries(errors).map(([status, schema]) => [
+          status,
+          { description: ERROR_DESCRIPTIONS[status] ?? 'Error', ...jsonContent(toJsonSchema(schema, 'output', components)) },
+        ]),
+      ),
+    },
+    ...(route.cronSecret ? { security: [{ cronSecret: [] }, {}] } : {}),
+  };
+}
+
+const ERROR_DESCRIPTIONS: Record<string, string> = {
+  400: 'Invalid parameters',
+  401: 'Missing or wrong CRON_SECRET',
+  404: 'Not found',
+  422: 'Not possible for this resource',
+  500: 'Server error',
+  503: 'Unavailable (no data source answered, or tables not migrated)',
+};
+
+let document: JsonSchema | null = null;
+
+/** The OpenAPI 3.1 document for every route (built once) */
+export function openApiDocument(): JsonSchema {
+  if (document) return document;
+
+  const components: Record<string, JsonSchema> = {};
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of ROUTES) {
+    paths[route.path] = { ...paths[route.path], [route.method]: operationFor(route, components) };
+  }
+
+  document = {
+    openapi: '3.1.0',
+    info: {
+      title: 'SnowPeak API',
+      version: API_VERSION,
+      description:
+        'Snow reports, forecasts and alerts for ski resorts. Invalid parameters return 400 with `code: VALIDATION_ERROR` and one entry per problem in `issues`.',
+    },
+    tags: [...new Set(ROUTES.map((route) => route.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(components).sort(([a], [b]) => a.localeCompare(b))),
+      parameters: {
+        Locale: {
+          name: 'locale',
+          in: 'query',
+          required: false,
+          description: 'Language for day names, timestamps and text; defaults to the best match for Accept-Language',
+          schema: { type: 'string', enum: LOCALES },
+        },
+        Units: {
+          name: 'units',
+          in: 'query',
+          required: false,
+          description: 'Units for snow, temperature, wind and elevation (query amounts too); defaults to the X-Units header, else imperial',
+          schema: { type: 'string', enum: UNIT_SYSTEMS },
+        },
+      },
+      securitySchemes: {
+        cronSecret: { type: 'http', scheme: 'bearer', description: 'CRON_SECRET, when the server sets one' },
+      },
+    },
+  };
+  return document;
+}
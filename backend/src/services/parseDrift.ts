@@ -0,0 +1,130 @@
+/**
+ * Scraper parse-drift detection
+ *
+ * A markup change on a scraped site doesn't make the parser fail, it makes it
+ * return zeros. These checks mark such a parse as suspect: required landmarks
+ * missing or every value zero. Scrapers throw `ParseDriftError` for a suspect
+ * parse, so the provider counts as failed, the reconciler uses the other
+ * sources and a stored report is never replaced by the empty one. Each check
+ * is counted per page kind for `GET /health/scraping`.
+ */
+
+import type {
+  ParsedPage,
+  ResortOverview,
+  ResortReportSection,
+  ScrapedResortData,
+  SkiReportRow,
+} from './onTheSnowParser.js';
+
+export type ParsedPageKind = 'resortReport' | 'resortOverview' | 'skiReportTable' | 'resortDirectory';
+
+export interface DriftCheck {
+  suspect: boolean;
+  reasons: string[];
+}
+
+export class ParseDriftError extends Error {
+  constructor(
+    public readonly kind: ParsedPageKind,
+    public readonly url: string,
+    public readonly reasons: string[],
+  ) {
+    super(`Suspect ${kind} parse for ${url}: ${reasons.join('; ')}`);
+    this.name = 'ParseDriftError';
+  }
+}
+
+/**
+ * Landmarks every resort report has, open or closed: a closed resort still
+ * shows a 0" base and "0/33 open". Recent snowfall and the forecast come and
+ * go with the season, so missing them alone isn't drift.
+ */
+const REQUIRED_REPORT_SECTIONS: ResortReportSection[] = ['base', 'lifts', 'runs'];
+
+/** A table where fewer rows than this parse has changed its columns */
+const MIN_PARSED_ROW_SHARE = 0.5;
+
+export function checkResortReport(parsed: ParsedPage<ScrapedResortData>): DriftCheck {
+  const reasons = REQUIRED_REPORT_SECTIONS.filter((section) => parsed.missing.includes(section)).map(
+    (section) => `${section} not found`,
+  );
+
+  const { data } = parsed;
+  const values = [
+    data.baseDepth,
+    data.last24Hours,
+    data.liftsOpen,
+    data.totalLifts,
+    data.trailsOpen,
+    data.totalTrails,
+    ...data.forecast.map((day) => day.snowInches),
+  ];
+  if (values.every((value) => !value)) reasons.push('every value is zero');
+  // Every resort has lifts and runs; zero totals mean the counts weren't read
+  if (!parsed.missing.includes('lifts') && !data.totalLifts) reasons.push('total lifts is zero');
+  if (!parsed.missing.includes('runs') && !data.totalTrails) reasons.push('total runs is zero');
+
+  return { suspect: reasons.length > 0, reasons };
+}
+
+/** Overview pages vary in what they list; only a page with none of the facts is suspect */
+export function checkResortOverview(parsed: ParsedPage<ResortOverview>): DriftCheck {
+  const { name, ...facts } = parsed.data;
+  const reasons = Object.values(facts).every((value) => value === null) ? ['no resort facts found'] : [];
+  return { suspect: reasons.length > 0, reasons };
+}
+
+export function checkSkiReportTable(parsed: ParsedPage<SkiReportRow[]> & { rowCount: number }): DriftCheck {
+  const reasons: string[] = [];
+  if (parsed.missing.includes('table')) reasons.push('no report table');
+  else if (parsed.rowCount === 0) reasons.push('report table has no rows');
+  else if (parsed.data.length < parsed.rowCount * MIN_PARSED_ROW_SHARE) {
+    reasons.push(`only ${parsed.data.length} of ${parsed.rowCount} rows parsed`);
+  }
+  return { suspect: reasons.length > 0, reasons };
+}
+
+export function checkResortDirectory(parsed: ParsedPage<unknown[]>): DriftCheck {
+  const reasons = parsed.data.length === 0 ? ['no resort links found'] : [];
+  return { suspect: reasons.length > 0, reasons };
+}
+
+export interface ParseDriftStats {
+  kind: ParsedPageKind;
+  parses: number;
+  suspect: number;
+  lastSuspect: { url: string; reasons: string[]; at: string } | null;
+}
+
+class ParseDriftMonitor {
+  private stats = new Map<ParsedPageKind, ParseDriftStats>();
+
+  record(kind: ParsedPageKind, url: string, check: DriftCheck): void {
+    let stats = this.stats.get(kind);
+    if (!stats) {
+      stats = { kind, parses: 0, suspect: 0, lastSuspect: null };
+      this.stats.set(kind, stats);
+    }
+    stats.parses++;
+    if (check.suspect) {
+      stats.suspect++;
+      stats.lastSuspect = { url, reasons: check.reasons, at: new Date().toISOString() };
+    }
+  }
+
+  getStats(): ParseDriftStats[] {
+    return [...this.stats.values()];
+  }
+}
+
+export const parseDriftMonitor = new ParseDriftMonitor();
+
+/** Record a drift check and throw `ParseDriftError` when the parse is suspect */
+export function assertNoDrift(kind: ParsedPageKind, url: string, check: DriftCheck): void {
+  parseDriftMonitor.record(kind, url, check);
+  if (check.suspect) {
+    console.warn(`[Scraper] Suspect ${kind} parse for ${url}: ${check.reasons.join('; ')}`);
+    throw new ParseDriftError(kind, url, check.reasons);
+  }
+}
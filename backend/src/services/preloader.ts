@@ -4,8 +4,12 @@
  * This eliminates the 5-10s wait time for users
  */
 
-import { supabase, getToday } from '../db/supabase.js';
-import { geminiService } from './gemini.js';
+import { getToday } from '../db/supabase.js';
+import { resortRepo, snowReportRepo, forecastRepo } from '../db/repositories/index.js';
+import { snowDataOrchestrator } from './providers/index.js';
+import { resolveResortId } from './resortIdentity.js';
+import { ingestResort } from './ingestion.js';
+import { placeFor } from './regions.js';
 
 // Popular resorts to preload (these are most commonly searched)
 const POPULAR_RESORTS = [
@@ -49,12 +53,18 @@ const POPULAR_RESORTS = [
   { name: 'Sugarbush', state: 'VT', region: 'Northeast' },
   { name: 'Jay Peak', state: 'VT', region: 'Northeast' },
   { name: 'Sunday River', state: 'ME', region: 'Northeast' },
+
+  // Canada / Alps / Japan
+  { name: 'Whistler Blackcomb', country: 'CA', state: 'BC', region: 'Western Canada' },
+  { name: 'Chamonix', country: 'FR', state: '74', region: 'Alps' },
+  { name: 'Zermatt', country: 'CH', state: 'VS', region: 'Alps' },
+  { name: 'Niseko United', country: 'JP', state: '01', region: 'Hokkaido' },
 ];
 
 // Regions to preload for Top 5 list
-const REGIONS_TO_PRELOAD = ['All', 'CO', 'UT', 'CA', 'WA', 'VT'];
+const REGIONS_TO_PRELOAD = ['All', 'CO', 'UT', 'CA', 'WA', 'VT', 'Canada', 'Alps', 'Japan'];
 
-interface PreloadResult {
+export interface PreloadResult {
   success: boolean;
   resort?: string;
   region?: string;
@@ -64,90 +74,23 @@ interface PreloadResult {
 /**
  * Preload a single resort's forecast data
  */
-async function preloadResort(resortInfo: { name: string; state: string; region: string }): Promise<PreloadResult> {
-  const resortId = resortInfo.name.toLowerCase().replace(/\s+/g, '-');
-  
+export async function preloadResort(
+  resortInfo: { name: string; country?: string; state: string; region: string },
+): Promise<PreloadResult> {
   try {
+    const resortId = await resolveResortId(resortInfo.name, { state: resortInfo.state });
     console.log(`  📥 Preloading: ${resortInfo.name}...`);
     
     // Check if we have fresh data (less than 1 hour old)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
     
-    const { data: existingReport } = await supabase
-      .from('snow_reports')
-      .select('id')
-      .eq('resort_id', resortId)
-      .gte('created_at', oneHourAgo)
-      .limit(1);
-    
-    if (existingReport && existingReport.length > 0) {
+    if (await snowReportRepo.hasReportSince(resortId, oneHourAgo)) {
       console.log(`  ✅ ${resortInfo.name} - Already cached (skipped)`);
       return { success: true, resort: resortInfo.name };
     }
     
-    // Fetch fresh data from Gemini
-    const freshData = await geminiService.fetchResortSnowData(resortInfo.name);
-    
-    // Store resort data
-    await supabase
-      .from('resorts')
-      .upsert({
-        id: resortId,
-        name: freshData.name || resortInfo.name,
-        location: freshData.location || `${resortInfo.state}, USA`,
-        state: resortInfo.state,
-        region: resortInfo.region,
-        website_url: freshData.websiteUrl,
-        total_lifts: freshData.totalLifts || 0,
-        total_trails: freshData.totalTrails || 0,
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'id',
-      });
-    
-    // Store today's snow report
-    const today = getToday();
-    
-    await supabase
-      .from('snow_reports')
-      .upsert({
-        resort_id: resortId,
-        report_date: today,
-        base_depth: freshData.baseDepth || 0,
-        last_24_hours: freshData.last24Hours || 0,
-        last_48_hours: freshData.last48Hours || 0,
-        lifts_open: freshData.liftsOpen || 0,
-        trails_open: freshData.trailsOpen || 0,
-        conditions: freshData.conditions,
-        data_source: 'gemini',
-        raw_response: freshData,
-      }, {
-        onConflict: 'resort_id,report_date',
-      });
-    
-    // Store forecasts
-    if (freshData.forecast && Array.isArray(freshData.forecast)) {
-      for (const day of freshData.forecast) {
-        const forecastDate = parseDate(day.date);
-        if (forecastDate) {
-          await supabase
-            .from('forecasts')
-            .upsert({
-              resort_id: resortId,
-              forecast_date: forecastDate,
-              predicted_snow: day.snowInches || 0,
-              temp_high: day.tempHigh,
-              temp_low: day.tempLow,
-              condition: day.condition,
-              snow_probability: day.snowProbability,
-              wind_speed: day.windSpeed,
-              fetched_at: new Date().toISOString(),
-            }, {
-              onConflict: 'resort_id,forecast_date',
-            });
-        }
-      }
-    }
+    // Fetch fresh data from all providers, reconcile and store it
+    await ingestResort(resortId, resortInfo);
     
     console.log(`  ✅ ${resortInfo.name} - Preloaded successfully`);
     return { success: true, resort: resortInfo.name };
@@ -160,45 +103,39 @@ async function preloadResort(resortInfo: { name: string; state: string; region:
 /**
  * Preload Top 5 list for a region
  */
-async function preloadTopResorts(region: string): Promise<PreloadResult> {
+export async function preloadTopResorts(region: string): Promise<PreloadResult> {
   try {
     console.log(`  📊 Preloading Top 5 for: ${region}...`);
     
-    const topResorts = await geminiService.fetchTopSnowfallResorts(region, 10);
+    const { data: topResorts } = await snowDataOrchestrator.fetchTopSnowfallResorts(region, 10);
     
     const today = getToday();
     
     // Store each resort in the database
     for (const resort of topResorts) {
-      const id = resort.name.toLowerCase().replace(/\s+/g, '-');
+      const id = await resolveResortId(resort.name, { state: resort.state });
       
-      await supabase
-        .from('resorts')
-        .upsert({
-          id,
-          name: resort.name,
-          location: resort.location,
-          state: resort.state || 'US',
-          region: determineRegion(resort.state),
-          latitude: resort.latitude || 0,
-          longitude: resort.longitude || 0,
-          updated_at: new Date().toISOString(),
-        }, {
-          onConflict: 'id',
-        });
+      const place = placeFor(resort.country, resort.state);
+      await resortRepo.upsert({
+        id,
+        name: resort.name,
+        location: resort.location || place.location,
+        country: place.country,
+        state: place.state,
+        sub_region: place.subRegion,
+        region: resort.region || place.region,
+        latitude: resort.latitude || 0,
+        longitude: resort.longitude || 0,
+      });
 
       // Store 5-day forecast total
-      await supabase
-        .from('forecasts')
-        .upsert({
-          resort_id: id,
-          forecast_date: today,
-          predicted_snow: resort.predictedSnow,
-          condition: resort.summary,
-          fetched_at: new Date().toISOString(),
-        }, {
-          onConflict: 'resort_id,forecast_date',
-        });
+      await forecastRepo.upsert({
+        resort_id: id,
+        forecast_date: today,
+        predicted_snow: resort.predictedSnow,
+        condition: resort.summary,
+        fetched_at: new Date().toISOString(),
+      });
     }
     
     console.log(`  ✅ Top 5 ${region} - Preloaded ${topResorts.length} resorts`);
@@ -209,34 +146,6 @@ async function preloadTopResorts(region: string): Promise<PreloadResult> {
   }
 }
 
-function determineRegion(state: string | undefined): string {
-  if (!state) return 'Other';
-  
-  const regionMap: Record<string, string> = {
-    'CO': 'Rockies', 'UT': 'Rockies', 'WY': 'Rockies', 'MT': 'Rockies',
-    'ID': 'Rockies', 'NM': 'Rockies', 'AZ': 'Rockies',
-    'CA': 'Pacific', 'WA': 'Pacific', 'OR': 'Pacific', 'NV': 'Pacific',
-    'VT': 'Northeast', 'NH': 'Northeast', 'ME': 'Northeast', 'NY': 'Northeast',
-    'MA': 'Northeast', 'CT': 'Northeast', 'PA': 'Northeast',
-    'MI': 'Midwest', 'WI': 'Midwest', 'MN': 'Midwest', 'OH': 'Midwest',
-  };
-  return regionMap[state] || 'Other';
-}
-
-function parseDate(dateStr: string): string | null {
-  try {
-    const year = new Date().getFullYear();
-    const [month, day] = dateStr.split('/').map(Number);
-    if (month && day) {
-      const date = new Date(year, month - 1, day);
-      return date.toISOString().split('T')[0];
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Main preload function - call at server startup or via cron
  */
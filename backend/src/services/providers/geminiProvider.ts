@@ -0,0 +1,22 @@
+import { getGeminiService, isGeminiConfigured } from '../gemini.js';
+import type { ResortQuery, ResortSnowData, SnowDataProvider, TopSnowfallResort } from './types.js';
+
+export class GeminiProvider implements SnowDataProvider {
+  readonly id = 'gemini';
+  readonly displayName = 'Gemini + Google Search';
+
+  // Without GEMINI_API_KEY the provider is left out (and shown unhealthy)
+  // instead of failing every call; the service itself is only created on first
+  // use, so a missing key never crashes the server.
+  isAvailable(): boolean {
+    return isGeminiConfigured();
+  }
+
+  async fetchResortSnowData(query: ResortQuery): Promise<ResortSnowData> {
+    return getGeminiService().fetchResortSnowData(query.name);
+  }
+
+  async fetchTopSnowfallResorts(region: string, limit: number): Promise<TopSnowfallResort[]> {
+    return getGeminiService().fetchTopSnowfallResorts(region, limit);
+  }
+}
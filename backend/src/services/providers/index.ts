@@ -0,0 +1,52 @@
+/**
+ * Snow data providers
+ *
+ * Default registry: OnTheSnow (real scraped data) first, Gemini as fallback.
+ * Open-Meteo only serves hourly forecasts at the base and summit elevations.
+ * Trust weights decide which source wins when reconciled reports disagree.
+ * Gemini is paid, so reconciled reports only ask it when OnTheSnow failed,
+ * unless GEMINI_RECONCILE=true.
+ * Disable a source with DISABLED_SNOW_PROVIDERS=gemini (comma separated ids).
+ */
+
+import { SnowDataProviderRegistry } from './registry.js';
+import { SnowDataOrchestrator } from './orchestrator.js';
+import { OnTheSnowProvider } from './onTheSnowProvider.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenMeteoProvider } from './openMeteoProvider.js';
+
+export * from './types.js';
+export { SnowDataProviderRegistry } from './registry.js';
+export type { ProviderHealth, ProviderRegistration } from './registry.js';
+export { SnowDataOrchestrator, SnowDataUnavailableError } from './orchestrator.js';
+export { reconcileResortSnowData } from './reconcile.js';
+export type { SourcedSnowData } from './reconcile.js';
+export { OnTheSnowProvider } from './onTheSnowProvider.js';
+export { GeminiProvider } from './geminiProvider.js';
+export { OpenMeteoProvider } from './openMeteoProvider.js';
+
+const disabledProviders = (process.env.DISABLED_SNOW_PROVIDERS || '')
+  .split(',')
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+export const snowDataRegistry = new SnowDataProviderRegistry();
+
+snowDataRegistry.register(new OnTheSnowProvider(), {
+  priority: 10,
+  trust: 0.9,
+  enabled: !disabledProviders.includes('onthesnow'),
+});
+snowDataRegistry.register(new GeminiProvider(), {
+  priority: 20,
+  trust: 0.6,
+  enabled: !disabledProviders.includes('gemini'),
+  fallbackOnly: process.env.GEMINI_RECONCILE !== 'true',
+});
+snowDataRegistry.register(new OpenMeteoProvider(), {
+  priority: 30,
+  trust: 0.7,
+  enabled: !disabledProviders.includes('open-meteo'),
+});
+
+export const snowDataOrchestrator = new SnowDataOrchestrator(snowDataRegistry);
@@ -0,0 +1,23 @@
+import { onTheSnowScraper, OnTheSnowScraper } from '../onTheSnow.js';
+import type { ResortQuery, ResortSnowData, SnowDataProvider, TopSnowfallResort } from './types.js';
+
+export class OnTheSnowProvider implements SnowDataProvider {
+  readonly id = 'onthesnow';
+  readonly displayName = 'OnTheSnow';
+
+  constructor(private scraper: OnTheSnowScraper = onTheSnowScraper) {}
+
+  async fetchResortSnowData(query: ResortQuery): Promise<ResortSnowData> {
+    return this.scraper.fetchResortSnowData(query.name, query.state, query.externalIds?.[this.id], query.country);
+  }
+
+  async fetchTopSnowfallResorts(region: string, limit: number): Promise<TopSnowfallResort[]> {
+    const resorts = await this.scraper.fetchTopSnowfallResorts(region, limit);
+    // The scraper swallows errors and returns []; treat that as a failure so
+    // the orchestrator moves on to the next provider.
+    if (resorts.length === 0) {
+      throw new Error('No data from scraper');
+    }
+    return resorts;
+  }
+}
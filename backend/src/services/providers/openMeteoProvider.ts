@@ -0,0 +1,95 @@
+import type { ElevationBandForecast, HourlyForecastPoint, HourlyForecastQuery, SnowDataProvider } from './types.js';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const HOURLY_VARIABLES = ['temperature_2m', 'snowfall', 'rain', 'wind_speed_10m', 'freezing_level_height'];
+const FEET_PER_METER = 3.28084;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+interface OpenMeteoResponse {
+  /** Meters; the requested elevation or the terrain elevation at the point */
+  elevation: number;
+  hourly?: {
+    time: string[];
+    temperature_2m: Array<number | null>;
+    snowfall: Array<number | null>;
+    rain: Array<number | null>;
+    wind_speed_10m: Array<number | null>;
+    freezing_level_height: Array<number | null>;
+  };
+}
+
+function toFeet(meters: number | null | undefined): number | null {
+  return meters === null || meters === undefined ? null : Math.round(meters * FEET_PER_METER);
+}
+
+function toMeters(feet: number): number {
+  return Math.round(feet / FEET_PER_METER);
+}
+
+/**
+ * Open-Meteo weather API (no key required). Only provides hourly forecasts:
+ * it is queried once per elevation band and downscales temperature and
+ * precipitation type to the requested elevation.
+ */
+export class OpenMeteoProvider implements SnowDataProvider {
+  readonly id = 'open-meteo';
+  readonly displayName = 'Open-Meteo';
+
+  constructor(private forecastDays = 7) {}
+
+  async fetchHourlyForecast(query: HourlyForecastQuery): Promise<HourlyForecastPoint[]> {
+    const [base, summit] = await Promise.all([
+      this.fetchBand(query, query.baseElevation),
+      query.summitElevation ? this.fetchBand(query, query.summitElevation) : Promise.resolve(null),
+    ]);
+
+    const baseHourly = base.hourly!;
+    const baseElevation = query.baseElevation ?? toFeet(base.elevation);
+
+    return baseHourly.time.map((time, i) => ({
+      // Requested in GMT, so the local-looking timestamps are UTC
+      time: new Date(`${time}:00Z`).toISOString(),
+      base: this.toBand(base, i, baseElevation),
+      summit: summit ? this.toBand(summit, i, query.summitElevation ?? null) : null,
+      freezingLevel: toFeet(baseHourly.freezing_level_height[i]),
+    }));
+  }
+
+  private async fetchBand(query: HourlyForecastQuery, elevationFeet?: number | null): Promise<OpenMeteoResponse> {
+    const params = new URLSearchParams({
+      latitude: String(query.latitude),
+      longitude: String(query.longitude),
+      hourly: HOURLY_VARIABLES.join(','),
+      temperature_unit: 'fahrenheit',
+      wind_speed_unit: 'mph',
+      precipitation_unit: 'inch',
+      timezone: 'GMT',
+      forecast_days: String(this.forecastDays),
+    });
+    if (elevationFeet) params.set('elevation', String(toMeters(elevationFeet)));
+
+    const response = await fetch(`${FORECAST_URL}?${params}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Open-Meteo returned HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as OpenMeteoResponse;
+    if (!data.hourly || !Array.isArray(data.hourly.time)) {
+      throw new Error('Open-Meteo response has no hourly data');
+    }
+    return data;
+  }
+
+  private toBand(data: OpenMeteoResponse, i: number, elevation: number | null): ElevationBandForecast {
+    const hourly = data.hourly!;
+    return {
+      elevation,
+      snow: Math.round((hourly.snowfall[i] ?? 0) * 100) / 100,
+      rain: Math.round((hourly.rain[i] ?? 0) * 100) / 100,
+      temp: Math.round(hourly.temperature_2m[i] ?? 0),
+      windSpeed: Math.round(hourly.wind_speed_10m[i] ?? 0),
+    };
+  }
+}
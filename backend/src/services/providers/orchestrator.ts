@@ -0,0 +1,153 @@
+import type { SnowDataProviderRegistry } from './registry.js';
+import type {
+  HourlyForecastPoint,
+  HourlyForecastQuery,
+  ProviderCapability,
+  ProviderResult,
+  ReconciledResult,
+  ResortQuery,
+  ResortSnowData,
+  SnowDataProvider,
+  TopSnowfallResort,
+} from './types.js';
+import { reconcileResortSnowData, type SourcedSnowData } from './reconcile.js';
+
+/**
+ * Thrown when every active provider failed (or none are active).
+ */
+export class SnowDataUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: Array<{ provider: string; error: string }>,
+  ) {
+    super(message);
+    this.name = 'SnowDataUnavailableError';
+  }
+}
+
+/**
+ * Single entry point for fetching snow data. Walks the registry in priority
+ * order and returns the first successful result, recording health as it goes.
+ */
+export class SnowDataOrchestrator {
+  constructor(private registry: SnowDataProviderRegistry) {}
+
+  async fetchResortSnowData(query: ResortQuery): Promise<ProviderResult<ResortSnowData>> {
+    return this.runChain('resort', `resort "${query.name}"`, (provider) => provider.fetchResortSnowData!(query));
+  }
+
+  /**
+   * Ask every active provider in parallel and reconcile the answers into one
+   * report with per-field provenance. Fallback-only providers are asked only
+   * when none of the others answered. Fails only when no provider answers.
+   */
+  async fetchReconciledResortSnowData(query: ResortQuery): Promise<ReconciledResult> {
+    const label = `resort "${query.name}"`;
+    const providers = this.registry.getActiveProviders('resort');
+    const attempts: Array<{ provider: string; error: string }> = [];
+
+    let results = await this.askAll(
+      providers.filter((provider) => !this.registry.isFallbackOnly(provider.id)),
+      query,
+      label,
+      attempts,
+    );
+    if (results.length === 0) {
+      results = await this.askAll(
+        providers.filter((provider) => this.registry.isFallbackOnly(provider.id)),
+        query,
+        label,
+        attempts,
+      );
+    }
+
+    if (results.length === 0) {
+      throw new SnowDataUnavailableError(
+        providers.length === 0
+          ? `No snow data providers available for ${label}`
+          : `All snow data providers failed for ${label}`,
+        attempts,
+      );
+    }
+
+    const { data, reconciliation } = reconcileResortSnowData(results);
+    console.log(
+      `[Source] Reconciled ${label} from ${reconciliation.sources.join(', ')} ` +
+        `(confidence ${reconciliation.confidence}${reconciliation.sourcesDisagree ? `, disagree on ${reconciliation.disagreements.join(', ')}` : ''})`,
+    );
+
+    return {
+      data,
+      source: reconciliation.sources.join('+'),
+      reconciliation,
+      results: results.map(({ source, data }) => ({ source, data })),
+    };
+  }
+
+  async fetchTopSnowfallResorts(region: string, limit: number): Promise<ProviderResult<TopSnowfallResort[]>> {
+    return this.runChain('top', `top snowfall for ${region}`, (provider) =>
+      provider.fetchTopSnowfallResorts!(region, limit),
+    );
+  }
+
+  async fetchHourlyForecast(query: HourlyForecastQuery): Promise<ProviderResult<HourlyForecastPoint[]>> {
+    return this.runChain('hourly', `hourly forecast for "${query.name}"`, (provider) =>
+      provider.fetchHourlyForecast!(query),
+    );
+  }
+
+  // Ask providers in parallel, recording failures in `attempts`
+  private async askAll(
+    providers: SnowDataProvider[],
+    query: ResortQuery,
+    label: string,
+    attempts: Array<{ provider: string; error: string }>,
+  ): Promise<SourcedSnowData[]> {
+    const settled = await Promise.allSettled(providers.map((provider) => provider.fetchResortSnowData!(query)));
+
+    const results: SourcedSnowData[] = [];
+    settled.forEach((outcome, i) => {
+      const provider = providers[i];
+      if (outcome.status === 'fulfilled') {
+        this.registry.recordSuccess(provider.id);
+        results.push({ source: provider.id, trust: this.registry.getTrust(provider.id), data: outcome.value });
+      } else {
+        this.registry.recordFailure(provider.id, outcome.reason);
+        const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        attempts.push({ provider: provider.id, error: message });
+        console.warn(`[Source] ${provider.displayName} failed for ${label}: ${message}`);
+      }
+    });
+    return results;
+  }
+
+  private async runChain<T>(
+    capability: ProviderCapability,
+    label: string,
+    call: (provider: SnowDataProvider) => Promise<T>,
+  ): Promise<ProviderResult<T>> {
+    const providers = this.registry.getActiveProviders(capability);
+    const attempts: Array<{ provider: string; error: string }> = [];
+
+    for (const provider of providers) {
+      try {
+        const data = await call(provider);
+        this.registry.recordSuccess(provider.id);
+        console.log(`[Source] Fetched ${label} from ${provider.displayName}`);
+        return { data, source: provider.id };
+      } catch (error) {
+        this.registry.recordFailure(provider.id, error);
+        const message = error instanceof Error ? error.message : String(error);
+        attempts.push({ provider: provider.id, error: message });
+        console.warn(`[Source] ${provider.displayName} failed for ${label}: ${message}`);
+      }
+    }
+
+    throw new SnowDataUnavailableError(
+      providers.length === 0
+        ? `No snow data providers available for ${label}`
+        : `All snow data providers failed for ${label}`,
+      attempts,
+    );
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Multi-source reconciliation
+ *
+ * Compares the same resort report from several providers field by field.
+ * Values that agree (within a tolerance) are blended by provider trust; values
+ * that don't are taken from the most trusted provider and flagged.
+ */
+
+import type {
+  FieldProvenance,
+  ProviderForecastDay,
+  ReconciledField,
+  Reconciliation,
+  ResortSnowData,
+} from './types.js';
+
+export interface SourcedSnowData {
+  source: string;
+  /** 0-1, from the provider registration */
+  trust: number;
+  data: ResortSnowData;
+}
+
+type NumericField = Exclude<ReconciledField, 'forecast'>;
+
+// Two values "agree" when they differ by at most max(absolute, relative * larger value)
+const TOLERANCES: Record<NumericField, { absolute: number; relative: number }> = {
+  baseDepth: { absolute: 6, relative: 0.2 },
+  last24Hours: { absolute: 2, relative: 0.3 },
+  last48Hours: { absolute: 3, relative: 0.3 },
+  liftsOpen: { absolute: 2, relative: 0.2 },
+  totalLifts: { absolute: 1, relative: 0.1 },
+  trailsOpen: { absolute: 5, relative: 0.2 },
+};
+
+const FORECAST_TOLERANCE = { absolute: 2, relative: 0.5 };
+// Share of matched forecast days that must agree before the forecast is flagged
+const FORECAST_MIN_AGREEMENT = 0.75;
+
+// Confidence multiplier applied to a value picked over a disagreeing source
+const DISAGREEMENT_PENALTY = 0.6;
+
+function withinTolerance(values: number[], tolerance: { absolute: number; relative: number }): boolean {
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  return max - min <= Math.max(tolerance.absolute, tolerance.relative * max);
+}
+
+/** Probability that at least one of the sources is right */
+function combinedTrust(trusts: number[]): number {
+  return 1 - trusts.reduce((acc, t) => acc * (1 - t), 1);
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function reconcileNumber(
+  field: NumericField,
+  candidates: SourcedSnowData[],
+): { value: number; provenance: FieldProvenance } | null {
+  const present = candidates.filter((c) => typeof c.data[field] === 'number' && Number.isFinite(c.data[field]));
+  if (present.length === 0) return null;
+
+  const values = Object.fromEntries(present.map((c) => [c.source, c.data[field]]));
+  const top = present[0]; // candidates are sorted by trust
+
+  if (present.length === 1) {
+    return {
+      value: top.data[field],
+      provenance: { source: top.source, confidence: round(top.trust), method: 'single', disagree: false, values },
+    };
+  }
+
+  if (withinTolerance(present.map((c) => c.data[field]), TOLERANCES[field])) {
+    const totalTrust = present.reduce((sum, c) => sum + c.trust, 0) || 1;
+    const blended = present.reduce((sum, c) => sum + c.data[field] * c.trust, 0) / totalTrust;
+    return {
+      value: Math.round(blended),
+      provenance: {
+        source: top.source,
+        confidence: round(combinedTrust(present.map((c) => c.trust))),
+        method: 'blended',
+        disagree: false,
+        values,
+      },
+    };
+  }
+
+  return {
+    value: top.data[field],
+    provenance: {
+      source: top.source,
+      confidence: round(top.trust * DISAGREEMENT_PENALTY),
+      method: 'trusted',
+      disagree: true,
+      values,
+    },
+  };
+}
+
+/**
+ * Forecast days are matched by date. Matching days whose snow amounts agree
+ * are blended; the field disagrees when any matched day is out of tolerance.
+ */
+function reconcileForecast(
+  candidates: SourcedSnowData[],
+): { forecast: ProviderForecastDay[]; provenance: FieldProvenance } | null {
+  const present = candidates.filter((c) => Array.isArray(c.data.forecast) && c.data.forecast.length > 0);
+  if (present.length === 0) return null;
+
+  const top = present[0];
+  const values: Record<string, number> = {};
+  let compared = 0;
+  let disagreeingDays = 0;
+
+  const forecast = top.data.forecast.map((day) => {
+    const matches = present
+      .map((c) => ({ candidate: c, day: c.data.forecast.find((d) => d.date === day.date) }))
+      .filter((m): m is { candidate: SourcedSnowData; day: ProviderForecastDay } => !!m.day);
+
+    for (const m of matches) {
+      values[m.candidate.source] = round((values[m.candidate.source] || 0) + (m.day.snowInches || 0), 1);
+    }
+    if (matches.length < 2) return day;
+
+    compared++;
+    const amounts = matches.map((m) => m.day.snowInches || 0);
+    if (!withinTolerance(amounts, FORECAST_TOLERANCE)) {
+      disagreeingDays++;
+      return day;
+    }
+
+    const totalTrust = matches.reduce((sum, m) => sum + m.candidate.trust, 0) || 1;
+    const blended = matches.reduce((sum, m) => sum + (m.day.snowInches || 0) * m.candidate.trust, 0) / totalTrust;
+    return { ...day, snowInches: round(blended, 1) };
+  });
+
+  if (present.length === 1 || compared === 0) {
+    return {
+      forecast,
+      provenance: { source: top.source, confidence: round(top.trust), method: 'single', disagree: false, values },
+    };
+  }
+
+  // Partial agreement scales the penalty: one bad day out of seven costs less than all seven
+  const agreement = 1 - disagreeingDays / compared;
+  const disagree = agreement < FORECAST_MIN_AGREEMENT;
+  const confidence = disagreeingDays > 0
+    ? top.trust * (DISAGREEMENT_PENALTY + (1 - DISAGREEMENT_PENALTY) * agreement)
+    : combinedTrust(present.map((c) => c.trust));
+  return {
+    forecast,
+    provenance: {
+      source: top.source,
+      confidence: round(confidence),
+      method: disagree ? 'trusted' : 'blended',
+      disagree,
+      values,
+    },
+  };
+}
+
+// Copy one field across; generic so the value keeps the field's type
+function fillField<K extends keyof ResortSnowData>(data: ResortSnowData, other: ResortSnowData, key: K): void {
+  data[key] = other[key];
+}
+
+/**
+ * Merge several provider results for the same resort into one report.
+ * Descriptive fields (name, location, conditions, ...) come from the most
+ * trusted provider, falling back to the others when it left them empty.
+ */
+export function reconcileResortSnowData(results: SourcedSnowData[]): {
+  data: ResortSnowData;
+  reconciliation: Reconciliation;
+} {
+  if (results.length === 0) {
+    throw new Error('Nothing to reconcile');
+  }
+
+  const ranked = [...results].sort((a, b) => b.trust - a.trust);
+
+  // Start from the most trusted payload and fill its gaps from the others
+  const data: ResortSnowData = { ...ranked[0].data };
+  for (const { data: other } of ranked.slice(1)) {
+    for (const key of Object.keys(other) as (keyof ResortSnowData)[]) {
+      if ((data[key] === undefined || data[key] === null || data[key] === '') && other[key] !== undefined) {
+        fillField(data, other, key);
+      }
+    }
+  }
+  const sourceUrls = Array.from(new Set(ranked.flatMap((r) => r.data.sourceUrls || [])));
+  if (sourceUrls.length > 0) data.sourceUrls = sourceUrls;
+
+  const fields: Reconciliation['fields'] = {};
+  for (const field of Object.keys(TOLERANCES) as NumericField[]) {
+    const result = reconcileNumber(field, ranked);
+    if (!result) continue;
+    data[field] = result.value;
+    fields[field] = result.provenance;
+  }
+
+  const forecast = reconcileForecast(ranked);
+  if (forecast) {
+    data.forecast = forecast.forecast;
+    fields.forecast = forecast.provenance;
+  }
+
+  const provenances = Object.values(fields) as FieldProvenance[];
+  const disagreements = (Object.keys(fields) as ReconciledField[]).filter((f) => fields[f]!.disagree);
+
+  return {
+    data,
+    reconciliation: {
+      sources: ranked.map((r) => r.source),
+      confidence: provenances.length
+        ? round(provenances.reduce((sum, p) => sum + p.confidence, 0) / provenances.length)
+        : round(ranked[0].trust),
+      sourcesDisagree: disagreements.length > 0,
+      disagreements,
+      fields,
+    },
+  };
+}
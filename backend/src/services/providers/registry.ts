@@ -0,0 +1,170 @@
+import type { ProviderCapability, SnowDataProvider } from './types.js';
+
+export interface ProviderRegistration {
+  /** Lower runs first */
+  priority: number;
+  enabled?: boolean;
+  /** 0-1 weight used when reconciling several sources (default 0.5) */
+  trust?: number;
+  /**
+   * Only ask this provider for a reconciled report when every other provider
+   * failed (for paid or rate-limited sources). Fallback chains are unaffected.
+   */
+  fallbackOnly?: boolean;
+}
+
+export interface ProviderHealth {
+  id: string;
+  displayName: string;
+  priority: number;
+  trust: number;
+  enabled: boolean;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  cooldownUntil: string | null;
+}
+
+interface ProviderEntry {
+  provider: SnowDataProvider;
+  priority: number;
+  trust: number;
+  enabled: boolean;
+  fallbackOnly: boolean;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  cooldownUntil: number | null;
+}
+
+// Provider method backing each capability
+const CAPABILITY_METHODS: Record<ProviderCapability, keyof SnowDataProvider> = {
+  resort: 'fetchResortSnowData',
+  top: 'fetchTopSnowfallResorts',
+  hourly: 'fetchHourlyForecast',
+};
+
+function isAvailable(entry: ProviderEntry): boolean {
+  return entry.provider.isAvailable?.() ?? true;
+}
+
+// After this many failures in a row a provider is skipped for COOLDOWN_MS.
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Registry of snow data providers with priority ordering and per-provider health.
+ */
+export class SnowDataProviderRegistry {
+  private entries = new Map<string, ProviderEntry>();
+
+  register(provider: SnowDataProvider, registration: ProviderRegistration): void {
+    this.entries.set(provider.id, {
+      provider,
+      priority: registration.priority,
+      trust: Math.min(1, Math.max(0, registration.trust ?? 0.5)),
+      enabled: registration.enabled ?? true,
+      fallbackOnly: registration.fallbackOnly ?? false,
+      consecutiveFailures: 0,
+      totalSuccesses: 0,
+      totalFailures: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      cooldownUntil: null,
+    });
+  }
+
+  unregister(id: string): void {
+    this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get(id: string): SnowDataProvider | undefined {
+    return this.entries.get(id)?.provider;
+  }
+
+  getTrust(id: string): number {
+    return this.entries.get(id)?.trust ?? 0.5;
+  }
+
+  isFallbackOnly(id: string): boolean {
+    return this.entries.get(id)?.fallbackOnly ?? false;
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const entry = this.entries.get(id);
+    if (entry) entry.enabled = enabled;
+  }
+
+  /**
+   * Providers that are enabled, available, support the capability and are not
+   * cooling down, ordered by priority.
+   */
+  getActiveProviders(capability: ProviderCapability = 'resort'): SnowDataProvider[] {
+    const now = Date.now();
+    return Array.from(this.entries.values())
+      .filter((e) => e.enabled && isAvailable(e))
+      .filter((e) => !e.cooldownUntil || e.cooldownUntil <= now)
+      .filter((e) => typeof e.provider[CAPABILITY_METHODS[capability]] === 'function')
+      .sort((a, b) => a.priority - b.priority)
+      .map((e) => e.provider);
+  }
+
+  recordSuccess(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.consecutiveFailures = 0;
+    entry.totalSuccesses++;
+    entry.lastSuccessAt = Date.now();
+    entry.cooldownUntil = null;
+  }
+
+  recordFailure(id: string, error: unknown): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.consecutiveFailures++;
+    entry.totalFailures++;
+    entry.lastFailureAt = Date.now();
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    if (entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+      entry.cooldownUntil = Date.now() + COOLDOWN_MS;
+      console.warn(
+        `[Providers] ${id} failed ${entry.consecutiveFailures} times in a row, cooling down for ${COOLDOWN_MS / 1000}s`,
+      );
+    }
+  }
+
+  getHealth(): ProviderHealth[] {
+    const now = Date.now();
+    const toIso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.priority - b.priority)
+      .map((e) => ({
+        id: e.provider.id,
+        displayName: e.provider.displayName,
+        priority: e.priority,
+        trust: e.trust,
+        enabled: e.enabled,
+        healthy: e.enabled && isAvailable(e) && (!e.cooldownUntil || e.cooldownUntil <= now),
+        consecutiveFailures: e.consecutiveFailures,
+        totalSuccesses: e.totalSuccesses,
+        totalFailures: e.totalFailures,
+        lastSuccessAt: toIso(e.lastSuccessAt),
+        lastFailureAt: toIso(e.lastFailureAt),
+        lastError: e.lastError,
+        cooldownUntil: e.cooldownUntil && e.cooldownUntil > now ? toIso(e.cooldownUntil) : null,
+      }));
+  }
+}
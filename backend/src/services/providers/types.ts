@@ -0,0 +1,167 @@
+/**
+ * Snow Data Provider contracts
+ *
+ * Every weather/snow source (scrapers, AI search, APIs) implements
+ * `SnowDataProvider` so routes never talk to a concrete source directly.
+ */
+
+export interface ProviderForecastDay {
+  date: string;
+  dayName: string;
+  snowInches: number;
+  tempHigh: number;
+  tempLow: number;
+  condition: string;
+  snowProbability?: number;
+  windSpeed?: number;
+}
+
+export interface ResortSnowData {
+  name: string;
+  location: string;
+  baseDepth: number;
+  last24Hours: number;
+  last48Hours: number;
+  last7Days?: number;
+  liftsOpen: number;
+  totalLifts: number;
+  trailsOpen: number;
+  totalTrails: number;
+  ticketPrice?: string;
+  websiteUrl?: string;
+  conditions?: string;
+  description?: string;
+  latitude?: number;
+  longitude?: number;
+  forecast: ProviderForecastDay[];
+  sourceUrls?: string[];
+}
+
+export interface TopSnowfallResort {
+  name: string;
+  location: string;
+  /** ISO 3166-1 alpha-2; US when the source doesn't say */
+  country?: string;
+  /** State, province or prefecture code (CO, BC, 01) */
+  state: string;
+  /** Region from the country's taxonomy, when the source knows it */
+  region?: string;
+  predictedSnow: number;
+  summary: string;
+  snow72h?: number;
+  baseDepth?: number;
+  conditions?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ResortQuery {
+  /** Human readable resort name, e.g. "Jackson Hole" */
+  name: string;
+  /** State or province code when known (helps scrapers build URLs) */
+  state?: string;
+  /** ISO 3166-1 alpha-2 country code; US when omitted */
+  country?: string;
+  /** Ids the resort is known by at each provider, keyed by provider id */
+  externalIds?: Record<string, string>;
+}
+
+export interface HourlyForecastQuery {
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** Feet; sources fall back to terrain elevation when unknown */
+  baseElevation?: number | null;
+  summitElevation?: number | null;
+}
+
+export interface ElevationBandForecast {
+  /** Feet */
+  elevation: number | null;
+  /** Inches */
+  snow: number;
+  /** Inches */
+  rain: number;
+  /** Fahrenheit */
+  temp: number;
+  /** mph */
+  windSpeed: number;
+}
+
+export interface HourlyForecastPoint {
+  /** ISO timestamp (UTC) of the start of the hour */
+  time: string;
+  base: ElevationBandForecast;
+  /** Null when the resort's summit elevation is unknown */
+  summit: ElevationBandForecast | null;
+  /** Feet above sea level */
+  freezingLevel: number | null;
+}
+
+export interface SnowDataProvider {
+  /** Stable identifier stored in `snow_reports.data_source` */
+  readonly id: string;
+  /** Display name for logs and health output */
+  readonly displayName: string;
+
+  /** Optional: false while the source can't be used, e.g. without its API key */
+  isAvailable?(): boolean;
+
+  /** Optional: weather-only sources have no resort report */
+  fetchResortSnowData?(query: ResortQuery): Promise<ResortSnowData>;
+
+  /** Optional: not every source can rank resorts by snowfall */
+  fetchTopSnowfallResorts?(region: string, limit: number): Promise<TopSnowfallResort[]>;
+
+  /** Optional: hourly forecast at the resort's base and summit elevations */
+  fetchHourlyForecast?(query: HourlyForecastQuery): Promise<HourlyForecastPoint[]>;
+}
+
+export type ProviderCapability = 'resort' | 'top' | 'hourly';
+
+export interface ProviderResult<T> {
+  data: T;
+  /** Id of the provider that produced `data` */
+  source: string;
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+/** Report fields compared across providers */
+export type ReconciledField =
+  | 'baseDepth'
+  | 'last24Hours'
+  | 'last48Hours'
+  | 'liftsOpen'
+  | 'totalLifts'
+  | 'trailsOpen'
+  | 'forecast';
+
+export interface FieldProvenance {
+  /** Provider whose value was used (or the most trusted one when blended) */
+  source: string;
+  /** 0-1 */
+  confidence: number;
+  /** single: one source; blended: sources agreed and were trust-weighted; trusted: sources disagreed, most trusted wins */
+  method: 'single' | 'blended' | 'trusted';
+  disagree: boolean;
+  /** Raw value per provider (forecast: total predicted snow over the compared days) */
+  values: Record<string, number>;
+}
+
+export interface Reconciliation {
+  sources: string[];
+  /** Mean of the per-field confidences, 0-1 */
+  confidence: number;
+  sourcesDisagree: boolean;
+  disagreements: ReconciledField[];
+  fields: Partial<Record<ReconciledField, FieldProvenance>>;
+}
+
+export interface ReconciledResult extends ProviderResult<ResortSnowData> {
+  reconciliation: Reconciliation;
+  /** Raw data from each provider that answered, before reconciliation */
+  results: ProviderResult<ResortSnowData>[];
+}
@@ -0,0 +1,158 @@
+/**
+ * Refresh priority
+ *
+ * Decides which resorts the scheduled refresh spends its scrape budget on.
+ * Each resort gets a target refresh interval: the base interval
+ * (`REFRESH_INTERVAL_HOURS`) for resorts with a storm coming or many people
+ * watching them, up to `QUIET_INTERVAL_MULTIPLIER` times longer for quiet ones,
+ * and daily for dormant resorts (closed, no base, no snow forecast). A resort
+ * is due once its data is older than its interval; due resorts are refreshed
+ * most overdue first.
+ */
+
+import { getToday, parseDbTimestamp } from '../db/supabase.js';
+import {
+  resortRepo,
+  snowReportRepo,
+  forecastRepo,
+  alertRepo,
+  favoriteRepo,
+  searchLogRepo,
+  isMissingTableError,
+} from '../db/repositories/index.js';
+import { addDays } from './snowHistory.js';
+
+/** Forecast days counted as the coming storm (today and the next two) */
+const STORM_WINDOW_DAYS = 3;
+/** Storm snow at which the storm weight is maxed out */
+const STORM_FULL_WEIGHT_INCHES = 12;
+const STORM_WEIGHT = 3;
+/** Per log-scaled follower; an alert subscription counts as two favorites */
+const INTEREST_WEIGHT = 1;
+const SEARCH_WEIGHT = 0.5;
+const SEARCH_WINDOW_DAYS = 7;
+
+/** A resort with no signals at all refreshes this many base intervals apart */
+const QUIET_INTERVAL_MULTIPLIER = 6;
+const DORMANT_INTERVAL_HOURS = 24;
+/** Staleness assumed for resorts that were never refreshed */
+const NEVER_REFRESHED_HOURS = 365 * 24;
+
+export interface RefreshSignals {
+  /** Forecast snow over the storm window, inches */
+  stormInches: number;
+  subscriptions: number;
+  favorites: number;
+  /** Searches that resolved to the resort in the last week */
+  searches: number;
+  /** Hours since the last snow report; null if there is none */
+  stalenessHours: number | null;
+}
+
+export interface RefreshPriority {
+  resortId: string;
+  name: string;
+  signals: RefreshSignals;
+  /** 1 for a quiet resort, higher the more the resort matters right now */
+  weight: number;
+  dormant: boolean;
+  /** How often this resort should be refreshed */
+  intervalHours: number;
+  /** Staleness over interval; due at 1 */
+  score: number;
+  due: boolean;
+}
+
+export interface RefreshPriorityOptions {
+  /** Interval for the most important resorts */
+  baseIntervalHours: number;
+  now?: number;
+}
+
+/** Relative importance from storm and interest signals */
+export function refreshWeight(signals: RefreshSignals): number {
+  const storm = Math.min(signals.stormInches / STORM_FULL_WEIGHT_INCHES, 1);
+  const followers = 2 * signals.subscriptions + signals.favorites;
+  return (
+    1 +
+    STORM_WEIGHT * storm +
+    INTEREST_WEIGHT * Math.log1p(followers) +
+    SEARCH_WEIGHT * Math.log1p(signals.searches)
+  );
+}
+
+/** Counts that read as empty when the alert tables aren't migrated yet */
+async function orEmpty(counts: Promise<Map<string, number>>): Promise<Map<string, number>> {
+  try {
+    return await counts;
+  } catch (error) {
+    if (isMissingTableError(error)) return new Map();
+    throw error;
+  }
+}
+
+/** Every resort with its refresh signals and score, most urgent first */
+export async function rankResortsForRefresh(options: RefreshPriorityOptions): Promise<RefreshPriority[]> {
+  const now = options.now ?? Date.now();
+  const today = getToday();
+  const base = options.baseIntervalHours;
+
+  const [resorts, latestReports, forecasts, subscriptions, favorites, searches] = await Promise.all([
+    resortRepo.list(),
+    snowReportRepo.findLatestByResort(),
+    forecastRepo.list({ from: today, to: addDays(today, STORM_WINDOW_DAYS - 1) }),
+    orEmpty(alertRepo.countActiveByResort()),
+    favoriteRepo.countByResort(),
+    searchLogRepo.countByResortSince(new Date(now - SEARCH_WINDOW_DAYS * 86_400_000).toISOString()),
+  ]);
+
+  const stormByResort = new Map<string, number>();
+  for (const forecast of forecasts) {
+    stormByResort.set(forecast.resort_id, (stormByResort.get(forecast.resort_id) || 0) + (forecast.predicted_snow || 0));
+  }
+
+  const ranked = resorts.map((resort): RefreshPriority => {
+    const report = latestReports.get(resort.id);
+    const reportedAt = report ? parseDbTimestamp(report.created_at) : 0;
+    const signals: RefreshSignals = {
+      stormInches: Math.round((stormByResort.get(resort.id) || 0) * 10) / 10,
+      subscriptions: subscriptions.get(resort.id) || 0,
+      favorites: favorites.get(resort.id) || 0,
+      searches: searches.get(resort.id) || 0,
+      stalenessHours: reportedAt ? Math.max(0, (now - reportedAt) / 3_600_000) : null,
+    };
+
+    // Closed for the season: nothing open, no base and no snow on the way
+    const dormant = !!report && !report.lifts_open && !report.base_depth && signals.stormInches < 1;
+    const weight = refreshWeight(signals);
+    const intervalHours = dormant
+      ? DORMANT_INTERVAL_HOURS
+      : Math.min(Math.max((base * QUIET_INTERVAL_MULTIPLIER) / weight, base), base * QUIET_INTERVAL_MULTIPLIER);
+    const score = (signals.stalenessHours ?? NEVER_REFRESHED_HOURS) / intervalHours;
+
+    return {
+      resortId: resort.id,
+      name: resort.name,
+      signals: {
+        ...signals,
+        stalenessHours: signals.stalenessHours === null ? null : Math.round(signals.stalenessHours * 10) / 10,
+      },
+      weight: Math.round(weight * 100) / 100,
+      dormant,
+      intervalHours: Math.round(intervalHours * 100) / 100,
+      score: Math.round(score * 100) / 100,
+      due: score >= 1,
+    };
+  });
+
+  return ranked.sort((a, b) => b.score - a.score || b.weight - a.weight);
+}
+
+/** The most overdue resorts, at most `budget` of them */
+export async function selectResortsToRefresh(
+  budget: number,
+  options: RefreshPriorityOptions,
+): Promise<RefreshPriority[]> {
+  const ranked = await rankResortsForRefresh(options);
+  return ranked.filter((r) => r.due).slice(0, Math.max(0, budget));
+}
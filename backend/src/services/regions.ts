@@ -0,0 +1,267 @@
+/**
+ * Countries, sub-regions and region taxonomies
+ *
+ * Every resort has a `country` (ISO 3166-1 alpha-2), a `state` (the ISO
+ * 3166-2 subdivision code without the country prefix: CO, BC, 74, 01), its
+ * `sub_region` (the subdivision's name: Colorado, British Columbia,
+ * Haute-Savoie, Hokkaido) and a `region` from its country's taxonomy
+ * (Rockies, Western Canada, Alps, Hokkaido). The OnTheSnow section slugs for
+ * each country and subdivision live here too, so the scraper, discovery,
+ * ingestion and the filters all agree.
+ */
+
+export interface Country {
+  /** ISO 3166-1 alpha-2 */
+  code: string;
+  name: string;
+  /** OnTheSnow section with the country's directory and snow report table */
+  onTheSnowSlug: string;
+  /** Region taxonomy, broadest first */
+  regions: string[];
+}
+
+export interface Subdivision {
+  country: string;
+  /** ISO 3166-2 code without the country prefix */
+  code: string;
+  name: string;
+  region: string;
+  /** OnTheSnow's path segment for resorts here, e.g. /british-columbia/whistler-blackcomb */
+  onTheSnowSlug: string;
+  /** Other names the subdivision goes by in provider locations */
+  aliases?: string[];
+}
+
+export interface Place {
+  country: string;
+  /** Subdivision code; the country code when the subdivision is unknown (the old 'US' placeholder) */
+  state: string;
+  subRegion: string | null;
+  region: string;
+  /** Display location, e.g. "British Columbia, Canada" */
+  location: string;
+}
+
+/** A region filter: any of the fields set must match */
+export interface PlaceFilter {
+  country?: string;
+  state?: string;
+  region?: string;
+}
+
+/** Region of resorts outside every taxonomy */
+export const OTHER_REGION = 'Other';
+export const DEFAULT_COUNTRY = 'US';
+
+export const COUNTRIES: Country[] = [
+  { code: 'US', name: 'USA', onTheSnowSlug: 'united-states', regions: ['Rockies', 'Pacific', 'Northeast', 'Midwest'] },
+  { code: 'CA', name: 'Canada', onTheSnowSlug: 'canada', regions: ['Western Canada', 'Eastern Canada'] },
+  { code: 'FR', name: 'France', onTheSnowSlug: 'france', regions: ['Alps', 'Pyrenees'] },
+  { code: 'CH', name: 'Switzerland', onTheSnowSlug: 'switzerland', regions: ['Alps'] },
+  { code: 'AT', name: 'Austria', onTheSnowSlug: 'austria', regions: ['Alps'] },
+  { code: 'IT', name: 'Italy', onTheSnowSlug: 'italy', regions: ['Alps'] },
+  { code: 'JP', name: 'Japan', onTheSnowSlug: 'japan', regions: ['Hokkaido', 'Honshu'] },
+];
+
+export const SUBDIVISIONS: Subdivision[] = [
+  // USA
+  { country: 'US', code: 'CO', name: 'Colorado', region: 'Rockies', onTheSnowSlug: 'colorado' },
+  { country: 'US', code: 'UT', name: 'Utah', region: 'Rockies', onTheSnowSlug: 'utah' },
+  { country: 'US', code: 'WY', name: 'Wyoming', region: 'Rockies', onTheSnowSlug: 'wyoming' },
+  { country: 'US', code: 'MT', name: 'Montana', region: 'Rockies', onTheSnowSlug: 'montana' },
+  { country: 'US', code: 'ID', name: 'Idaho', region: 'Rockies', onTheSnowSlug: 'idaho' },
+  { country: 'US', code: 'NM', name: 'New Mexico', region: 'Rockies', onTheSnowSlug: 'new-mexico' },
+  { country: 'US', code: 'AZ', name: 'Arizona', region: 'Rockies', onTheSnowSlug: 'arizona' },
+  { country: 'US', code: 'CA', name: 'California', region: 'Pacific', onTheSnowSlug: 'california' },
+  { country: 'US', code: 'WA', name: 'Washington', region: 'Pacific', onTheSnowSlug: 'washington' },
+  { country: 'US', code: 'OR', name: 'Oregon', region: 'Pacific', onTheSnowSlug: 'oregon' },
+  { country: 'US', code: 'NV', name: 'Nevada', region: 'Pacific', onTheSnowSlug: 'nevada' },
+  { country: 'US', code: 'AK', name: 'Alaska', region: 'Pacific', onTheSnowSlug: 'alaska' },
+  { country: 'US', code: 'VT', name: 'Vermont', region: 'Northeast', onTheSnowSlug: 'vermont' },
+  { country: 'US', code: 'NH', name: 'New Hampshire', region: 'Northeast', onTheSnowSlug: 'new-hampshire' },
+  { country: 'US', code: 'ME', name: 'Maine', region: 'Northeast', onTheSnowSlug: 'maine' },
+  { country: 'US', code: 'NY', name: 'New York', region: 'Northeast', onTheSnowSlug: 'new-york' },
+  { country: 'US', code: 'MA', name: 'Massachusetts', region: 'Northeast', onTheSnowSlug: 'massachusetts' },
+  { country: 'US', code: 'CT', name: 'Connecticut', region: 'Northeast', onTheSnowSlug: 'connecticut' },
+  { country: 'US', code: 'PA', name: 'Pennsylvania', region: 'Northeast', onTheSnowSlug: 'pennsylvania' },
+  { country: 'US', code: 'MI', name: 'Michigan', region: 'Midwest', onTheSnowSlug: 'michigan' },
+  { country: 'US', code: 'WI', name: 'Wisconsin', region: 'Midwest', onTheSnowSlug: 'wisconsin' },
+  { country: 'US', code: 'MN', name: 'Minnesota', region: 'Midwest', onTheSnowSlug: 'minnesota' },
+  { country: 'US', code: 'OH', name: 'Ohio', region: 'Midwest', onTheSnowSlug: 'ohio' },
+  // Canada
+  { country: 'CA', code: 'BC', name: 'British Columbia', region: 'Western Canada', onTheSnowSlug: 'british-columbia' },
+  { country: 'CA', code: 'AB', name: 'Alberta', region: 'Western Canada', onTheSnowSlug: 'alberta' },
+  { country: 'CA', code: 'QC', name: 'Quebec', region: 'Eastern Canada', onTheSnowSlug: 'quebec', aliases: ['Québec'] },
+  { country: 'CA', code: 'ON', name: 'Ontario', region: 'Eastern Canada', onTheSnowSlug: 'ontario' },
+  // Alps
+  { country: 'FR', code: '74', name: 'Haute-Savoie', region: 'Alps', onTheSnowSlug: 'haute-savoie' },
+  { country: 'FR', code: '73', name: 'Savoie', region: 'Alps', onTheSnowSlug: 'savoie' },
+  { country: 'FR', code: '38', name: 'Isère', region: 'Alps', onTheSnowSlug: 'isere', aliases: ['Isere'] },
+  { country: 'FR', code: '65', name: 'Hautes-Pyrénées', region: 'Pyrenees', onTheSnowSlug: 'hautes-pyrenees', aliases: ['Hautes-Pyrenees'] },
+  { country: 'CH', code: 'VS', name: 'Valais', region: 'Alps', onTheSnowSlug: 'valais', aliases: ['Wallis'] },
+  { country: 'CH', code: 'GR', name: 'Graubünden', region: 'Alps', onTheSnowSlug: 'graubunden', aliases: ['Graubunden', 'Grisons'] },
+  { country: 'CH', code: 'BE', name: 'Bern', region: 'Alps', onTheSnowSlug: 'bern', aliases: ['Bernese Oberland'] },
+  { country: 'AT', code: '7', name: 'Tyrol', region: 'Alps', onTheSnowSlug: 'tirol', aliases: ['Tirol'] },
+  { country: 'AT', code: '5', name: 'Salzburg', region: 'Alps', onTheSnowSlug: 'salzburg' },
+  { country: 'AT', code: '8', name: 'Vorarlberg', region: 'Alps', onTheSnowSlug: 'vorarlberg' },
+  { country: 'IT', code: '23', name: 'Aosta Valley', region: 'Alps', onTheSnowSlug: 'aosta-valley', aliases: ["Valle d'Aosta"] },
+  { country: 'IT', code: '32', name: 'Trentino-Alto Adige', region: 'Alps', onTheSnowSlug: 'trentino', aliases: ['Trentino', 'South Tyrol', 'Dolomites'] },
+  { country: 'IT', code: '21', name: 'Piedmont', region: 'Alps', onTheSnowSlug: 'piedmont', aliases: ['Piemonte'] },
+  // Japan
+  { country: 'JP', code: '01', name: 'Hokkaido', region: 'Hokkaido', onTheSnowSlug: 'hokkaido' },
+  { country: 'JP', code: '20', name: 'Nagano', region: 'Honshu', onTheSnowSlug: 'nagano' },
+  { country: 'JP', code: '15', name: 'Niigata', region: 'Honshu', onTheSnowSlug: 'niigata' },
+];
+
+export function countryByCode(code: string | null | undefined): Country | null {
+  return COUNTRIES.find((c) => c.code === (code || DEFAULT_COUNTRY)) ?? null;
+}
+
+export function findSubdivision(country: string | null | undefined, code: string | null | undefined): Subdivision | null {
+  if (!code) return null;
+  const countryCode = country || DEFAULT_COUNTRY;
+  return SUBDIVISIONS.find((s) => s.country === countryCode && s.code === code.toUpperCase()) ?? null;
+}
+
+export function subdivisionForOnTheSnowSlug(slug: string): Subdivision | null {
+  return SUBDIVISIONS.find((s) => s.onTheSnowSlug === slug.toLowerCase()) ?? null;
+}
+
+export function countryForOnTheSnowSlug(slug: string): Country | null {
+  return COUNTRIES.find((c) => c.onTheSnowSlug === slug.toLowerCase()) ?? null;
+}
+
+/** Whether a resort's state is a real subdivision rather than the country placeholder */
+export function hasKnownSubdivision(resort: { country?: string | null; state?: string | null }): boolean {
+  return !!resort.state && resort.state !== (resort.country || DEFAULT_COUNTRY);
+}
+
+/** Region of a subdivision, or Other */
+export function regionFor(country: string | null | undefined, state: string | null | undefined): string {
+  return findSubdivision(country, state)?.region ?? OTHER_REGION;
+}
+
+/** Resort columns for a subdivision */
+export function placeForSubdivision(subdivision: Subdivision): Place {
+  const country = countryByCode(subdivision.country)!;
+  return {
+    country: country.code,
+    state: subdivision.code,
+    subRegion: subdivision.name,
+    region: subdivision.region,
+    location: `${subdivision.name}, ${country.name}`,
+  };
+}
+
+/**
+ * Resort columns for a country and subdivision code; resorts in an unknown
+ * subdivision keep the country as their state and land in Other
+ */
+export function placeFor(country: string | null | undefined, state: string | null | undefined): Place {
+  const subdivision = findSubdivision(country, state);
+  if (subdivision) return placeForSubdivision(subdivision);
+  const known = countryByCode(country);
+  const code = known?.code ?? (country || DEFAULT_COUNTRY);
+  return {
+    country: code,
+    state: state || code,
+    subRegion: null,
+    // Countries with a single region (Switzerland: Alps) don't need the subdivision
+    region: known?.regions.length === 1 ? known.regions[0] : OTHER_REGION,
+    location: known?.name ?? code,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest names first so "Haute-Savoie" wins over "Savoie"
+const SUBDIVISION_NAMES = SUBDIVISIONS.flatMap((s) =>
+  [s.name, ...(s.aliases ?? [])].map((name) => ({ subdivision: s, pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i'), length: name.length })),
+).sort((a, b) => b.length - a.length);
+
+/**
+ * Place from a provider's free-text location ("Whistler, BC, Canada",
+ * "Niseko, Hokkaido", "Vail, Colorado"); null when no country or
+ * subdivision is recognizable.
+ */
+export function placeFromLocation(location: string | null | undefined): Place | null {
+  if (!location) return null;
+
+  const byName = SUBDIVISION_NAMES.find((entry) => entry.pattern.test(location));
+  if (byName) return placeForSubdivision(byName.subdivision);
+
+  // Letter codes as separate words ("Vail, CO"); US and Canadian codes don't overlap
+  const tokens = location.split(/[\s,]+/).filter(Boolean);
+  const byCode = SUBDIVISIONS.find((s) => /^[A-Z]{2}$/.test(s.code) && tokens.includes(s.code) && (s.country === 'US' || s.country === 'CA'));
+  if (byCode) return placeForSubdivision(byCode);
+
+  const country = COUNTRIES.find((c) => new RegExp(`\\b${escapeRegExp(c.name)}\\b`, 'i').test(location));
+  return country ? placeFor(country.code, null) : null;
+}
+
+/**
+ * Parse a region filter as used by the top lists and the map: `All`, a US
+ * state code (CO), an ISO 3166-2 code (CA-BC, JP-01), a country name
+ * (Canada, Japan) or a region name (Rockies, Alps). Null means no filter;
+ * unknown values filter on state or region as before.
+ */
+export function parsePlaceFilter(filter: string | null | undefined): PlaceFilter | null {
+  if (!filter || filter === 'All') return null;
+
+  const iso = filter.match(/^([A-Z]{2})-([A-Z0-9]{1,3})$/i);
+  if (iso) {
+    const subdivision = findSubdivision(iso[1].toUpperCase(), iso[2]);
+    if (subdivision) return { country: subdivision.country, state: subdivision.code };
+  }
+
+  const usState = findSubdivision('US', filter);
+  if (usState) return { country: 'US', state: usState.code };
+
+  const country = COUNTRIES.find((c) => c.name.toLowerCase() === filter.toLowerCase());
+  if (country) return { country: country.code };
+
+  const region = COUNTRIES.flatMap((c) => c.regions).find((r) => r.toLowerCase() === filter.toLowerCase());
+  if (region) return { region };
+
+  return /^[A-Z]{2}$/.test(filter) ? { state: filter } : { region: filter };
+}
+
+export function matchesPlaceFilter(
+  resort: { country?: string | null; state?: string | null; region?: string | null },
+  filter: PlaceFilter | null,
+): boolean {
+  if (!filter) return true;
+  if (filter.country && (resort.country || DEFAULT_COUNTRY) !== filter.country) return false;
+  if (filter.state && resort.state !== filter.state) return false;
+  if (filter.region && resort.region !== filter.region) return false;
+  return true;
+}
+
+/** Countries a filter can match resorts in */
+export function countriesForFilter(filter: PlaceFilter | null): Country[] {
+  if (!filter) return COUNTRIES;
+  if (filter.country) return COUNTRIES.filter((c) => c.code === filter.country);
+  if (filter.region) return COUNTRIES.filter((c) => c.regions.includes(filter.region!));
+  return COUNTRIES.filter((c) => c.code === DEFAULT_COUNTRY);
+}
+
+/** Human description of a filter for prompts, e.g. "Colorado, USA" or "the Alps" */
+export function describePlaceFilter(filter: string | null | undefined): string {
+  const parsed = parsePlaceFilter(filter);
+  if (!parsed) return 'the USA, Canada, the Alps and Japan';
+  if (parsed.state) {
+    const subdivision = findSubdivision(parsed.country, parsed.state);
+    return subdivision ? placeForSubdivision(subdivision).location : parsed.state;
+  }
+  if (parsed.country) return countryByCode(parsed.country)?.name ?? parsed.country;
+  const countries = countriesForFilter(parsed).map((c) => c.name);
+  if (countries.length === 0) return parsed.region ?? '';
+  return parsed.region === 'Alps' ? `the Alps (${countries.join(', ')})` : `${parsed.region} (${countries.join(', ')})`;
+}
+
+/** All region names across countries, for summaries */
+export function allRegions(): string[] {
+  return [...new Set(COUNTRIES.flatMap((c) => c.regions))];
+}
@@ -0,0 +1,224 @@
+/**
+ * Resort discovery
+ *
+ * Finds resorts in OnTheSnow's directory and keeps their metadata complete.
+ * `populateKnownResorts` adds each new resort with the country and state its
+ * region slug maps to (colorado → US/CO, hokkaido → JP/01) and fixes older
+ * rows that were stored without a subdivision or region. `enrichResort` then fills in what the directory doesn't list:
+ * coordinates, elevations, lift and trail totals and the resort's website,
+ * from its OnTheSnow overview page, with coordinates geocoded by name when
+ * the page has none. Enrichment only fills empty columns, so values from the
+ * snow reports or an admin are never overwritten.
+ */
+
+import { resortRepo } from '../db/repositories/index.js';
+import type { Resort, ResortUpdate } from '../types/database.js';
+import { onTheSnowScraper, type ResortOverview } from './onTheSnow.js';
+import { resolveResortId, linkExternalIds, onTheSnowReportPath, getExternalIds } from './resortIdentity.js';
+import { geocodeResort } from './geocoding.js';
+import { OTHER_REGION, hasKnownSubdivision, placeFor, placeForSubdivision, subdivisionForOnTheSnowSlug } from './regions.js';
+
+export interface DiscoveryResult {
+  discovered: number;
+  added: number;
+  /** Existing rows whose country, state, region or location were placeholders */
+  fixed: number;
+  /** Resorts still missing coordinates, elevations or totals */
+  needsEnrichment: string[];
+}
+
+export interface EnrichmentResult {
+  resortId: string;
+  /** Resort columns that were filled in (API names, e.g. `baseElevation`) */
+  fieldsUpdated: string[];
+  coordinatesFrom: 'onthesnow' | 'geocoding' | null;
+}
+
+/** Columns discovery fills in, by API name */
+const ENRICHED_COLUMNS: Record<string, keyof ResortUpdate> = {
+  latitude: 'latitude',
+  longitude: 'longitude',
+  baseElevation: 'base_elevation',
+  summitElevation: 'summit_elevation',
+  verticalDrop: 'vertical_drop',
+  totalLifts: 'total_lifts',
+  totalTrails: 'total_trails',
+  websiteUrl: 'website_url',
+};
+
+function hasCoordinates(resort: Resort): boolean {
+  return !!resort.latitude && !!resort.longitude;
+}
+
+/** Placeholder website: the OnTheSnow page the resort was discovered on */
+function isPlaceholderWebsite(url: string | null): boolean {
+  return !url || url.includes('onthesnow.com');
+}
+
+/** Whether a resort is missing anything the overview page can fill in */
+export function needsEnrichment(resort: Resort): boolean {
+  return (
+    !hasCoordinates(resort) ||
+    resort.base_elevation == null ||
+    resort.summit_elevation == null ||
+    !resort.total_lifts ||
+    !resort.total_trails ||
+    isPlaceholderWebsite(resort.website_url)
+  );
+}
+
+type PlaceColumns = Pick<Resort, 'country' | 'state' | 'sub_region' | 'location' | 'region'>;
+
+/**
+ * Resort place columns for a directory entry: its region slug's subdivision,
+ * else just the country whose directory listed it
+ */
+function placeForDirectoryEntry(regionSlug: string, country: string): { columns: PlaceColumns; known: boolean } {
+  const subdivision = subdivisionForOnTheSnowSlug(regionSlug);
+  const { state, subRegion, location, region } = subdivision ? placeForSubdivision(subdivision) : placeFor(country, null);
+  return {
+    columns: { country: subdivision?.country ?? country, state, sub_region: subRegion, location, region },
+    known: !!subdivision,
+  };
+}
+
+/**
+ * Discover resorts from OnTheSnow: add new ones, fix placeholder state and
+ * region on existing ones, and list those that need enriching
+ */
+export async function populateKnownResorts(): Promise<DiscoveryResult> {
+  console.log('[Discovery] Starting resort discovery from OnTheSnow...');
+  const discovered = await onTheSnowScraper.discoverResorts();
+  const needs = new Set<string>();
+  let added = 0;
+  let fixed = 0;
+
+  for (const resort of discovered) {
+    const reportPath = onTheSnowReportPath(resort.url); // e.g. /colorado/vail/skireport -> colorado/vail
+    if (!reportPath) continue;
+
+    // Known under this OnTheSnow path, or by a name/alias that normalizes the same
+    const id = await resolveResortId(resort.name, { source: 'onthesnow', externalId: reportPath });
+    const place = placeForDirectoryEntry(resort.region, resort.country);
+
+    try {
+      const existing = await resortRepo.findById(id);
+      if (!existing) {
+        await resortRepo.insert({ id, name: resort.name, ...place.columns });
+        added++;
+        needs.add(id);
+        console.log(`[Discovery] Added new resort: ${id} (${place.columns.country}-${place.columns.state})`);
+      } else {
+        const placeholderState = !hasKnownSubdivision(existing);
+        if (place.known && (placeholderState || existing.region === OTHER_REGION)) {
+          await resortRepo.update(
+            id,
+            placeholderState
+              ? { ...place.columns, region: existing.region === OTHER_REGION ? place.columns.region : existing.region }
+              : { region: place.columns.region },
+          );
+          fixed++;
+        }
+        if (needsEnrichment(existing)) needs.add(id);
+      }
+      await linkExternalIds(id, [{ source: 'onthesnow', externalId: reportPath }]);
+    } catch (error) {
+      console.error(`[Discovery] Failed to add ${id}:`, error);
+    }
+  }
+
+  console.log(
+    `[Discovery] Finished. Added ${added} new resorts, fixed ${fixed}, ${needs.size} need enriching.`,
+  );
+  return { discovered: discovered.length, added, fixed, needsEnrichment: [...needs] };
+}
+
+/**
+ * Fill a resort's empty metadata columns from its OnTheSnow overview page,
+ * geocoding the name when the page has no coordinates. Throws when the
+ * resort doesn't exist or neither source could be reached.
+ */
+export async function enrichResort(resortId: string): Promise<EnrichmentResult> {
+  const resort = await resortRepo.findById(resortId);
+  if (!resort) {
+    throw new Error(`Resort ${resortId} not found`);
+  }
+
+  const reportPath = (await getExternalIds(resortId)).onthesnow;
+  let overview: ResortOverview | null = null;
+  let overviewError: unknown = null;
+  if (reportPath) {
+    try {
+      overview = await onTheSnowScraper.fetchResortOverview(reportPath);
+    } catch (error) {
+      overviewError = error;
+      console.warn(`[Discovery] No overview for ${resortId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  let coordinatesFrom: EnrichmentResult['coordinatesFrom'] = null;
+  let latitude = overview?.latitude ?? null;
+  let longitude = overview?.longitude ?? null;
+  if (latitude !== null && longitude !== null) {
+    coordinatesFrom = 'onthesnow';
+  } else if (!hasCoordinates(resort)) {
+    const stateName = hasKnownSubdivision(resort) ? placeFor(resort.country, resort.state).subRegion : null;
+    try {
+      const place = await geocodeResort(resort.name, resort.country, stateName ?? undefined);
+      if (place) {
+        latitude = place.latitude;
+        longitude = place.longitude;
+        coordinatesFrom = 'geocoding';
+      }
+    } catch (error) {
+      // Nothing to go on at all: let the job retry later
+      if (!overview) throw overviewError ?? error;
+      console.warn(`[Discovery] Geocoding ${resortId} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const found: Record<string, number | string | null> = {
+    latitude,
+    longitude,
+    baseElevation: overview?.baseElevation ?? null,
+    summitElevation: overview?.summitElevation ?? null,
+    verticalDrop:
+      overview?.verticalDrop ??
+      (overview?.summitElevation && overview?.baseElevation ? overview.summitElevation - overview.baseElevation : null),
+    totalLifts: overview?.totalLifts ?? null,
+    totalTrails: overview?.totalTrails ?? null,
+    websiteUrl: overview?.websiteUrl ?? null,
+  };
+
+  // Only fill columns that are empty (or placeholders: 0,0 and the OnTheSnow link)
+  const isEmpty: Record<string, boolean> = {
+    latitude: !hasCoordinates(resort),
+    longitude: !hasCoordinates(resort),
+    baseElevation: resort.base_elevation == null,
+    summitElevation: resort.summit_elevation == null,
+    verticalDrop: resort.vertical_drop == null,
+    totalLifts: !resort.total_lifts,
+    totalTrails: !resort.total_trails,
+    websiteUrl: isPlaceholderWebsite(resort.website_url),
+  };
+
+  const update: Record<string, unknown> = {};
+  const fieldsUpdated: string[] = [];
+  for (const [field, column] of Object.entries(ENRICHED_COLUMNS)) {
+    if (!isEmpty[field] || found[field] === null) continue;
+    // Coordinates are only written as a pair
+    if ((field === 'latitude' || field === 'longitude') && (latitude === null || longitude === null)) continue;
+    update[column] = found[field];
+    fieldsUpdated.push(field);
+  }
+
+  if (fieldsUpdated.length > 0) {
+    await resortRepo.update(resortId, update as ResortUpdate);
+    console.log(`[Discovery] Enriched ${resortId}: ${fieldsUpdated.join(', ')}`);
+  } else if (overviewError) {
+    // The overview is the only source for everything but coordinates
+    throw overviewError;
+  }
+
+  return { resortId, fieldsUpdated, coordinatesFrom: fieldsUpdated.includes('latitude') ? coordinatesFrom : null };
+}
@@ -0,0 +1,327 @@
+/**
+ * Canonical resort identity
+ *
+ * Every place that turns a resort name into an id goes through
+ * `resolveResortId` so the same resort doesn't end up under several ids
+ * ("mt.-baker", "mt-baker", "mount-baker"). Names are matched on their
+ * normalized form against resort names and aliases; ids used by data sources
+ * (OnTheSnow report paths, names returned by Gemini) and the ids of merged
+ * duplicates are kept in `resort_external_ids`.
+ */
+
+import {
+  alertRepo,
+  resortRepo,
+  resortAliasRepo,
+  resortExternalIdRepo,
+  resortMergeRepo,
+  isMissingTableError,
+  type MoveResult,
+  type TableName,
+} from '../db/repositories/index.js';
+import type { AlertSubscription, Resort } from '../types/database.js';
+import type { ReconciledResult, ResortSnowData } from './providers/types.js';
+import { normalizeResortName } from './resortSearch.js';
+import { hasKnownSubdivision } from './regions.js';
+import { scopeColumns, subscriptionScope, type AlertScope } from './alertScopes.js';
+
+/** `resort_external_ids.source` for the former id of a merged duplicate */
+export const LEGACY_SOURCE = 'legacy';
+const ONTHESNOW_SOURCE = 'onthesnow';
+
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Tables owned by a resort and the columns (besides `resort_id`) that must stay
+ * unique. Alert subscriptions are moved by `moveSubscriptions`: their scope
+ * names the resort too.
+ */
+const RESORT_TABLES: Array<{ table: TableName; key: string[] }> = [
+  { table: 'snow_reports', key: ['report_date'] },
+  { table: 'forecasts', key: ['forecast_date'] },
+  { table: 'hourly_forecasts', key: ['forecast_time'] },
+  { table: 'forecast_snapshots', key: ['source', 'forecast_date', 'issued_at'] },
+  { table: 'favorites', key: ['visitor_id', 'user_id'] },
+  { table: 'resort_aliases', key: ['normalized'] },
+  { table: 'resort_external_ids', key: [] },
+  { table: 'search_logs', key: [] },
+];
+
+export interface ResolveResortOptions {
+  state?: string | null;
+  /** Data source the name came from, to look up (and record) its external id */
+  source?: string;
+  externalId?: string | null;
+}
+
+export interface DuplicateGroup {
+  normalizedName: string;
+  /** The resort the others would be merged into first */
+  resorts: Resort[];
+}
+
+export interface MergeSummary {
+  from: string;
+  into: string;
+  tables: Partial<Record<TableName, MoveResult>>;
+}
+
+interface IndexedResort {
+  id: string;
+  state: string | null;
+  /** State is the country code: added before the subdivision was known */
+  placeholderState: boolean;
+}
+
+let identityIndex: { byName: Map<string, IndexedResort[]>; loadedAt: number } | null = null;
+let warnedMissingTable = false;
+
+/** URL-safe id for a resort name: "Mt. Baker" -> "mt-baker" */
+export function slugifyResortName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** OnTheSnow external id ("colorado/vail") from a report URL */
+export function onTheSnowReportPath(url: string | null | undefined): string | null {
+  const match = url?.match(/onthesnow\.com\/([^/?#]+\/[^/?#]+)\/skireport/);
+  return match ? match[1] : null;
+}
+
+/** Forget the cached name index, e.g. after adding or merging resorts */
+export function invalidateIdentityIndex(): void {
+  identityIndex = null;
+}
+
+function addToIndex(byName: Map<string, IndexedResort[]>, name: string, resort: IndexedResort): void {
+  const key = normalizeResortName(name);
+  if (!key) return;
+  const entries = byName.get(key) || [];
+  if (!entries.some((e) => e.id === resort.id)) entries.push(resort);
+  byName.set(key, entries);
+}
+
+async function loadIndex(): Promise<Map<string, IndexedResort[]>> {
+  if (identityIndex && Date.now() - identityIndex.loadedAt < INDEX_TTL_MS) return identityIndex.byName;
+
+  const [resorts, aliases] = await Promise.all([resortRepo.list(), resortAliasRepo.listAll()]);
+  const byName = new Map<string, IndexedResort[]>();
+  const byId = new Map<string, IndexedResort>();
+
+  for (const resort of resorts) {
+    const entry = { id: resort.id, state: resort.state, placeholderState: !hasKnownSubdivision(resort) };
+    byId.set(resort.id, entry);
+    addToIndex(byName, resort.name, entry);
+    addToIndex(byName, resort.id, entry);
+  }
+  for (const alias of aliases) {
+    const entry = byId.get(alias.resort_id);
+    if (entry) addToIndex(byName, alias.alias, entry);
+  }
+
+  identityIndex = { byName, loadedAt: Date.now() };
+  return byName;
+}
+
+function pickByState(candidates: IndexedResort[], state?: string | null): IndexedResort | null {
+  if (candidates.length <= 1 || !state) return candidates[0] ?? null;
+  return candidates.find((c) => c.state === state) ?? candidates.find((c) => !c.state || c.placeholderState) ?? null;
+}
+
+/**
+ * Record which resort a data source's id belongs to. Never throws: identity
+ * bookkeeping must not fail the request that called it.
+ */
+export async function linkExternalIds(
+  resortId: string,
+  links: Array<{ source: string; externalId: string | null | undefined }>,
+): Promise<void> {
+  const rows = links
+    .filter((l) => l.externalId)
+    .map((l) => ({ resort_id: resortId, source: l.source, external_id: l.externalId! }));
+
+  try {
+    await resortExternalIdRepo.linkMany(rows);
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      if (!warnedMissingTable) {
+        console.warn('[Identity] resort_external_ids table missing - run supabase/migrations/008_resort_external_ids.sql');
+        warnedMissingTable = true;
+      }
+      return;
+    }
+    console.error(`[Identity] Failed to link external ids for ${resortId}:`, error);
+  }
+}
+
+/**
+ * Canonical id for a resort id or name from any source: an existing id, a
+ * known external id, a resort whose name or alias normalizes the same, or
+ * else a new slug of the name.
+ */
+export async function resolveResortId(nameOrId: string, options: ResolveResortOptions = {}): Promise<string> {
+  const slug = slugifyResortName(nameOrId);
+
+  if (options.source && options.externalId) {
+    const linked = await resortExternalIdRepo.findResortId(options.source, options.externalId);
+    if (linked) return linked;
+  }
+
+  if (await resortRepo.exists(nameOrId)) return nameOrId;
+
+  const merged = await resortExternalIdRepo.findResortId(LEGACY_SOURCE, slug);
+  if (merged) return merged;
+
+  const byName = await loadIndex();
+  const match = pickByState(byName.get(normalizeResortName(nameOrId)) || [], options.state);
+  const id = match?.id ?? slug;
+
+  if (!match) {
+    // Resolve repeat lookups of a resort that's about to be created the same way.
+    // Its external id can only be linked once the caller has created it.
+    addToIndex(byName, nameOrId, { id, state: options.state ?? null, placeholderState: !options.state });
+  } else if (options.source && options.externalId) {
+    await linkExternalIds(id, [{ source: options.source, externalId: options.externalId }]);
+  }
+  return id;
+}
+
+/** External ids of a resort keyed by source, for provider queries */
+export async function getExternalIds(resortId: string): Promise<Record<string, string>> {
+  const links = await resortExternalIdRepo.listForResort(resortId);
+  return Object.fromEntries(links.filter((l) => l.source !== LEGACY_SOURCE).map((l) => [l.source, l.external_id]));
+}
+
+function externalIdFor(source: string, data: ResortSnowData): string | null {
+  if (source === ONTHESNOW_SOURCE) return onTheSnowReportPath(data.websiteUrl);
+  return data.name ? normalizeResortName(data.name) : null;
+}
+
+/** Remember the ids each provider used for a resort in a reconciled fetch */
+export async function recordProviderIds(resortId: string, result: ReconciledResult): Promise<void> {
+  await linkExternalIds(
+    resortId,
+    result.results.map((r) => ({ source: r.source, externalId: externalIdFor(r.source, r.data) })),
+  );
+}
+
+/**
+ * Resorts whose names normalize the same. The first resort of each group is
+ * the suggested merge target: one with coordinates, then the oldest.
+ */
+export async function findDuplicateResorts(): Promise<DuplicateGroup[]> {
+  const resorts = await resortRepo.list();
+  const groups = new Map<string, Resort[]>();
+  for (const resort of resorts) {
+    const key = normalizeResortName(resort.name);
+    groups.set(key, [...(groups.get(key) || []), resort]);
+  }
+
+  const hasCoordinates = (r: Resort) => (r.latitude && r.longitude ? 1 : 0);
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([normalizedName, group]) => ({
+      normalizedName,
+      resorts: [...group].sort(
+        (a, b) =>
+          hasCoordinates(b) - hasCoordinates(a) ||
+          (a.created_at || '').localeCompare(b.created_at || '') ||
+          a.id.length - b.id.length,
+      ),
+    }));
+}
+
+/**
+ * Merge a duplicate resort into another: its reports, forecasts, snapshots,
+ * subscriptions, favorites, aliases and external ids move over (the target's
+ * row wins where both have one), its name becomes an alias and its id a
+ * legacy external id, then the duplicate is deleted.
+ */
+export async function mergeResorts(fromId: string, intoId: string): Promise<MergeSummary> {
+  if (fromId === intoId) throw new Error('Cannot merge a resort into itself');
+
+  const [from, into] = await Promise.all([resortRepo.findById(fromId), resortRepo.findById(intoId)]);
+  if (!from) throw new Error(`Resort not found: ${fromId}`);
+  if (!into) throw new Error(`Resort not found: ${intoId}`);
+
+  const summary: MergeSummary = { from: fromId, into: intoId, tables: {} };
+  for (const { table, key } of RESORT_TABLES) {
+    summary.tables[table] = await resortMergeRepo.moveRows(table, fromId, intoId, key);
+  }
+  summary.tables.alert_subscriptions = await moveSubscriptions(from, into);
+
+  if (normalizeResortName(from.name) !== normalizeResortName(into.name)) {
+    await resortAliasRepo.upsertMany([
+      { resort_id: intoId, alias: from.name, normalized: normalizeResortName(from.name), kind: 'alias' },
+    ]);
+  }
+  await linkExternalIds(intoId, [{ source: LEGACY_SOURCE, externalId: fromId }]);
+  await resortRepo.delete(fromId);
+  invalidateIdentityIndex();
+
+  console.log(`[Identity] Merged ${fromId} into ${intoId}`);
+  return summary;
+}
+
+// A subscription's scope with `fromId` replaced by `intoId`, or null if it doesn't name `fromId`
+function mergedScope(subscription: AlertSubscription, fromId: string, intoId: string): AlertScope | null {
+  const scope = subscriptionScope(subscription);
+  if (scope.type === 'resort') return scope.resortId === fromId ? { ...scope, resortId: intoId } : null;
+  if (scope.type === 'list' && scope.resortIds.includes(fromId)) {
+    return { ...scope, resortIds: [...new Set(scope.resortIds.map((id) => (id === fromId ? intoId : id)))] };
+  }
+  return null;
+}
+
+/**
+ * Point the duplicate's resort and list subscriptions at the resort it is
+ * merged into, recomputing `scope_key`. A visitor who already has a
+ * subscription with the new key keeps that one and the moved one is deleted,
+ * so nobody gets the same alert twice.
+ */
+async function moveSubscriptions(from: Resort, into: Resort): Promise<MoveResult> {
+  const [direct, lists] = await Promise.all([
+    alertRepo.listSubscriptions({ resortId: from.id }),
+    alertRepo.listSubscriptions({ scopeType: 'list' }),
+  ]);
+
+  // Scope keys per visitor, kept current as subscriptions move
+  const keysByVisitor = new Map<string, Set<string>>();
+  const keysOf = async (visitorId: string) => {
+    let keys = keysByVisitor.get(visitorId);
+    if (!keys) {
+      keys = new Set((await alertRepo.listSubscriptions({ visitorId })).map((s) => s.scope_key));
+      keysByVisitor.set(visitorId, keys);
+    }
+    return keys;
+  };
+
+  let moved = 0;
+  let skipped = 0;
+  for (const subscription of [...direct, ...lists]) {
+    const scope = mergedScope(subscription, from.id, into.id);
+    if (!scope) continue;
+
+    const columns = scopeColumns(scope);
+    const keys = await keysOf(subscription.visitor_id);
+    keys.delete(subscription.scope_key);
+    if (keys.has(columns.scope_key)) {
+      await alertRepo.deleteSubscription(subscription.id);
+      skipped++;
+      continue;
+    }
+    await alertRepo.updateSubscription(subscription.id, {
+      ...columns,
+      resort_name: scope.type === 'resort' ? into.name : subscription.resort_name,
+      updated_at: new Date().toISOString(),
+    });
+    keys.add(columns.scope_key);
+    moved++;
+  }
+  return { moved, skipped };
+}
@@ -0,0 +1,162 @@
+/**
+ * Resort search
+ *
+ * Fuzzy name matching over `resorts` plus `resort_aliases` (former names,
+ * abbreviations, nicknames). Names and queries are normalized first so
+ * "Mt Baker", "Mt. Baker" and "Mount Baker" compare equal; the remaining
+ * differences are scored by prefix/token matching and then bigram similarity
+ * to tolerate typos.
+ */
+
+import { resortRepo, resortAliasRepo } from '../db/repositories/index.js';
+import type { Resort } from '../types/database.js';
+
+/** Results scoring below this are dropped */
+const MIN_SCORE = 0.35;
+/** Alias matches rank just below an equally good match on the current name */
+const ALIAS_WEIGHT = 0.95;
+
+const TOKEN_EXPANSIONS: Record<string, string> = {
+  mt: 'mount',
+  mtn: 'mountain',
+  st: 'saint',
+  ste: 'sainte',
+};
+
+/** Words that don't distinguish one resort from another */
+const FILLER_TOKENS = new Set(['the', 'ski', 'resort', 'area', 'and']);
+
+export type SearchMatchField = 'name' | 'alias';
+
+export interface ResortSearchOptions {
+  q: string;
+  state?: string;
+  region?: string;
+  limit?: number;
+}
+
+export interface ResortSearchResult {
+  id: string;
+  name: string;
+  state: string | null;
+  region: string | null;
+  location: string | null;
+  /** 0-1 */
+  score: number;
+  matchedOn: SearchMatchField;
+  /** The alias that matched when `matchedOn` is 'alias' */
+  matchedAlias: string | null;
+}
+
+/**
+ * Canonical form of a resort name for comparison: lowercase, no accents or
+ * punctuation, abbreviations expanded and filler words dropped.
+ */
+export function normalizeResortName(name: string): string {
+  const tokens = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map((token) => TOKEN_EXPANSIONS[token] || token);
+
+  const meaningful = tokens.filter((token) => !FILLER_TOKENS.has(token));
+  // Keep names like "Ski Santa Fe" searchable even if everything is filler
+  return (meaningful.length > 0 ? meaningful : tokens).join(' ');
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+function similarity(a: string, b: string): number {
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  if (aGrams.length === 0 || bGrams.length === 0) return a === b ? 1 : 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of aGrams) counts.set(gram, (counts.get(gram) || 0) + 1);
+
+  let overlap = 0;
+  for (const gram of bGrams) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (aGrams.length + bGrams.length);
+}
+
+/** How well a normalized query matches a normalized name, 0-1 */
+export function matchScore(query: string, candidate: string): number {
+  if (!query || !candidate) return 0;
+  if (query === candidate) return 1;
+  if (candidate.startsWith(query)) return 0.9;
+
+  const queryTokens = query.split(' ');
+  const candidateTokens = candidate.split(' ');
+  if (queryTokens.every((qt) => candidateTokens.some((ct) => ct.startsWith(qt)))) return 0.85;
+  if (candidate.includes(query)) return 0.75;
+
+  // Typos: best of whole-string and per-token similarity
+  const tokenBest = Math.max(
+    ...candidateTokens.map((ct) => (queryTokens.length === 1 ? similarity(query, ct) : 0)),
+  );
+  return Math.max(similarity(query, candidate), tokenBest * 0.9) * 0.7;
+}
+
+function toResult(resort: Resort, score: number, alias: string | null): ResortSearchResult {
+  return {
+    id: resort.id,
+    name: resort.name,
+    state: resort.state,
+    region: resort.region,
+    location: resort.location,
+    score: Math.round(score * 1000) / 1000,
+    matchedOn: alias ? 'alias' : 'name',
+    matchedAlias: alias,
+  };
+}
+
+/** Resorts matching `q`, best match first */
+export async function searchResorts(options: ResortSearchOptions): Promise<ResortSearchResult[]> {
+  const query = normalizeResortName(options.q);
+  if (!query) return [];
+
+  const [resorts, aliases] = await Promise.all([
+    resortRepo.list({ state: options.state, region: options.region }),
+    resortAliasRepo.listAll(),
+  ]);
+
+  const aliasesByResort = new Map<string, typeof aliases>();
+  for (const alias of aliases) {
+    const list = aliasesByResort.get(alias.resort_id);
+    if (list) list.push(alias);
+    else aliasesByResort.set(alias.resort_id, [alias]);
+  }
+
+  const results: ResortSearchResult[] = [];
+  for (const resort of resorts) {
+    let best = { score: matchScore(query, normalizeResortName(resort.name)), alias: null as string | null };
+
+    for (const alias of aliasesByResort.get(resort.id) || []) {
+      const score = matchScore(query, alias.normalized) * ALIAS_WEIGHT;
+      if (score > best.score) best = { score, alias: alias.alias };
+    }
+
+    if (best.score >= MIN_SCORE) results.push(toResult(resort, best.score, best.alias));
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, options.limit ?? 10);
+}
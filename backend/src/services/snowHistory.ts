@@ -0,0 +1,214 @@
+/**
+ * Snowfall history
+ *
+ * Builds daily history and season-to-date totals from the stored daily
+ * `snow_reports`. A day's observed snowfall is that day's `last_24_hours`;
+ * seasons run from October 1st (northern hemisphere).
+ */
+
+import { getToday } from '../db/supabase.js';
+import { snowReportRepo } from '../db/repositories/index.js';
+import type { SnowReport } from '../types/database.js';
+
+const SEASON_START_MONTH = 10; // October
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SnowHistoryDay {
+  date: string;
+  /** Observed 24hr snowfall, null when no report was stored that day */
+  snowfall: number | null;
+  baseDepth: number | null;
+  /** Season-to-date snowfall through this day */
+  seasonTotal: number;
+}
+
+export interface SnowHistory {
+  resortId: string;
+  from: string;
+  to: string;
+  days: SnowHistoryDay[];
+  summary: {
+    reportedDays: number;
+    totalSnowfall: number;
+    snowDays: number;
+    biggestDay: { date: string; snowfall: number } | null;
+    baseDepthStart: number | null;
+    baseDepthEnd: number | null;
+    baseDepthChange: number | null;
+  };
+}
+
+export interface SeasonComparison {
+  season: string;
+  /** Snowfall by the same day of that season */
+  toDate: number;
+  /** Snowfall over the whole season */
+  total: number;
+  reportedDays: number;
+}
+
+export interface SeasonSummary {
+  resortId: string;
+  season: string;
+  seasonStart: string;
+  asOf: string;
+  seasonToDate: number;
+  reportedDays: number;
+  snowDays: number;
+  biggestDay: { date: string; snowfall: number } | null;
+  baseDepth: number | null;
+  peakBaseDepth: number | null;
+  previousSeasons: SeasonComparison[];
+  /** Mean `toDate` of previous seasons that have reports, null without any */
+  averageToDate: number | null;
+  /** Season-to-date as a percentage of `averageToDate` */
+  percentOfAverage: number | null;
+}
+
+/** Add days to a YYYY-MM-DD date */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/** First day of the season that `date` falls in */
+export function seasonStartFor(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  const startYear = month >= SEASON_START_MONTH ? year : year - 1;
+  return `${startYear}-${String(SEASON_START_MONTH).padStart(2, '0')}-01`;
+}
+
+/** Season label such as "2025-26" */
+export function seasonLabel(seasonStart: string): string {
+  const year = Number(seasonStart.slice(0, 4));
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function biggestDay(reports: SnowReport[]): { date: string; snowfall: number } | null {
+  let best: SnowReport | null = null;
+  for (const report of reports) {
+    if ((report.last_24_hours || 0) > (best?.last_24_hours || 0)) best = report;
+  }
+  return best ? { date: best.report_date, snowfall: best.last_24_hours } : null;
+}
+
+function sumSnowfall(reports: SnowReport[]): number {
+  return reports.reduce((sum, r) => sum + (r.last_24_hours || 0), 0);
+}
+
+/**
+ * Season-to-date snowfall including `snowToday`, for storing on today's
+ * report. Earlier reports of the same season are summed.
+ */
+export async function computeSeasonTotal(resortId: string, date: string, snowToday: number): Promise<number> {
+  const reports = await snowReportRepo.listForResort(resortId, seasonStartFor(date), addDays(date, -1));
+  return sumSnowfall(reports) + snowToday;
+}
+
+/** Daily observed snowfall and base depth between two dates (inclusive) */
+export async function getSnowHistory(resortId: string, from: string, to: string): Promise<SnowHistory> {
+  // Read from the start of `from`'s season so running season totals are correct
+  const reports = await snowReportRepo.listForResort(resortId, seasonStartFor(from), to);
+  const byDate = new Map(reports.map((r) => [r.report_date, r]));
+
+  const days: SnowHistoryDay[] = [];
+  let seasonStart = seasonStartFor(from);
+  let seasonTotal = sumSnowfall(reports.filter((r) => r.report_date < from));
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (seasonStartFor(date) !== seasonStart) {
+      seasonStart = seasonStartFor(date);
+      seasonTotal = 0;
+    }
+
+    const report = byDate.get(date);
+    seasonTotal += report?.last_24_hours || 0;
+    days.push({
+      date,
+      snowfall: report ? report.last_24_hours : null,
+      baseDepth: report ? report.base_depth : null,
+      seasonTotal,
+    });
+  }
+
+  const inRange = reports.filter((r) => r.report_date >= from);
+  const baseDepths = inRange.map((r) => r.base_depth);
+  const baseDepthStart = baseDepths.length > 0 ? baseDepths[0] : null;
+  const baseDepthEnd = baseDepths.length > 0 ? baseDepths[baseDepths.length - 1] : null;
+
+  return {
+    resortId,
+    from,
+    to,
+    days,
+    summary: {
+      reportedDays: inRange.length,
+      totalSnowfall: sumSnowfall(inRange),
+      snowDays: inRange.filter((r) => r.last_24_hours > 0).length,
+      biggestDay: biggestDay(inRange),
+      baseDepthStart,
+      baseDepthEnd,
+      baseDepthChange: baseDepthStart !== null && baseDepthEnd !== null ? baseDepthEnd - baseDepthStart : null,
+    },
+  };
+}
+
+/**
+ * Season-to-date totals for the season containing `asOf`, compared with the
+ * same point of up to `previousSeasons` earlier seasons.
+ */
+export async function getSeasonSummary(
+  resortId: string,
+  options: { asOf?: string; previousSeasons?: number } = {},
+): Promise<SeasonSummary> {
+  const asOf = options.asOf || getToday();
+  const previousCount = options.previousSeasons ?? 3;
+
+  const seasonStart = seasonStartFor(asOf);
+  const dayOfSeason = daysBetween(seasonStart, asOf);
+  const earliestStart = `${Number(seasonStart.slice(0, 4)) - previousCount}${seasonStart.slice(4)}`;
+
+  const reports = await snowReportRepo.listForResort(resortId, earliestStart, asOf);
+  const current = reports.filter((r) => r.report_date >= seasonStart);
+
+  const previousSeasons: SeasonComparison[] = [];
+  for (let i = 1; i <= previousCount; i++) {
+    const start = `${Number(seasonStart.slice(0, 4)) - i}${seasonStart.slice(4)}`;
+    const nextStart = `${Number(start.slice(0, 4)) + 1}${start.slice(4)}`;
+    const season = reports.filter((r) => r.report_date >= start && r.report_date < nextStart);
+    if (season.length === 0) continue;
+
+    const sameDay = addDays(start, dayOfSeason);
+    previousSeasons.push({
+      season: seasonLabel(start),
+      toDate: sumSnowfall(season.filter((r) => r.report_date <= sameDay)),
+      total: sumSnowfall(season),
+      reportedDays: season.length,
+    });
+  }
+
+  const seasonToDate = sumSnowfall(current);
+  const averageToDate =
+    previousSeasons.length > 0
+      ? Math.round((previousSeasons.reduce((sum, s) => sum + s.toDate, 0) / previousSeasons.length) * 10) / 10
+      : null;
+
+  return {
+    resortId,
+    season: seasonLabel(seasonStart),
+    seasonStart,
+    asOf,
+    seasonToDate,
+    reportedDays: current.length,
+    snowDays: current.filter((r) => r.last_24_hours > 0).length,
+    biggestDay: biggestDay(current),
+    baseDepth: current.length > 0 ? current[current.length - 1].base_depth : null,
+    peakBaseDepth: current.length > 0 ? Math.max(...current.map((r) => r.base_depth)) : null,
+    previousSeasons,
+    averageToDate,
+    percentOfAverage: averageToDate ? Math.round((seasonToDate / averageToDate) * 100) : null,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Snow quality model
+ *
+ * Estimates per forecast day how the snow will ski, from the forecast
+ * temperatures, humidity and wind plus the resort's elevations:
+ * - snow-to-liquid ratio (SLR): ~8:1 is wet "cement", 15:1+ is blower powder
+ * - rain risk: chance precipitation falls as rain at the base (wet-bulb based)
+ * - wind loading: how much the wind will move new snow around
+ * and folds them into a 0-100 powder score stored in `forecasts.powder_score`.
+ *
+ * Forecast temperatures are treated as base-area values and adjusted to
+ * mid-mountain with a standard lapse rate.
+ */
+
+import type { Forecast } from '../types/database.js';
+
+export type SnowQualityLabel = 'blower' | 'powder' | 'dense' | 'heavy' | 'rain' | 'none';
+
+export interface SnowQualityInput {
+  predictedSnow: number;
+  tempHigh?: number | null;
+  tempLow?: number | null;
+  /** 0-100 */
+  humidity?: number | null;
+  /** mph */
+  windSpeed?: number | null;
+  /** Feet */
+  baseElevation?: number | null;
+  summitElevation?: number | null;
+}
+
+export interface SnowQuality {
+  /** Snow-to-liquid ratio, e.g. 12 for 12:1 */
+  snowToLiquid: number;
+  /** 0-1 chance precipitation falls as rain at the base */
+  rainRisk: number;
+  /** 0-1, 0 = calm, 1 = heavy wind transport of new snow */
+  windLoading: number;
+  /** Estimated rain/snow line in feet, null when elevations are unknown */
+  snowLine: number | null;
+  quality: SnowQualityLabel;
+  /** 0-100 */
+  powderScore: number;
+}
+
+const LAPSE_RATE_F_PER_1000FT = 3.5;
+// Air is usually near saturation while it's precipitating
+const DEFAULT_HUMIDITY = 90;
+/** Wet-bulb temperatures (F) between which precipitation turns from snow to rain */
+const RAIN_WET_BULB_START = 31;
+const RAIN_WET_BULB_FULL = 35;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/** Rough wet-bulb temperature (F) from air temperature and relative humidity */
+function wetBulb(tempF: number, humidity: number): number {
+  return tempF - (100 - humidity) * 0.14 * (tempF > 20 ? 1 : 0.5);
+}
+
+/**
+ * Kuchera-style SLR from the warmest temperature snow falls through, reduced
+ * by wind fragmenting the flakes.
+ */
+function estimateSnowToLiquid(maxTempF: number, windSpeed: number): number {
+  const kelvin = (maxTempF - 32) * (5 / 9) + 273.15;
+  let ratio = kelvin > 271.16 ? 12 + 2 * (271.16 - kelvin) : 12 + (271.16 - kelvin);
+  if (windSpeed > 15) ratio -= (windSpeed - 15) * 0.2;
+  return clamp(ratio, 4, 25);
+}
+
+function qualityLabel(snow: number, slr: number, rainRisk: number): SnowQualityLabel {
+  if (rainRisk >= 0.5) return 'rain';
+  if (snow <= 0) return 'none';
+  if (slr >= 15) return 'blower';
+  if (slr >= 11) return 'powder';
+  if (slr >= 8) return 'dense';
+  return 'heavy';
+}
+
+export function assessSnowQuality(input: SnowQualityInput): SnowQuality {
+  const snow = Math.max(0, input.predictedSnow || 0);
+  const tempHigh = input.tempHigh ?? input.tempLow ?? 28;
+  const tempLow = input.tempLow ?? tempHigh;
+  const humidity = clamp(input.humidity ?? DEFAULT_HUMIDITY, 0, 100);
+  const windSpeed = Math.max(0, input.windSpeed ?? 0);
+
+  const base = input.baseElevation ?? null;
+  const summit = input.summitElevation ?? null;
+  const midOffset = base !== null && summit !== null && summit > base ? (summit - base) / 2 : 0;
+  const midTempHigh = tempHigh - (midOffset / 1000) * LAPSE_RATE_F_PER_1000FT;
+
+  // Snow mostly falls in the colder part of the day, so weight toward the low
+  const baseWetBulb = wetBulb((tempHigh + tempLow * 2) / 3, humidity);
+  const rainRisk = clamp(
+    (baseWetBulb - RAIN_WET_BULB_START) / (RAIN_WET_BULB_FULL - RAIN_WET_BULB_START),
+    0,
+    1,
+  );
+
+  const snowLine =
+    base !== null && baseWetBulb > RAIN_WET_BULB_START + 2
+      ? Math.round(base + ((baseWetBulb - (RAIN_WET_BULB_START + 2)) / LAPSE_RATE_F_PER_1000FT) * 1000)
+      : null;
+
+  const snowToLiquid = estimateSnowToLiquid(midTempHigh, windSpeed);
+
+  // Wind moves snow from ~10 mph; without new snow there is less to move
+  const windLoading = clamp((windSpeed - 10) / 30, 0, 1) * (snow > 0 ? 1 : 0.5);
+
+  // Powder score: amount of new snow, its dryness and cold temps preserving it,
+  // cut by rain risk and wind scouring
+  const amount = clamp(snow / 12, 0, 1) * 50;
+  const dryness = ((snowToLiquid - 4) / 21) * 30 * clamp(snow / 2, 0, 1);
+  const cold = clamp((34 - midTempHigh) / 14, 0, 1) * 20 * clamp(snow / 2, 0, 1);
+  const powderScore = clamp(Math.round((amount + dryness + cold) * (1 - rainRisk) - windLoading * 10), 0, 100);
+
+  return {
+    snowToLiquid: round(snowToLiquid, 1),
+    rainRisk: round(rainRisk),
+    windLoading: round(windLoading),
+    snowLine,
+    quality: qualityLabel(snow, snowToLiquid, rainRisk),
+    powderScore,
+  };
+}
+
+/** `forecasts` columns for an assessment */
+export function toForecastColumns(quality: SnowQuality) {
+  return {
+    powder_score: quality.powderScore,
+    snow_to_liquid: quality.snowToLiquid,
+    rain_risk: quality.rainRisk,
+    wind_loading: quality.windLoading,
+    snow_line: quality.snowLine,
+    snow_quality: quality.quality,
+  };
+}
+
+/** API fields for a stored forecast row */
+export function fromForecastColumns(forecast: Forecast) {
+  return {
+    powderScore: forecast.powder_score,
+    snowToLiquid: forecast.snow_to_liquid,
+    rainRisk: forecast.rain_risk,
+    windLoading: forecast.wind_loading,
+    snowLine: forecast.snow_line,
+    snowQuality: forecast.snow_quality,
+  };
+}
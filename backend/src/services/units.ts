@@ -0,0 +1,167 @@
+/**
+ * Measurement units
+ *
+ * Everything is stored and computed in US units: snow and rain in inches,
+ * temperatures in °F, wind in mph and elevations in feet. When a client asks
+ * for metric (cm, °C, km/h, m), a route's query amounts are converted on the
+ * way in and its response amounts on the way out, for exactly the fields its
+ * schemas declare as amounts, so routes and services never deal with units.
+ */
+
+import { z } from 'zod/v4';
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export const DEFAULT_UNITS: UnitSystem = 'imperial';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['imperial', 'metric'];
+
+export type Quantity = 'snow' | 'temperature' | 'speed' | 'elevation';
+
+/**
+ * API schema fields holding an amount, and its quantity (in US units). The
+ * schemas declare them with `inches()`, `fahrenheit()`, `mph()` and `feet()`
+ * (schemas/common.ts); nothing else is ever converted.
+ */
+export const amountFields = z.registry<{ quantity: Quantity }>();
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function inchesToCm(inches: number): number {
+  return round(inches * 2.54, 1);
+}
+
+export function cmToInches(cm: number): number {
+  return cm / 2.54;
+}
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return round(((fahrenheit - 32) * 5) / 9, 1);
+}
+
+export function mphToKmh(mph: number): number {
+  return Math.round(mph * 1.609344);
+}
+
+export function feetToMeters(feet: number): number {
+  return Math.round(feet * 0.3048);
+}
+
+const TO_METRIC: Record<Quantity, (value: number) => number> = {
+  snow: inchesToCm,
+  temperature: fahrenheitToCelsius,
+  speed: mphToKmh,
+  elevation: feetToMeters,
+};
+
+/** Snow amount for text such as alerts: 12" or 30 cm */
+export function formatSnow(inches: number, units: UnitSystem): string {
+  return units === 'metric' ? `${Math.round(inches * 2.54)} cm` : `${round(inches, 1)}"`;
+}
+
+/** Temperature for text such as alerts: 20°F or -7°C */
+export function formatTemp(fahrenheit: number, units: UnitSystem): string {
+  return units === 'metric' ? `${Math.round(((fahrenheit - 32) * 5) / 9)}°C` : `${Math.round(fahrenheit)}°F`;
+}
+
+/** `imperial`/`metric` (case-insensitive), null for anything else */
+export function parseUnitSystem(value: unknown): UnitSystem | null {
+  if (typeof value !== 'string') return null;
+  const units = value.trim().toLowerCase();
+  return (UNIT_SYSTEMS as string[]).includes(units) ? (units as UnitSystem) : null;
+}
+
+/** A client-supplied amount in `units`, in the US units queries run in */
+export function fromUnits(value: number, quantity: Quantity, units: UnitSystem): number {
+  if (units === 'imperial') return value;
+  switch (quantity) {
+    case 'snow':
+      return cmToInches(value);
+    case 'temperature':
+      return (value * 9) / 5 + 32;
+    case 'speed':
+      return value / 1.609344;
+    case 'elevation':
+      return value / 0.3048;
+  }
+}
+
+// Converts one amount; `quantity` is what the schema declared for it
+type AmountConverter = (value: number, quantity: Quantity) => number;
+
+/**
+ * Copy of `value` with every amount `schema` declares passed through
+ * `convert`. The input is never modified (route caches hand out shared
+ * objects); fields the schema doesn't know are copied as they are.
+ */
+function convertAmounts(schema: z.ZodType, value: unknown, convert: AmountConverter): unknown {
+  if (value === null || value === undefined) return value;
+
+  // (get() hands back {} for clones of registered schemas, e.g. after .meta())
+  const quantity = amountFields.get(schema)?.quantity;
+  if (quantity) {
+    return typeof value === 'number' && Number.isFinite(value) ? convert(value, quantity) : value;
+  }
+
+  // optional, nullable, default, readonly, catch...
+  const def = schema.def as { innerType?: z.ZodType };
+  if (def.innerType) return convertAmounts(def.innerType, value, convert);
+
+  if (schema instanceof z.ZodPipe) return convertAmounts(schema.out as z.ZodType, value, convert);
+  if (schema instanceof z.ZodLazy) return convertAmounts(schema.unwrap() as z.ZodType, value, convert);
+
+  if (schema instanceof z.ZodArray) {
+    return Array.isArray(value) ? value.map((item) => convertAmounts(schema.element as z.ZodType, item, convert)) : value;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) return value;
+  const record = value as Record<string, unknown>;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodType>;
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(record)) {
+      out[key] = shape[key] ? convertAmounts(shape[key], field, convert) : field;
+    }
+    return out;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    const valueType = schema.def.valueType as z.ZodType;
+    return Object.fromEntries(Object.entries(record).map(([key, field]) => [key, convertAmounts(valueType, field, convert)]));
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    const option = unionOption(schema, record);
+    return option ? convertAmounts(option, value, convert) : value;
+  }
+
+  return value;
+}
+
+// The option a value belongs to: by discriminator when there is one, else the first that parses it
+function unionOption(schema: z.ZodUnion, value: Record<string, unknown>): z.ZodType | undefined {
+  const options = schema.options as z.ZodType[];
+  const discriminator = (schema.def as { discriminator?: string }).discriminator;
+  if (discriminator) {
+    return options.find((option) => {
+      const tag = option instanceof z.ZodObject ? option.shape[discriminator] : undefined;
+      return tag instanceof z.ZodLiteral && tag.values.has(value[discriminator] as z.core.util.Literal);
+    });
+  }
+  return options.find((option) => option.safeParse(value).success);
+}
+
+/** Copy of a response body with the amounts `schema` declares in metric */
+export function toMetric<T>(schema: z.ZodType, body: T): T {
+  return convertAmounts(schema, body, (value, quantity) => TO_METRIC[quantity](value)) as T;
+}
+
+/** Parsed request input with the amounts `schema` declares read from `units` into US units */
+export function amountsFromUnits<T>(schema: z.ZodType, input: T, units: UnitSystem): T {
+  if (units === 'imperial') return input;
+  return convertAmounts(schema, input, (value, quantity) => fromUnits(value, quantity, units)) as T;
+}
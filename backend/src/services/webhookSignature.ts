@@ -0,0 +1,24 @@
+/**
+ * Webhook signatures
+ *
+ * Webhook channel sends carry `X-SnowPeak-Timestamp` (unix seconds) and
+ * `X-SnowPeak-Signature: sha256=<hex>`, an HMAC-SHA256 of
+ * `<timestamp>.<body>` keyed with the channel's secret. Receivers recompute
+ * it over the raw body and compare.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const SIGNATURE_HEADER = 'X-SnowPeak-Signature';
+export const TIMESTAMP_HEADER = 'X-SnowPeak-Timestamp';
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/** Whether `signature` is the one `secret` gives for this timestamp and body */
+export function verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
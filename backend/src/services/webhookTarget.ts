@@ -0,0 +1,178 @@
+/**
+ * Webhook targets
+ *
+ * Alert channel URLs are given by anonymous visitors, so the server must not
+ * be usable to reach its own network: a URL has to be https and its host has
+ * to resolve to public addresses only (no loopback, private, link-local,
+ * cloud metadata or other reserved ranges). The check runs when a channel is
+ * added and again on every send: the connection's DNS lookup refuses
+ * non-public addresses (so a host can't be re-pointed after it was checked),
+ * and each 307/308 redirect is checked like the original URL.
+ *
+ * ALERT_WEBHOOKS_ALLOW_LOCAL=true lifts both rules (http and local hosts),
+ * for trying channels against the local stand-in.
+ */
+
+import { lookup, promises as dns } from 'node:dns';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { URL } from 'node:url';
+
+// Redirects followed per send; only 307/308, which keep the POST and its body
+const MAX_REDIRECTS = 3;
+
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64], // discard
+  ['2001:db8::', 32], // documentation
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+function allowLocal(): boolean {
+  return process.env.ALERT_WEBHOOKS_ALLOW_LOCAL === 'true';
+}
+
+/** Whether an IP address is on the public internet */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !BLOCKED.check(address, 'ipv4');
+  if (family !== 6) return false;
+
+  // IPv4-mapped (::ffff:10.0.0.1 or ::ffff:a00:1) is the IPv4 address
+  const mapped = address.toLowerCase().match(/^::ffff:(?:0:)?([\d.]+|[\da-f]{1,4}:[\da-f]{1,4})$/);
+  if (mapped) {
+    const v4 = mapped[1].includes('.')
+      ? mapped[1]
+      : mapped[1]
+          .split(':')
+          .flatMap((hex) => {
+            const word = parseInt(hex, 16);
+            return [word >> 8, word & 0xff];
+          })
+          .join('.');
+    return isIP(v4) === 4 && !BLOCKED.check(v4, 'ipv4');
+  }
+  return !BLOCKED.check(address, 'ipv6');
+}
+
+/**
+ * Why `url` can't be a webhook target, or null: not https, or its host
+ * doesn't resolve, or resolves to an address that isn't public.
+ */
+export async function webhookUrlProblem(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+  if (parsed.username || parsed.password) return 'Webhook URLs must not contain credentials';
+  if (allowLocal()) {
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? null : 'Webhook URLs must use https';
+  }
+  if (parsed.protocol !== 'https:') return 'Webhook URLs must use https';
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    return `Webhook host ${host} could not be resolved`;
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return 'Webhook URLs must point to a public address';
+  }
+  return null;
+}
+
+// DNS lookup for webhook connections that refuses non-public addresses
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const usable = allowLocal() ? addresses : addresses.filter((a) => isPublicAddress(a.address));
+    if (usable.length === 0) {
+      return callback(
+        Object.assign(new Error(`Webhook host ${hostname} resolves to a non-public address`), { code: 'EADDRNOTAVAIL' }),
+        '',
+        0,
+      );
+    }
+    if (options.all) return callback(null, usable);
+    callback(null, usable[0].address, usable[0].family);
+  });
+};
+
+function post(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+): Promise<IncomingMessage> {
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = send(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      resolve,
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POST `body` to a webhook URL, checking the URL (and any redirect) first and
+ * connecting only to public addresses. Resolves with the response status;
+ * the response body is discarded.
+ */
+export async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+): Promise<number> {
+  let target = url;
+  for (let redirects = 0; ; redirects++) {
+    const problem = await webhookUrlProblem(target);
+    if (problem) throw new Error(problem);
+
+    const response = await post(new URL(target), headers, body, timeoutMs);
+    response.resume();
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if ((status !== 307 && status !== 308) || !location) return status;
+    if (redirects >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    target = new URL(location, target).toString();
+  }
+}
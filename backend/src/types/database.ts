@@ -3,6 +3,8 @@
  * Generated from database schema
  */
 
+import type { Reconciliation, ResortSnowData } from '../services/providers/types.js'
+
 export type Json =
   | string
   | number
@@ -11,6 +13,20 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+/**
+ * snow_reports.raw_response holds the reconciled provider payload and
+ * snow_reports.provenance the reconciliation that produced it; both are jsonb
+ * but are only ever written by ingestion, so they carry those shapes here.
+ */
+export type SnowReportRawResponse = ResortSnowData
+export type SnowReportProvenance = Reconciliation
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export type AlertChannelType = 'webhook' | 'slack' | 'discord'
+
+export type AlertDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed'
+
 export interface Database {
   public: {
     Tables: {
@@ -19,7 +35,9 @@ export interface Database {
           id: string
           name: string
           location: string
+          country: string
           state: string
+          sub_region: string | null
           region: string
           latitude: number
           longitude: number
@@ -36,7 +54,9 @@ export interface Database {
           id: string
           name: string
           location: string
+          country?: string
           state?: string
+          sub_region?: string | null
           region?: string
           latitude?: number
           longitude?: number
@@ -53,7 +73,9 @@ export interface Database {
           id?: string
           name?: string
           location?: string
+          country?: string
           state?: string
+          sub_region?: string | null
           region?: string
           latitude?: number
           longitude?: number
@@ -67,6 +89,55 @@ export interface Database {
           updated_at?: string
         }
       }
+      resort_aliases: {
+        Row: {
+          id: number
+          resort_id: string
+          alias: string
+          normalized: string
+          kind: string
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          resort_id: string
+          alias: string
+          normalized: string
+          kind?: string
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          resort_id?: string
+          alias?: string
+          normalized?: string
+          kind?: string
+          created_at?: string
+        }
+      }
+      resort_external_ids: {
+        Row: {
+          id: number
+          resort_id: string
+          source: string
+          external_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          resort_id: string
+          source: string
+          external_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          resort_id?: string
+          source?: string
+          external_id?: string
+          created_at?: string
+        }
+      }
       snow_reports: {
         Row: {
           id: number
@@ -76,13 +147,17 @@ export interface Database {
           last_24_hours: number
           last_48_hours: number
           last_7_days: number | null
+          season_total: number | null
           lifts_open: number
           trails_open: number
           conditions: string | null
           snow_quality: string | null
           grooming_status: string | null
           data_source: string
-          raw_response: Json | null
+          raw_response: SnowReportRawResponse | null
+          provenance: SnowReportProvenance | null
+          confidence: number | null
+          sources_disagree: boolean
           created_at: string
         }
         Insert: {
@@ -93,13 +168,17 @@ export interface Database {
           last_24_hours?: number
           last_48_hours?: number
           last_7_days?: number | null
+          season_total?: number | null
           lifts_open?: number
           trails_open?: number
           conditions?: string | null
           snow_quality?: string | null
           grooming_status?: string | null
           data_source?: string
-          raw_response?: Json | null
+          raw_response?: SnowReportRawResponse | null
+          provenance?: SnowReportProvenance | null
+          confidence?: number | null
+          sources_disagree?: boolean
           created_at?: string
         }
         Update: {
@@ -110,13 +189,17 @@ export interface Database {
           last_24_hours?: number
           last_48_hours?: number
           last_7_days?: number | null
+          season_total?: number | null
           lifts_open?: number
           trails_open?: number
           conditions?: string | null
           snow_quality?: string | null
           grooming_status?: string | null
           data_source?: string
-          raw_response?: Json | null
+          raw_response?: SnowReportRawResponse | null
+          provenance?: SnowReportProvenance | null
+          confidence?: number | null
+          sources_disagree?: boolean
           created_at?: string
         }
       }
@@ -134,6 +217,11 @@ export interface Database {
           wind_direction: string | null
           humidity: number | null
           powder_score: number | null
+          snow_to_liquid: number | null
+          rain_risk: number | null
+          wind_loading: number | null
+          snow_line: number | null
+          snow_quality: string | null
           fetched_at: string
         }
         Insert: {
@@ -149,6 +237,11 @@ export interface Database {
           wind_direction?: string | null
           humidity?: number | null
           powder_score?: number | null
+          snow_to_liquid?: number | null
+          rain_risk?: number | null
+          wind_loading?: number | null
+          snow_line?: number | null
+          snow_quality?: string | null
           fetched_at?: string
         }
         Update: {
@@ -164,17 +257,124 @@ export interface Database {
           wind_direction?: string | null
           humidity?: number | null
           powder_score?: number | null
+          snow_to_liquid?: number | null
+          rain_risk?: number | null
+          wind_loading?: number | null
+          snow_line?: number | null
+          snow_quality?: string | null
           fetched_at?: string
         }
       }
+      hourly_forecasts: {
+        Row: {
+          id: number
+          resort_id: string
+          forecast_time: string
+          base_elevation: number | null
+          base_snow: number
+          base_rain: number
+          base_temp: number | null
+          base_wind_speed: number | null
+          summit_elevation: number | null
+          summit_snow: number | null
+          summit_rain: number | null
+          summit_temp: number | null
+          summit_wind_speed: number | null
+          freezing_level: number | null
+          source: string
+          fetched_at: string
+        }
+        Insert: {
+          id?: number
+          resort_id: string
+          forecast_time: string
+          base_elevation?: number | null
+          base_snow?: number
+          base_rain?: number
+          base_temp?: number | null
+          base_wind_speed?: number | null
+          summit_elevation?: number | null
+          summit_snow?: number | null
+          summit_rain?: number | null
+          summit_temp?: number | null
+          summit_wind_speed?: number | null
+          freezing_level?: number | null
+          source: string
+          fetched_at?: string
+        }
+        Update: {
+          id?: number
+          resort_id?: string
+          forecast_time?: string
+          base_elevation?: number | null
+          base_snow?: number
+          base_rain?: number
+          base_temp?: number | null
+          base_wind_speed?: number | null
+          summit_elevation?: number | null
+          summit_snow?: number | null
+          summit_rain?: number | null
+          summit_temp?: number | null
+          summit_wind_speed?: number | null
+          freezing_level?: number | null
+          source?: string
+          fetched_at?: string
+        }
+      }
+      forecast_snapshots: {
+        Row: {
+          id: number
+          resort_id: string
+          source: string
+          issued_at: string
+          issue_date: string
+          forecast_date: string
+          lead_days: number
+          predicted_snow: number
+          observed_snow: number | null
+          verified_at: string | null
+        }
+        Insert: {
+          id?: number
+          resort_id: string
+          source: string
+          issued_at?: string
+          issue_date: string
+          forecast_date: string
+          lead_days: number
+          predicted_snow?: number
+          observed_snow?: number | null
+          verified_at?: string | null
+        }
+        Update: {
+          id?: number
+          resort_id?: string
+          source?: string
+          issued_at?: string
+          issue_date?: string
+          forecast_date?: string
+          lead_days?: number
+          predicted_snow?: number
+          observed_snow?: number | null
+          verified_at?: string | null
+        }
+      }
       alert_subscriptions: {
         Row: {
           id: number
           visitor_id: string
           email: string | null
-          resort_id: string
-          resort_name: string
-          threshold: 'light' | 'good' | 'great'
+          /** Resort subscriptions only */
+          resort_id: string | null
+          resort_name: string | null
+          scope_type: 'resort' | 'list' | 'state' | 'region' | 'radius'
+          /** The scope's parameters (services/alertScopes.ts); null for resort subscriptions */
+          scope: Json | null
+          /** e.g. resort:alta or state:US-UT; unique per visitor */
+          scope_key: string
+          threshold: 'light' | 'good' | 'great' | 'custom'
+          /** AlertRule (services/alertRules.ts); null before migration 011 */
+          rule: Json | null
           timeframe: number
           is_active: boolean
           last_triggered: string | null
@@ -186,9 +386,13 @@ export interface Database {
           id?: number
           visitor_id: string
           email?: string | null
-          resort_id: string
-          resort_name: string
-          threshold: 'light' | 'good' | 'great'
+          resort_id?: string | null
+          resort_name?: string | null
+          scope_type?: 'resort' | 'list' | 'state' | 'region' | 'radius'
+          scope?: Json | null
+          scope_key: string
+          threshold: 'light' | 'good' | 'great' | 'custom'
+          rule?: Json | null
           timeframe?: number
           is_active?: boolean
           last_triggered?: string | null
@@ -200,9 +404,13 @@ export interface Database {
           id?: number
           visitor_id?: string
           email?: string | null
-          resort_id?: string
-          resort_name?: string
-          threshold?: 'light' | 'good' | 'great'
+          resort_id?: string | null
+          resort_name?: string | null
+          scope_type?: 'resort' | 'list' | 'state' | 'region' | 'radius'
+          scope?: Json | null
+          scope_key?: string
+          threshold?: 'light' | 'good' | 'great' | 'custom'
+          rule?: Json | null
           timeframe?: number
           is_active?: boolean
           last_triggered?: string | null
@@ -219,6 +427,10 @@ export interface Database {
           message: string
           predicted_snow: number
           forecast_date: string
+          /** NotificationResort[] (services/alerts.ts); null before migration 012 */
+          resorts: Json | null
+          /** forecast (the rule was met), upgrade or downgrade (the forecast changed), report (today's report) */
+          kind: 'forecast' | 'upgrade' | 'downgrade' | 'report'
           is_read: boolean
           created_at: string
         }
@@ -229,6 +441,8 @@ export interface Database {
           message: string
           predicted_snow: number
           forecast_date: string
+          resorts?: Json | null
+          kind?: 'forecast' | 'upgrade' | 'downgrade' | 'report'
           is_read?: boolean
           created_at?: string
         }
@@ -239,10 +453,88 @@ export interface Database {
           message?: string
           predicted_snow?: number
           forecast_date?: string
+          resorts?: Json | null
+          kind?: 'forecast' | 'upgrade' | 'downgrade' | 'report'
           is_read?: boolean
           created_at?: string
         }
       }
+      alert_channels: {
+        Row: {
+          id: number
+          subscription_id: number
+          type: AlertChannelType
+          url: string
+          /** HMAC-SHA256 key for webhook channels */
+          secret: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          subscription_id: number
+          type: AlertChannelType
+          url: string
+          secret?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          subscription_id?: number
+          type?: AlertChannelType
+          url?: string
+          secret?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      alert_deliveries: {
+        Row: {
+          id: number
+          channel_id: number
+          /** null for test sends */
+          notification_id: number | null
+          /** AlertPayload (services/alertChannels.ts) */
+          payload: Json
+          status: AlertDeliveryStatus
+          attempts: number
+          response_status: number | null
+          last_error: string | null
+          created_at: string
+          updated_at: string
+          delivered_at: string | null
+        }
+        Insert: {
+          id?: number
+          channel_id: number
+          notification_id?: number | null
+          payload: Json
+          status?: AlertDeliveryStatus
+          attempts?: number
+          response_status?: number | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+          delivered_at?: string | null
+        }
+        Update: {
+          id?: number
+          channel_id?: number
+          notification_id?: number | null
+          payload?: Json
+          status?: AlertDeliveryStatus
+          attempts?: number
+          response_status?: number | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+          delivered_at?: string | null
+        }
+      }
       users: {
         Row: {
           id: string
@@ -328,6 +620,7 @@ export interface Database {
           query: string
           region: string | null
           results_count: number | null
+          resort_id: string | null
           created_at: string
         }
         Insert: {
@@ -336,6 +629,7 @@ export interface Database {
           query: string
           region?: string | null
           results_count?: number | null
+          resort_id?: string | null
           created_at?: string
         }
         Update: {
@@ -344,7 +638,70 @@ export interface Database {
           query?: string
           region?: string | null
           results_count?: number | null
+          resort_id?: string | null
+          created_at?: string
+        }
+      }
+      jobs: {
+        Row: {
+          id: number
+          type: string
+          payload: Json
+          status: JobStatus
+          dedupe_key: string | null
+          parent_id: number | null
+          priority: number
+          attempts: number
+          max_attempts: number
+          run_at: string
+          locked_by: string | null
+          locked_until: string | null
+          last_error: string | null
+          result: Json | null
+          created_at: string
+          started_at: string | null
+          finished_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          type: string
+          payload?: Json
+          status?: JobStatus
+          dedupe_key?: string | null
+          parent_id?: number | null
+          priority?: number
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          last_error?: string | null
+          result?: Json | null
+          created_at?: string
+          started_at?: string | null
+          finished_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          type?: string
+          payload?: Json
+          status?: JobStatus
+          dedupe_key?: string | null
+          parent_id?: number | null
+          priority?: number
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          last_error?: string | null
+          result?: Json | null
           created_at?: string
+          started_at?: string | null
+          finished_at?: string | null
+          updated_at?: string
         }
       }
     }
@@ -369,19 +726,45 @@ export type Resort = Database['public']['Tables']['resorts']['Row']
 export type ResortInsert = Database['public']['Tables']['resorts']['Insert']
 export type ResortUpdate = Database['public']['Tables']['resorts']['Update']
 
+export type ResortAlias = Database['public']['Tables']['resort_aliases']['Row']
+export type ResortAliasInsert = Database['public']['Tables']['resort_aliases']['Insert']
+
+export type ResortExternalId = Database['public']['Tables']['resort_external_ids']['Row']
+export type ResortExternalIdInsert = Database['public']['Tables']['resort_external_ids']['Insert']
+
 export type SnowReport = Database['public']['Tables']['snow_reports']['Row']
 export type SnowReportInsert = Database['public']['Tables']['snow_reports']['Insert']
 
 export type Forecast = Database['public']['Tables']['forecasts']['Row']
 export type ForecastInsert = Database['public']['Tables']['forecasts']['Insert']
 
+export type HourlyForecast = Database['public']['Tables']['hourly_forecasts']['Row']
+export type HourlyForecastInsert = Database['public']['Tables']['hourly_forecasts']['Insert']
+
+export type ForecastSnapshot = Database['public']['Tables']['forecast_snapshots']['Row']
+export type ForecastSnapshotInsert = Database['public']['Tables']['forecast_snapshots']['Insert']
+
 export type AlertSubscription = Database['public']['Tables']['alert_subscriptions']['Row']
 export type AlertSubscriptionInsert = Database['public']['Tables']['alert_subscriptions']['Insert']
+export type AlertSubscriptionUpdate = Database['public']['Tables']['alert_subscriptions']['Update']
 
 export type AlertNotification = Database['public']['Tables']['alert_notifications']['Row']
 export type AlertNotificationInsert = Database['public']['Tables']['alert_notifications']['Insert']
 
+export type AlertChannel = Database['public']['Tables']['alert_channels']['Row']
+export type AlertChannelInsert = Database['public']['Tables']['alert_channels']['Insert']
+
+export type AlertDelivery = Database['public']['Tables']['alert_deliveries']['Row']
+export type AlertDeliveryInsert = Database['public']['Tables']['alert_deliveries']['Insert']
+export type AlertDeliveryUpdate = Database['public']['Tables']['alert_deliveries']['Update']
+
 export type User = Database['public']['Tables']['users']['Row']
 export type Favorite = Database['public']['Tables']['favorites']['Row']
+export type FavoriteInsert = Database['public']['Tables']['favorites']['Insert']
 export type ChatMessage = Database['public']['Tables']['chat_messages']['Row']
 export type SearchLog = Database['public']['Tables']['search_logs']['Row']
+export type SearchLogInsert = Database['public']['Tables']['search_logs']['Insert']
+
+export type Job = Database['public']['Tables']['jobs']['Row']
+export type JobInsert = Database['public']['Tables']['jobs']['Insert']
+export type JobUpdate = Database['public']['Tables']['jobs']['Update']
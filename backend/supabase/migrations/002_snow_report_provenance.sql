@@ -0,0 +1,8 @@
+-- SnowPeak Tracker - Multi-source reconciliation
+-- Per-field provenance and confidence for snow reports
+
+ALTER TABLE snow_reports ADD COLUMN IF NOT EXISTS provenance JSONB;
+ALTER TABLE snow_reports ADD COLUMN IF NOT EXISTS confidence REAL;
+ALTER TABLE snow_reports ADD COLUMN IF NOT EXISTS sources_disagree BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_snow_reports_disagree ON snow_reports(sources_disagree) WHERE sources_disagree = TRUE;
@@ -0,0 +1,23 @@
+-- SnowPeak Tracker - Forecast verification
+-- Immutable forecast snapshots keyed by issue time and lead time, scored
+-- against the observed 24hr snowfall once the forecast day has passed
+
+CREATE TABLE IF NOT EXISTS forecast_snapshots (
+  id SERIAL PRIMARY KEY,
+  resort_id TEXT NOT NULL REFERENCES resorts(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  issue_date DATE NOT NULL,
+  forecast_date DATE NOT NULL,
+  lead_days INTEGER NOT NULL,
+  predicted_snow REAL NOT NULL DEFAULT 0,
+  observed_snow REAL,
+  verified_at TIMESTAMPTZ,
+
+  -- First forecast a source issued for a day at a given lead time wins
+  UNIQUE(resort_id, source, forecast_date, lead_days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshots_resort ON forecast_snapshots(resort_id);
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshots_date ON forecast_snapshots(forecast_date);
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshots_unverified ON forecast_snapshots(forecast_date) WHERE verified_at IS NULL;
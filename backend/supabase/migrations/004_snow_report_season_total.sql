@@ -0,0 +1,6 @@
+-- SnowPeak Tracker - Snowfall history
+-- Season-to-date snowfall, stored with each daily report
+
+ALTER TABLE snow_reports ADD COLUMN IF NOT EXISTS season_total INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_snow_reports_resort_date ON snow_reports(resort_id, report_date);
@@ -0,0 +1,30 @@
+-- SnowPeak Tracker - Hourly forecasts
+-- One row per resort per hour with separate base and summit values
+
+CREATE TABLE IF NOT EXISTS hourly_forecasts (
+  id SERIAL PRIMARY KEY,
+  resort_id TEXT NOT NULL REFERENCES resorts(id) ON DELETE CASCADE,
+  forecast_time TIMESTAMPTZ NOT NULL,
+
+  -- Base elevation band
+  base_elevation INTEGER,        -- feet
+  base_snow REAL DEFAULT 0,      -- inches
+  base_rain REAL DEFAULT 0,      -- inches
+  base_temp INTEGER,             -- Fahrenheit
+  base_wind_speed INTEGER,       -- mph
+
+  -- Summit elevation band (NULL when the summit elevation is unknown)
+  summit_elevation INTEGER,
+  summit_snow REAL,
+  summit_rain REAL,
+  summit_temp INTEGER,
+  summit_wind_speed INTEGER,
+
+  freezing_level INTEGER,        -- feet
+  source TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(resort_id, forecast_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hourly_forecasts_resort_time ON hourly_forecasts(resort_id, forecast_time);
@@ -0,0 +1,8 @@
+-- SnowPeak Tracker - Snow quality model
+-- Per-day snow-to-liquid ratio, rain risk and wind loading behind powder_score
+
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS snow_to_liquid REAL;
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS rain_risk REAL;
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS wind_loading REAL;
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS snow_line INTEGER;
+ALTER TABLE forecasts ADD COLUMN IF NOT EXISTS snow_quality TEXT;
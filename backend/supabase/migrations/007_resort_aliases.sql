@@ -0,0 +1,19 @@
+-- SnowPeak Tracker - Resort search
+-- Alternative names (former names, abbreviations, nicknames) used by
+-- /api/resorts/search. Mt/Mount style variants are handled by normalization.
+
+CREATE TABLE IF NOT EXISTS resort_aliases (
+  id SERIAL PRIMARY KEY,
+  resort_id TEXT NOT NULL REFERENCES resorts(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  normalized TEXT NOT NULL,      -- normalizeResortName(alias)
+  kind TEXT DEFAULT 'alias',     -- former_name | abbreviation | nickname | alias
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(resort_id, normalized)
+);
+
+CREATE INDEX IF NOT EXISTS idx_resort_aliases_normalized ON resort_aliases(normalized);
+
+-- Search analytics: which resort the top result resolved to
+ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS resort_id TEXT;
@@ -0,0 +1,15 @@
+-- SnowPeak Tracker - Canonical resort identity
+-- Maps the ids each data source uses for a resort (OnTheSnow report paths,
+-- names returned by Gemini, ids of merged duplicates) to one resort id.
+
+CREATE TABLE IF NOT EXISTS resort_external_ids (
+  id SERIAL PRIMARY KEY,
+  resort_id TEXT NOT NULL REFERENCES resorts(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,          -- onthesnow | gemini | legacy
+  external_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_resort_external_ids_resort ON resort_external_ids(resort_id);
@@ -0,0 +1,30 @@
+-- SnowPeak Tracker - Job queue
+-- Durable background jobs (crawl, per-resort refresh, preload, alert checks).
+-- Workers claim jobs with a lease (locked_by/locked_until); a job whose lease
+-- expires is picked up again. dedupe_key is cleared when a job finishes, so
+-- only one queued/running job exists per key.
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id SERIAL PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload JSONB DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued', -- queued | running | succeeded | failed
+  dedupe_key TEXT UNIQUE,
+  parent_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+  priority INTEGER DEFAULT 0,            -- higher runs first
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  run_at TIMESTAMPTZ DEFAULT NOW(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs(status, run_at, priority DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_parent ON jobs(parent_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_type_created ON jobs(type, created_at DESC);
@@ -0,0 +1,10 @@
+-- SnowPeak Tracker - International resorts
+-- country is ISO 3166-1 alpha-2; state keeps the subdivision code (CO, BC,
+-- 74, 01) and sub_region its name (Colorado, British Columbia, Haute-Savoie,
+-- Hokkaido). region comes from the country's taxonomy (Rockies, Western
+-- Canada, Alps, Hokkaido). Existing resorts are all in the US.
+
+ALTER TABLE resorts ADD COLUMN IF NOT EXISTS country TEXT NOT NULL DEFAULT 'US';
+ALTER TABLE resorts ADD COLUMN IF NOT EXISTS sub_region TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_resorts_country ON resorts(country);
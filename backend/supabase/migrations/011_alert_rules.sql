@@ -0,0 +1,29 @@
+-- SnowPeak Tracker - Alert rules
+-- Subscriptions store the rule they are checked against (see
+-- src/services/alertRules.ts): conditions on forecast snowfall, reported base
+-- depth and forecast lows, matched all together or any one. The light/good/
+-- great thresholds become preset rules and `custom` marks the rest. The
+-- forecast window can be any 1-16 days.
+
+ALTER TABLE alert_subscriptions ADD COLUMN IF NOT EXISTS rule JSONB;
+
+ALTER TABLE alert_subscriptions DROP CONSTRAINT IF EXISTS alert_subscriptions_threshold_check;
+ALTER TABLE alert_subscriptions ADD CONSTRAINT alert_subscriptions_threshold_check
+  CHECK (threshold IN ('light', 'good', 'great', 'custom'));
+
+ALTER TABLE alert_subscriptions DROP CONSTRAINT IF EXISTS alert_subscriptions_timeframe_check;
+ALTER TABLE alert_subscriptions ADD CONSTRAINT alert_subscriptions_timeframe_check
+  CHECK (timeframe BETWEEN 1 AND 16);
+
+-- Existing subscriptions: the preset's minimum snowfall on any forecast day
+UPDATE alert_subscriptions
+SET rule = jsonb_build_object(
+  'match', 'all',
+  'conditions', jsonb_build_array(jsonb_build_object(
+    'type', 'snowfall',
+    'snow', CASE threshold WHEN 'light' THEN 1 WHEN 'good' THEN 5 ELSE 15 END,
+    'days', 1,
+    'weekend', false
+  ))
+)
+WHERE rule IS NULL;
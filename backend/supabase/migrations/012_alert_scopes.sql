@@ -0,0 +1,30 @@
+-- SnowPeak Tracker - Alert scopes
+-- A subscription watches one resort or a scope of them: a list of resorts
+-- (optionally the visitor's favorites), a state, a region, or every resort
+-- within some hours' drive of a place (see src/services/alertScopes.ts). One
+-- notification summarizes every resort in the scope that met the rule.
+--
+-- `scope_key` identifies the scope (resort:alta, state:US-UT, region:Pacific,
+-- ...) and replaces UNIQUE(visitor_id, resort_id), so subscribing to the same
+-- scope again updates it. Only resort subscriptions have a resort_id and
+-- resort_name.
+
+ALTER TABLE alert_subscriptions ADD COLUMN IF NOT EXISTS scope_type TEXT NOT NULL DEFAULT 'resort';
+ALTER TABLE alert_subscriptions ADD COLUMN IF NOT EXISTS scope JSONB;
+ALTER TABLE alert_subscriptions ADD COLUMN IF NOT EXISTS scope_key TEXT;
+
+ALTER TABLE alert_subscriptions DROP CONSTRAINT IF EXISTS alert_subscriptions_scope_type_check;
+ALTER TABLE alert_subscriptions ADD CONSTRAINT alert_subscriptions_scope_type_check
+  CHECK (scope_type IN ('resort', 'list', 'state', 'region', 'radius'));
+
+UPDATE alert_subscriptions SET scope_key = 'resort:' || resort_id WHERE scope_key IS NULL;
+ALTER TABLE alert_subscriptions ALTER COLUMN scope_key SET NOT NULL;
+
+ALTER TABLE alert_subscriptions ALTER COLUMN resort_id DROP NOT NULL;
+ALTER TABLE alert_subscriptions ALTER COLUMN resort_name DROP NOT NULL;
+ALTER TABLE alert_subscriptions DROP CONSTRAINT IF EXISTS alert_subscriptions_visitor_id_resort_id_key;
+ALTER TABLE alert_subscriptions DROP CONSTRAINT IF EXISTS alert_subscriptions_visitor_id_scope_key_key;
+ALTER TABLE alert_subscriptions ADD CONSTRAINT alert_subscriptions_visitor_id_scope_key_key UNIQUE (visitor_id, scope_key);
+
+-- Resorts that met the rule, snowiest first: [{ resortId, resortName, forecastDate, predictedSnow }]
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS resorts JSONB;
@@ -0,0 +1,13 @@
+-- SnowPeak Tracker - Forecast change alerts
+-- Rules can watch how the consensus forecast for a day moves between
+-- successive snapshots (forecast_snapshots, migration 003): a storm upgraded
+-- or downgraded by some amount. `kind` tells those notifications apart from
+-- the ones about the forecast itself, so each is deduplicated on its own.
+
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'forecast';
+
+ALTER TABLE alert_notifications DROP CONSTRAINT IF EXISTS alert_notifications_kind_check;
+ALTER TABLE alert_notifications ADD CONSTRAINT alert_notifications_kind_check
+  CHECK (kind IN ('forecast', 'upgrade', 'downgrade'));
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifs_dedupe ON alert_notifications(subscription_id, forecast_date, kind);
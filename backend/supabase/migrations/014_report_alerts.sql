@@ -0,0 +1,9 @@
+-- SnowPeak Tracker - Report alerts
+-- Rules can watch the morning snow report itself: fresh snow over the last
+-- 24 hours, or lifts opening. Ingesting a new or changed report queues a
+-- check_report_alerts job for its resort, so these don't wait for the
+-- /api/alerts/check cron. Their notifications are of kind `report`.
+
+ALTER TABLE alert_notifications DROP CONSTRAINT IF EXISTS alert_notifications_kind_check;
+ALTER TABLE alert_notifications ADD CONSTRAINT alert_notifications_kind_check
+  CHECK (kind IN ('forecast', 'upgrade', 'downgrade', 'report'));
@@ -0,0 +1,35 @@
+-- SnowPeak Tracker - Alert channels
+-- Besides the in-app notification (and email), a subscription can deliver
+-- its notifications to webhook channels: a generic JSON POST signed with the
+-- channel's secret, a Slack incoming webhook or a Discord webhook (see
+-- src/services/alertChannels.ts). Each send is logged in alert_deliveries
+-- and retried with backoff by a deliver_alert job.
+
+CREATE TABLE IF NOT EXISTS alert_channels (
+  id SERIAL PRIMARY KEY,
+  subscription_id INTEGER NOT NULL REFERENCES alert_subscriptions(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('webhook', 'slack', 'discord')),
+  url TEXT NOT NULL,
+  secret TEXT,                       -- HMAC-SHA256 key, webhook channels only
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_channels_subscription ON alert_channels(subscription_id);
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id SERIAL PRIMARY KEY,
+  channel_id INTEGER NOT NULL REFERENCES alert_channels(id) ON DELETE CASCADE,
+  notification_id INTEGER REFERENCES alert_notifications(id) ON DELETE CASCADE, -- null for test sends
+  payload JSONB NOT NULL,            -- the notification as sent, before channel formatting
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'retrying', 'delivered', 'failed')),
+  attempts INTEGER DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_channel ON alert_deliveries(channel_id, created_at DESC);
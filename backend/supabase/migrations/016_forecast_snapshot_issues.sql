@@ -0,0 +1,12 @@
+-- SnowPeak Tracker - One forecast snapshot per issue
+-- Snapshots were unique per (resort, source, day, lead time), so only the
+-- first forecast of the day was kept and a storm upgraded or downgraded later
+-- the same day never showed up (forecast change alerts, migration 013). Each
+-- refresh now records a snapshot when it is the first at its lead time or
+-- its prediction moved since the day's last one, keyed by when it was issued.
+-- Accuracy stats still score the first snapshot per lead time.
+
+ALTER TABLE forecast_snapshots DROP CONSTRAINT IF EXISTS forecast_snapshots_resort_id_source_forecast_date_lead_days_key;
+ALTER TABLE forecast_snapshots DROP CONSTRAINT IF EXISTS forecast_snapshots_resort_id_source_forecast_date_issued_at_key;
+ALTER TABLE forecast_snapshots ADD CONSTRAINT forecast_snapshots_resort_id_source_forecast_date_issued_at_key
+  UNIQUE (resort_id, source, forecast_date, issued_at);
@@ -0,0 +1,121 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { alertRepo } from '../src/db/repositories/index.js';
+import type { Json } from '../src/types/database.js';
+import { scopeColumns } from '../src/services/alertScopes.js';
+import { deliverAlert, generateSecret, testPayload } from '../src/services/alertChannels.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from '../src/services/webhookSignature.js';
+
+// The receiver runs on loopback, which deliveries otherwise refuse
+process.env.ALERT_WEBHOOKS_ALLOW_LOCAL = 'true';
+
+let server: Server;
+let baseUrl: string;
+let nextStatus = 200;
+const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(nextStatus).end('receiver says hi');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  nextStatus = 200;
+  received.length = 0;
+});
+
+let visitors = 0;
+
+async function queueTestDelivery(channel: { secret?: string | null; isActive?: boolean } = {}) {
+  const subscription = await alertRepo.upsertSubscription({
+    visitor_id: `visitor-${++visitors}`,
+    ...scopeColumns({ type: 'region', region: 'Rockies' }),
+    threshold: 'good',
+    timeframe: 5,
+    is_active: true,
+  });
+  const created = await alertRepo.insertChannel({
+    subscription_id: subscription.id,
+    type: 'webhook',
+    url: `${baseUrl}/hook`,
+    secret: channel.secret ?? null,
+    is_active: channel.isActive ?? true,
+  });
+  const payload = testPayload(subscription, { scope: 'Rockies', locale: 'en', units: 'imperial' });
+  return alertRepo.insertDelivery({ channel_id: created.id, payload: payload as unknown as Json });
+}
+
+test('webhook sends are signed with the channel secret', async () => {
+  const secret = generateSecret();
+  const delivery = await queueTestDelivery({ secret });
+
+  const result = await deliverAlert(delivery.id);
+  assert.equal(result.status, 'delivered');
+
+  const [{ headers, body }] = received;
+  const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+  const signature = headers[SIGNATURE_HEADER.toLowerCase()] as string;
+  assert.equal(verifySignature(secret, timestamp, body, signature), true);
+  assert.equal(JSON.parse(body).event, 'alert.test');
+
+  const stored = await alertRepo.findDelivery(delivery.id);
+  assert.equal(stored?.status, 'delivered');
+  assert.equal(stored?.response_status, 200);
+});
+
+test('a server error is retried until the last attempt', async () => {
+  nextStatus = 503;
+  const delivery = await queueTestDelivery();
+
+  await assert.rejects(deliverAlert(delivery.id, 1, 3), /HTTP 503/);
+  let stored = await alertRepo.findDelivery(delivery.id);
+  assert.equal(stored?.status, 'retrying');
+  assert.equal(stored?.attempts, 1);
+
+  const result = await deliverAlert(delivery.id, 3, 3);
+  assert.equal(result.status, 'failed');
+  stored = await alertRepo.findDelivery(delivery.id);
+  assert.equal(stored?.status, 'failed');
+  assert.equal(stored?.attempts, 3);
+  // Only the status is kept, never the receiver's response body
+  assert.equal(stored?.last_error, 'HTTP 503');
+});
+
+test('a client error fails the delivery without a retry, but 429 is retried', async () => {
+  nextStatus = 404;
+  const notFound = await queueTestDelivery();
+  assert.equal((await deliverAlert(notFound.id, 1, 5)).status, 'failed');
+
+  nextStatus = 429;
+  const limited = await queueTestDelivery();
+  await assert.rejects(deliverAlert(limited.id, 1, 5), /HTTP 429/);
+});
+
+test('paused channels are not sent to', async () => {
+  const delivery = await queueTestDelivery({ isActive: false });
+  const result = await deliverAlert(delivery.id, 1, 5);
+  assert.deepEqual(result, { deliveryId: delivery.id, status: 'failed', error: 'Channel removed or paused' });
+  assert.equal(received.length, 0);
+});
+
+test('delivered sends are not repeated', async () => {
+  const delivery = await queueTestDelivery();
+  await deliverAlert(delivery.id);
+  assert.equal((await deliverAlert(delivery.id)).status, 'skipped');
+  assert.equal(received.length, 1);
+});
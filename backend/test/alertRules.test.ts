@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SnowReport } from '../src/types/database.js';
+import { evaluateRule, type AlertRule, type RuleInput } from '../src/services/alertRules.js';
+
+const liftsRule: AlertRule = { match: 'all', conditions: [{ type: 'liftsOpening', lifts: 3 }] };
+
+function report(reportDate: string, liftsOpen: number): SnowReport {
+  return {
+    id: 0,
+    resort_id: 'alta',
+    report_date: reportDate,
+    base_depth: 40,
+    last_24_hours: 2,
+    last_48_hours: 2,
+    last_7_days: null,
+    season_total: null,
+    lifts_open: liftsOpen,
+    trails_open: 0,
+    conditions: null,
+    snow_quality: null,
+    grooming_status: null,
+    data_source: 'onthesnow',
+    raw_response: null,
+    provenance: null,
+    confidence: null,
+    sources_disagree: false,
+    created_at: `${reportDate}T12:00:00Z`,
+  };
+}
+
+function input(reports: SnowReport[]): RuleInput {
+  return { forecasts: [], reports, snapshots: [], today: '2026-01-10' };
+}
+
+test('lifts opening since yesterday match', () => {
+  const match = evaluateRule(liftsRule, input([report('2026-01-09', 2), report('2026-01-10', 6)]));
+  assert.deepEqual(match?.matches[0].lifts, { open: 6, before: 2 });
+});
+
+test('too few new lifts do not match', () => {
+  assert.equal(evaluateRule(liftsRule, input([report('2026-01-09', 4), report('2026-01-10', 6)])), null);
+});
+
+test("a resort's first report is not a lifts opening", () => {
+  assert.equal(evaluateRule(liftsRule, input([report('2026-01-10', 9)])), null);
+});
+
+test('the first report after a gap is not a lifts opening', () => {
+  assert.equal(evaluateRule(liftsRule, input([report('2026-01-06', 0), report('2026-01-10', 9)])), null);
+});
+
+test('an older report today does not match', () => {
+  assert.equal(evaluateRule(liftsRule, input([report('2026-01-08', 0), report('2026-01-09', 9)])), null);
+});
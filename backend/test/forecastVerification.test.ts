@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastSnapshotRepo, resortRepo, snowReportRepo } from '../src/db/repositories/index.js';
+import { getDaysFromNow } from '../src/db/supabase.js';
+import { verifyForecastSnapshots } from '../src/services/forecastVerification.js';
+
+test('snapshots past the lookback that never got a report do not block verification', async () => {
+  await resortRepo.upsert({ id: 'alta', name: 'Alta', location: 'Utah, USA', country: 'US', state: 'UT', region: 'Rockies' });
+
+  // A full page of old snapshots nobody will ever report on
+  const stale = getDaysFromNow(-30);
+  await forecastSnapshotRepo.recordMany(
+    Array.from({ length: 1000 }, (_, i) => ({
+      resort_id: 'alta',
+      source: 'onthesnow',
+      issued_at: new Date(Date.UTC(2020, 0, 1, 0, 0, i)).toISOString(),
+      issue_date: stale,
+      forecast_date: stale,
+      lead_days: 0,
+      predicted_snow: 4,
+    })),
+  );
+
+  const yesterday = getDaysFromNow(-1);
+  await forecastSnapshotRepo.recordMany([
+    { resort_id: 'alta', source: 'onthesnow', issue_date: yesterday, forecast_date: yesterday, lead_days: 0, predicted_snow: 6 },
+  ]);
+  await snowReportRepo.upsert({ resort_id: 'alta', report_date: yesterday, last_24_hours: 8 });
+
+  const result = await verifyForecastSnapshots();
+  assert.deepEqual(result, { checked: 1, verified: 1, pending: 0 });
+  const [snapshot] = await forecastSnapshotRepo.list({ resortId: 'alta', from: yesterday });
+  assert.equal(snapshot.observed_snow, 8);
+});
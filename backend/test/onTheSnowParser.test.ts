@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkFixture, loadFixtures } from '../src/scripts/scraperFixtures.js';
+import { parseResortReport, parseSkiReportTable } from '../src/services/onTheSnowParser.js';
+import { checkResortReport, checkSkiReportTable } from '../src/services/parseDrift.js';
+
+const fixtures = await loadFixtures();
+
+test('every page kind has a fixture', () => {
+  const kinds = new Set(fixtures.map((fixture) => fixture.spec.kind));
+  assert.deepEqual([...kinds].sort(), ['resortDirectory', 'resortOverview', 'resortReport', 'skiReportTable']);
+});
+
+for (const fixture of fixtures) {
+  test(`fixture ${fixture.name} parses as expected`, () => {
+    const { check, problems } = checkFixture(fixture);
+    assert.deepEqual(problems, []);
+    assert.equal(check.suspect, fixture.spec.suspect);
+  });
+}
+
+test('a page without the report sections is suspect', () => {
+  const parsed = parseResortReport('<html><body><h1>Maintenance</h1></body></html>', {
+    name: 'Vail',
+    url: 'https://www.onthesnow.com/colorado/vail/skireport',
+  });
+  const check = checkResortReport(parsed);
+  assert.equal(check.suspect, true);
+  assert.ok(check.reasons.includes('base not found'));
+  assert.ok(check.reasons.includes('every value is zero'));
+});
+
+test('a ski report page without a table is suspect', () => {
+  const parsed = parseSkiReportTable('<html><body><p>No resorts</p></body></html>');
+  assert.deepEqual(parsed.data, []);
+  assert.equal(checkSkiReportTable(parsed).suspect, true);
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alertRepo, resortRepo } from '../src/db/repositories/index.js';
+import { mergeResorts } from '../src/services/resortIdentity.js';
+import { scopeColumns, scopeKey, subscriptionScope, type AlertScope } from '../src/services/alertScopes.js';
+
+async function addResort(id: string, name: string) {
+  await resortRepo.upsert({ id, name, location: 'Utah, USA', country: 'US', state: 'UT', region: 'Rockies' });
+}
+
+async function subscribe(visitorId: string, scope: AlertScope) {
+  return alertRepo.upsertSubscription({
+    visitor_id: visitorId,
+    ...scopeColumns(scope),
+    resort_name: scope.type === 'resort' ? scope.resortId : null,
+    threshold: 'good',
+    timeframe: 5,
+    is_active: true,
+  });
+}
+
+test('merging a resort moves its resort and list subscriptions', async () => {
+  await addResort('snowbird', 'Snowbird');
+  await addResort('snowbird-resort', 'Snowbird Resort');
+  await addResort('alta', 'Alta');
+
+  // Only watches the duplicate: moved
+  const resortOnly = await subscribe('v1', { type: 'resort', resortId: 'snowbird-resort' });
+  const listOnly = await subscribe('v1', { type: 'list', resortIds: ['snowbird-resort', 'alta'], favorites: false });
+  // Watches both: the target's subscription wins, the duplicate's goes
+  const kept = await subscribe('v2', { type: 'resort', resortId: 'snowbird' });
+  await subscribe('v2', { type: 'resort', resortId: 'snowbird-resort' });
+  const keptList = await subscribe('v2', { type: 'list', resortIds: ['alta', 'snowbird'], favorites: false });
+  await subscribe('v2', { type: 'list', resortIds: ['alta', 'snowbird-resort'], favorites: false });
+  // Names both resorts: collapses to one
+  const both = await subscribe('v3', { type: 'list', resortIds: ['snowbird', 'snowbird-resort'], favorites: true });
+
+  const summary = await mergeResorts('snowbird-resort', 'snowbird');
+  assert.deepEqual(summary.tables.alert_subscriptions, { moved: 3, skipped: 2 });
+
+  const v1 = await alertRepo.listSubscriptions({ visitorId: 'v1' });
+  const movedResort = v1.find((s) => s.id === resortOnly.id);
+  assert.equal(movedResort?.resort_id, 'snowbird');
+  assert.equal(movedResort?.resort_name, 'Snowbird');
+  assert.equal(movedResort?.scope_key, 'resort:snowbird');
+  const movedList = v1.find((s) => s.id === listOnly.id)!;
+  assert.deepEqual(subscriptionScope(movedList), { type: 'list', resortIds: ['snowbird', 'alta'], favorites: false });
+  assert.equal(movedList.scope_key, scopeKey({ type: 'list', resortIds: ['alta', 'snowbird'], favorites: false }));
+
+  const v2 = await alertRepo.listSubscriptions({ visitorId: 'v2' });
+  assert.deepEqual(v2.map((s) => s.id).sort(), [kept.id, keptList.id].sort());
+
+  const [v3] = await alertRepo.listSubscriptions({ visitorId: 'v3' });
+  assert.equal(v3.id, both.id);
+  assert.deepEqual(subscriptionScope(v3), { type: 'list', resortIds: ['snowbird'], favorites: true });
+  assert.equal(v3.scope_key, 'list:snowbird+favorites');
+
+  // Subscribing to the surviving resort again updates the moved row instead of adding one
+  await subscribe('v1', { type: 'resort', resortId: 'snowbird' });
+  assert.equal((await alertRepo.listSubscriptions({ visitorId: 'v1' })).length, 2);
+});
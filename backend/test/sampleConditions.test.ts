@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alertRepo, forecastRepo, snowReportRepo } from '../src/db/repositories/index.js';
+import { getDaysFromNow, getToday } from '../src/db/supabase.js';
+import { seedResorts, seedSampleConditions } from '../src/db/seed.js';
+import { checkForAlerts } from '../src/services/alerts.js';
+import { scopeColumns } from '../src/services/alertScopes.js';
+
+test('sample conditions are stale and left out of alerts', async () => {
+  await seedResorts({ quiet: true });
+  const sampled = await seedSampleConditions();
+  assert.ok(sampled > 0);
+
+  const today = getToday();
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  assert.equal(await snowReportRepo.hasReportSince('alta', oneHourAgo), false);
+  assert.equal((await forecastRepo.list({ resortId: 'alta', from: today })).length, 7);
+  assert.deepEqual(await forecastRepo.list({ resortId: 'alta', from: today, excludeSamples: true }), []);
+  assert.deepEqual(await snowReportRepo.listForResorts(['alta'], today, today, { excludeSamples: true }), []);
+  assert.deepEqual(await snowReportRepo.listBetween(today, today, { excludeSamples: true }), []);
+
+  // Any snow at all would match; the samples have plenty somewhere in the Rockies
+  const subscription = await alertRepo.upsertSubscription({
+    visitor_id: 'visitor',
+    ...scopeColumns({ type: 'region', region: 'Rockies' }),
+    threshold: 'light',
+    timeframe: 7,
+    is_active: true,
+  });
+  assert.equal(await checkForAlerts(subscription.id), false);
+
+  // A real report replaces the sample and is not replaced by the next seed
+  await snowReportRepo.upsert({ resort_id: 'alta', report_date: today, last_24_hours: 3, data_source: 'onthesnow' });
+  await seedSampleConditions();
+  const latest = await snowReportRepo.findLatest('alta');
+  assert.equal(latest?.data_source, 'onthesnow');
+  assert.equal(latest?.last_24_hours, 3);
+  assert.equal((await snowReportRepo.listForResorts(['alta'], getDaysFromNow(-1), today, { excludeSamples: true })).length, 1);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { validate } from '../src/middleware/validate.js';
+import { getResortHistory } from '../src/schemas/resorts.js';
+
+// Run a route's validation on a query; the 400 body, or null when it passed
+function validateQuery(query: Record<string, string>): unknown {
+  let sent: unknown = null;
+  const res = {
+    locals: {},
+    statusCode: 200,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent = body;
+      return this;
+    },
+  };
+  validate(getResortHistory)({ params: { id: 'alta' }, query } as unknown as Request, res as unknown as Response, () => {});
+  return sent;
+}
+
+test('history accepts real calendar dates', () => {
+  assert.equal(validateQuery({ from: '2024-02-29', to: '2024-03-31' }), null);
+});
+
+test('history rejects dates that are not on the calendar with a 400', () => {
+  for (const from of ['2025-13-45', '2025-02-29', '2025-04-31', '2025-00-10']) {
+    assert.deepEqual(validateQuery({ from }), {
+      error: 'Invalid query parameter "from": Must be a real calendar date',
+      code: 'VALIDATION_ERROR',
+      issues: [{ in: 'query', path: 'from', message: 'Must be a real calendar date' }],
+    });
+  }
+});
+
+test('history rejects malformed dates with one issue', () => {
+  const body = validateQuery({ to: '2025-1-1' }) as { issues: unknown[] };
+  assert.deepEqual(body.issues, [{ in: 'query', path: 'to', message: 'Must be a YYYY-MM-DD date' }]);
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { signPayload, verifySignature } from '../src/services/webhookSignature.js';
+
+const secret = 'a'.repeat(64);
+const timestamp = '1760000000';
+const body = '{"event":"alert.test"}';
+
+test('the signature is an HMAC-SHA256 of the timestamp and body', () => {
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  assert.equal(signPayload(secret, timestamp, body), `sha256=${expected}`);
+});
+
+test('a signature only verifies for the same secret, timestamp and body', () => {
+  const signature = signPayload(secret, timestamp, body);
+  assert.equal(verifySignature(secret, timestamp, body, signature), true);
+  assert.equal(verifySignature('b'.repeat(64), timestamp, body, signature), false);
+  assert.equal(verifySignature(secret, '1760000001', body, signature), false);
+  assert.equal(verifySignature(secret, timestamp, '{"event":"alert.notification"}', signature), false);
+  assert.equal(verifySignature(secret, timestamp, body, signature.slice(0, -1)), false);
+  assert.equal(verifySignature(secret, timestamp, body, ''), false);
+});
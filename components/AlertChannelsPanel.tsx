@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Plus, Send, Trash2, KeyRound, Check, X } from 'lucide-react';
+import * as api from '../services/api';
+import { UnitSystem } from '../services/units';
+import { MessageKey, formatTimestamp, useI18n } from '../i18n';
+
+interface AlertChannelsPanelProps {
+  subscriptionId: number;
+  units: UnitSystem;
+}
+
+// Same limit as the backend's MAX_CHANNELS_PER_SUBSCRIPTION
+const MAX_CHANNELS = 5;
+
+// Deliveries shown under the channels
+const RECENT_DELIVERIES = 5;
+
+const CHANNEL_LABELS: Record<api.AlertChannelType, MessageKey> = {
+  webhook: 'alerts.channels.type.webhook',
+  slack: 'alerts.channels.type.slack',
+  discord: 'alerts.channels.type.discord',
+};
+
+const DELIVERY_LABELS: Record<api.AlertDelivery['status'], MessageKey> = {
+  pending: 'alerts.delivery.pending',
+  retrying: 'alerts.delivery.retrying',
+  delivered: 'alerts.delivery.delivered',
+  failed: 'alerts.delivery.failed',
+};
+
+const DELIVERY_COLORS: Record<api.AlertDelivery['status'], string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  retrying: 'bg-amber-100 text-amber-700',
+  delivered: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-600',
+};
+
+/**
+ * Webhook, Slack and Discord channels of one subscription, with their recent
+ * deliveries. Shown under the subscription in the notification bell.
+ */
+const AlertChannelsPanel: React.FC<AlertChannelsPanelProps> = ({ subscriptionId, units }) => {
+  const { locale, t } = useI18n();
+  const [channels, setChannels] = useState<api.AlertChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<api.AlertDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [type, setType] = useState<api.AlertChannelType>('slack');
+  const [url, setUrl] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  // A new webhook channel's signing secret, which the API only returns once
+  const [secret, setSecret] = useState<string | null>(null);
+  const [error, setError] = useState<'alerts.channels.addFailed' | 'alerts.channels.loadFailed' | null>(null);
+
+  useEffect(() => {
+    loadChannels();
+  }, [subscriptionId]);
+
+  const loadChannels = async () => {
+    try {
+      const [channelList, deliveryList] = await Promise.all([
+        api.getAlertChannels(subscriptionId),
+        api.getAlertDeliveries(subscriptionId, RECENT_DELIVERIES),
+      ]);
+      setChannels(channelList);
+      setDeliveries(deliveryList);
+    } catch (err) {
+      console.error('Failed to load channels:', err);
+      setError('alerts.channels.loadFailed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    setError(null);
+    setSecret(null);
+
+    try {
+      const result = await api.addAlertChannel(subscriptionId, { type, url: url.trim() });
+      setChannels(prev => [...prev, result.channel]);
+      setSecret(result.secret);
+      setUrl('');
+    } catch (err) {
+      console.error('Failed to add channel:', err);
+      setError('alerts.channels.addFailed');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (channelId: number) => {
+    try {
+      await api.deleteAlertChannel(subscriptionId, channelId);
+      setChannels(prev => prev.filter(c => c.id !== channelId));
+      setDeliveries(prev => prev.filter(d => d.channelId !== channelId));
+    } catch (err) {
+      console.error('Failed to remove channel:', err);
+    }
+  };
+
+  const handleTest = async (channelId: number) => {
+    setTestingId(channelId);
+    try {
+      const delivery = await api.testAlertChannel(subscriptionId, channelId, locale, units);
+      setDeliveries(prev => [delivery, ...prev].slice(0, RECENT_DELIVERIES));
+    } catch (err) {
+      console.error('Failed to test channel:', err);
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="py-3 flex justify-center">
+        <Loader2 size={16} className="animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const channelType = (channelId: number) => channels.find(c => c.id === channelId)?.type;
+
+  return (
+    <div className="mt-3 space-y-3 text-xs">
+      {channels.length === 0 ? (
+        <p className="text-slate-400">{t('alerts.channels.none')}</p>
+      ) : (
+        <div className="space-y-1.5">
+          {channels.map((channel) => (
+            <div key={channel.id} className="flex items-center gap-2">
+              <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 flex-shrink-0">
+                {t(CHANNEL_LABELS[channel.type])}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-slate-600" title={channel.url}>{channel.url}</span>
+              {channel.signed && (
+                <span title={t('alerts.channels.signed')}>
+                  <KeyRound size={12} className="text-slate-400" />
+                </span>
+              )}
+              <button
+                onClick={() => handleTest(channel.id)}
+                disabled={testingId !== null}
+                className="p-1 text-slate-400 hover:text-blue-500 rounded transition-colors disabled:opacity-50"
+                title={t('alerts.channels.test')}
+              >
+                {testingId === channel.id ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+              </button>
+              <button
+                onClick={() => handleRemove(channel.id)}
+                className="p-1 text-slate-400 hover:text-red-500 rounded transition-colors"
+                title={t('alerts.channels.remove')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {secret && (
+        <div className="p-2 bg-amber-50 text-amber-800 rounded-lg">
+          <p className="flex items-center justify-between gap-2 font-medium">
+            {t('alerts.channels.secret')}
+            <button onClick={() => setSecret(null)} className="text-amber-600 hover:text-amber-800">
+              <X size={12} />
+            </button>
+          </p>
+          <code className="block mt-1 break-all select-all">{secret}</code>
+        </div>
+      )}
+
+      {channels.length < MAX_CHANNELS ? (
+        <form onSubmit={handleAdd} className="flex items-center gap-1.5">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as api.AlertChannelType)}
+            className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white"
+          >
+            {(Object.keys(CHANNEL_LABELS) as api.AlertChannelType[]).map(channelType => (
+              <option key={channelType} value={channelType}>{t(CHANNEL_LABELS[channelType])}</option>
+            ))}
+          </select>
+          <input
+            type="url"
+            required
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder={t('alerts.channels.url')}
+            className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded-lg"
+          />
+          <button
+            type="submit"
+            disabled={isAdding || !url.trim()}
+            className="p-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            title={t('alerts.channels.add')}
+          >
+            {isAdding ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+          </button>
+        </form>
+      ) : (
+        <p className="text-slate-400">{t('alerts.channels.limit', { count: MAX_CHANNELS })}</p>
+      )}
+
+      {error && <p className="text-red-600">{t(error)}</p>}
+
+      {deliveries.length > 0 && (
+        <div>
+          <p className="font-medium text-slate-500 mb-1">{t('alerts.channels.recent')}</p>
+          <div className="space-y-1">
+            {deliveries.map((delivery) => {
+              const deliveredTo = channelType(delivery.channelId);
+              return (
+                <div key={delivery.id} className="flex items-center gap-2" title={delivery.lastError ?? undefined}>
+                  <span className={`px-1.5 py-0.5 rounded flex-shrink-0 ${DELIVERY_COLORS[delivery.status]}`}>
+                    {delivery.status === 'delivered' && <Check size={10} className="inline mr-0.5" />}
+                    {t(DELIVERY_LABELS[delivery.status])}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-slate-600">
+                    {deliveredTo ? `${t(CHANNEL_LABELS[deliveredTo])} · ` : ''}{delivery.title}
+                  </span>
+                  <span className="text-slate-400 flex-shrink-0">
+                    {delivery.attempts > 1 && `${t('alerts.channels.attempts', { count: delivery.attempts })} · `}
+                    {formatTimestamp(delivery.createdAt, locale)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertChannelsPanel;
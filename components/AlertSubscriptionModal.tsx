@@ -1,60 +1,122 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, BellRing, X, Snowflake, Check, Loader2 } from 'lucide-react';
+import { Bell, BellRing, X, Snowflake, Check, Loader2, Plus, Trash2, MapPin } from 'lucide-react';
 import * as api from '../services/api';
+import {
+  UnitSystem,
+  snowValue,
+  tempValue,
+  snowFromDisplay,
+  tempFromDisplay,
+  snowUnitLabel,
+  tempUnitLabel,
+} from '../services/units';
+import {
+  CONDITION_TYPES,
+  MAX_CONDITIONS,
+  MAX_WINDOW_DAYS,
+  THRESHOLDS as THRESHOLD_RANGES,
+  ThresholdId,
+  describeRule,
+  isRuleComplete,
+  newCondition,
+  presetFor,
+  presetRule,
+} from '../services/alertRules';
+import { useI18n } from '../i18n';
 
 interface AlertSubscriptionModalProps {
   isOpen: boolean;
   onClose: () => void;
   resortId: string;
   resortName: string;
+  /** Where the resort is, for the state, region and radius scopes */
+  place?: Pick<api.ResortData, 'country' | 'state' | 'region'>;
+  units: UnitSystem;
   onSubscribed?: () => void;
 }
 
 const THRESHOLDS = [
   { 
     id: 'light' as const, 
-    label: 'Light Snow', 
-    range: '1-5"',
+    label: 'alerts.threshold.light' as const, 
     color: 'bg-cyan-100 text-cyan-700 border-cyan-200',
     activeColor: 'bg-cyan-500 text-white border-cyan-500',
     icon: '🩵',
   },
   { 
     id: 'good' as const, 
-    label: 'Good Snow', 
-    range: '5-15"',
+    label: 'alerts.threshold.good' as const, 
     color: 'bg-blue-100 text-blue-700 border-blue-200',
     activeColor: 'bg-blue-500 text-white border-blue-500',
     icon: '🔵',
   },
   { 
     id: 'great' as const, 
-    label: 'Great Snow', 
-    range: '15-30"',
+    label: 'alerts.threshold.great' as const, 
     color: 'bg-purple-100 text-purple-700 border-purple-200',
     activeColor: 'bg-purple-500 text-white border-purple-500',
     icon: '🟣',
   },
 ];
 
-const TIMEFRAMES = [
-  { id: 5 as const, label: 'Next 5 Days' },
-  { id: 10 as const, label: 'Next 10 Days' },
-];
+const TIMEFRAMES = [3, 5, 7, 10, 16];
+
+const RADIUS_HOURS = [1, 2, 3, 4, 6];
+
+type ScopeChoice = 'resort' | 'state' | 'region' | 'favorites' | 'radius';
+
+// Region of resorts outside every taxonomy, which has no scope of its own
+const OTHER_REGION = 'Other';
+
+const CONDITION_LABELS = {
+  snowfall: 'alerts.condition.snowfall',
+  baseDepth: 'alerts.condition.baseDepth',
+  temperature: 'alerts.condition.temperature',
+  forecastChange: 'alerts.condition.forecastChange',
+  freshSnow: 'alerts.condition.freshSnow',
+  liftsOpening: 'alerts.condition.liftsOpening',
+} as const;
+
+const DIRECTION_LABELS = {
+  up: 'alerts.field.direction.up',
+  down: 'alerts.field.direction.down',
+  any: 'alerts.field.direction.any',
+} as const;
+
+/** e.g. 5-15" or 13-38cm */
+export function thresholdRange(threshold: string, units: UnitSystem): string {
+  const range = THRESHOLD_RANGES[threshold as ThresholdId];
+  if (!range) return '';
+  const text = `${snowValue(range.min, units)}-${snowValue(range.max, units)}`;
+  return units === 'metric' ? `${text}cm` : `${text}"`;
+}
+
+/** An amount typed into a number input (empty counts as 0) */
+const inputNumber = (e: React.ChangeEvent<HTMLInputElement>) => Number(e.target.value) || 0;
 
 const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
   isOpen,
   onClose,
   resortId,
   resortName,
+  place,
+  units,
   onSubscribed,
 }) => {
-  const [threshold, setThreshold] = useState<'light' | 'good' | 'great'>('good');
-  const [timeframe, setTimeframe] = useState<5 | 10>(5);
+  const { locale, t } = useI18n();
+  const [scopeChoice, setScopeChoice] = useState<ScopeChoice>('resort');
+  const [radiusPlace, setRadiusPlace] = useState('');
+  const [radiusHours, setRadiusHours] = useState(3);
+  const [radiusInRegion, setRadiusInRegion] = useState(false);
+  const [savedScope, setSavedScope] = useState(resortName);
+  const [rule, setRule] = useState<api.AlertRule>(() => presetRule('good'));
+  const [timeframe, setTimeframe] = useState(5);
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<
+    'alerts.subscribeFailed' | 'alerts.unsubscribeFailed' | 'alerts.radiusFailed' | null
+  >(null);
   const [existingSubscription, setExistingSubscription] = useState<api.AlertSubscription | null>(null);
 
   // Check for existing subscription
@@ -63,27 +125,65 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
       api.isSubscribedToResort(resortId).then(sub => {
         if (sub) {
           setExistingSubscription(sub);
-          setThreshold(sub.threshold);
-          setTimeframe(sub.timeframe as 5 | 10);
+          setRule(sub.rule);
+          setTimeframe(sub.timeframe);
         }
       }).catch(() => {});
     }
   }, [isOpen, resortId]);
 
+  const hasState = !!place && place.state !== place.country;
+  const hasRegion = !!place && place.region !== OTHER_REGION;
+  const scopeOptions: Array<{ id: ScopeChoice; label: string }> = [
+    { id: 'resort', label: t('alerts.scope.resort') },
+    ...(hasState ? [{ id: 'state' as const, label: t('alerts.scope.state', { state: place!.state }) }] : []),
+    ...(hasRegion ? [{ id: 'region' as const, label: t('alerts.scope.region', { region: place!.region }) }] : []),
+    { id: 'favorites', label: t('alerts.scope.favorites') },
+    { id: 'radius', label: t('alerts.scope.radius') },
+  ];
+
+  const buildScope = (): api.AlertScope => {
+    switch (scopeChoice) {
+      case 'resort':
+        return { type: 'resort', resortId };
+      case 'state':
+        return { type: 'state', country: place!.country, state: place!.state };
+      case 'region':
+        return { type: 'region', region: place!.region };
+      case 'favorites':
+        return { type: 'list', resortIds: [], favorites: true };
+      case 'radius':
+        return {
+          type: 'radius',
+          place: radiusPlace.trim(),
+          hours: radiusHours,
+          ...(radiusInRegion && hasRegion ? { region: place!.region } : {}),
+        };
+    }
+  };
+
+  // Only a resort subscription can be updated or removed from here (the bell lists the rest)
+  const editing = scopeChoice === 'resort' ? existingSubscription : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = await api.subscribeToAlert({
-        resortId,
-        resortName,
-        threshold,
-        timeframe,
-        email: email || undefined,
-      });
+      // Presets are sent by name so they keep their label
+      const preset = presetFor(rule);
+      const { subscription } = await api.subscribeToAlert(
+        {
+          ...(scopeChoice === 'resort' ? { resortId, resortName } : { scope: buildScope() }),
+          ...(preset ? { threshold: preset } : { rule }),
+          timeframe,
+          email: email || undefined,
+        },
+        locale,
+      );
 
+      setSavedScope(subscription.scopeLabel);
       setIsSuccess(true);
       
       // Show success for a moment, then close
@@ -93,7 +193,7 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
         setIsSuccess(false);
       }, 1500);
     } catch (err) {
-      setError('Failed to subscribe. Please try again.');
+      setError(scopeChoice === 'radius' ? 'alerts.radiusFailed' : 'alerts.subscribeFailed');
     } finally {
       setIsLoading(false);
     }
@@ -108,12 +208,167 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
       setExistingSubscription(null);
       onClose();
     } catch (err) {
-      setError('Failed to unsubscribe. Please try again.');
+      setError('alerts.unsubscribeFailed');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const updateCondition = (index: number, condition: api.AlertCondition) => {
+    setRule(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((c, i) => (i === index ? condition : c)),
+    }));
+  };
+
+  const addCondition = () => {
+    setRule(prev => ({ ...prev, conditions: [...prev.conditions, newCondition('snowfall')] }));
+  };
+
+  const removeCondition = (index: number) => {
+    setRule(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }));
+  };
+
+  const activePreset = presetFor(rule);
+  const canSubmit = isRuleComplete(rule) && (scopeChoice !== 'radius' || radiusPlace.trim() !== '');
+  const inputClass =
+    'w-20 px-2 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const renderConditionFields = (condition: api.AlertCondition, index: number) => {
+    switch (condition.type) {
+      case 'snowfall':
+        return (
+          <>
+            <span>{t('alerts.field.snow')}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={snowValue(condition.snow, units)}
+              onChange={(e) => updateCondition(index, { ...condition, snow: snowFromDisplay(inputNumber(e), units) })}
+              className={inputClass}
+            />
+            <span>{snowUnitLabel(units)} {t('alerts.field.within')}</span>
+            <select
+              value={condition.days}
+              onChange={(e) => updateCondition(index, { ...condition, days: Number(e.target.value) })}
+              className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+            >
+              {Array.from({ length: MAX_WINDOW_DAYS }, (_, i) => i + 1).map(days => (
+                <option key={days} value={days}>
+                  {days === 1 ? t('alerts.span.day') : t('alerts.span.days', { days })}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={condition.weekend}
+                onChange={(e) => updateCondition(index, { ...condition, weekend: e.target.checked })}
+                className="rounded border-slate-300"
+              />
+              {t('alerts.field.weekend')}
+            </label>
+          </>
+        );
+      case 'baseDepth':
+        return (
+          <>
+            <span>{t('alerts.field.baseDepth')}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={snowValue(condition.baseDepth, units)}
+              onChange={(e) => updateCondition(index, { ...condition, baseDepth: snowFromDisplay(inputNumber(e), units) })}
+              className={inputClass}
+            />
+            <span>{snowUnitLabel(units)}</span>
+          </>
+        );
+      case 'temperature':
+        return (
+          <>
+            <span>{t('alerts.field.temp')}</span>
+            <input
+              type="number"
+              step="any"
+              value={tempValue(condition.temp, units)}
+              onChange={(e) => updateCondition(index, { ...condition, temp: tempFromDisplay(inputNumber(e), units) })}
+              className={inputClass}
+            />
+            <span>°{tempUnitLabel(units)} {t('alerts.field.stormSnow')}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={snowValue(condition.stormSnow, units)}
+              onChange={(e) => updateCondition(index, { ...condition, stormSnow: snowFromDisplay(inputNumber(e), units) })}
+              className={inputClass}
+            />
+            <span>{snowUnitLabel(units)}</span>
+          </>
+        );
+      case 'forecastChange':
+        return (
+          <>
+            <span>{t('alerts.field.direction')}</span>
+            <select
+              value={condition.direction}
+              onChange={(e) =>
+                updateCondition(index, { ...condition, direction: e.target.value as api.ForecastChangeCondition['direction'] })
+              }
+              className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+            >
+              {(Object.keys(DIRECTION_LABELS) as api.ForecastChangeCondition['direction'][]).map(direction => (
+                <option key={direction} value={direction}>{t(DIRECTION_LABELS[direction])}</option>
+              ))}
+            </select>
+            <span>{t('alerts.field.change')}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={snowValue(condition.change, units)}
+              onChange={(e) => updateCondition(index, { ...condition, change: snowFromDisplay(inputNumber(e), units) })}
+              className={inputClass}
+            />
+            <span>{snowUnitLabel(units)}</span>
+          </>
+        );
+      case 'freshSnow':
+        return (
+          <>
+            <span>{t('alerts.field.snow')}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={snowValue(condition.snow, units)}
+              onChange={(e) => updateCondition(index, { ...condition, snow: snowFromDisplay(inputNumber(e), units) })}
+              className={inputClass}
+            />
+            <span>{snowUnitLabel(units)} {t('alerts.field.freshSnow')}</span>
+          </>
+        );
+      case 'liftsOpening':
+        return (
+          <>
+            <span>{t('alerts.field.snow')}</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={condition.lifts}
+              onChange={(e) => updateCondition(index, { ...condition, lifts: inputNumber(e) })}
+              className={inputClass}
+            />
+            <span>{t('alerts.field.liftsOpening')}</span>
+          </>
+        );
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -134,7 +389,7 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
                 <BellRing size={20} />
               </div>
               <div>
-                <h2 className="font-bold text-lg">Snow Alerts</h2>
+                <h2 className="font-bold text-lg">{t('alerts.title')}</h2>
                 <p className="text-sm text-blue-100">{resortName}</p>
               </div>
             </div>
@@ -153,56 +408,187 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
             <div className="w-16 h-16 mx-auto mb-4 bg-emerald-100 rounded-full flex items-center justify-center">
               <Check size={32} className="text-emerald-600" />
             </div>
-            <h3 className="text-lg font-bold text-slate-900 mb-2">Alert Set!</h3>
+            <h3 className="text-lg font-bold text-slate-900 mb-2">{t('alerts.saved')}</h3>
             <p className="text-slate-500">
-              We'll notify you when {resortName} has{' '}
-              {threshold === 'light' ? '1-5"' : threshold === 'good' ? '5-15"' : '15-30"'}{' '}
-              of snow predicted.
+              {t('alerts.savedDetail', { resort: savedScope, rule: describeRule(rule, units, t) })}
             </p>
           </div>
         ) : (
-          <form onSubmit={handleSubmit} className="p-6 space-y-5">
-            {/* Threshold Selection */}
+          <form onSubmit={handleSubmit} className="p-6 space-y-5 max-h-[75vh] overflow-y-auto">
+            {/* Scope */}
             <div>
               <label className="block text-sm font-semibold text-slate-700 mb-2">
-                Alert me when there's at least:
+                {t('alerts.scope')}
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {scopeOptions.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setScopeChoice(option.id)}
+                    className={`py-1.5 px-3 rounded-full border text-sm font-medium transition-all ${
+                      scopeChoice === option.id
+                        ? 'bg-slate-800 text-white border-slate-800'
+                        : 'bg-slate-50 text-slate-600 border-slate-200 hover:border-slate-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {scopeChoice === 'radius' && (
+                <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-xl space-y-2 text-sm text-slate-600">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span>{t('alerts.radius.within')}</span>
+                    <select
+                      value={radiusHours}
+                      onChange={(e) => setRadiusHours(Number(e.target.value))}
+                      className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+                    >
+                      {RADIUS_HOURS.map(hours => (
+                        <option key={hours} value={hours}>{t('alerts.radius.hours', { hours })}</option>
+                      ))}
+                    </select>
+                    <span>{t('alerts.radius.of')}</span>
+                    <div className="relative flex-1 min-w-[8rem]">
+                      <MapPin size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+                      <input
+                        type="text"
+                        value={radiusPlace}
+                        onChange={(e) => setRadiusPlace(e.target.value)}
+                        placeholder={t('alerts.radius.place')}
+                        className="w-full pl-7 pr-2 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  {hasRegion && (
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={radiusInRegion}
+                        onChange={(e) => setRadiusInRegion(e.target.checked)}
+                        className="rounded border-slate-300"
+                      />
+                      {t('alerts.radius.region', { region: place!.region })}
+                    </label>
+                  )}
+                </div>
+              )}
+              {scopeChoice !== 'resort' && (
+                <p className="text-xs text-slate-400 mt-2">{t('alerts.scope.hint')}</p>
+              )}
+            </div>
+
+            {/* Presets */}
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">
+                {t('alerts.presets')}
               </label>
               <div className="grid grid-cols-3 gap-2">
-                {THRESHOLDS.map((t) => (
+                {THRESHOLDS.map((option) => (
                   <button
-                    key={t.id}
+                    key={option.id}
                     type="button"
-                    onClick={() => setThreshold(t.id)}
+                    onClick={() => setRule(presetRule(option.id))}
                     className={`p-3 rounded-xl border-2 transition-all text-center ${
-                      threshold === t.id ? t.activeColor : t.color
+                      activePreset === option.id ? option.activeColor : option.color
                     }`}
                   >
-                    <div className="text-lg mb-1">{t.icon}</div>
-                    <div className="font-semibold text-sm">{t.label}</div>
-                    <div className="text-xs opacity-80">{t.range}</div>
+                    <div className="text-lg mb-1">{option.icon}</div>
+                    <div className="font-semibold text-sm">{t(option.label)}</div>
+                    <div className="text-xs opacity-80">{thresholdRange(option.id, units)}</div>
                   </button>
                 ))}
               </div>
             </div>
 
+            {/* Rule Builder */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-semibold text-slate-700">
+                  {t('alerts.when')}
+                </label>
+                {rule.conditions.length > 1 && (
+                  <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs font-medium">
+                    {(['all', 'any'] as const).map(match => (
+                      <button
+                        key={match}
+                        type="button"
+                        onClick={() => setRule(prev => ({ ...prev, match }))}
+                        className={`px-2.5 py-1 rounded-md transition-all ${
+                          rule.match === match ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'
+                        }`}
+                      >
+                        {t(match === 'all' ? 'alerts.match.all' : 'alerts.match.any')}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                {rule.conditions.map((condition, index) => (
+                  <div key={index} className="p-3 bg-slate-50 border border-slate-200 rounded-xl">
+                    <div className="flex items-center justify-between mb-2">
+                      <select
+                        value={condition.type}
+                        onChange={(e) => updateCondition(index, newCondition(e.target.value as api.AlertCondition['type']))}
+                        className="px-2 py-1 border border-slate-200 rounded-lg text-sm font-medium bg-white"
+                      >
+                        {CONDITION_TYPES.map(type => (
+                          <option key={type} value={type}>{t(CONDITION_LABELS[type])}</option>
+                        ))}
+                      </select>
+                      {rule.conditions.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeCondition(index)}
+                          className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title={t('alerts.removeCondition')}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+                      {renderConditionFields(condition, index)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {rule.conditions.length < MAX_CONDITIONS && (
+                <button
+                  type="button"
+                  onClick={addCondition}
+                  className="mt-2 flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  <Plus size={14} />
+                  {t('alerts.addCondition')}
+                </button>
+              )}
+              <p className="text-xs text-slate-500 mt-2">
+                <Snowflake size={12} className="inline mr-1" />
+                {describeRule(rule, units, t)}
+              </p>
+            </div>
+
             {/* Timeframe Selection */}
             <div>
               <label className="block text-sm font-semibold text-slate-700 mb-2">
-                Forecast window:
+                {t('alerts.window')}
               </label>
               <div className="flex gap-2">
-                {TIMEFRAMES.map((t) => (
+                {TIMEFRAMES.map((days) => (
                   <button
-                    key={t.id}
+                    key={days}
                     type="button"
-                    onClick={() => setTimeframe(t.id)}
-                    className={`flex-1 py-2 px-4 rounded-xl border-2 font-medium transition-all ${
-                      timeframe === t.id
+                    onClick={() => setTimeframe(days)}
+                    className={`flex-1 py-2 px-2 rounded-xl border-2 text-sm font-medium transition-all ${
+                      timeframe === days
                         ? 'bg-slate-800 text-white border-slate-800'
                         : 'bg-slate-50 text-slate-600 border-slate-200 hover:border-slate-300'
                     }`}
                   >
-                    {t.label}
+                    {t('alerts.days', { days })}
                   </button>
                 ))}
               </div>
@@ -211,7 +597,7 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
             {/* Email (Optional) */}
             <div>
               <label className="block text-sm font-semibold text-slate-700 mb-2">
-                Email <span className="font-normal text-slate-400">(optional)</span>
+                {t('alerts.email')} <span className="font-normal text-slate-400">{t('alerts.optional')}</span>
               </label>
               <input
                 type="email"
@@ -221,20 +607,20 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
                 className="w-full px-4 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
               />
               <p className="text-xs text-slate-400 mt-1">
-                Get email notifications in addition to in-app alerts
+                {t('alerts.emailHint')}
               </p>
             </div>
 
             {/* Error Message */}
             {error && (
               <div className="p-3 bg-red-50 text-red-600 text-sm rounded-xl">
-                {error}
+                {t(error)}
               </div>
             )}
 
             {/* Actions */}
             <div className="flex gap-3 pt-2">
-              {existingSubscription ? (
+              {editing ? (
                 <>
                   <button
                     type="button"
@@ -242,11 +628,11 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
                     disabled={isLoading}
                     className="flex-1 py-3 px-4 border-2 border-red-200 text-red-600 rounded-xl font-semibold hover:bg-red-50 transition-all disabled:opacity-50"
                   >
-                    Unsubscribe
+                    {t('alerts.unsubscribe')}
                   </button>
                   <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || !canSubmit}
                     className="flex-1 py-3 px-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
                   >
                     {isLoading ? (
@@ -254,7 +640,7 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
                     ) : (
                       <>
                         <Check size={18} />
-                        Update
+                        {t('alerts.update')}
                       </>
                     )}
                   </button>
@@ -262,7 +648,7 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
               ) : (
                 <button
                   type="submit"
-                  disabled={isLoading}
+                  disabled={isLoading || !canSubmit}
                   className="w-full py-3 px-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2 shadow-lg shadow-blue-500/25"
                 >
                   {isLoading ? (
@@ -270,7 +656,7 @@ const AlertSubscriptionModal: React.FC<AlertSubscriptionModalProps> = ({
                   ) : (
                     <>
                       <Bell size={18} />
-                      Subscribe to Alerts
+                      {t('alerts.subscribe')}
                     </>
                   )}
                 </button>
@@ -1,31 +1,52 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Map, Layers, Filter, Snowflake, ChevronRight, X, RefreshCw, Mountain } from 'lucide-react';
 import { MapResort, fetchMapData } from '../services/api';
+import { UnitSystem, formatSnow } from '../services/units';
+import { MessageKey, useI18n } from '../i18n';
 
 interface MapViewProps {
-  onSelectResort: (resortId: string) => void;
+  units: UnitSystem;
+  onSelectResort: (resortId: string, resortName: string) => void;
   onClose: () => void;
 }
 
-const REGIONS = [
-  { id: 'All', label: 'All US', color: '#6366f1' },
-  { id: 'Rockies', label: 'Rockies', color: '#f59e0b' },
-  { id: 'Pacific', label: 'Pacific', color: '#10b981' },
-  { id: 'Northeast', label: 'Northeast', color: '#3b82f6' },
-  { id: 'Midwest', label: 'Midwest', color: '#8b5cf6' },
+// Each filter matches a country (ISO code) or a region from the country's taxonomy
+const REGIONS: Array<{ id: string; label: MessageKey; color: string; country?: string; region?: string }> = [
+  { id: 'All', label: 'region.all', color: '#6366f1' },
+  { id: 'USA', label: 'region.usa', color: '#ef4444', country: 'US' },
+  { id: 'Rockies', label: 'region.rockies', color: '#f59e0b', region: 'Rockies' },
+  { id: 'Pacific', label: 'region.pacific', color: '#10b981', region: 'Pacific' },
+  { id: 'Northeast', label: 'region.northeast', color: '#3b82f6', region: 'Northeast' },
+  { id: 'Midwest', label: 'region.midwest', color: '#8b5cf6', region: 'Midwest' },
+  { id: 'Canada', label: 'region.canada', color: '#dc2626', country: 'CA' },
+  { id: 'Alps', label: 'region.alps', color: '#0ea5e9', region: 'Alps' },
+  { id: 'Japan', label: 'region.japan', color: '#ec4899', country: 'JP' },
 ];
 
+// Contiguous US, the default view before any resort is loaded
+const US_BOUNDS = { minLat: 24, maxLat: 50, minLng: -125, maxLng: -66 };
+
+function countryOf(resort: MapResort): string {
+  return resort.country || 'US';
+}
+
+// "CO" for US resorts, "BC, CA" elsewhere
+function placeLabel(resort: MapResort): string {
+  return countryOf(resort) === 'US' ? resort.state : `${resort.state}, ${countryOf(resort)}`;
+}
+
+// Minimum snow in inches (labelled in the display unit)
 const SNOW_FILTERS = [
-  { id: 0, label: 'All', icon: '❄️' },
-  { id: 6, label: '6"+', icon: '🌨️' },
-  { id: 12, label: '12"+', icon: '❄️❄️' },
-  { id: 24, label: '24"+', icon: '🏔️' },
+  { id: 0, icon: '❄️' },
+  { id: 6, icon: '🌨️' },
+  { id: 12, icon: '❄️❄️' },
+  { id: 24, icon: '🏔️' },
 ];
 
 const TIME_FILTERS = [
-  { id: '24h', label: '24hr', key: 'snow24h' as const },
-  { id: '48h', label: '48hr', key: 'snow48h' as const },
-  { id: '5day', label: '5 Day', key: 'snow5day' as const },
+  { id: '24h', label: 'window.24h' as const, key: 'snow24h' as const },
+  { id: '48h', label: 'window.48h' as const, key: 'snow48h' as const },
+  { id: '5day', label: 'window.5day' as const, key: 'snow5day' as const },
 ];
 
 // Get color based on snow amount
@@ -48,7 +69,7 @@ function getMarkerSize(inches: number): number {
   return 12;
 }
 
-const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
+const MapView: React.FC<MapViewProps> = ({ units, onSelectResort, onClose }) => {
   const [resorts, setResorts] = useState<MapResort[]>([]);
   const [filteredResorts, setFilteredResorts] = useState<MapResort[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -56,18 +77,19 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
   const [minSnow, setMinSnow] = useState(0);
   const [timeFilter, setTimeFilter] = useState<'snow24h' | 'snow48h' | 'snow5day'>('snow48h');
   const [hoveredResort, setHoveredResort] = useState<MapResort | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+  const { t } = useI18n();
 
   // Load map data
   const loadData = useCallback(async (refresh = false) => {
     setIsLoading(true);
-    setError(null);
+    setError(false);
     try {
       const data = await fetchMapData({ refresh });
       setResorts(data);
     } catch (e) {
       console.error('Failed to load map data:', e);
-      setError('Failed to load map data. Please try again.');
+      setError(true);
     } finally {
       setIsLoading(false);
     }
@@ -81,8 +103,11 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
   useEffect(() => {
     let filtered = resorts;
     
-    if (selectedRegion !== 'All') {
-      filtered = filtered.filter(r => r.region === selectedRegion || r.state === selectedRegion);
+    const option = REGIONS.find(r => r.id === selectedRegion);
+    if (option?.country) {
+      filtered = filtered.filter(r => countryOf(r) === option.country);
+    } else if (option?.region) {
+      filtered = filtered.filter(r => r.region === option.region);
     }
     
     if (minSnow > 0) {
@@ -95,11 +120,29 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
     setFilteredResorts(filtered);
   }, [resorts, selectedRegion, minSnow, timeFilter]);
 
-  // Simple SVG-based US map coordinates (normalized 0-100)
+  // Map bounds fit to the visible resorts, so Whistler, Chamonix and Niseko stay on the map
+  const bounds = useMemo(() => {
+    if (filteredResorts.length === 0) return US_BOUNDS;
+    const lats = filteredResorts.map(r => r.latitude);
+    const lngs = filteredResorts.map(r => r.longitude);
+    const minLat = Math.min(...lats), maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs), maxLng = Math.max(...lngs);
+    // Pad by 8% (at least 2°) so markers don't sit on the edge
+    const padLat = Math.max((maxLat - minLat) * 0.08, 2);
+    const padLng = Math.max((maxLng - minLng) * 0.08, 2);
+    return { minLat: minLat - padLat, maxLat: maxLat + padLat, minLng: minLng - padLng, maxLng: maxLng + padLng };
+  }, [filteredResorts]);
+
+  // The US outline only lines up when every visible resort is in the US
+  const showUsOutline = filteredResorts.every(r => countryOf(r) === 'US');
+
+  const timeLabel = t(TIME_FILTERS.find(f => f.key === timeFilter)!.label);
+
+  // Simple SVG-based map coordinates (normalized 0-100)
   const getPosition = (lat: number, lng: number) => {
-    // Map bounds: lat 24-50, lng -125 to -66
-    const x = ((lng + 125) / 59) * 100;
-    const y = ((50 - lat) / 26) * 100;
+    const { minLat, maxLat, minLng, maxLng } = showUsOutline ? US_BOUNDS : bounds;
+    const x = ((lng - minLng) / (maxLng - minLng)) * 100;
+    const y = ((maxLat - lat) / (maxLat - minLat)) * 100;
     return { x: Math.max(0, Math.min(100, x)), y: Math.max(0, Math.min(100, y)) };
   };
 
@@ -113,9 +156,9 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
               <Map size={20} />
             </div>
             <div>
-              <h2 className="text-lg font-bold text-white">Snow Map</h2>
+              <h2 className="text-lg font-bold text-white">{t('map.title')}</h2>
               <p className="text-xs text-slate-400">
-                {filteredResorts.length} resorts • {timeFilter === 'snow24h' ? '24hr' : timeFilter === 'snow48h' ? '48hr' : '5-day'} forecast
+                {t('map.summary', { count: filteredResorts.length, window: timeLabel })}
               </p>
             </div>
           </div>
@@ -124,7 +167,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
             <button
               onClick={() => loadData(true)}
               className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
-              title="Refresh data"
+              title={t('map.refresh')}
             >
               <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
             </button>
@@ -144,7 +187,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
         <div className="bg-slate-800/90 backdrop-blur-sm rounded-xl p-3 border border-slate-700">
           <div className="flex items-center gap-2 mb-2">
             <Layers size={14} className="text-slate-400" />
-            <span className="text-xs font-medium text-slate-400 uppercase">Region</span>
+            <span className="text-xs font-medium text-slate-400 uppercase">{t('map.region')}</span>
           </div>
           <div className="flex flex-wrap gap-1.5">
             {REGIONS.map(region => (
@@ -157,7 +200,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
                     : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                 }`}
               >
-                {region.label}
+                {t(region.label)}
               </button>
             ))}
           </div>
@@ -167,7 +210,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
         <div className="bg-slate-800/90 backdrop-blur-sm rounded-xl p-3 border border-slate-700">
           <div className="flex items-center gap-2 mb-2">
             <Filter size={14} className="text-slate-400" />
-            <span className="text-xs font-medium text-slate-400 uppercase">Min Snow</span>
+            <span className="text-xs font-medium text-slate-400 uppercase">{t('map.minSnow')}</span>
           </div>
           <div className="flex gap-1.5">
             {SNOW_FILTERS.map(filter => (
@@ -180,7 +223,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
                     : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                 }`}
               >
-                {filter.label}
+                {filter.id === 0 ? t('region.all') : `${formatSnow(filter.id, units)}+`}
               </button>
             ))}
           </div>
@@ -190,7 +233,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
         <div className="bg-slate-800/90 backdrop-blur-sm rounded-xl p-3 border border-slate-700">
           <div className="flex items-center gap-2 mb-2">
             <Snowflake size={14} className="text-slate-400" />
-            <span className="text-xs font-medium text-slate-400 uppercase">Timeframe</span>
+            <span className="text-xs font-medium text-slate-400 uppercase">{t('map.timeframe')}</span>
           </div>
           <div className="flex gap-1.5">
             {TIME_FILTERS.map(filter => (
@@ -203,7 +246,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
                     : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                 }`}
               >
-                {filter.label}
+                {t(filter.label)}
               </button>
             ))}
           </div>
@@ -212,7 +255,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
 
       {/* Legend */}
       <div className="absolute bottom-4 left-4 z-10 bg-slate-800/90 backdrop-blur-sm rounded-xl p-3 border border-slate-700">
-        <div className="text-xs font-medium text-slate-400 mb-2">Predicted Snowfall</div>
+        <div className="text-xs font-medium text-slate-400 mb-2">{t('map.legend')}</div>
         <div className="flex items-center gap-3">
           {[0, 3, 6, 12, 18, 24].map((amount) => (
             <div key={amount} className="flex items-center gap-1">
@@ -220,7 +263,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
                 className="w-3 h-3 rounded-full"
                 style={{ backgroundColor: getSnowColor(amount) }}
               />
-              <span className="text-[10px] text-slate-400">{amount}"</span>
+              <span className="text-[10px] text-slate-400">{formatSnow(amount, units)}</span>
             </div>
           ))}
         </div>
@@ -231,30 +274,32 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
         {isLoading ? (
           <div className="flex flex-col items-center gap-4">
             <Mountain size={48} className="text-slate-600 animate-pulse" />
-            <p className="text-slate-400">Loading resort data...</p>
+            <p className="text-slate-400">{t('map.loading')}</p>
           </div>
         ) : error ? (
           <div className="flex flex-col items-center gap-4">
-            <p className="text-red-400">{error}</p>
+            <p className="text-red-400">{t('map.error')}</p>
             <button
               onClick={() => loadData(true)}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
             >
-              Retry
+              {t('map.retry')}
             </button>
           </div>
         ) : (
           <div className="relative w-full max-w-5xl aspect-[16/10] bg-slate-800/50 rounded-2xl border border-slate-700 overflow-hidden">
             {/* Simple US outline background */}
-            <svg className="absolute inset-0 w-full h-full opacity-20" viewBox="0 0 100 100" preserveAspectRatio="none">
-              <path
-                d="M 5 30 L 15 25 L 35 28 L 45 20 L 55 22 L 70 18 L 85 22 L 95 30 L 95 45 L 90 55 L 95 70 L 85 75 L 70 72 L 55 78 L 40 80 L 25 75 L 10 70 L 5 55 Z"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="0.5"
-                className="text-slate-500"
-              />
-            </svg>
+            {showUsOutline && (
+              <svg className="absolute inset-0 w-full h-full opacity-20" viewBox="0 0 100 100" preserveAspectRatio="none">
+                <path
+                  d="M 5 30 L 15 25 L 35 28 L 45 20 L 55 22 L 70 18 L 85 22 L 95 30 L 95 45 L 90 55 L 95 70 L 85 75 L 70 72 L 55 78 L 40 80 L 25 75 L 10 70 L 5 55 Z"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="0.5"
+                  className="text-slate-500"
+                />
+              </svg>
+            )}
 
             {/* Resort markers */}
             {filteredResorts.map((resort) => {
@@ -274,7 +319,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
                   onMouseEnter={() => setHoveredResort(resort)}
                   onMouseLeave={() => setHoveredResort(null)}
                   onClick={() => {
-                    onSelectResort(resort.id);
+                    onSelectResort(resort.id, resort.name);
                     onClose();
                   }}
                 >
@@ -306,19 +351,19 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
               >
                 <div className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 shadow-xl">
                   <div className="font-semibold text-white text-sm">{hoveredResort.name}</div>
-                  <div className="text-slate-400 text-xs">{hoveredResort.state}</div>
+                  <div className="text-slate-400 text-xs">{placeLabel(hoveredResort)}</div>
                   <div className="mt-1 grid grid-cols-3 gap-2 text-[10px]">
                     <div>
-                      <div className="text-slate-500">24hr</div>
-                      <div className="text-cyan-400 font-bold">{hoveredResort.snow24h}"</div>
+                      <div className="text-slate-500">{t('window.24h')}</div>
+                      <div className="text-cyan-400 font-bold">{formatSnow(hoveredResort.snow24h, units)}</div>
                     </div>
                     <div>
-                      <div className="text-slate-500">48hr</div>
-                      <div className="text-blue-400 font-bold">{hoveredResort.snow48h}"</div>
+                      <div className="text-slate-500">{t('window.48h')}</div>
+                      <div className="text-blue-400 font-bold">{formatSnow(hoveredResort.snow48h, units)}</div>
                     </div>
                     <div>
-                      <div className="text-slate-500">5day</div>
-                      <div className="text-indigo-400 font-bold">{hoveredResort.snow5day}"</div>
+                      <div className="text-slate-500">{t('window.5day')}</div>
+                      <div className="text-indigo-400 font-bold">{formatSnow(hoveredResort.snow5day, units)}</div>
                     </div>
                   </div>
                 </div>
@@ -332,10 +377,10 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
       <div className="absolute top-20 right-4 bottom-4 w-80 bg-slate-800/90 backdrop-blur-sm rounded-xl border border-slate-700 overflow-hidden flex flex-col">
         <div className="p-3 border-b border-slate-700">
           <h3 className="font-semibold text-white text-sm">
-            Top Snow Resorts
+            {t('map.topTitle')}
           </h3>
           <p className="text-xs text-slate-400 mt-0.5">
-            Sorted by {timeFilter === 'snow24h' ? '24hr' : timeFilter === 'snow48h' ? '48hr' : '5-day'} forecast
+            {t('map.sortedBy', { window: timeLabel })}
           </p>
         </div>
         
@@ -344,7 +389,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
             <div
               key={resort.id}
               onClick={() => {
-                onSelectResort(resort.id);
+                onSelectResort(resort.id, resort.name);
                 onClose();
               }}
               className="group flex items-center gap-3 px-3 py-2.5 hover:bg-slate-700/50 cursor-pointer transition-colors border-b border-slate-700/50"
@@ -359,12 +404,12 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
               </span>
               <div className="flex-1 min-w-0">
                 <div className="font-medium text-white text-sm truncate">{resort.name}</div>
-                <div className="text-xs text-slate-500">{resort.state}</div>
+                <div className="text-xs text-slate-500">{placeLabel(resort)}</div>
               </div>
               <div className="text-right">
-                <div className="text-lg font-bold text-blue-400">{resort[timeFilter]}"</div>
+                <div className="text-lg font-bold text-blue-400">{formatSnow(resort[timeFilter], units)}</div>
                 <div className="text-[10px] text-slate-500">
-                  Base: {resort.currentBase}"
+                  {t('map.base', { snow: formatSnow(resort.currentBase, units) })}
                 </div>
               </div>
               <ChevronRight size={16} className="text-slate-600 group-hover:text-slate-400 transition-colors" />
@@ -373,7 +418,7 @@ const MapView: React.FC<MapViewProps> = ({ onSelectResort, onClose }) => {
           
           {filteredResorts.length === 0 && (
             <div className="p-4 text-center text-slate-500 text-sm">
-              No resorts match your filters
+              {t('map.noMatch')}
             </div>
           )}
         </div>
@@ -1,17 +1,36 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Bell, BellRing, X, Check, Trash2, Snowflake, ChevronRight } from 'lucide-react';
+import { Bell, BellRing, X, Check, Trash2, Snowflake, ChevronRight, MapPin, TrendingUp, TrendingDown, Sunrise, Webhook } from 'lucide-react';
 import * as api from '../services/api';
+import { UnitSystem } from '../services/units';
+import { MessageKey, formatTimestamp, useI18n } from '../i18n';
+import { describeRule } from '../services/alertRules';
+import { thresholdRange } from './AlertSubscriptionModal';
+import AlertChannelsPanel from './AlertChannelsPanel';
 
 interface NotificationBellProps {
+  units: UnitSystem;
   onSelectResort?: (resortName: string) => void;
 }
 
-const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) => {
+const THRESHOLD_LABELS: Record<api.AlertSubscription['threshold'], MessageKey> = {
+  light: 'alerts.threshold.light',
+  good: 'alerts.threshold.good',
+  great: 'alerts.threshold.great',
+  custom: 'alerts.threshold.custom',
+};
+
+// Resorts listed on a notification about several; the rest are counted
+const NOTIFICATION_RESORTS = 4;
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ units, onSelectResort }) => {
+  const { locale, t } = useI18n();
   const [isOpen, setIsOpen] = useState(false);
   const [notifications, setNotifications] = useState<api.AlertNotification[]>([]);
   const [subscriptions, setSubscriptions] = useState<api.AlertSubscription[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'notifications' | 'subscriptions'>('notifications');
+  // The subscription whose webhook channels are shown
+  const [channelsFor, setChannelsFor] = useState<number | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Load data when opened
@@ -57,7 +76,7 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
     try {
       const [notifs, subs] = await Promise.all([
         api.getNotifications(true),
-        api.getMyAlerts(),
+        api.getMyAlerts(locale),
       ]);
       setNotifications(notifs);
       setSubscriptions(subs);
@@ -118,7 +137,7 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
             ? 'bg-blue-100 text-blue-600' 
             : 'hover:bg-slate-100 text-slate-500 hover:text-slate-700'
         }`}
-        title="Snow Alerts"
+        title={t('alerts.title')}
       >
         {unreadCount > 0 ? (
           <BellRing size={20} className="animate-pulse" />
@@ -142,7 +161,7 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <BellRing size={18} />
-                <span className="font-semibold">Snow Alerts</span>
+                <span className="font-semibold">{t('alerts.title')}</span>
               </div>
               <button
                 onClick={() => setIsOpen(false)}
@@ -163,7 +182,7 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
                   : 'text-slate-500 hover:text-slate-700'
               }`}
             >
-              Notifications {unreadCount > 0 && `(${unreadCount})`}
+              {t('alerts.notifications')} {unreadCount > 0 && `(${unreadCount})`}
             </button>
             <button
               onClick={() => setActiveTab('subscriptions')}
@@ -173,7 +192,7 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
                   : 'text-slate-500 hover:text-slate-700'
               }`}
             >
-              My Alerts ({subscriptions.length})
+              {t('alerts.mine', { count: subscriptions.length })}
             </button>
           </div>
 
@@ -182,15 +201,15 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
             {isLoading ? (
               <div className="p-8 text-center text-slate-400">
                 <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full mx-auto mb-2" />
-                Loading...
+                {t('common.loading')}
               </div>
             ) : activeTab === 'notifications' ? (
               notifications.length === 0 ? (
                 <div className="p-8 text-center">
                   <Snowflake size={32} className="mx-auto mb-2 text-slate-300" />
-                  <p className="text-slate-500 text-sm">No notifications yet</p>
+                  <p className="text-slate-500 text-sm">{t('alerts.noNotifications')}</p>
                   <p className="text-slate-400 text-xs mt-1">
-                    Subscribe to resort alerts to get notified!
+                    {t('alerts.noNotificationsHint')}
                   </p>
                 </div>
               ) : (
@@ -202,7 +221,7 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
                         onClick={handleMarkAllRead}
                         className="text-xs text-blue-600 hover:text-blue-700 font-medium"
                       >
-                        Mark all as read
+                        {t('alerts.markAllRead')}
                       </button>
                     </div>
                   )}
@@ -223,11 +242,15 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
                     >
                       <div className="flex items-start gap-3">
                         <div className={`p-2 rounded-lg ${
+                          notif.kind === 'downgrade' ? 'bg-slate-100 text-slate-500' :
                           notif.predictedSnow >= 15 ? 'bg-purple-100 text-purple-600' :
                           notif.predictedSnow >= 5 ? 'bg-blue-100 text-blue-600' :
                           'bg-cyan-100 text-cyan-600'
                         }`}>
-                          <Snowflake size={16} />
+                          {notif.kind === 'upgrade' ? <TrendingUp size={16} /> :
+                            notif.kind === 'downgrade' ? <TrendingDown size={16} /> :
+                            notif.kind === 'report' ? <Sunrise size={16} /> :
+                            <Snowflake size={16} />}
                         </div>
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2">
@@ -239,8 +262,33 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
                             )}
                           </div>
                           <p className="text-sm text-slate-600 mt-0.5">{notif.message}</p>
+                          {notif.resorts.length > 1 && (
+                            <div className="flex flex-wrap gap-1 mt-1.5">
+                              {notif.resorts.slice(0, NOTIFICATION_RESORTS).map(resort => (
+                                <button
+                                  key={resort.resortId}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleMarkRead(notif.id);
+                                    if (onSelectResort) {
+                                      onSelectResort(resort.resortName);
+                                      setIsOpen(false);
+                                    }
+                                  }}
+                                  className="text-xs px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600 hover:border-blue-300 hover:text-blue-600 transition-colors"
+                                >
+                                  {resort.resortName}
+                                </button>
+                              ))}
+                              {notif.resorts.length > NOTIFICATION_RESORTS && (
+                                <span className="text-xs px-1 py-0.5 text-slate-400">
+                                  {t('alerts.moreResorts', { count: notif.resorts.length - NOTIFICATION_RESORTS })}
+                                </span>
+                              )}
+                            </div>
+                          )}
                           <p className="text-xs text-slate-400 mt-1">
-                            {new Date(notif.createdAt).toLocaleDateString()}
+                            {formatTimestamp(notif.createdAt, locale)}
                           </p>
                         </div>
                         <ChevronRight size={16} className="text-slate-300 flex-shrink-0 mt-1" />
@@ -253,9 +301,9 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
               subscriptions.length === 0 ? (
                 <div className="p-8 text-center">
                   <Bell size={32} className="mx-auto mb-2 text-slate-300" />
-                  <p className="text-slate-500 text-sm">No active alerts</p>
+                  <p className="text-slate-500 text-sm">{t('alerts.noSubscriptions')}</p>
                   <p className="text-slate-400 text-xs mt-1">
-                    Click the bell icon on any resort to subscribe!
+                    {t('alerts.noSubscriptionsHint')}
                   </p>
                 </div>
               ) : (
@@ -266,34 +314,50 @@ const NotificationBell: React.FC<NotificationBellProps> = ({ onSelectResort }) =
                   >
                     <div className="flex items-center justify-between">
                       <div 
-                        className="flex-1 min-w-0 cursor-pointer"
+                        className={`flex-1 min-w-0 ${sub.resortName ? 'cursor-pointer' : ''}`}
                         onClick={() => {
-                          if (onSelectResort) {
+                          // Scopes of several resorts have no single resort to open
+                          if (sub.resortName && onSelectResort) {
                             onSelectResort(sub.resortName);
                             setIsOpen(false);
                           }
                         }}
                       >
-                        <p className="font-semibold text-sm text-slate-800 truncate">
-                          {sub.resortName}
+                        <p className="flex items-center gap-1 font-semibold text-sm text-slate-800 truncate">
+                          {sub.scope.type !== 'resort' && <MapPin size={12} className="text-slate-400 flex-shrink-0" />}
+                          {sub.scopeLabel}
                         </p>
                         <div className="flex items-center gap-2 mt-1">
                           <span className={`text-xs px-2 py-0.5 rounded-full ${getThresholdColor(sub.threshold)}`}>
-                            {sub.thresholdLabel}
+                            {sub.threshold === 'custom'
+                              ? describeRule(sub.rule, units, t)
+                              : `${t(THRESHOLD_LABELS[sub.threshold])} (${thresholdRange(sub.threshold, units)})`}
                           </span>
                           <span className="text-xs text-slate-400">
-                            {sub.timeframe} days
+                            {t('alerts.days', { days: sub.timeframe })}
                           </span>
                         </div>
                       </div>
+                      <button
+                        onClick={() => setChannelsFor(channelsFor === sub.id ? null : sub.id)}
+                        className={`p-2 rounded-lg transition-colors ${
+                          channelsFor === sub.id
+                            ? 'text-blue-500 bg-blue-50'
+                            : 'text-slate-400 hover:text-blue-500 hover:bg-blue-50'
+                        }`}
+                        title={t('alerts.channels')}
+                      >
+                        <Webhook size={16} />
+                      </button>
                       <button
                         onClick={() => handleUnsubscribe(sub.id)}
                         className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                        title="Unsubscribe"
+                        title={t('alerts.unsubscribe')}
                       >
                         <Trash2 size={16} />
                       </button>
                     </div>
+                    {channelsFor === sub.id && <AlertChannelsPanel subscriptionId={sub.id} units={units} />}
                   </div>
                 ))
               )
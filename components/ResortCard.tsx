@@ -1,40 +1,82 @@
 import React, { useState } from 'react';
-import { Snowflake, MapPin, Heart, ExternalLink, Ticket, TrendingUp, Globe, RefreshCw, Mountain, Thermometer, Clock, Bell, BellRing } from 'lucide-react';
+import { Snowflake, MapPin, Heart, ExternalLink, Ticket, TrendingUp, Globe, RefreshCw, Mountain, Thermometer, Clock, Bell, BellRing, AlertTriangle } from 'lucide-react';
 import { ResortData } from '../types';
+import { toResortId } from '../services/resortIdentity';
+import { UnitSystem, formatSnow } from '../services/units';
+import { MessageKey, useI18n } from '../i18n';
 import SnowChart from './SnowChart';
 import AlertSubscriptionModal from './AlertSubscriptionModal';
 
 interface ResortCardProps {
   data: ResortData;
+  units: UnitSystem;
   isFavorite: boolean;
   onRefresh: () => void;
   onToggleFavorite: () => void;
 }
 
-const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, onToggleFavorite }) => {
+// Labels for reconciled report fields
+const FIELD_LABELS: Record<string, MessageKey> = {
+  baseDepth: 'resort.field.baseDepth',
+  last24Hours: 'resort.field.last24Hours',
+  last48Hours: 'resort.field.last48Hours',
+  liftsOpen: 'resort.field.liftsOpen',
+  totalLifts: 'resort.field.totalLifts',
+  trailsOpen: 'resort.field.trailsOpen',
+  forecast: 'resort.field.forecast',
+};
+
+// Labels for the snow quality model's categories
+const QUALITY_LABELS: Record<string, MessageKey> = {
+  blower: 'resort.quality.blower',
+  powder: 'resort.quality.powder',
+  dense: 'resort.quality.dense',
+  heavy: 'resort.quality.heavy',
+  rain: 'resort.quality.rain',
+};
+
+// Reconciled fields measured in inches
+const SNOW_FIELDS = new Set(['baseDepth', 'last24Hours', 'last48Hours', 'forecast']);
+
+const ResortCard: React.FC<ResortCardProps> = ({ data, units, isFavorite, onRefresh, onToggleFavorite }) => {
   const [showAlertModal, setShowAlertModal] = useState(false);
   const [hasAlert, setHasAlert] = useState(false);
+  const { t } = useI18n();
 
-  // Calculate powder score based on conditions
-  const getPowderScore = () => {
-    const recent = data.last24Hours + data.last48Hours / 2;
-    const base = Math.min(data.baseDepth / 100, 1) * 20;
-    const freshness = Math.min(recent / 20, 1) * 80;
-    return Math.round(base + freshness);
-  };
-
-  const powderScore = getPowderScore();
+  // Powder score from the backend snow quality model (today's forecast)
+  const today = data.forecast?.[0];
+  const powderScore = data.powderScore ?? today?.powderScore ?? null;
+  const powderDetails = today && typeof today.snowToLiquid === 'number'
+    ? t('resort.powderDetails', {
+        ratio: today.snowToLiquid,
+        rain: Math.round((today.rainRisk || 0) * 100),
+        wind: Math.round((today.windLoading || 0) * 100),
+      })
+    : undefined;
   
   // Get condition badge
   const getConditionBadge = () => {
-    if (data.last24Hours >= 12) return { label: 'POWDER DAY!', color: 'bg-gradient-to-r from-blue-600 to-indigo-600', icon: '🎿' };
-    if (data.last24Hours >= 6) return { label: 'Fresh Snow', color: 'bg-gradient-to-r from-cyan-500 to-blue-500', icon: '❄️' };
-    if (data.baseDepth >= 60) return { label: 'Great Base', color: 'bg-gradient-to-r from-emerald-500 to-teal-500', icon: '✨' };
-    return { label: 'Open', color: 'bg-slate-500', icon: '⛷️' };
+    if (data.last24Hours >= 12) return { label: t('resort.condition.powderDay'), color: 'bg-gradient-to-r from-blue-600 to-indigo-600', icon: '🎿' };
+    if (data.last24Hours >= 6) return { label: t('resort.condition.freshSnow'), color: 'bg-gradient-to-r from-cyan-500 to-blue-500', icon: '❄️' };
+    if (data.baseDepth >= 60) return { label: t('resort.condition.greatBase'), color: 'bg-gradient-to-r from-emerald-500 to-teal-500', icon: '✨' };
+    return { label: t('resort.condition.open'), color: 'bg-slate-500', icon: '⛷️' };
   };
 
   const condition = getConditionBadge();
 
+  // Explain which fields the reconciled sources disagree on
+  const getDisagreementSummary = () => {
+    const fields = data.provenance?.fields || {};
+    return (data.provenance?.disagreements || [])
+      .map((field) => {
+        const values = Object.entries<number>(fields[field]?.values || {})
+          .map(([source, value]) => `${source} ${SNOW_FIELDS.has(field) ? formatSnow(value, units) : value}`)
+          .join(' vs ');
+        return `${FIELD_LABELS[field] ? t(FIELD_LABELS[field]) : field}: ${values}`;
+      })
+      .join('\n');
+  };
+
   return (
     <div className="bg-white rounded-3xl shadow-sm border border-slate-100 overflow-hidden transition-all duration-300 hover:shadow-lg">
       {/* Header Section */}
@@ -55,6 +97,15 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
               <span className={`text-xs font-bold text-white px-2 py-0.5 rounded-full ${condition.color}`}>
                 {condition.icon} {condition.label}
               </span>
+              {data.sourcesDisagree && (
+                <span
+                  className="flex items-center gap-1 text-xs font-bold bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full cursor-help"
+                  title={getDisagreementSummary() || t('resort.sourcesDisagreeDetail')}
+                >
+                  <AlertTriangle size={12} />
+                  {t('resort.sourcesDisagree')}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <h2 className="text-2xl font-bold text-slate-900">{data.name}</h2>
@@ -65,7 +116,7 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
                     ? "bg-red-50 text-red-500 hover:bg-red-100 shadow-sm" 
                     : "bg-slate-50 text-slate-300 hover:bg-slate-100 hover:text-slate-400"
                 }`}
-                title={isFavorite ? "Remove from favorites" : "Add to favorites"}
+                title={t(isFavorite ? 'resort.removeFavorite' : 'resort.addFavorite')}
               >
                 <Heart size={20} fill={isFavorite ? "currentColor" : "none"} />
               </button>
@@ -76,7 +127,7 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
                     ? "bg-blue-50 text-blue-500 hover:bg-blue-100 shadow-sm" 
                     : "bg-slate-50 text-slate-300 hover:bg-slate-100 hover:text-blue-400"
                 }`}
-                title="Set snow alert"
+                title={t('resort.setAlert')}
               >
                 {hasAlert ? <BellRing size={20} /> : <Bell size={20} />}
               </button>
@@ -85,7 +136,7 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
           <div className="text-right flex flex-col items-end gap-2">
             <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
               <Clock size={12} />
-              Updated {data.lastUpdated}
+              {t('resort.updated', { time: data.lastUpdated })}
             </div>
           </div>
         </div>
@@ -98,23 +149,23 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
           <div className="mb-2 p-2 rounded-full bg-blue-100 text-blue-600 group-hover:scale-110 transition-transform">
             <Snowflake size={20} />
           </div>
-          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">24hr Snow</span>
-          <span className="text-2xl font-bold text-blue-700">{data.last24Hours}"</span>
+          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">{t('resort.snow24h')}</span>
+          <span className="text-2xl font-bold text-blue-700">{formatSnow(data.last24Hours, units)}</span>
         </div>
         
         <div className="bg-gradient-to-br from-cyan-50 to-white p-4 flex flex-col items-center justify-center text-center group hover:from-cyan-100 transition-colors">
           <div className="mb-2 p-2 rounded-full bg-cyan-100 text-cyan-600 group-hover:scale-110 transition-transform">
             <Mountain size={20} />
           </div>
-          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">Base Depth</span>
-          <span className="text-2xl font-bold text-cyan-700">{data.baseDepth}"</span>
+          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">{t('resort.baseDepth')}</span>
+          <span className="text-2xl font-bold text-cyan-700">{formatSnow(data.baseDepth, units)}</span>
         </div>
         
         <div className="bg-gradient-to-br from-indigo-50 to-white p-4 flex flex-col items-center justify-center text-center group hover:from-indigo-100 transition-colors">
           <div className="mb-2 p-2 rounded-full bg-indigo-100 text-indigo-600 group-hover:scale-110 transition-transform">
             <TrendingUp size={20} />
           </div>
-          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">Trails Open</span>
+          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">{t('resort.trailsOpen')}</span>
           <span className="text-2xl font-bold text-indigo-700">
             {data.totalTrails > 0 ? `${Math.round((data.trailsOpen / data.totalTrails) * 100)}%` : data.trailsOpen}
           </span>
@@ -123,24 +174,30 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
           </span>
         </div>
         
-        <div className="bg-gradient-to-br from-purple-50 to-white p-4 flex flex-col items-center justify-center text-center group hover:from-purple-100 transition-colors">
+        <div
+          className="bg-gradient-to-br from-purple-50 to-white p-4 flex flex-col items-center justify-center text-center group hover:from-purple-100 transition-colors"
+          title={powderDetails}
+        >
           <div className="mb-2 p-2 rounded-full bg-purple-100 text-purple-600 group-hover:scale-110 transition-transform">
             <Thermometer size={20} />
           </div>
-          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">Powder Score</span>
+          <span className="text-[10px] text-slate-500 mb-0.5 uppercase font-medium">{t('resort.powderScore')}</span>
           <span className={`text-2xl font-bold ${
+            powderScore === null ? 'text-slate-400' :
             powderScore >= 70 ? 'text-emerald-600' :
             powderScore >= 40 ? 'text-amber-600' : 'text-slate-600'
           }`}>
-            {powderScore}
+            {powderScore ?? '—'}
+          </span>
+          <span className="text-[9px] text-slate-400">
+            {today?.snowQuality && QUALITY_LABELS[today.snowQuality] ? t(QUALITY_LABELS[today.snowQuality]) : t('resort.outOf100')}
           </span>
-          <span className="text-[9px] text-slate-400">out of 100</span>
         </div>
       </div>
 
       {/* Forecast Chart Section */}
       <div className="p-6 bg-gradient-to-br from-slate-50/80 to-white">
-        <SnowChart data={data.forecast} />
+        <SnowChart data={data.forecast} units={units} resortId={data.id} />
       </div>
 
       {/* Footer / Actions */}
@@ -150,7 +207,7 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
           <div className="flex-1 min-w-[200px]">
             {data.sourceUrls && data.sourceUrls.length > 0 ? (
               <div className="flex flex-col gap-1">
-                <span className="text-[10px] text-slate-400 uppercase font-semibold">Data Sources</span>
+                <span className="text-[10px] text-slate-400 uppercase font-semibold">{t('resort.dataSources')}</span>
                 <div className="flex flex-wrap gap-2">
                   {data.sourceUrls.slice(0, 3).map((url, i) => (
                     <a 
@@ -167,7 +224,15 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
                 </div>
               </div>
             ) : (
-              <span className="text-[10px] text-slate-400">Data source: Google Search + Gemini AI</span>
+              <span className="text-[10px] text-slate-400">
+                {data.dataSource
+                  ? `${t('resort.dataSource', { source: data.dataSource.split('+').join(' + ') })}${
+                      typeof data.confidence === 'number'
+                        ? ` · ${t('resort.confidence', { percent: Math.round(data.confidence * 100) })}`
+                        : ''
+                    }`
+                  : t('resort.dataSource', { source: 'Google Search + Gemini AI' })}
+              </span>
             )}
           </div>
 
@@ -180,7 +245,7 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
                 className="flex items-center gap-1.5 text-sm font-medium text-slate-500 hover:text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-xl transition-all"
               >
                 <Globe size={14} />
-                <span className="hidden sm:inline">Website</span>
+                <span className="hidden sm:inline">{t('resort.website')}</span>
               </a>
             )}
             <button 
@@ -188,7 +253,7 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
               className="flex items-center gap-1.5 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 px-4 py-2 rounded-xl transition-all shadow-sm hover:shadow-md active:scale-95"
             >
               <RefreshCw size={14} />
-              Refresh
+              {t('common.refresh')}
             </button>
           </div>
         </div>
@@ -198,8 +263,10 @@ const ResortCard: React.FC<ResortCardProps> = ({ data, isFavorite, onRefresh, on
       <AlertSubscriptionModal
         isOpen={showAlertModal}
         onClose={() => setShowAlertModal(false)}
-        resortId={data.id || data.name.toLowerCase().replace(/\s+/g, '-')}
+        resortId={data.id || toResortId(data.name)}
         resortName={data.name}
+        place={data}
+        units={units}
         onSubscribed={() => setHasAlert(true)}
       />
     </div>
@@ -1,13 +1,25 @@
-import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Bar, ComposedChart } from 'recharts';
-import { DailyForecast } from '../types';
-import { Snowflake, Thermometer, Wind } from 'lucide-react';
+import React, { useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Bar, ComposedChart, Line } from 'recharts';
+import { DailyForecast, SnowHistory, SeasonSummary } from '../types';
+import { Snowflake, Thermometer, Wind, Mountain, History, Loader2 } from 'lucide-react';
+import * as api from '../services/api';
+import { UnitSystem, formatSnow, formatTemp, snowValue, tempUnitLabel, tempValue } from '../services/units';
+import { formatDayName, formatShortDate, useI18n } from '../i18n';
+
+// History needs the backend's stored daily reports
+const USE_BACKEND = import.meta.env.VITE_API_URL || false;
 
 interface SnowChartProps {
   data: DailyForecast[];
+  units: UnitSystem;
+  /** Enables the history mode (backend only) */
+  resortId?: string;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+type ChartMode = 'forecast' | 'history';
+
+const CustomTooltip = ({ active, payload, label, units }: any) => {
+  const { t } = useI18n();
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
@@ -16,24 +28,24 @@ const CustomTooltip = ({ active, payload, label }: any) => {
           <span className="text-lg">{data.snowInches >= 6 ? '🌨️' : data.snowInches > 0 ? '❄️' : '☁️'}</span>
           <div>
             <p className="font-bold text-slate-800">{label}</p>
-            <p className="text-xs text-slate-500">{data.dayName}</p>
+            <p className="text-xs text-slate-500">{data.dayLabel}</p>
           </div>
         </div>
         
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-blue-600">
             <Snowflake size={14} />
-            <span className="font-bold text-lg">{data.snowInches}"</span>
-            <span className="text-xs text-slate-500">snowfall</span>
+            <span className="font-bold text-lg">{formatSnow(data.snowInches, units)}</span>
+            <span className="text-xs text-slate-500">{t('chart.snowfall')}</span>
           </div>
           
           <div className="flex items-center gap-2 text-slate-600">
             <Thermometer size={14} />
             <span className="text-sm">
-              <span className="font-medium text-orange-500">{data.tempHigh}°</span>
+              <span className="font-medium text-orange-500">{tempValue(data.tempHigh, units)}°</span>
               <span className="mx-1">/</span>
-              <span className="font-medium text-blue-500">{data.tempLow}°</span>
-              <span className="text-xs text-slate-400 ml-1">F</span>
+              <span className="font-medium text-blue-500">{tempValue(data.tempLow, units)}°</span>
+              <span className="text-xs text-slate-400 ml-1">{tempUnitLabel(units)}</span>
             </span>
           </div>
           
@@ -55,9 +67,242 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
+const HistoryTooltip = ({ active, payload, units }: any) => {
+  const { t } = useI18n();
+  if (active && payload && payload.length) {
+    const day = payload[0].payload;
+    return (
+      <div className="bg-white/95 backdrop-blur-sm p-4 border border-slate-200 shadow-xl rounded-xl">
+        <p className="font-bold text-slate-800 mb-2">{day.date}</p>
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2 text-blue-600">
+            <Snowflake size={14} />
+            {day.snowfall !== null ? (
+              <>
+                <span className="font-bold text-lg">{formatSnow(day.snowfall, units)}</span>
+                <span className="text-xs text-slate-500">{t('chart.observed')}</span>
+              </>
+            ) : (
+              <span className="text-xs text-slate-400">{t('chart.noReport')}</span>
+            )}
+          </div>
+          {day.baseDepth !== null && (
+            <div className="flex items-center gap-2 text-cyan-700">
+              <Mountain size={14} />
+              <span className="text-sm font-medium">{t('chart.base', { snow: formatSnow(day.baseDepth, units) })}</span>
+            </div>
+          )}
+          <div className="pt-1.5 border-t border-slate-100 text-xs text-slate-500">
+            {t('chart.seasonTotal')} <span className="font-semibold text-slate-700">{formatSnow(day.seasonTotal, units)}</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+const HistoryView: React.FC<{ history: SnowHistory; season: SeasonSummary | null; units: UnitSystem }> = ({
+  history,
+  season,
+  units,
+}) => {
+  const { locale, t } = useI18n();
+  // Bars and line are plotted in the display unit; the tooltip formats the original inches
+  const chartData = history.days.map((d) => ({
+    ...d,
+    label: formatShortDate(d.date, locale),
+    snowfallValue: d.snowfall !== null ? snowValue(d.snowfall, units) : null,
+    baseDepthValue: d.baseDepth !== null ? snowValue(d.baseDepth, units) : null,
+  }));
+  const { summary } = history;
+  const baseChange = summary.baseDepthChange;
+
+  return (
+    <div className="w-full">
+      {/* Season Summary */}
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-3 text-center border border-blue-100">
+          <div className="text-xs text-blue-600 font-medium">{t('chart.season', { season: season?.season ?? '' })}</div>
+          <div className="text-2xl font-bold text-blue-700">{season ? formatSnow(season.seasonToDate, units) : '—'}</div>
+        </div>
+        <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-xl p-3 text-center border border-indigo-100">
+          <div className="text-xs text-indigo-600 font-medium">{t('chart.vsAverage')}</div>
+          <div className="text-2xl font-bold text-indigo-700">
+            {season?.percentOfAverage != null ? `${season.percentOfAverage}%` : '—'}
+          </div>
+        </div>
+        <div className="bg-gradient-to-br from-cyan-50 to-blue-50 rounded-xl p-3 text-center border border-cyan-100">
+          <div className="text-xs text-cyan-600 font-medium">{t('chart.daySnow', { days: history.days.length })}</div>
+          <div className="text-2xl font-bold text-cyan-700">
+            {formatSnow(summary.totalSnowfall, units)}
+            <span className="text-sm font-normal"> / {t('chart.daysShort', { days: summary.snowDays })}</span>
+          </div>
+        </div>
+        <div className="bg-gradient-to-br from-slate-50 to-slate-100 rounded-xl p-3 text-center border border-slate-200">
+          <div className="text-xs text-slate-600 font-medium">{t('chart.baseChange')}</div>
+          <div className="text-2xl font-bold text-slate-700">
+            {baseChange !== null ? `${baseChange > 0 ? '+' : ''}${formatSnow(baseChange, units)}` : '—'}
+          </div>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="h-[280px] bg-gradient-to-br from-white to-slate-50 rounded-xl p-3 border border-slate-100">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-slate-600 flex items-center gap-2">
+            <History size={14} className="text-blue-500" />
+            {t('chart.observedSnowfall')}
+          </h3>
+          <span className="text-xs text-slate-400">{t('chart.historyCaption', { unit: t(units === 'metric' ? 'units.cm' : 'units.inches') })}</span>
+        </div>
+
+        {summary.reportedDays === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[85%] text-center">
+            <Snowflake size={32} className="text-slate-300 mb-2" />
+            <p className="text-sm text-slate-500">{t('chart.noReports')}</p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="90%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 0, left: -15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis
+                dataKey="label"
+                tick={{ fontSize: 11, fill: '#64748b' }}
+                axisLine={false}
+                tickLine={false}
+                interval="preserveStartEnd"
+                minTickGap={16}
+              />
+              <YAxis
+                yAxisId="snow"
+                tick={{ fontSize: 11, fill: '#64748b' }}
+                axisLine={false}
+                tickLine={false}
+                domain={[0, 'auto']}
+              />
+              <YAxis
+                yAxisId="base"
+                orientation="right"
+                tick={{ fontSize: 11, fill: '#0e7490' }}
+                axisLine={false}
+                tickLine={false}
+                domain={[0, 'auto']}
+              />
+              <Tooltip content={<HistoryTooltip units={units} />} cursor={{ fill: '#f1f5f9', radius: 4 }} />
+              <Bar yAxisId="snow" dataKey="snowfallValue" fill="#3b82f6" radius={[4, 4, 0, 0]} maxBarSize={24} />
+              <Line
+                yAxisId="base"
+                type="monotone"
+                dataKey="baseDepthValue"
+                stroke="#06b6d4"
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {/* Previous seasons at the same point */}
+      {season && season.previousSeasons.length > 0 && (
+        <div className="mt-4 flex gap-2 flex-wrap">
+          {season.previousSeasons.map((s) => (
+            <div key={s.season} className="text-xs bg-slate-50 border border-slate-100 rounded-lg px-3 py-2 text-slate-600">
+              <span className="font-semibold text-slate-700">{s.season}</span>: {t('chart.byThisDate', { snow: formatSnow(s.toDate, units) })}
+              <span className="text-slate-400"> {t('chart.seasonTotalShort', { snow: formatSnow(s.total, units) })}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SnowChart: React.FC<SnowChartProps> = ({ data, units, resortId }) => {
+  const [mode, setMode] = useState<ChartMode>('forecast');
+  const [history, setHistory] = useState<SnowHistory | null>(null);
+  const [season, setSeason] = useState<SeasonSummary | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyError, setHistoryError] = useState(false);
+  const { locale, t } = useI18n();
+
+  const showHistory = async () => {
+    setMode('history');
+    if (!resortId || history || isLoadingHistory) return;
+
+    setIsLoadingHistory(true);
+    setHistoryError(false);
+    try {
+      const [historyData, seasonData] = await Promise.all([
+        api.fetchResortHistory(resortId),
+        api.fetchResortSeason(resortId).catch(() => null),
+      ]);
+      setHistory(historyData);
+      setSeason(seasonData);
+    } catch (err) {
+      console.error('Failed to load snow history:', err);
+      setHistoryError(true);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const modeToggle = resortId && USE_BACKEND ? (
+    <div className="flex justify-end mb-3">
+      <div className="inline-flex bg-slate-100 rounded-lg p-0.5 text-xs font-medium">
+        <button
+          onClick={() => setMode('forecast')}
+          className={`px-3 py-1 rounded-md transition-all ${
+            mode === 'forecast' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {t('chart.forecast')}
+        </button>
+        <button
+          onClick={showHistory}
+          className={`px-3 py-1 rounded-md transition-all ${
+            mode === 'history' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {t('chart.history')}
+        </button>
+      </div>
+    </div>
+  ) : null;
+
+  if (mode === 'history') {
+    return (
+      <div className="w-full">
+        {modeToggle}
+        {history ? (
+          <HistoryView history={history} season={season} units={units} />
+        ) : (
+          <div className="flex flex-col items-center justify-center h-64 text-center p-6 bg-slate-50 rounded-xl border border-dashed border-slate-200">
+            {historyError ? (
+              <p className="text-slate-500 font-medium">{t('chart.historyError')}</p>
+            ) : (
+              <>
+                <Loader2 size={32} className="text-blue-400 mb-3 animate-spin" />
+                <p className="text-slate-500 font-medium">{t('chart.loadingHistory')}</p>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Handle empty or invalid data
   const validData = data && data.length > 0 ? data : [];
+  // Snow plotted in the display unit; the tooltip formats the original inches
+  const chartData = validData.map((d) => ({
+    ...d,
+    label: formatShortDate(d.date, locale),
+    dayLabel: formatDayName(d.date, locale),
+    snowValue: snowValue(d.snowInches || 0, units),
+  }));
   
   // Calculate stats with edge case handling
   const totalSnow = validData.slice(0, 10).reduce((sum, d) => sum + (d.snowInches || 0), 0);
@@ -71,10 +316,11 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
   if (validData.length === 0) {
     return (
       <div className="w-full">
+        {modeToggle}
         <div className="flex flex-col items-center justify-center h-64 text-center p-6 bg-slate-50 rounded-xl border border-dashed border-slate-200">
           <Snowflake size={40} className="text-slate-300 mb-3" />
-          <p className="text-slate-500 font-medium">No forecast data available</p>
-          <p className="text-xs text-slate-400 mt-1">Click Refresh to load 10-day forecast</p>
+          <p className="text-slate-500 font-medium">{t('chart.noForecast')}</p>
+          <p className="text-xs text-slate-400 mt-1">{t('chart.noForecastHint')}</p>
         </div>
       </div>
     );
@@ -82,23 +328,25 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
 
   return (
     <div className="w-full">
+      {modeToggle}
+
       {/* Stats Summary */}
       <div className="grid grid-cols-4 gap-2 mb-4">
         <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-3 text-center border border-blue-100">
-          <div className="text-xs text-blue-600 font-medium">10-Day Total</div>
-          <div className="text-2xl font-bold text-blue-700">{totalSnow}"</div>
+          <div className="text-xs text-blue-600 font-medium">{t('chart.tenDayTotal')}</div>
+          <div className="text-2xl font-bold text-blue-700">{formatSnow(totalSnow, units)}</div>
         </div>
         <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-xl p-3 text-center border border-indigo-100">
-          <div className="text-xs text-indigo-600 font-medium">Max Single Day</div>
-          <div className="text-2xl font-bold text-indigo-700">{maxSnow}"</div>
+          <div className="text-xs text-indigo-600 font-medium">{t('chart.maxDay')}</div>
+          <div className="text-2xl font-bold text-indigo-700">{formatSnow(maxSnow, units)}</div>
         </div>
         <div className="bg-gradient-to-br from-cyan-50 to-blue-50 rounded-xl p-3 text-center border border-cyan-100">
-          <div className="text-xs text-cyan-600 font-medium">Snow Days</div>
+          <div className="text-xs text-cyan-600 font-medium">{t('chart.snowDays')}</div>
           <div className="text-2xl font-bold text-cyan-700">{snowDays}<span className="text-sm font-normal">/10</span></div>
         </div>
         <div className="bg-gradient-to-br from-slate-50 to-slate-100 rounded-xl p-3 text-center border border-slate-200">
-          <div className="text-xs text-slate-600 font-medium">Avg Temp</div>
-          <div className="text-2xl font-bold text-slate-700">{avgTemp}°</div>
+          <div className="text-xs text-slate-600 font-medium">{t('chart.avgTemp')}</div>
+          <div className="text-2xl font-bold text-slate-700">{formatTemp(avgTemp, units)}</div>
         </div>
       </div>
 
@@ -107,14 +355,14 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
         <div className="flex items-center justify-between mb-2">
           <h3 className="text-sm font-semibold text-slate-600 flex items-center gap-2">
             <Snowflake size={14} className="text-blue-500" />
-            10-Day Snow Forecast
+            {t('chart.forecastTitle')}
           </h3>
-          <span className="text-xs text-slate-400">inches per day</span>
+          <span className="text-xs text-slate-400">{t('chart.forecastCaption', { unit: t(units === 'metric' ? 'units.cm' : 'units.inches') })}</span>
         </div>
         
         <ResponsiveContainer width="100%" height="90%">
           <ComposedChart
-            data={validData}
+            data={chartData}
             margin={{
               top: 10,
               right: 10,
@@ -137,7 +385,7 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
             
             <XAxis 
-              dataKey="date" 
+              dataKey="label" 
               tick={{ fontSize: 11, fill: '#64748b' }} 
               axisLine={false}
               tickLine={false}
@@ -152,13 +400,13 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
             />
             
             <Tooltip 
-              content={<CustomTooltip />} 
+              content={<CustomTooltip units={units} />} 
               cursor={{ fill: '#f1f5f9', radius: 4 }} 
             />
             
             {/* Bar chart for daily snow */}
             <Bar
-              dataKey="snowInches"
+              dataKey="snowValue"
               fill="url(#barGradient)"
               radius={[4, 4, 0, 0]}
               maxBarSize={40}
@@ -167,7 +415,7 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
             {/* Area under the line for visual effect */}
             <Area
               type="monotone"
-              dataKey="snowInches"
+              dataKey="snowValue"
               stroke="transparent"
               fillOpacity={0.3}
               fill="url(#colorSnowGradient)"
@@ -178,7 +426,7 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
 
       {/* Daily forecast quick view */}
       <div className="mt-4 flex gap-1 overflow-x-auto pb-2 no-scrollbar">
-        {validData.slice(0, 10).map((day, idx) => (
+        {chartData.slice(0, 10).map((day, idx) => (
           <div 
             key={idx} 
             className={`flex-shrink-0 w-16 p-2 rounded-lg text-center transition-all ${
@@ -189,13 +437,13 @@ const SnowChart: React.FC<SnowChartProps> = ({ data }) => {
                 : 'bg-slate-50 text-slate-500 border border-slate-100'
             }`}
           >
-            <div className="text-[10px] font-medium opacity-80">{day.dayName}</div>
-            <div className="text-xs mt-0.5">{day.date}</div>
+            <div className="text-[10px] font-medium opacity-80">{day.dayLabel}</div>
+            <div className="text-xs mt-0.5">{day.label}</div>
             <div className={`text-lg font-bold mt-1 ${day.snowInches >= 6 ? '' : 'text-blue-600'}`}>
-              {day.snowInches}"
+              {formatSnow(day.snowInches, units)}
             </div>
             <div className="text-[9px] mt-0.5 opacity-70">
-              {day.tempHigh}°/{day.tempLow}°
+              {tempValue(day.tempHigh, units)}°/{tempValue(day.tempLow, units)}°
             </div>
           </div>
         ))}
@@ -1,9 +1,12 @@
 import React from 'react';
 import { CloudSnow, ChevronRight, TrendingUp, Snowflake, RefreshCw } from 'lucide-react';
 import { TopResort } from '../types';
+import { UnitSystem, formatSnow } from '../services/units';
+import { MessageKey, useI18n } from '../i18n';
 
 interface TopSnowListProps {
   data: TopResort[];
+  units: UnitSystem;
   isLoading: boolean;
   activeRegion: string;
   onSelectRegion: (region: string) => void;
@@ -11,13 +14,17 @@ interface TopSnowListProps {
   onRefresh?: (region: string) => void;
 }
 
-const REGIONS = [
-  { id: 'All', label: 'All US' },
-  { id: 'CO', label: 'CO' },
-  { id: 'UT', label: 'UT' },
-  { id: 'CA', label: 'CA' },
-  { id: 'WA', label: 'WA' },
-  { id: 'VT', label: 'VT' },
+// US states by code; other filters by country or region name (the API accepts both)
+const REGIONS: Array<{ id: string; label?: MessageKey }> = [
+  { id: 'All', label: 'region.all' },
+  { id: 'CO' },
+  { id: 'UT' },
+  { id: 'CA' },
+  { id: 'WA' },
+  { id: 'VT' },
+  { id: 'Canada', label: 'region.canada' },
+  { id: 'Alps', label: 'region.alps' },
+  { id: 'Japan', label: 'region.japan' },
 ];
 
 // Get color class based on 5-DAY TOTAL snow amount
@@ -32,12 +39,14 @@ function getSnowColorClass5Day(inches: number): string {
 
 const TopSnowList: React.FC<TopSnowListProps> = ({ 
   data, 
+  units,
   isLoading, 
   activeRegion, 
   onSelectRegion, 
   onSelectResort,
   onRefresh,
 }) => {
+  const { t } = useI18n();
   // Calculate total predicted snow
   const totalPredictedSnow = data.reduce((sum, r) => sum + r.predictedSnow, 0);
   const avgSnow = data.length > 0 ? Math.round(totalPredictedSnow / data.length) : 0;
@@ -50,8 +59,8 @@ const TopSnowList: React.FC<TopSnowListProps> = ({
             <CloudSnow size={18} />
           </div>
           <div>
-            <h3 className="font-semibold text-slate-800">5-Day Snow Forecast</h3>
-            <p className="text-[10px] text-slate-400">Top resorts by predicted snowfall</p>
+            <h3 className="font-semibold text-slate-800">{t('forecast.fiveDay')}</h3>
+            <p className="text-[10px] text-slate-400">{t('top.subtitle')}</p>
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -61,15 +70,15 @@ const TopSnowList: React.FC<TopSnowListProps> = ({
               onClick={() => onRefresh(activeRegion)}
               disabled={isLoading}
               className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-blue-600 hover:border-blue-200 hover:bg-blue-50 transition-all disabled:opacity-50"
-              title="Refresh forecast"
+              title={t('top.refresh')}
             >
               <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
             </button>
           )}
           {avgSnow > 0 && (
             <div className="text-right">
-              <div className="text-xs text-slate-400">Avg</div>
-              <div className="text-lg font-bold text-blue-600">{avgSnow}"</div>
+              <div className="text-xs text-slate-400">{t('top.avg')}</div>
+              <div className="text-lg font-bold text-blue-600">{formatSnow(avgSnow, units)}</div>
             </div>
           )}
         </div>
@@ -87,7 +96,7 @@ const TopSnowList: React.FC<TopSnowListProps> = ({
                 : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
             }`}
           >
-            {region.label}
+            {region.label ? t(region.label) : region.id}
           </button>
         ))}
       </div>
@@ -148,7 +157,7 @@ const TopSnowList: React.FC<TopSnowListProps> = ({
                   {/* Snow amount with color coding (5-day total scale) */}
                   <div className={`flex items-center gap-0.5 min-w-[56px] justify-end px-1.5 py-0.5 rounded-md ${getSnowColorClass5Day(item.predictedSnow)}`}>
                     <Snowflake size={10} className="flex-shrink-0" />
-                    <span className="text-sm font-bold tabular-nums">{item.predictedSnow}"</span>
+                    <span className="text-sm font-bold tabular-nums">{formatSnow(item.predictedSnow, units)}</span>
                   </div>
                   
                   <ChevronRight size={14} className="text-slate-300 group-hover:text-blue-500 group-hover:translate-x-1 transition-all flex-shrink-0" />
@@ -160,7 +169,7 @@ const TopSnowList: React.FC<TopSnowListProps> = ({
           {data.length === 0 && (
              <div className="text-center py-6 text-sm text-slate-400">
                <CloudSnow size={24} className="mx-auto mb-2 opacity-50" />
-               No significant snowfall predicted in this region
+               {t('top.empty')}
              </div>
           )}
         </div>
@@ -169,10 +178,10 @@ const TopSnowList: React.FC<TopSnowListProps> = ({
       {/* Legend */}
       {data.length > 0 && (
         <div className="mt-4 pt-3 border-t border-slate-100 flex items-center justify-between text-[10px] text-slate-400">
-          <span>Cached for 1 hour</span>
+          <span>{t('top.cached')}</span>
           <div className="flex items-center gap-2">
             <TrendingUp size={10} />
-            <span>5-day total snowfall</span>
+            <span>{t('top.legend')}</span>
           </div>
         </div>
       )}
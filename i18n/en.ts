@@ -0,0 +1,260 @@
+/**
+ * English messages (the reference catalog: every other locale has these keys)
+ */
+export const en = {
+  // Header and page
+  'app.tagline': 'FREE Snow Forecasts',
+  'app.powderAlert': '🌨️ POWDER ALERT: {resort} expecting {snow} in the next 5 days!',
+  'app.searchPlaceholder': 'Search ski resort...',
+  'app.units.toMetric': 'Switch to cm and °C',
+  'app.units.toImperial': 'Switch to inches and °F',
+  'app.language': 'Language',
+  'app.snowMapComingSoon': 'Coming soon - Snow Map feature is under development',
+  'app.total': 'total',
+  'app.base': 'Base',
+  'app.lifts': 'Lifts',
+  'app.favorites': 'My Favorites',
+  'app.noFavorites': 'No favorites yet',
+  'app.analyzing': 'Analyzing {resort}...',
+  'app.analyzingDetail': 'Fetching 10-day forecast & live conditions',
+  'app.loadFailed': 'Unable to load data. Try searching for another resort.',
+  'app.whyTitle': 'Why Choose SnowPeak?',
+  'app.whyFree': '100% FREE',
+  'app.whyBody': '10-day forecasts • No ads • AI-powered insights • Real-time data from Google Search',
+  'app.aboutTitle': 'About SnowPeak Tracker',
+  'app.aboutBody': 'Free snow forecasting app powered by Google Gemini AI with real-time search.',
+  'app.aboutDisclaimer': '10-day forecasts, live conditions, and intelligent caching. Data for reference only - always check official safety warnings.',
+  'app.footer': 'Built to beat OpenSnow 💪 • Made with ❄️ in 2026',
+
+  // Shared labels
+  'common.loading': 'Loading...',
+  'common.refresh': 'Refresh',
+  'forecast.fiveDay': '5-Day Snow Forecast',
+  'window.24h': '24hr',
+  'window.48h': '48hr',
+  'window.5day': '5-day',
+  'units.inches': 'inches',
+  'units.cm': 'cm',
+  'map.title': 'Snow Map',
+
+  // Region filters (US states are shown as their codes)
+  'region.all': 'All',
+  'region.usa': 'USA',
+  'region.rockies': 'Rockies',
+  'region.pacific': 'Pacific',
+  'region.northeast': 'Northeast',
+  'region.midwest': 'Midwest',
+  'region.canada': 'Canada',
+  'region.alps': 'Alps',
+  'region.japan': 'Japan',
+
+  // AI ski assistant
+  'chat.title': 'AI Ski Assistant',
+  'chat.poweredBy': 'Powered by Gemini',
+  'chat.intro': '"Ask me anything about skiing - gear, technique, conditions, or resort tips!"',
+  'chat.placeholder': 'Ask something...',
+  'chat.error': "Sorry, I couldn't process your question. Please try again.",
+  'chat.noApiKey': 'No API key found, so the assistant is unavailable.',
+  'chat.noAnswer': "I couldn't think of a good tip just now - maybe go check out the slopes?",
+  'chat.busy': 'The assistant is a little busy right now, please try again later.',
+
+  // Resort card
+  'resort.condition.powderDay': 'POWDER DAY!',
+  'resort.condition.freshSnow': 'Fresh Snow',
+  'resort.condition.greatBase': 'Great Base',
+  'resort.condition.open': 'Open',
+  'resort.field.baseDepth': 'Base depth',
+  'resort.field.last24Hours': '24hr snow',
+  'resort.field.last48Hours': '48hr snow',
+  'resort.field.liftsOpen': 'Lifts open',
+  'resort.field.totalLifts': 'Total lifts',
+  'resort.field.trailsOpen': 'Trails open',
+  'resort.field.forecast': 'Forecast total',
+  'resort.sourcesDisagree': 'Sources disagree',
+  'resort.sourcesDisagreeDetail': 'Data sources report different values',
+  'resort.addFavorite': 'Add to favorites',
+  'resort.removeFavorite': 'Remove from favorites',
+  'resort.setAlert': 'Set snow alert',
+  'resort.updated': 'Updated {time}',
+  'resort.snow24h': '24hr Snow',
+  'resort.baseDepth': 'Base Depth',
+  'resort.trailsOpen': 'Trails Open',
+  'resort.powderScore': 'Powder Score',
+  'resort.powderDetails': 'Snow-to-liquid {ratio}:1 · rain risk {rain}% · wind loading {wind}%',
+  'resort.outOf100': 'out of 100',
+  'resort.quality.blower': 'blower snow',
+  'resort.quality.powder': 'powder snow',
+  'resort.quality.dense': 'dense snow',
+  'resort.quality.heavy': 'heavy snow',
+  'resort.quality.rain': 'rain',
+  'resort.dataSources': 'Data Sources',
+  'resort.dataSource': 'Data source: {source}',
+  'resort.confidence': '{percent}% confidence',
+  'resort.website': 'Website',
+
+  // Forecast and history chart
+  'chart.forecast': 'Forecast',
+  'chart.history': 'History',
+  'chart.snowfall': 'snowfall',
+  'chart.observed': 'observed',
+  'chart.noReport': 'No report',
+  'chart.base': '{snow} base',
+  'chart.seasonTotal': 'Season total:',
+  'chart.season': 'Season {season}',
+  'chart.vsAverage': 'vs. Average',
+  'chart.daySnow': '{days}-Day Snow',
+  'chart.daysShort': '{days}d',
+  'chart.baseChange': 'Base Change',
+  'chart.observedSnowfall': 'Observed Snowfall',
+  'chart.historyCaption': '{unit} per day · base depth',
+  'chart.noReports': 'No reports stored for this period yet',
+  'chart.byThisDate': '{snow} by this date',
+  'chart.seasonTotalShort': '({snow} season)',
+  'chart.historyError': 'Could not load snowfall history',
+  'chart.loadingHistory': 'Loading snowfall history...',
+  'chart.noForecast': 'No forecast data available',
+  'chart.noForecastHint': 'Click Refresh to load 10-day forecast',
+  'chart.tenDayTotal': '10-Day Total',
+  'chart.maxDay': 'Max Single Day',
+  'chart.snowDays': 'Snow Days',
+  'chart.avgTemp': 'Avg Temp',
+  'chart.forecastTitle': '10-Day Snow Forecast',
+  'chart.forecastCaption': '{unit} per day',
+
+  // Top snowfall list
+  'top.subtitle': 'Top resorts by predicted snowfall',
+  'top.refresh': 'Refresh forecast',
+  'top.avg': 'Avg',
+  'top.empty': 'No significant snowfall predicted in this region',
+  'top.cached': 'Cached for 1 hour',
+  'top.legend': '5-day total snowfall',
+
+  // Snow map
+  'map.summary': '{count} resorts • {window} forecast',
+  'map.refresh': 'Refresh data',
+  'map.region': 'Region',
+  'map.minSnow': 'Min Snow',
+  'map.timeframe': 'Timeframe',
+  'map.legend': 'Predicted Snowfall',
+  'map.loading': 'Loading resort data...',
+  'map.error': 'Failed to load map data. Please try again.',
+  'map.retry': 'Retry',
+  'map.topTitle': 'Top Snow Resorts',
+  'map.sortedBy': 'Sorted by {window} forecast',
+  'map.base': 'Base: {snow}',
+  'map.noMatch': 'No resorts match your filters',
+
+  // Snow alerts
+  'alerts.title': 'Snow Alerts',
+  'alerts.threshold.light': 'Light Snow',
+  'alerts.threshold.good': 'Good Snow',
+  'alerts.threshold.great': 'Great Snow',
+  'alerts.threshold.custom': 'Custom',
+  'alerts.days': '{days} days',
+  'alerts.saved': 'Alert Set!',
+  'alerts.savedDetail': "We'll notify you about {resort} when: {rule}.",
+  'alerts.scope': 'Watch:',
+  'alerts.scope.resort': 'This resort',
+  'alerts.scope.state': 'All of {state}',
+  'alerts.scope.region': 'All {region} resorts',
+  'alerts.scope.favorites': 'My favorites',
+  'alerts.scope.radius': 'Near a place',
+  'alerts.scope.hint': 'One alert covers every resort that matches.',
+  'alerts.radius.within': 'Within',
+  'alerts.radius.hours': '{hours}h',
+  'alerts.radius.of': 'drive of',
+  'alerts.radius.place': 'City, e.g. Seattle',
+  'alerts.radius.region': 'Only {region} resorts',
+  'alerts.presets': 'Start from:',
+  'alerts.when': 'Alert me when:',
+  'alerts.match.all': 'All of these',
+  'alerts.match.any': 'Any of these',
+  'alerts.condition.snowfall': 'Snowfall',
+  'alerts.condition.baseDepth': 'Base depth',
+  'alerts.condition.temperature': 'Cold temps',
+  'alerts.condition.forecastChange': 'Forecast change',
+  'alerts.condition.freshSnow': 'Morning report',
+  'alerts.condition.liftsOpening': 'Lifts opening',
+  'alerts.field.snow': 'At least',
+  'alerts.field.within': 'within',
+  'alerts.field.weekend': 'Weekends only',
+  'alerts.field.baseDepth': 'Reaches',
+  'alerts.field.temp': 'Low at or below',
+  'alerts.field.stormSnow': 'after a storm of',
+  'alerts.field.direction': 'Forecast',
+  'alerts.field.direction.up': 'upgraded',
+  'alerts.field.direction.down': 'downgraded',
+  'alerts.field.direction.any': 'changed',
+  'alerts.field.change': 'by at least',
+  'alerts.field.freshSnow': "in the morning report's last 24h",
+  'alerts.field.liftsOpening': 'more lifts open than the report before',
+  'alerts.span.day': '24h',
+  'alerts.span.days': '{days} days',
+  'alerts.addCondition': 'Add condition',
+  'alerts.removeCondition': 'Remove condition',
+  'alerts.rule.snowfall.day': '{snow}+ in 24h',
+  'alerts.rule.snowfall.days': '{snow}+ over {days} days',
+  'alerts.rule.weekend': '{condition} on a weekend',
+  'alerts.rule.baseDepth': 'base depth reaches {depth}',
+  'alerts.rule.cold': 'low of {temp} or colder',
+  'alerts.rule.coldAfterStorm': 'low of {temp} or colder after {snow}+ of snow',
+  'alerts.rule.upgrade': 'forecast upgraded by {snow}+',
+  'alerts.rule.downgrade': 'forecast downgraded by {snow}+',
+  'alerts.rule.change': 'forecast changes by {snow}+',
+  'alerts.rule.freshSnow': "{snow}+ in the morning report's last 24h",
+  'alerts.rule.liftsOpening': '{lifts}+ more lifts open',
+  'alerts.rule.and': ' and ',
+  'alerts.rule.or': ' or ',
+  'alerts.window': 'Forecast window:',
+  'alerts.email': 'Email',
+  'alerts.optional': '(optional)',
+  'alerts.emailHint': 'Get email notifications in addition to in-app alerts',
+  'alerts.subscribe': 'Subscribe to Alerts',
+  'alerts.update': 'Update',
+  'alerts.unsubscribe': 'Unsubscribe',
+  'alerts.subscribeFailed': 'Failed to subscribe. Please try again.',
+  'alerts.unsubscribeFailed': 'Failed to unsubscribe. Please try again.',
+  'alerts.radiusFailed': "Couldn't set the alert. Check the place name and try again.",
+  'alerts.moreResorts': '+{count} more',
+  'alerts.notifications': 'Notifications',
+  'alerts.mine': 'My Alerts ({count})',
+  'alerts.noNotifications': 'No notifications yet',
+  'alerts.noNotificationsHint': 'Subscribe to resort alerts to get notified!',
+  'alerts.markAllRead': 'Mark all as read',
+  'alerts.noSubscriptions': 'No active alerts',
+  'alerts.noSubscriptionsHint': 'Click the bell icon on any resort to subscribe!',
+  'alerts.channels': 'Webhook, Slack & Discord',
+  'alerts.channels.none': 'Also send this alert to Slack, Discord or your own webhook.',
+  'alerts.channels.type.webhook': 'Webhook',
+  'alerts.channels.type.slack': 'Slack',
+  'alerts.channels.type.discord': 'Discord',
+  'alerts.channels.url': 'https://… webhook URL',
+  'alerts.channels.add': 'Add channel',
+  'alerts.channels.remove': 'Remove channel',
+  'alerts.channels.test': 'Send a test message',
+  'alerts.channels.signed': 'Signed with a secret',
+  'alerts.channels.secret': 'Signing secret (only shown once):',
+  'alerts.channels.limit': 'Up to {count} channels per alert',
+  'alerts.channels.recent': 'Recent deliveries',
+  'alerts.channels.attempts': '{count} tries',
+  'alerts.channels.addFailed': "Couldn't add the channel. Check the URL (https) and try again.",
+  'alerts.channels.loadFailed': "Couldn't load channels. Please try again.",
+  'alerts.delivery.pending': 'Queued',
+  'alerts.delivery.retrying': 'Retrying',
+  'alerts.delivery.delivered': 'Delivered',
+  'alerts.delivery.failed': 'Failed',
+
+  // Offline fallback data (no API key or Gemini failure)
+  'mock.location': 'Unknown Location',
+  'mock.description': "Couldn't fetch live data, showing sample data. Conditions are currently good.",
+  'mock.justNow': 'Just now',
+  'mock.snow': 'Snow',
+  'mock.cloudy': 'Cloudy',
+  'mock.summary.storm': 'A strong storm is expected to pass through',
+  'mock.summary.steady': 'Steady snowfall',
+  'mock.summary.pacific': 'Pacific storm influence',
+  'mock.summary.champagne': 'Champagne powder',
+  'mock.summary.coldFront': 'Cold front moving through',
+};
+
+export type MessageKey = keyof typeof en;
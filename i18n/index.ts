@@ -0,0 +1,142 @@
+/**
+ * Localization
+ *
+ * Message catalogs for every user-facing string and locale-aware date
+ * formatting. English is the reference catalog; `zh-CN` must have the same
+ * keys. The chosen locale is saved in localStorage and shared by every
+ * component through `useI18n`.
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { en, type MessageKey } from './en';
+import { zhCN } from './zh-CN';
+
+export type { MessageKey };
+
+export type Locale = 'en' | 'zh-CN';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Supported locales with their names, for the language picker */
+export const LOCALES: Array<{ id: Locale; label: string }> = [
+  { id: 'en', label: 'English' },
+  { id: 'zh-CN', label: '简体中文' },
+];
+
+// Only set once the visitor picks a language
+const LOCALE_STORAGE_KEY = 'snowPeakLocale';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+/** Language names for AI prompts ("Answer in ...") */
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  'zh-CN': 'Simplified Chinese',
+};
+
+/**
+ * Supported locale for a language tag: `en`/`en-GB` → en, `zh`/`zh-CN`/
+ * `zh-Hans` → zh-CN. Null for anything else (including Traditional Chinese).
+ */
+export function parseLocale(value: unknown): Locale | null {
+  if (typeof value !== 'string') return null;
+  const tag = value.trim().toLowerCase();
+  if (tag === 'en' || tag.startsWith('en-')) return 'en';
+  if (tag === 'zh' || tag === 'zh-cn' || tag === 'zh-sg' || tag.startsWith('zh-hans')) return 'zh-CN';
+  return null;
+}
+
+// Saved choice, else the browser's preferred languages
+function initialLocale(): Locale {
+  const saved = parseLocale(localStorage.getItem(LOCALE_STORAGE_KEY));
+  if (saved) return saved;
+  for (const tag of navigator.languages || [navigator.language]) {
+    const locale = parseLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+let currentLocale: Locale = initialLocale();
+const listeners = new Set<() => void>();
+document.documentElement.lang = currentLocale;
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/** Whether the visitor has picked a language (rather than the browser default) */
+export function isLocaleChosen(): boolean {
+  return parseLocale(localStorage.getItem(LOCALE_STORAGE_KEY)) !== null;
+}
+
+/** Switch language everywhere and remember the choice */
+export function setLocale(locale: Locale): void {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Message in `locale` with `{name}` placeholders filled in */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  const template = CATALOGS[locale]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match,
+  );
+}
+
+export function languageName(locale: Locale): string {
+  return LANGUAGE_NAMES[locale];
+}
+
+/** Current locale and a translator for it; re-renders when the locale changes */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribe, getLocale);
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale],
+  );
+  return { locale, setLocale, t };
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD) are formatted in UTC so the day doesn't shift
+ * with the browser's time zone. Anything else is shown as given.
+ */
+function formatDay(date: string, locale: Locale, options: Intl.DateTimeFormatOptions): string {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(date)) return date;
+  const parsed = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+}
+
+/** e.g. "Mon" / "周一" */
+export function formatDayName(date: string, locale: Locale): string {
+  return formatDay(date, locale, { weekday: 'short' });
+}
+
+/** e.g. "1/15" / "1/15" */
+export function formatShortDate(date: string, locale: Locale): string {
+  return formatDay(date, locale, { month: 'numeric', day: 'numeric' });
+}
+
+/** Local date of a timestamp, e.g. "1/15/2026" / "2026/1/15" */
+export function formatTimestamp(date: Date | string, locale: Locale): string {
+  return new Date(date).toLocaleDateString(locale);
+}
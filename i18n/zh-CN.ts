@@ -0,0 +1,250 @@
+import type { MessageKey } from './en';
+
+/**
+ * Simplified Chinese messages
+ */
+export const zhCN: Record<MessageKey, string> = {
+  'app.tagline': '免费降雪预报',
+  'app.powderAlert': '🌨️ 粉雪提醒：{resort} 未来 5 天预计降雪 {snow}！',
+  'app.searchPlaceholder': '搜索滑雪场...',
+  'app.units.toMetric': '切换为厘米和 °C',
+  'app.units.toImperial': '切换为英寸和 °F',
+  'app.language': '语言',
+  'app.snowMapComingSoon': '即将推出 - 降雪地图功能正在开发中',
+  'app.total': '合计',
+  'app.base': '积雪',
+  'app.lifts': '缆车',
+  'app.favorites': '我的收藏',
+  'app.noFavorites': '还没有收藏',
+  'app.analyzing': '正在分析 {resort}...',
+  'app.analyzingDetail': '正在获取 10 天预报和实时雪况',
+  'app.loadFailed': '无法加载数据，请尝试搜索其他滑雪场。',
+  'app.whyTitle': '为什么选择 SnowPeak？',
+  'app.whyFree': '100% 免费',
+  'app.whyBody': '10 天预报 • 无广告 • AI 智能分析 • 来自 Google 搜索的实时数据',
+  'app.aboutTitle': '关于 SnowPeak Tracker',
+  'app.aboutBody': '由 Google Gemini AI 和实时搜索驱动的免费降雪预报应用。',
+  'app.aboutDisclaimer': '10 天预报、实时雪况和智能缓存。数据仅供参考，请务必留意官方安全警告。',
+  'app.footer': '为超越 OpenSnow 而生 💪 • 2026 年用 ❄️ 打造',
+
+  'common.loading': '加载中...',
+  'common.refresh': '刷新',
+  'forecast.fiveDay': '5 天降雪预报',
+  'window.24h': '24 小时',
+  'window.48h': '48 小时',
+  'window.5day': '5 天',
+  'units.inches': '英寸',
+  'units.cm': '厘米',
+  'map.title': '降雪地图',
+
+  'region.all': '全部',
+  'region.usa': '美国',
+  'region.rockies': '落基山脉',
+  'region.pacific': '太平洋沿岸',
+  'region.northeast': '东北部',
+  'region.midwest': '中西部',
+  'region.canada': '加拿大',
+  'region.alps': '阿尔卑斯',
+  'region.japan': '日本',
+
+  'chat.title': 'AI 滑雪助手',
+  'chat.poweredBy': '由 Gemini 提供支持',
+  'chat.intro': '“关于滑雪的任何问题都可以问我：装备、技巧、雪况或雪场建议！”',
+  'chat.placeholder': '问点什么...',
+  'chat.error': '抱歉，无法处理你的问题，请重试。',
+  'chat.noApiKey': '未检测到 API Key，无法使用助手。',
+  'chat.noAnswer': '我暂时没有想到好的建议，不如去雪场看看？',
+  'chat.busy': '助手现在有点忙，请稍后再试。',
+
+  'resort.condition.powderDay': '粉雪日！',
+  'resort.condition.freshSnow': '新雪',
+  'resort.condition.greatBase': '积雪充足',
+  'resort.condition.open': '营业中',
+  'resort.field.baseDepth': '积雪深度',
+  'resort.field.last24Hours': '24 小时降雪',
+  'resort.field.last48Hours': '48 小时降雪',
+  'resort.field.liftsOpen': '开放缆车',
+  'resort.field.totalLifts': '缆车总数',
+  'resort.field.trailsOpen': '开放雪道',
+  'resort.field.forecast': '预报总量',
+  'resort.sourcesDisagree': '数据源不一致',
+  'resort.sourcesDisagreeDetail': '各数据源报告的数值不同',
+  'resort.addFavorite': '加入收藏',
+  'resort.removeFavorite': '取消收藏',
+  'resort.setAlert': '设置降雪提醒',
+  'resort.updated': '更新于 {time}',
+  'resort.snow24h': '24 小时降雪',
+  'resort.baseDepth': '积雪深度',
+  'resort.trailsOpen': '开放雪道',
+  'resort.powderScore': '粉雪指数',
+  'resort.powderDetails': '雪水比 {ratio}:1 · 降雨风险 {rain}% · 风积 {wind}%',
+  'resort.outOf100': '满分 100',
+  'resort.quality.blower': '极干粉雪',
+  'resort.quality.powder': '粉雪',
+  'resort.quality.dense': '密实雪',
+  'resort.quality.heavy': '湿重雪',
+  'resort.quality.rain': '降雨',
+  'resort.dataSources': '数据来源',
+  'resort.dataSource': '数据来源：{source}',
+  'resort.confidence': '置信度 {percent}%',
+  'resort.website': '官网',
+
+  'chart.forecast': '预报',
+  'chart.history': '历史',
+  'chart.snowfall': '降雪',
+  'chart.observed': '实测',
+  'chart.noReport': '无报告',
+  'chart.base': '积雪 {snow}',
+  'chart.seasonTotal': '雪季累计：',
+  'chart.season': '{season} 雪季',
+  'chart.vsAverage': '与均值相比',
+  'chart.daySnow': '{days} 天降雪',
+  'chart.daysShort': '{days} 天',
+  'chart.baseChange': '积雪变化',
+  'chart.observedSnowfall': '实测降雪',
+  'chart.historyCaption': '每日{unit} · 积雪深度',
+  'chart.noReports': '此期间暂无已存储的报告',
+  'chart.byThisDate': '截至同日 {snow}',
+  'chart.seasonTotalShort': '（全季 {snow}）',
+  'chart.historyError': '无法加载降雪历史',
+  'chart.loadingHistory': '正在加载降雪历史...',
+  'chart.noForecast': '暂无预报数据',
+  'chart.noForecastHint': '点击刷新以加载 10 天预报',
+  'chart.tenDayTotal': '10 天合计',
+  'chart.maxDay': '单日最大',
+  'chart.snowDays': '降雪天数',
+  'chart.avgTemp': '平均气温',
+  'chart.forecastTitle': '10 天降雪预报',
+  'chart.forecastCaption': '每日{unit}',
+
+  'top.subtitle': '预测降雪量最多的雪场',
+  'top.refresh': '刷新预报',
+  'top.avg': '平均',
+  'top.empty': '该地区暂无明显降雪预报',
+  'top.cached': '缓存 1 小时',
+  'top.legend': '5 天累计降雪',
+
+  'map.summary': '{count} 个雪场 • {window}预报',
+  'map.refresh': '刷新数据',
+  'map.region': '地区',
+  'map.minSnow': '最小降雪',
+  'map.timeframe': '时间范围',
+  'map.legend': '预测降雪量',
+  'map.loading': '正在加载雪场数据...',
+  'map.error': '地图数据加载失败，请重试。',
+  'map.retry': '重试',
+  'map.topTitle': '降雪最多的雪场',
+  'map.sortedBy': '按{window}预报排序',
+  'map.base': '积雪：{snow}',
+  'map.noMatch': '没有符合筛选条件的雪场',
+
+  'alerts.title': '降雪提醒',
+  'alerts.threshold.light': '小雪',
+  'alerts.threshold.good': '中雪',
+  'alerts.threshold.great': '大雪',
+  'alerts.threshold.custom': '自定义',
+  'alerts.days': '{days} 天',
+  'alerts.saved': '提醒已设置！',
+  'alerts.savedDetail': '当 {resort} {rule}时我们会通知你。',
+  'alerts.scope': '关注范围：',
+  'alerts.scope.resort': '此雪场',
+  'alerts.scope.state': '{state} 全部雪场',
+  'alerts.scope.region': '{region}地区全部雪场',
+  'alerts.scope.favorites': '我的收藏',
+  'alerts.scope.radius': '某地附近',
+  'alerts.scope.hint': '一条提醒涵盖所有符合条件的雪场。',
+  'alerts.radius.within': '距离',
+  'alerts.radius.hours': '{hours} 小时',
+  'alerts.radius.of': '车程以内，出发地',
+  'alerts.radius.place': '城市，如 Seattle',
+  'alerts.radius.region': '仅限{region}地区',
+  'alerts.presets': '从预设开始：',
+  'alerts.when': '满足以下条件时提醒我：',
+  'alerts.match.all': '全部满足',
+  'alerts.match.any': '满足任一',
+  'alerts.condition.snowfall': '降雪',
+  'alerts.condition.baseDepth': '积雪深度',
+  'alerts.condition.temperature': '低温',
+  'alerts.condition.forecastChange': '预报变化',
+  'alerts.condition.freshSnow': '早间报告',
+  'alerts.condition.liftsOpening': '缆车开放',
+  'alerts.field.snow': '至少',
+  'alerts.field.within': '时长',
+  'alerts.field.weekend': '仅限周末',
+  'alerts.field.baseDepth': '达到',
+  'alerts.field.temp': '最低气温不高于',
+  'alerts.field.stormSnow': '且之前降雪',
+  'alerts.field.direction': '预报降雪',
+  'alerts.field.direction.up': '上调',
+  'alerts.field.direction.down': '下调',
+  'alerts.field.direction.any': '变化',
+  'alerts.field.change': '至少',
+  'alerts.field.freshSnow': '（早间报告过去 24 小时降雪）',
+  'alerts.field.liftsOpening': '条缆车比上次报告新开放',
+  'alerts.span.day': '24 小时',
+  'alerts.span.days': '{days} 天',
+  'alerts.addCondition': '添加条件',
+  'alerts.removeCondition': '删除条件',
+  'alerts.rule.snowfall.day': '24 小时降雪 {snow} 以上',
+  'alerts.rule.snowfall.days': '{days} 天累计降雪 {snow} 以上',
+  'alerts.rule.weekend': '周末{condition}',
+  'alerts.rule.baseDepth': '积雪深度达到 {depth}',
+  'alerts.rule.cold': '最低气温 {temp} 或更低',
+  'alerts.rule.coldAfterStorm': '降雪 {snow} 以上后最低气温 {temp} 或更低',
+  'alerts.rule.upgrade': '预报降雪上调 {snow} 以上',
+  'alerts.rule.downgrade': '预报降雪下调 {snow} 以上',
+  'alerts.rule.change': '预报降雪变化 {snow} 以上',
+  'alerts.rule.freshSnow': '早间报告 24 小时降雪 {snow} 以上',
+  'alerts.rule.liftsOpening': '新开放缆车 {lifts} 条以上',
+  'alerts.rule.and': '且',
+  'alerts.rule.or': '或',
+  'alerts.window': '预报范围：',
+  'alerts.email': '邮箱',
+  'alerts.optional': '（可选）',
+  'alerts.emailHint': '除应用内提醒外，还会发送邮件通知',
+  'alerts.subscribe': '订阅提醒',
+  'alerts.update': '更新',
+  'alerts.unsubscribe': '取消订阅',
+  'alerts.subscribeFailed': '订阅失败，请重试。',
+  'alerts.unsubscribeFailed': '取消订阅失败，请重试。',
+  'alerts.radiusFailed': '无法设置提醒，请检查地点名称后重试。',
+  'alerts.moreResorts': '另有 {count} 个',
+  'alerts.notifications': '通知',
+  'alerts.mine': '我的提醒（{count}）',
+  'alerts.noNotifications': '还没有通知',
+  'alerts.noNotificationsHint': '订阅雪场提醒即可收到通知！',
+  'alerts.markAllRead': '全部标为已读',
+  'alerts.noSubscriptions': '没有生效的提醒',
+  'alerts.noSubscriptionsHint': '点击任意雪场上的铃铛图标即可订阅！',
+  'alerts.channels': 'Webhook、Slack 和 Discord',
+  'alerts.channels.none': '也可以把此提醒发送到 Slack、Discord 或你自己的 Webhook。',
+  'alerts.channels.type.webhook': 'Webhook',
+  'alerts.channels.type.slack': 'Slack',
+  'alerts.channels.type.discord': 'Discord',
+  'alerts.channels.url': 'https://… Webhook 地址',
+  'alerts.channels.add': '添加渠道',
+  'alerts.channels.remove': '移除渠道',
+  'alerts.channels.test': '发送测试消息',
+  'alerts.channels.signed': '已用密钥签名',
+  'alerts.channels.secret': '签名密钥（仅显示一次）：',
+  'alerts.channels.limit': '每个提醒最多 {count} 个渠道',
+  'alerts.channels.recent': '最近发送',
+  'alerts.channels.attempts': '尝试 {count} 次',
+  'alerts.channels.addFailed': '无法添加渠道，请检查地址（需 https）后重试。',
+  'alerts.channels.loadFailed': '无法加载渠道，请重试。',
+  'alerts.delivery.pending': '排队中',
+  'alerts.delivery.retrying': '重试中',
+  'alerts.delivery.delivered': '已送达',
+  'alerts.delivery.failed': '失败',
+
+  'mock.location': '未知位置',
+  'mock.description': '数据获取失败，显示模拟数据。目前雪况良好。',
+  'mock.justNow': '刚刚',
+  'mock.snow': '降雪',
+  'mock.cloudy': '多云',
+  'mock.summary.storm': '预计有强风暴过境',
+  'mock.summary.steady': '持续降雪',
+  'mock.summary.pacific': '太平洋风暴影响',
+  'mock.summary.champagne': '香槟粉雪',
+  'mock.summary.coldFront': '冷锋过境',
+};
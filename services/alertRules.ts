@@ -0,0 +1,130 @@
+/**
+ * Alert rules
+ *
+ * Presets, starting conditions and summaries for the rule builder. Rules are
+ * sent and received in inches and °F like the rest of the API data, and only
+ * converted for display.
+ */
+
+import type { AlertCondition, AlertRule } from './api';
+import type { MessageKey } from '../i18n';
+import { UnitSystem, formatSnow, formatTemp } from './units';
+
+type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export type ConditionType = AlertCondition['type'];
+
+export const CONDITION_TYPES: ConditionType[] = [
+  'snowfall',
+  'freshSnow',
+  'baseDepth',
+  'liftsOpening',
+  'temperature',
+  'forecastChange',
+];
+
+export const MAX_CONDITIONS = 5;
+
+/** Longest snowfall window, in days */
+export const MAX_WINDOW_DAYS = 7;
+
+// Ranges in inches, matching the backend's alert thresholds
+export const THRESHOLDS = {
+  light: { min: 1, max: 5 },
+  good: { min: 5, max: 15 },
+  great: { min: 15, max: 30 },
+};
+
+export type ThresholdId = keyof typeof THRESHOLDS;
+
+/** A threshold's rule: at least its minimum snowfall on any forecast day */
+export function presetRule(threshold: ThresholdId): AlertRule {
+  return {
+    match: 'all',
+    conditions: [{ type: 'snowfall', snow: THRESHOLDS[threshold].min, days: 1, weekend: false }],
+  };
+}
+
+/** The preset a rule is the same as, if any */
+export function presetFor(rule: AlertRule): ThresholdId | null {
+  if (rule.conditions.length !== 1) return null;
+  const [condition] = rule.conditions;
+  if (condition.type !== 'snowfall' || condition.days !== 1 || condition.weekend) return null;
+  const id = (Object.keys(THRESHOLDS) as ThresholdId[]).find(t => THRESHOLDS[t].min === condition.snow);
+  return id ?? null;
+}
+
+/** A condition of `type` with starting amounts (inches and °F) */
+export function newCondition(type: ConditionType): AlertCondition {
+  switch (type) {
+    case 'snowfall':
+      return { type, snow: 8, days: 1, weekend: false };
+    case 'baseDepth':
+      return { type, baseDepth: 40 };
+    case 'temperature':
+      return { type, temp: 20, stormSnow: 6 };
+    case 'forecastChange':
+      return { type, direction: 'up', change: 6 };
+    case 'freshSnow':
+      return { type, snow: 10 };
+    case 'liftsOpening':
+      return { type, lifts: 1 };
+  }
+}
+
+/** Whether every amount is set (the API rejects empty snow amounts) */
+export function isRuleComplete(rule: AlertRule): boolean {
+  return rule.conditions.length > 0 && rule.conditions.every(condition => {
+    switch (condition.type) {
+      case 'snowfall':
+        return condition.snow > 0;
+      case 'baseDepth':
+        return condition.baseDepth > 0;
+      case 'temperature':
+        return Number.isFinite(condition.temp) && condition.stormSnow >= 0;
+      case 'forecastChange':
+        return condition.change > 0;
+      case 'freshSnow':
+        return condition.snow > 0;
+      case 'liftsOpening':
+        return Number.isInteger(condition.lifts) && condition.lifts > 0;
+    }
+  });
+}
+
+function describeCondition(condition: AlertCondition, units: UnitSystem, t: Translate): string {
+  switch (condition.type) {
+    case 'snowfall': {
+      const text = t(condition.days === 1 ? 'alerts.rule.snowfall.day' : 'alerts.rule.snowfall.days', {
+        snow: formatSnow(condition.snow, units),
+        days: condition.days,
+      });
+      return condition.weekend ? t('alerts.rule.weekend', { condition: text }) : text;
+    }
+    case 'baseDepth':
+      return t('alerts.rule.baseDepth', { depth: formatSnow(condition.baseDepth, units) });
+    case 'temperature':
+      return condition.stormSnow > 0
+        ? t('alerts.rule.coldAfterStorm', {
+            temp: formatTemp(condition.temp, units),
+            snow: formatSnow(condition.stormSnow, units),
+          })
+        : t('alerts.rule.cold', { temp: formatTemp(condition.temp, units) });
+    case 'forecastChange': {
+      const key = { up: 'alerts.rule.upgrade', down: 'alerts.rule.downgrade', any: 'alerts.rule.change' } as const;
+      return t(key[condition.direction], { snow: formatSnow(condition.change, units) });
+    }
+    case 'freshSnow':
+      return t('alerts.rule.freshSnow', { snow: formatSnow(condition.snow, units) });
+    case 'liftsOpening':
+      return t('alerts.rule.liftsOpening', { lifts: condition.lifts });
+  }
+}
+
+/** e.g. `8"+ in 24h on a weekend and base depth reaches 40"` */
+export function describeRule(rule: AlertRule, units: UnitSystem, t: Translate): string {
+  const text = rule.conditions
+    .map(condition => describeCondition(condition, units, t))
+    .join(t(rule.match === 'all' ? 'alerts.rule.and' : 'alerts.rule.or'));
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
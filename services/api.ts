@@ -3,81 +3,97 @@
  * Connects frontend to backend API
  */
 
+import type * as Api from './apiTypes';
+import { UnitSystem, parseUnitSystem } from './units';
+import { Locale, parseLocale } from '../i18n';
+
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
-// Types
-export interface ResortData {
-  id: string;
-  name: string;
-  location: string;
-  state?: string;
-  region?: string;
-  baseDepth: number;
-  last24Hours: number;
-  last48Hours: number;
-  liftsOpen: number;
-  totalLifts: number;
-  trailsOpen: number;
-  totalTrails: number;
-  ticketPrice?: string;
-  websiteUrl?: string;
-  description?: string;
-  conditions?: string;
-  forecast: DailyForecast[];
-  lastUpdated: string;
-  sourceUrls?: string[];
-}
+// Types (generated from the backend's schemas: npm run generate:api-types in backend/)
+export type ResortData = Api.ResortDetail;
+export type DailyForecast = Api.DailyForecast;
+export type ElevationBandForecast = Api.ElevationBandForecast;
+export type HourlyForecast = Api.HourlyForecast;
+export type TopResort = Api.TopResort;
+export type MapResort = Api.MapResort;
+export type ResortSearchResult = Api.ResortSearchResult;
+export type AlertSubscription = Api.AlertSubscription;
+export type AlertNotification = Api.AlertNotification;
+export type AlertRule = Api.AlertRule;
+export type AlertCondition = Api.AlertCondition;
+export type ForecastChangeCondition = Api.ForecastChangeCondition;
+export type AlertScope = Api.AlertScope;
+export type NotificationResort = Api.NotificationResort;
+export type AlertChannel = Api.AlertChannel;
+export type AlertChannelType = Api.AlertChannelType;
+export type AlertDelivery = Api.AlertDelivery;
 
-export interface DailyForecast {
-  date: string;
-  dayName: string;
-  snowInches: number;
-  tempHigh: number;
-  tempLow: number;
-  condition: string;
-  snowProbability?: number;
-  windSpeed?: number;
-}
+// API Functions
 
-export interface TopResort {
-  name: string;
-  location: string;
-  state?: string;
-  predictedSnow: number;
-  summary: string;
-  latitude?: number;
-  longitude?: number;
+/**
+ * Fetch resort snow data (day names and timestamps in `locale`)
+ */
+export async function fetchResortData(resortId: string, refresh = false, locale?: Locale): Promise<ResortData> {
+  const url = `${API_BASE}/resorts/${resortId}${refresh ? '?refresh=true' : ''}`;
+  const response = await fetch(url, {
+    headers: locale ? { 'Accept-Language': locale } : undefined,
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch resort: ${response.statusText}`);
+  }
+  
+  const data: Api.GetResortResponse = await response.json();
+  return data;
 }
 
-export interface MapResort {
-  id: string;
-  name: string;
-  state: string;
-  region?: string;
-  latitude: number;
-  longitude: number;
-  currentBase: number;
-  snow24h: number;
-  snow48h: number;
-  snow5day: number;
-  liftsOpen?: number;
-  totalLifts?: number;
+/**
+ * Fetch the hourly forecast at the resort's base and summit elevations
+ */
+export async function fetchHourlyForecast(resortId: string, hours = 72): Promise<HourlyForecast[]> {
+  const url = `${API_BASE}/resorts/${resortId}/forecast?granularity=hourly&hours=${hours}`;
+  const response = await fetch(url);
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch hourly forecast: ${response.statusText}`);
+  }
+  
+  const data: Api.GetResortForecastResponse = await response.json();
+  return data.granularity === 'hourly' ? data.hours : [];
 }
 
-// API Functions
+/**
+ * Fetch observed daily snowfall history (defaults to the last 30 days)
+ */
+export async function fetchResortHistory(resortId: string, from?: string, to?: string): Promise<Api.SnowHistory> {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const query = params.toString();
+  const url = `${API_BASE}/resorts/${resortId}/history${query ? `?${query}` : ''}`;
+  const response = await fetch(url);
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch snow history: ${response.statusText}`);
+  }
+  
+  const data: Api.GetResortHistoryResponse = await response.json();
+  return data;
+}
 
 /**
- * Fetch resort snow data
+ * Fetch season-to-date snowfall compared with previous seasons
  */
-export async function fetchResortData(resortId: string, refresh = false): Promise<ResortData> {
-  const url = `${API_BASE}/resorts/${resortId}${refresh ? '?refresh=true' : ''}`;
+export async function fetchResortSeason(resortId: string): Promise<Api.SeasonSummary> {
+  const url = `${API_BASE}/resorts/${resortId}/season`;
   const response = await fetch(url);
   
   if (!response.ok) {
-    throw new Error(`Failed to fetch resort: ${response.statusText}`);
+    throw new Error(`Failed to fetch season summary: ${response.statusText}`);
   }
   
-  return response.json();
+  const data: Api.GetResortSeasonResponse = await response.json();
+  return data;
 }
 
 /**
@@ -91,8 +107,8 @@ export async function fetchTopResorts(region = 'All', limit = 5): Promise<TopRes
     throw new Error(`Failed to fetch top resorts: ${response.statusText}`);
   }
   
-  const data = await response.json();
-  return data.resorts || [];
+  const data: Api.TopForecastsResponse = await response.json();
+  return data.resorts;
 }
 
 /**
@@ -116,8 +132,8 @@ export async function fetchTopResortsWithRefresh(
     throw new Error(`Failed to fetch top resorts: ${response.statusText}`);
   }
 
-  const data = await response.json();
-  return data.resorts || [];
+  const data: Api.TopForecastsResponse = await response.json();
+  return data.resorts;
 }
 
 /**
@@ -140,21 +156,14 @@ export async function fetchMapData(options?: {
     throw new Error(`Failed to fetch map data: ${response.statusText}`);
   }
   
-  const data = await response.json();
-  return data.resorts || [];
+  const data: Api.MapResortsResponse = await response.json();
+  return data.resorts;
 }
 
 /**
  * Fetch regional summary
  */
-export async function fetchRegionSummary(): Promise<{
-  regions: Array<{
-    region: string;
-    resortCount: number;
-    averageSnow48h: number;
-    topResort: string | null;
-  }>;
-}> {
+export async function fetchRegionSummary(): Promise<Api.MapRegionsResponse> {
   const url = `${API_BASE}/map/regions`;
   const response = await fetch(url);
   
@@ -162,51 +171,55 @@ export async function fetchRegionSummary(): Promise<{
     throw new Error(`Failed to fetch regions: ${response.statusText}`);
   }
   
-  return response.json();
+  const data: Api.MapRegionsResponse = await response.json();
+  return data;
 }
 
 /**
- * AI Ski Assistant
+ * AI Ski Assistant, answering in `locale`
  */
-export async function askSkiAssistant(question: string): Promise<string> {
+export async function askSkiAssistant(question: string, locale?: Locale): Promise<string> {
   const url = `${API_BASE}/chat`;
   const response = await fetch(url, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ question }),
+    headers: { 'Content-Type': 'application/json', ...(locale ? { 'Accept-Language': locale } : {}) },
+    body: JSON.stringify({ question } satisfies Api.AskAssistantBody),
   });
   
   if (!response.ok) {
     throw new Error(`Chat failed: ${response.statusText}`);
   }
   
-  const data = await response.json();
+  const data: Api.AskAssistantResponse = await response.json();
   return data.answer;
 }
 
 /**
- * Search resorts
+ * Search resorts by name, former name or abbreviation (best match first)
  */
-export async function searchResorts(query: string): Promise<ResortData[]> {
-  // For now, just fetch the resort directly
-  // TODO: Add proper search endpoint
-  try {
-    const id = query.toLowerCase().replace(/\s+/g, '-');
-    const data = await fetchResortData(id);
-    return [data];
-  } catch {
-    return [];
+export async function searchResorts(
+  query: string,
+  options: { state?: string; region?: string; limit?: number } = {}
+): Promise<ResortSearchResult[]> {
+  const params = new URLSearchParams({ q: query, visitorId: getVisitorId() });
+  if (options.state) params.set('state', options.state);
+  if (options.region) params.set('region', options.region);
+  if (options.limit) params.set('limit', String(options.limit));
+
+  const response = await fetch(`${API_BASE}/resorts/search?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to search resorts: ${response.statusText}`);
   }
+
+  const data: Api.SearchResortsResponse = await response.json();
+  return data.results;
 }
 
 /**
  * Get forecast alerts (significant snowfall)
  */
-export async function fetchAlerts(threshold = 12, hours = 48): Promise<Array<{
-  resort: { id: string; name: string; location: string };
-  predictedSnow: number;
-  condition: string;
-}>> {
+export async function fetchAlerts(threshold = 12, hours = 48): Promise<Api.ForecastAlertsResponse['alerts']> {
   const url = `${API_BASE}/forecasts/alerts?threshold=${threshold}&hours=${hours}`;
   const response = await fetch(url);
   
@@ -214,8 +227,8 @@ export async function fetchAlerts(threshold = 12, hours = 48): Promise<Array<{
     throw new Error(`Failed to fetch alerts: ${response.statusText}`);
   }
   
-  const data = await response.json();
-  return data.alerts || [];
+  const data: Api.ForecastAlertsResponse = await response.json();
+  return data.alerts;
 }
 
 // Health check
@@ -232,31 +245,6 @@ export async function checkApiHealth(): Promise<boolean> {
 // ALERT SUBSCRIPTION API
 // ============================================
 
-export interface AlertSubscription {
-  id: number;
-  resortId: string;
-  resortName: string;
-  threshold: 'light' | 'good' | 'great';
-  thresholdLabel: string;
-  timeframe: number;
-  isActive: boolean;
-  createdAt: string;
-  unreadNotifications: number;
-  notifications: AlertNotification[];
-}
-
-export interface AlertNotification {
-  id: number;
-  title: string;
-  message: string;
-  predictedSnow: number;
-  forecastDate: string;
-  resortId?: string;
-  resortName?: string;
-  isRead: boolean;
-  createdAt: string;
-}
-
 /**
  * Get or create a visitor ID for anonymous users
  */
@@ -274,48 +262,47 @@ export function getVisitorId(): string {
 }
 
 /**
- * Subscribe to snow alerts for a resort
+ * Subscribe to snow alerts for a resort, or a scope of resorts (a state,
+ * region, radius or the visitor's favorites)
  */
-export async function subscribeToAlert(params: {
-  resortId: string;
-  resortName: string;
-  threshold: 'light' | 'good' | 'great';
-  timeframe: 5 | 10;
-  email?: string;
-}): Promise<{ subscription: AlertSubscription; immediateAlert: boolean }> {
+export async function subscribeToAlert(
+  params: Omit<Api.SubscribeToAlertBody, 'visitorId'>,
+  locale?: Locale,
+): Promise<Api.SubscribeToAlertResponse> {
   const visitorId = getVisitorId();
   
   const response = await fetch(`${API_BASE}/alerts/subscribe`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(locale ? { 'Accept-Language': locale } : {}) },
     body: JSON.stringify({
       visitorId,
       ...params,
-    }),
+    } satisfies Api.SubscribeToAlertBody),
   });
   
   if (!response.ok) {
     throw new Error(`Failed to subscribe: ${response.statusText}`);
   }
   
-  return response.json();
+  const data: Api.SubscribeToAlertResponse = await response.json();
+  return data;
 }
 
 /**
- * Get all alert subscriptions for the current visitor
+ * Get all alert subscriptions for the current visitor (scope labels in `locale`)
  */
-export async function getMyAlerts(): Promise<AlertSubscription[]> {
+export async function getMyAlerts(locale?: Locale): Promise<AlertSubscription[]> {
   const visitorId = getVisitorId();
   const url = `${API_BASE}/alerts/my?visitorId=${visitorId}`;
   
-  const response = await fetch(url);
+  const response = await fetch(url, { headers: locale ? { 'Accept-Language': locale } : undefined });
   
   if (!response.ok) {
     throw new Error(`Failed to fetch alerts: ${response.statusText}`);
   }
   
-  const data = await response.json();
-  return data.subscriptions || [];
+  const data: Api.MyAlertsResponse = await response.json();
+  return data.subscriptions;
 }
 
 /**
@@ -346,8 +333,8 @@ export async function getNotifications(includeRead = false): Promise<AlertNotifi
     throw new Error(`Failed to fetch notifications: ${response.statusText}`);
   }
   
-  const data = await response.json();
-  return data.notifications || [];
+  const data: Api.ListNotificationsResponse = await response.json();
+  return data.notifications;
 }
 
 /**
@@ -372,7 +359,7 @@ export async function markAllNotificationsRead(): Promise<void> {
   const response = await fetch(`${API_BASE}/alerts/notifications/read-all`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ visitorId }),
+    body: JSON.stringify({ visitorId } satisfies Api.MarkAllNotificationsReadBody),
   });
   
   if (!response.ok) {
@@ -380,10 +367,148 @@ export async function markAllNotificationsRead(): Promise<void> {
   }
 }
 
+/**
+ * Webhook, Slack and Discord channels a subscription's notifications are sent to
+ */
+export async function getAlertChannels(subscriptionId: number): Promise<AlertChannel[]> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/alerts/${subscriptionId}/channels?visitorId=${visitorId}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch channels: ${response.statusText}`);
+  }
+
+  const data: Api.ListAlertChannelsResponse = await response.json();
+  return data.channels;
+}
+
+/**
+ * Add a channel to a subscription. Webhook channels come back with their
+ * signing secret, which is only returned here.
+ */
+export async function addAlertChannel(
+  subscriptionId: number,
+  params: Omit<Api.AddAlertChannelBody, 'visitorId'>,
+): Promise<Api.AddAlertChannelResponse> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/alerts/${subscriptionId}/channels`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ visitorId, ...params } satisfies Api.AddAlertChannelBody),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to add channel: ${response.statusText}`);
+  }
+
+  const data: Api.AddAlertChannelResponse = await response.json();
+  return data;
+}
+
+/**
+ * Remove a channel from a subscription
+ */
+export async function deleteAlertChannel(subscriptionId: number, channelId: number): Promise<void> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/alerts/${subscriptionId}/channels/${channelId}?visitorId=${visitorId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to remove channel: ${response.statusText}`);
+  }
+}
+
+/**
+ * Send a test message to a channel (in `locale` and `units`) and return how it went
+ */
+export async function testAlertChannel(
+  subscriptionId: number,
+  channelId: number,
+  locale?: Locale,
+  units?: UnitSystem,
+): Promise<AlertDelivery> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/alerts/${subscriptionId}/channels/${channelId}/test`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(locale ? { 'Accept-Language': locale } : {}),
+      ...(units ? { 'X-Units': units } : {}),
+    },
+    body: JSON.stringify({ visitorId } satisfies Api.TestAlertChannelBody),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to test channel: ${response.statusText}`);
+  }
+
+  const data: Api.TestAlertChannelResponse = await response.json();
+  return data.delivery;
+}
+
+/**
+ * The newest deliveries to a subscription's channels
+ */
+export async function getAlertDeliveries(subscriptionId: number, limit = 20): Promise<AlertDelivery[]> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/alerts/${subscriptionId}/deliveries?visitorId=${visitorId}&limit=${limit}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch deliveries: ${response.statusText}`);
+  }
+
+  const data: Api.ListAlertDeliveriesResponse = await response.json();
+  return data.deliveries;
+}
+
 /**
  * Check if user is subscribed to a specific resort
  */
 export async function isSubscribedToResort(resortId: string): Promise<AlertSubscription | null> {
   const alerts = await getMyAlerts();
-  return alerts.find(a => a.resortId === resortId) || null;
+  return alerts.find(a => a.scope.type === 'resort' && a.resortId === resortId) || null;
+}
+
+/**
+ * Get the visitor's synced favorite resort ids, units and locale (null if never saved)
+ */
+export async function fetchFavorites(): Promise<Api.GetFavoritesResponse> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/favorites?visitorId=${visitorId}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch favorites: ${response.statusText}`);
+  }
+
+  const data: Api.GetFavoritesResponse = await response.json();
+  return {
+    resortIds: data.resortIds || [],
+    units: parseUnitSystem(data.units),
+    locale: parseLocale(data.locale),
+  };
+}
+
+/**
+ * Sync the visitor's favorite resorts (helps the backend keep them fresh),
+ * and their units and locale when they have picked them (alerts use both)
+ */
+export async function syncFavorites(resortIds: string[], units?: UnitSystem, locale?: Locale): Promise<void> {
+  const visitorId = getVisitorId();
+
+  const response = await fetch(`${API_BASE}/favorites`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ visitorId, resortIds, units, locale } satisfies Api.SyncFavoritesBody),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to sync favorites: ${response.statusText}`);
+  }
 }
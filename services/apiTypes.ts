@@ -0,0 +1,854 @@
+// Generated by `npm run generate:api-types` in backend/ from the zod schemas in
+// backend/src/schemas. Do not edit by hand.
+
+export interface AccuracyStats {
+  samples: number;
+  bias: number | null;
+  mae: number | null;
+  bigDays: {
+    observed: number;
+    forecast: number;
+    hits: number;
+  };
+  hitRate: number | null;
+  falseAlarmRate: number | null;
+}
+
+export interface AlertChannel {
+  id: number;
+  type: AlertChannelType;
+  url: string;
+  signed: boolean;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export type AlertChannelType = 'webhook' | 'slack' | 'discord';
+
+export type AlertCondition = SnowfallCondition | BaseDepthCondition | TemperatureCondition | ForecastChangeCondition | FreshSnowCondition | LiftsOpeningCondition;
+
+export interface AlertDelivery {
+  id: number;
+  channelId: number;
+  notificationId: number | null;
+  event: 'alert.notification' | 'alert.test';
+  title: string;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export type AlertDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface AlertNotification {
+  id: number;
+  title: string;
+  message: string;
+  predictedSnow: number;
+  forecastDate: string;
+  kind: NotificationKind;
+  resortId?: string;
+  resortName?: string;
+  resorts: NotificationResort[];
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface AlertRule {
+  match: 'all' | 'any';
+  conditions: AlertCondition[];
+}
+
+export type AlertScope = ResortScope | ListScope | StateScope | RegionScope | RadiusScope;
+
+export interface AlertSubscription {
+  id: number;
+  resortId: string | null;
+  resortName: string | null;
+  scope: AlertScope;
+  scopeLabel: string;
+  threshold: AlertThreshold;
+  thresholdLabel: string;
+  rule: AlertRule;
+  timeframe: number;
+  isActive: boolean;
+  createdAt: string;
+  unreadNotifications: number;
+  notifications: AlertNotification[];
+}
+
+export type AlertThreshold = 'light' | 'good' | 'great' | 'custom';
+
+export interface BaseDepthCondition {
+  type: 'baseDepth';
+  baseDepth: number;
+}
+
+export interface DailyForecast {
+  date: string;
+  dayName: string;
+  snowInches: number;
+  tempHigh: number | null;
+  tempLow: number | null;
+  condition: string | null;
+  snowProbability: number | null;
+  windSpeed: number | null;
+  powderScore: number | null;
+  snowToLiquid: number | null;
+  rainRisk: number | null;
+  windLoading: number | null;
+  snowLine: number | null;
+  snowQuality: 'blower' | 'powder' | 'dense' | 'heavy' | 'rain' | 'none' | null;
+}
+
+export interface DailyForecastResponse {
+  resortId: string;
+  granularity: 'daily';
+  count: number;
+  forecasts: DailyForecast[];
+}
+
+export interface ElevationBandForecast {
+  elevation: number | null;
+  snow: number;
+  rain: number;
+  temp: number;
+  windSpeed: number;
+  precipType: 'snow' | 'rain' | 'mixed' | null;
+}
+
+export interface ErrorResponse {
+  error: string;
+  code?: string;
+}
+
+export interface FieldProvenance {
+  source: string;
+  confidence: number;
+  method: 'single' | 'blended' | 'trusted';
+  disagree: boolean;
+  values: Record<string, number>;
+}
+
+export interface ForecastChangeCondition {
+  type: 'forecastChange';
+  direction: 'up' | 'down' | 'any';
+  change: number;
+}
+
+export interface FreshSnowCondition {
+  type: 'freshSnow';
+  snow: number;
+}
+
+export interface HostMetrics {
+  host: string;
+  fetches: number;
+  outcomes: Record<string, number>;
+  statuses: Record<string, number>;
+  bytes: number;
+  avgDurationMs: number;
+  avgWaitMs: number;
+  circuit: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  circuitRetryAt: string | null;
+  lastFetchAt: string | null;
+}
+
+export interface HourlyForecast {
+  time: string;
+  freezingLevel: number | null;
+  base: ElevationBandForecast;
+  summit: ElevationBandForecast | null;
+}
+
+export interface HourlyForecastResponse {
+  resortId: string;
+  granularity: 'hourly';
+  elevations: {
+    base: number | null;
+    summit: number | null;
+  };
+  source: string | null;
+  fetchedAt: string | null;
+  cached: boolean;
+  count: number;
+  hours: HourlyForecast[];
+}
+
+export interface Job {
+  id: number;
+  type: string;
+  status: JobStatus;
+  payload: unknown;
+  parentId: number | null;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+  lastError: string | null;
+  result: unknown;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface LiftsOpeningCondition {
+  type: 'liftsOpening';
+  lifts: number;
+}
+
+export interface ListScope {
+  type: 'list';
+  resortIds: string[];
+  favorites: boolean;
+}
+
+export type Locale = 'en' | 'zh-CN';
+
+export interface MapResort {
+  id: string;
+  name: string;
+  country: string;
+  state: string;
+  region: string;
+  latitude: number;
+  longitude: number;
+  currentBase: number;
+  snow24h: number;
+  snow48h: number;
+  snow5day: number;
+  liftsOpen?: number;
+  totalLifts?: number;
+}
+
+export type NotificationKind = 'forecast' | 'upgrade' | 'downgrade' | 'report';
+
+export interface NotificationResort {
+  resortId: string;
+  resortName: string;
+  forecastDate: string;
+  predictedSnow: number;
+}
+
+export interface ProviderHealth {
+  id: string;
+  displayName: string;
+  priority: number;
+  trust: number;
+  enabled: boolean;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  cooldownUntil: string | null;
+}
+
+export interface ProvidersUnavailableResponse {
+  error: string;
+  attempts: Array<{
+    provider: string;
+    error: string;
+  }>;
+}
+
+export interface RadiusScope {
+  type: 'radius';
+  place: string;
+  latitude?: number;
+  longitude?: number;
+  hours: number;
+  region?: string;
+}
+
+export interface RefreshPriority {
+  resortId: string;
+  name: string;
+  signals: {
+    stormInches: number;
+    subscriptions: number;
+    favorites: number;
+    searches: number;
+    stalenessHours: number | null;
+  };
+  weight: number;
+  dormant: boolean;
+  intervalHours: number;
+  score: number;
+  due: boolean;
+}
+
+export interface RegionScope {
+  type: 'region';
+  region: string;
+}
+
+export interface RegionSummary {
+  region: string;
+  resortCount: number;
+  averageSnow48h: number;
+  topResort: string | null;
+}
+
+export interface ReportProvenance {
+  sources: string[];
+  confidence: number;
+  sourcesDisagree: boolean;
+  disagreements: string[];
+  fields: Record<string, FieldProvenance>;
+}
+
+export interface Resort {
+  id: string;
+  name: string;
+  location: string;
+  country: string;
+  state: string;
+  sub_region: string | null;
+  region: string;
+  latitude: number;
+  longitude: number;
+  website_url: string | null;
+  total_lifts: number;
+  total_trails: number;
+  vertical_drop: number | null;
+  base_elevation: number | null;
+  summit_elevation: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ResortDetail {
+  id: string;
+  name: string;
+  location: string;
+  country: string;
+  state: string;
+  region: string;
+  latitude: number;
+  longitude: number;
+  websiteUrl: string | null;
+  ticketPrice: string | null;
+  description: string | null;
+  sourceUrls: string[];
+  totalLifts: number;
+  totalTrails: number;
+  baseDepth: number;
+  last24Hours: number;
+  last48Hours: number;
+  last7Days: number | null;
+  liftsOpen: number;
+  trailsOpen: number;
+  conditions: string | null;
+  forecast: DailyForecast[];
+  powderScore: number | null;
+  dataSource: string | null;
+  sourcesDisagree: boolean;
+  confidence: number | null;
+  provenance: ReportProvenance | null;
+  lastUpdated: string;
+  cached: boolean;
+  cacheAge: number | null;
+}
+
+export interface ResortScope {
+  type: 'resort';
+  resortId: string;
+}
+
+export interface ResortSearchResult {
+  id: string;
+  name: string;
+  state: string | null;
+  region: string | null;
+  location: string | null;
+  score: number;
+  matchedOn: 'name' | 'alias';
+  matchedAlias: string | null;
+}
+
+export interface SeasonSummary {
+  resortId: string;
+  season: string;
+  seasonStart: string;
+  asOf: string;
+  seasonToDate: number;
+  reportedDays: number;
+  snowDays: number;
+  biggestDay: {
+    date: string;
+    snowfall: number;
+  } | null;
+  baseDepth: number | null;
+  peakBaseDepth: number | null;
+  previousSeasons: Array<{
+    season: string;
+    toDate: number;
+    total: number;
+    reportedDays: number;
+  }>;
+  averageToDate: number | null;
+  percentOfAverage: number | null;
+}
+
+export interface SnowfallCondition {
+  type: 'snowfall';
+  snow: number;
+  days: number;
+  weekend: boolean;
+}
+
+export interface SnowHistory {
+  resortId: string;
+  from: string;
+  to: string;
+  days: Array<{
+    date: string;
+    snowfall: number | null;
+    baseDepth: number | null;
+    seasonTotal: number;
+  }>;
+  summary: {
+    reportedDays: number;
+    totalSnowfall: number;
+    snowDays: number;
+    biggestDay: {
+      date: string;
+      snowfall: number;
+    } | null;
+    baseDepthStart: number | null;
+    baseDepthEnd: number | null;
+    baseDepthChange: number | null;
+  };
+}
+
+export interface StateScope {
+  type: 'state';
+  country: string;
+  state: string;
+}
+
+export interface SuccessResponse {
+  success: true;
+}
+
+export interface TemperatureCondition {
+  type: 'temperature';
+  temp: number;
+  stormSnow: number;
+}
+
+export interface TopResort {
+  name: string;
+  location: string;
+  country?: string;
+  state?: string;
+  region?: string;
+  predictedSnow: number;
+  summary: string;
+  snow72h?: number;
+  baseDepth?: number;
+  conditions?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export interface ValidationErrorResponse {
+  error: string;
+  code: 'VALIDATION_ERROR';
+  issues: ValidationIssue[];
+}
+
+export interface ValidationIssue {
+  in: 'params' | 'query' | 'body' | 'header';
+  path: string;
+  message: string;
+}
+
+export type GetResortResponse = ResortDetail;
+
+export type GetResortForecastResponse = DailyForecastResponse | HourlyForecastResponse;
+
+export type GetResortHistoryResponse = SnowHistory;
+
+export type GetResortSeasonResponse = SeasonSummary;
+
+export interface ListResortsResponse {
+  count: number;
+  resorts: Resort[];
+}
+
+export interface SearchResortsResponse {
+  query: string;
+  count: number;
+  results: ResortSearchResult[];
+}
+
+export interface ForecastAccuracyResponse {
+  bigDayInches: number;
+  from: string;
+  to: string;
+  overall: AccuracyStats;
+  bySource: Array<{
+    samples: number;
+    bias: number | null;
+    mae: number | null;
+    bigDays: {
+      observed: number;
+      forecast: number;
+      hits: number;
+    };
+    hitRate: number | null;
+    falseAlarmRate: number | null;
+    source: string;
+  }>;
+  byResort: Array<{
+    samples: number;
+    bias: number | null;
+    mae: number | null;
+    bigDays: {
+      observed: number;
+      forecast: number;
+      hits: number;
+    };
+    hitRate: number | null;
+    falseAlarmRate: number | null;
+    resortId: string;
+  }>;
+  byLeadDays: Array<{
+    samples: number;
+    bias: number | null;
+    mae: number | null;
+    bigDays: {
+      observed: number;
+      forecast: number;
+      hits: number;
+    };
+    hitRate: number | null;
+    falseAlarmRate: number | null;
+    leadDays: number;
+  }>;
+}
+
+export interface ForecastAlertsResponse {
+  threshold: number;
+  timeframe: string;
+  count: number;
+  alerts: Array<{
+    resort: {
+      id: string;
+      name: string;
+      location: string;
+      state: string;
+    };
+    forecastDate: string;
+    predictedSnow: number;
+    condition: string | null;
+  }>;
+}
+
+export interface ForecastSummaryResponse {
+  period: '5-day';
+  regions: Array<{
+    region: string;
+    averageSnow: number;
+    resortCount: number;
+    topResort: string;
+  }>;
+  totalResorts: number;
+  lastUpdated: string;
+}
+
+export interface TopForecastsResponse {
+  region: string;
+  count: number;
+  resorts: TopResort[];
+  cached: boolean;
+  cacheSource: 'memory' | 'database' | null;
+  cacheAge: number | null;
+}
+
+export interface MapHeatmapResponse {
+  metric: 'snow24h' | 'snow48h' | 'snow5day';
+  count: number;
+  data: Array<{
+    lat: number;
+    lng: number;
+    value: number;
+    name: string;
+  }>;
+}
+
+export interface MapRegionsResponse {
+  regions: RegionSummary[];
+  lastUpdated: string;
+}
+
+export interface MapResortsResponse {
+  count: number;
+  resorts: MapResort[];
+  cached: boolean;
+  cacheAge: number | null;
+  source: 'database' | 'gemini';
+}
+
+export interface AskAboutResortBody {
+  resortName: string;
+  question: string;
+}
+
+export interface AskAboutResortResponse {
+  resort: string;
+  question: string;
+  answer: string;
+  timestamp: string;
+}
+
+export interface AskAssistantBody {
+  question: string;
+}
+
+export interface AskAssistantResponse {
+  question: string;
+  answer: string;
+  timestamp: string;
+}
+
+export interface ChatSuggestionsResponse {
+  suggestions: string[];
+}
+
+export interface AddAlertChannelBody {
+  visitorId: string;
+  type: AlertChannelType;
+  url: string;
+  secret?: string;
+}
+
+export interface AddAlertChannelResponse {
+  success: true;
+  channel: AlertChannel;
+  secret: string | null;
+}
+
+export interface ListAlertChannelsResponse {
+  channels: AlertChannel[];
+}
+
+export interface CheckAlertsResponse {
+  success: true;
+  jobId: number;
+  status: JobStatus;
+  alreadyQueued: boolean;
+}
+
+export type DeleteAlertChannelResponse = SuccessResponse;
+
+export interface ListAlertDeliveriesResponse {
+  count: number;
+  deliveries: AlertDelivery[];
+}
+
+export interface ListNotificationsResponse {
+  count: number;
+  notifications: AlertNotification[];
+  unavailable?: true;
+  reason?: string;
+}
+
+export interface MarkAllNotificationsReadBody {
+  visitorId: string;
+}
+
+export type MarkAllNotificationsReadResponse = SuccessResponse;
+
+export type MarkNotificationReadResponse = SuccessResponse;
+
+export interface MyAlertsResponse {
+  count: number;
+  subscriptions: AlertSubscription[];
+}
+
+export interface SubscribeToAlertBody {
+  visitorId: string;
+  email?: string;
+  resortId?: string;
+  resortName?: string;
+  scope?: AlertScope;
+  threshold?: 'light' | 'good' | 'great';
+  rule?: AlertRule;
+  timeframe?: number;
+}
+
+export interface SubscribeToAlertResponse {
+  success: true;
+  subscription: {
+    id: number;
+    resortId: string | null;
+    resortName: string | null;
+    scope: AlertScope;
+    scopeLabel: string;
+    threshold: AlertThreshold;
+    thresholdLabel: string;
+    rule: AlertRule;
+    timeframe: number;
+    isActive: boolean;
+  };
+  immediateAlert: boolean;
+}
+
+export interface TestAlertChannelBody {
+  visitorId: string;
+}
+
+export interface TestAlertChannelResponse {
+  success: true;
+  delivery: AlertDelivery;
+}
+
+export interface UnsubscribeAlertResponse {
+  success: true;
+  message: string;
+}
+
+export interface GetJobResponse {
+  job: Job;
+  children: {
+    counts: Record<string, number>;
+    total: number;
+    jobs: Job[];
+  };
+}
+
+export interface ListJobsResponse {
+  counts: Record<string, number>;
+  jobs: Job[];
+  worker: {
+    id: string;
+    active: Array<{
+      id: number;
+      type: string;
+    }>;
+  };
+}
+
+export interface RefreshPriorityResponse {
+  baseIntervalHours: number;
+  due: number;
+  dormant: number;
+  total: number;
+  resorts: RefreshPriority[];
+}
+
+export interface GetFavoritesResponse {
+  resortIds: string[];
+  units: UnitSystem | null;
+  locale: Locale | null;
+}
+
+export interface SyncFavoritesBody {
+  visitorId: string;
+  resortIds: string[];
+  units?: UnitSystem;
+  locale?: Locale;
+}
+
+export interface SyncFavoritesResponse {
+  success: true;
+  resortIds: string[];
+  units: UnitSystem | null;
+  locale: Locale | null;
+}
+
+export interface CrawlResponse {
+  ok: true;
+  jobId: number;
+  alreadyQueued: boolean;
+  message: string;
+}
+
+export interface HealthResponse {
+  status: 'ok';
+  service: string;
+  timestamp: string;
+  database: 'memory' | 'supabase';
+  providers: ProviderHealth[];
+  scraping: HostMetrics[];
+}
+
+export type OpenApiDocumentResponse = Record<string, unknown>;
+
+export interface PreloadBody {
+  mode?: 'quick' | 'full';
+  maxResorts?: number;
+}
+
+export interface PreloadResponse {
+  success: true;
+  mode: 'quick' | 'full';
+  jobId: number;
+  alreadyQueued: boolean;
+}
+
+export interface RefreshAllBody {
+  maxResorts?: number;
+}
+
+export interface RefreshAllResponse {
+  ok: true;
+  jobId: number;
+  alreadyQueued: boolean;
+}
+
+export interface RunJobsBody {
+  maxSeconds?: number;
+}
+
+export interface RunJobsResponse {
+  ok: true;
+  started: number;
+}
+
+export interface ScrapingHealthResponse {
+  hosts: HostMetrics[];
+  parseDrift: Array<{
+    kind: string;
+    parses: number;
+    suspect: number;
+    lastSuspect: {
+      url: string;
+      reasons: string[];
+      at: string;
+    } | null;
+  }>;
+  recent: Array<{
+    url: string;
+    host: string;
+    outcome: string;
+    status: number | null;
+    durationMs: number;
+    waitedMs: number;
+    bytes: number;
+    error: string | null;
+    at: string;
+  }>;
+}
+
+export interface VerifyForecastsResponse {
+  ok: true;
+  checked: number;
+  verified: number;
+  pending: number;
+}
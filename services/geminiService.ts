@@ -1,9 +1,11 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { ResortData, TopResort } from "../types";
+import { toResortId } from "./resortIdentity";
+import { Locale, DEFAULT_LOCALE, formatDayName, languageName, translate } from "../i18n";
 
 // Helper to get today's date formatted
 const getTodayDate = () => {
-  return new Date().toLocaleDateString('zh-CN', {
+  return new Date().toLocaleDateString('en-US', {
     weekday: 'long',
     year: 'numeric',
     month: 'long',
@@ -11,17 +13,26 @@ const getTodayDate = () => {
   });
 };
 
+// Today plus `offset` days as YYYY-MM-DD
+const isoDate = (offset = 0) => {
+  const date = new Date();
+  date.setDate(date.getDate() + offset);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+};
+
 const forecastSchema: Schema = {
   type: Type.ARRAY,
   items: {
     type: Type.OBJECT,
     properties: {
-      date: { type: Type.STRING, description: "日期 (格式: MM/DD)" },
-      dayName: { type: Type.STRING, description: "星期几 (例如: 周一)" },
-      snowInches: { type: Type.NUMBER, description: "预测降雪量 (英寸)" },
-      tempHigh: { type: Type.NUMBER, description: "最高气温 (华氏度)" },
-      tempLow: { type: Type.NUMBER, description: "最低气温 (华氏度)" },
-      condition: { type: Type.STRING, description: "天气状况简述 (中文)" },
+      date: { type: Type.STRING, description: "Date (format: YYYY-MM-DD)" },
+      dayName: { type: Type.STRING, description: "Day of the week (e.g. Mon)" },
+      snowInches: { type: Type.NUMBER, description: "Predicted snowfall (inches)" },
+      tempHigh: { type: Type.NUMBER, description: "High temperature (°F)" },
+      tempLow: { type: Type.NUMBER, description: "Low temperature (°F)" },
+      condition: { type: Type.STRING, description: "Short weather condition, e.g. Heavy Snow" },
     },
     required: ["date", "dayName", "snowInches", "tempHigh", "tempLow", "condition"],
   },
@@ -30,18 +41,18 @@ const forecastSchema: Schema = {
 const resortSchema: Schema = {
   type: Type.OBJECT,
   properties: {
-    name: { type: Type.STRING, description: "滑雪场全名" },
-    location: { type: Type.STRING, description: "位置 (州, 地区)" },
-    baseDepth: { type: Type.NUMBER, description: "目前积雪深度 (英寸)" },
-    last24Hours: { type: Type.NUMBER, description: "过去24小时降雪量 (英寸)" },
-    last48Hours: { type: Type.NUMBER, description: "过去48小时降雪量 (英寸)" },
-    liftsOpen: { type: Type.NUMBER, description: "开放的缆车数量" },
-    totalLifts: { type: Type.NUMBER, description: "总缆车数量" },
-    trailsOpen: { type: Type.NUMBER, description: "开放的雪道数量 (Trails)" },
-    totalTrails: { type: Type.NUMBER, description: "总雪道数量" },
-    ticketPrice: { type: Type.STRING, description: "成人单日票价预估 (例如: '$189' 或 '$150-200')" },
-    websiteUrl: { type: Type.STRING, description: "滑雪场官方网站URL" },
-    description: { type: Type.STRING, description: "简短的雪况描述和滑雪建议 (中文, 50字以内)" },
+    name: { type: Type.STRING, description: "Full resort name" },
+    location: { type: Type.STRING, description: "Location (state, region)" },
+    baseDepth: { type: Type.NUMBER, description: "Current base depth (inches)" },
+    last24Hours: { type: Type.NUMBER, description: "Snowfall in the last 24 hours (inches)" },
+    last48Hours: { type: Type.NUMBER, description: "Snowfall in the last 48 hours (inches)" },
+    liftsOpen: { type: Type.NUMBER, description: "Number of open lifts" },
+    totalLifts: { type: Type.NUMBER, description: "Total number of lifts" },
+    trailsOpen: { type: Type.NUMBER, description: "Number of open trails" },
+    totalTrails: { type: Type.NUMBER, description: "Total number of trails" },
+    ticketPrice: { type: Type.STRING, description: "Estimated adult day ticket price (e.g. '$189' or '$150-200')" },
+    websiteUrl: { type: Type.STRING, description: "Official resort website URL" },
+    description: { type: Type.STRING, description: "Short snow conditions summary and skiing tip (under 50 words)" },
     forecast: forecastSchema,
   },
   required: ["name", "location", "baseDepth", "last24Hours", "liftsOpen", "trailsOpen", "ticketPrice", "forecast", "description"],
@@ -54,19 +65,19 @@ const topListSchema: Schema = {
     properties: {
       name: { type: Type.STRING },
       location: { type: Type.STRING },
-      predictedSnow: { type: Type.NUMBER, description: "未来几天的总降雪预测 (英寸)" },
-      summary: { type: Type.STRING, description: "简短原因 (中文)" },
+      predictedSnow: { type: Type.NUMBER, description: "Total predicted snowfall over the next few days (inches)" },
+      summary: { type: Type.STRING, description: "Short reason" },
     },
     required: ["name", "location", "predictedSnow", "summary"],
   },
 };
 
-export const fetchResortSnowData = async (resortName: string): Promise<ResortData> => {
+export const fetchResortSnowData = async (resortName: string, locale: Locale = DEFAULT_LOCALE): Promise<ResortData> => {
   const apiKey = process.env.API_KEY;
   
   if (!apiKey) {
     console.warn("No API_KEY found. Returning mock data.");
-    return generateMockData(resortName);
+    return generateMockData(resortName, locale);
   }
 
   const ai = new GoogleGenAI({ apiKey });
@@ -74,18 +85,19 @@ export const fetchResortSnowData = async (resortName: string): Promise<ResortDat
   try {
     const today = getTodayDate();
     const prompt = `
-      请使用 Google 搜索查找 "${resortName}" 滑雪场的最新雪况报告和未来 10 天的天气预报。
+      Use Google Search to find the latest snow report and 10-day weather forecast for "${resortName}" ski resort.
       
-      重点关注:
-      1. 官方网站或 OnTheSnow 等可靠来源的实时数据。
-      2. 过去 24/48 小时的实际降雪量。
-      3. 准确的基础积雪深度 (Base Depth)。
-      4. 开放的缆车 (Lifts) 和雪道 (Trails) 数量。
-      5. 当前成人单日票价 (Ticket Price)。
-      6. 未来 10 天的降雪预测。
+      Focus on:
+      1. Live data from reliable sources such as the official website or OnTheSnow.
+      2. Actual snowfall over the last 24/48 hours.
+      3. An accurate base depth.
+      4. The number of open lifts and trails.
+      5. The current adult day ticket price.
+      6. The snowfall forecast for the next 10 days.
       
-      今天是 ${today}。
-      请勿生成模拟数据。必须基于搜索结果提取真实数据。
+      Today is ${today}.
+      Do not make up data. Extract real data from the search results.
+      Write the description and weather conditions in ${languageName(locale)}.
     `;
 
     const response = await ai.models.generateContent({
@@ -110,8 +122,8 @@ export const fetchResortSnowData = async (resortName: string): Promise<ResortDat
       const data = JSON.parse(response.text);
       return {
         ...data,
-        id: resortName.toLowerCase().replace(/\s+/g, '-'),
-        lastUpdated: new Date().toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' }),
+        id: toResortId(resortName),
+        lastUpdated: new Date().toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
         sourceUrls: [...new Set(sourceUrls)], // Deduplicate URLs
       };
     } else {
@@ -120,28 +132,28 @@ export const fetchResortSnowData = async (resortName: string): Promise<ResortDat
 
   } catch (error) {
     console.error("Error fetching snow data:", error);
-    return generateMockData(resortName);
+    return generateMockData(resortName, locale);
   }
 };
 
-export const fetchTopSnowfallRegions = async (region: string = "All"): Promise<TopResort[]> => {
+export const fetchTopSnowfallRegions = async (region: string = "All", locale: Locale = DEFAULT_LOCALE): Promise<TopResort[]> => {
   const apiKey = process.env.API_KEY;
-  if (!apiKey) return generateMockTopList();
+  if (!apiKey) return generateMockTopList(locale);
 
   const ai = new GoogleGenAI({ apiKey });
   const today = getTodayDate();
   
-  const locationContext = region === "All" ? "USA" : region;
-  const promptContext = region === "All" ? "全美" : `${region} 地区`;
+  const locationContext = region === "All" ? "the USA, Canada, the Alps and Japan" : region;
 
   try {
     const prompt = `
-      使用 Google 搜索找出${promptContext}未来 5 天内降雪量预测最大的 5 个滑雪场。
-      搜索关键词: "Best forecast snowfall ${locationContext} ski resorts next 5 days", "Opensnow top snowfall ${locationContext}".
-      今天是 ${today}。
+      Use Google Search to find the 5 ski resorts in ${locationContext} with the most predicted snowfall over the next 5 days.
+      Search terms: "Best forecast snowfall ${locationContext} ski resorts next 5 days", "Opensnow top snowfall ${locationContext}".
+      Today is ${today}.
       
-      返回一个列表，包含滑雪场名称、位置、预测总降雪量(英寸)和简短原因。
-      确保数据是基于最新的天气预报，而不是历史平均值。
+      Return a list with each resort's name, location, total predicted snowfall (inches) and a short reason.
+      Make sure the data comes from the latest weather forecasts, not historical averages.
+      Write the reasons in ${languageName(locale)}.
     `;
 
     const response = await ai.models.generateContent({
@@ -158,44 +170,44 @@ export const fetchTopSnowfallRegions = async (region: string = "All"): Promise<T
     if (response.text) {
       return JSON.parse(response.text);
     }
-    return generateMockTopList();
+    return generateMockTopList(locale);
   } catch (e) {
     console.error(e);
-    return generateMockTopList();
+    return generateMockTopList(locale);
   }
 };
 
-export const askSkiAssistant = async (question: string): Promise<string> => {
+export const askSkiAssistant = async (question: string, locale: Locale = DEFAULT_LOCALE): Promise<string> => {
   const apiKey = process.env.API_KEY;
-  if (!apiKey) return "未检测到 API Key，无法使用助手。";
+  if (!apiKey) return translate(locale, 'chat.noApiKey');
 
   const ai = new GoogleGenAI({ apiKey });
 
   try {
     const response = await ai.models.generateContent({
       model: "gemini-flash-lite-latest", // Fast, low-latency model
-      contents: `你是一位经验丰富的滑雪向导和装备专家。请用中文简短、风趣地回答用户关于滑雪的问题（如装备建议、技巧、天气准备等）。
+      contents: `You are an experienced ski guide and gear expert. Answer the user's skiing question (gear advice, technique, weather prep and so on) briefly and with a bit of humor.
       
-      用户问题: "${question}"
+      User question: "${question}"
       
-      请保持回答在100字以内，并给出实用的建议。`,
+      Keep the answer under 100 words with practical advice. Answer in ${languageName(locale)}.`,
     });
 
-    return response.text || "我暂时没有想到好的建议，不如去雪场看看？";
+    return response.text || translate(locale, 'chat.noAnswer');
   } catch (e) {
     console.error("Ski Assistant Error:", e);
-    return "助手现在有点忙，请稍后再试。";
+    return translate(locale, 'chat.busy');
   }
 };
 
 // Mock Data Generator (Fallback only)
-const generateMockData = (name: string): ResortData => {
+const generateMockData = (name: string, locale: Locale): ResortData => {
   const randomSnow = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
   
   return {
-    id: name.toLowerCase().replace(/\s+/g, '-'),
+    id: toResortId(name),
     name: name,
-    location: "Unknown Location",
+    location: translate(locale, 'mock.location'),
     baseDepth: randomSnow(30, 80),
     last24Hours: randomSnow(0, 12),
     last48Hours: randomSnow(2, 18),
@@ -205,24 +217,24 @@ const generateMockData = (name: string): ResortData => {
     totalTrails: 110,
     ticketPrice: "$189",
     websiteUrl: "https://www.google.com",
-    description: "数据获取失败，显示模拟数据。目前雪况良好。",
-    lastUpdated: "刚刚",
+    description: translate(locale, 'mock.description'),
+    lastUpdated: translate(locale, 'mock.justNow'),
     forecast: Array.from({ length: 10 }).map((_, i) => ({
-      date: `${i + 1}/12`,
-      dayName: ["周一", "周二", "周三", "周四", "周五", "周六", "周日", "周一", "周二", "周三"][i % 10],
+      date: isoDate(i),
+      dayName: formatDayName(isoDate(i), locale),
       snowInches: randomSnow(0, 8),
       tempHigh: randomSnow(25, 35),
       tempLow: randomSnow(10, 20),
-      condition: randomSnow(0, 10) > 5 ? "降雪" : "多云",
+      condition: translate(locale, randomSnow(0, 10) > 5 ? 'mock.snow' : 'mock.cloudy'),
     })),
     sourceUrls: ["https://www.onthesnow.com"],
   };
 };
 
-const generateMockTopList = (): TopResort[] => [
-  { name: "Alta Ski Area", location: "Utah", predictedSnow: 24, summary: "预计有强风暴过境" },
-  { name: "Jackson Hole", location: "Wyoming", predictedSnow: 18, summary: "持续降雪" },
-  { name: "Mt. Baker", location: "Washington", predictedSnow: 16, summary: "太平洋风暴影响" },
-  { name: "Steamboat", location: "Colorado", predictedSnow: 12, summary: "香槟粉雪" },
-  { name: "Jay Peak", location: "Vermont", predictedSnow: 10, summary: "冷锋过境" },
+const generateMockTopList = (locale: Locale): TopResort[] => [
+  { name: "Alta Ski Area", location: "Utah", predictedSnow: 24, summary: translate(locale, 'mock.summary.storm') },
+  { name: "Jackson Hole", location: "Wyoming", predictedSnow: 18, summary: translate(locale, 'mock.summary.steady') },
+  { name: "Mt. Baker", location: "Washington", predictedSnow: 16, summary: translate(locale, 'mock.summary.pacific') },
+  { name: "Steamboat", location: "Colorado", predictedSnow: 12, summary: translate(locale, 'mock.summary.champagne') },
+  { name: "Jay Peak", location: "Vermont", predictedSnow: 10, summary: translate(locale, 'mock.summary.coldFront') },
 ];
@@ -0,0 +1,15 @@
+/**
+ * Resort ids
+ * Mirrors the backend's `slugifyResortName` so names typed or shown in the UI
+ * map to the same id the backend stores ("Mt. Baker" -> "mt-baker").
+ */
+
+export function toResortId(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
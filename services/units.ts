@@ -0,0 +1,60 @@
+/**
+ * Display units
+ *
+ * Resort data always arrives in US units (inches and °F), from the
+ * backend and the Gemini fallback alike, and is converted here for display.
+ * Color scales and thresholds keep working on the original inches.
+ */
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export const DEFAULT_UNITS: UnitSystem = 'imperial';
+
+export function parseUnitSystem(value: unknown): UnitSystem | null {
+  return value === 'imperial' || value === 'metric' ? value : null;
+}
+
+const round = (value: number, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/** Snow amount in the display unit: inches (1 decimal) or whole cm */
+export function snowValue(inches: number, units: UnitSystem): number {
+  return units === 'metric' ? round(inches * 2.54) : round(inches, 1);
+}
+
+/** Temperature in the display unit, whole degrees */
+export function tempValue(fahrenheit: number, units: UnitSystem): number {
+  return units === 'metric' ? round(((fahrenheit - 32) * 5) / 9) : round(fahrenheit);
+}
+
+/** e.g. 12" or 30cm */
+export function formatSnow(inches: number, units: UnitSystem): string {
+  const value = snowValue(inches, units);
+  return units === 'metric' ? `${value}cm` : `${value}"`;
+}
+
+/** e.g. 28°F or -2°C */
+export function formatTemp(fahrenheit: number, units: UnitSystem): string {
+  return `${tempValue(fahrenheit, units)}°${tempUnitLabel(units)}`;
+}
+
+/** A snow amount typed in the display unit, in inches */
+export function snowFromDisplay(value: number, units: UnitSystem): number {
+  return units === 'metric' ? value / 2.54 : value;
+}
+
+/** A temperature typed in the display unit, in °F */
+export function tempFromDisplay(value: number, units: UnitSystem): number {
+  return units === 'metric' ? (value * 9) / 5 + 32 : value;
+}
+
+/** Unit of snow amount inputs */
+export function snowUnitLabel(units: UnitSystem): string {
+  return units === 'metric' ? 'cm' : 'in';
+}
+
+export function tempUnitLabel(units: UnitSystem): string {
+  return units === 'metric' ? 'C' : 'F';
+}
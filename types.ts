@@ -1,10 +1,17 @@
 export interface DailyForecast {
   date: string; // YYYY-MM-DD
-  dayName: string; // e.g., "周一"
+  dayName: string; // in the requested locale, e.g., "Mon" or "周一"
   snowInches: number;
   tempHigh: number;
   tempLow: number;
-  condition: string; // e.g., "暴雪", "多云"
+  condition: string; // e.g., "Heavy Snow", "Cloudy"
+  // Snow quality model (backend only)
+  powderScore?: number | null; // 0-100
+  snowToLiquid?: number | null; // e.g., 12 for 12:1
+  rainRisk?: number | null; // 0-1
+  windLoading?: number | null; // 0-1
+  snowLine?: number | null; // feet
+  snowQuality?: string | null; // blower | powder | dense | heavy | rain | none
 }
 
 export interface ResortData {
@@ -24,6 +31,68 @@ export interface ResortData {
   forecast: DailyForecast[];
   lastUpdated: string;
   sourceUrls?: string[];
+  powderScore?: number | null; // today's forecast powder score (backend only)
+  // Multi-source reconciliation (backend only)
+  dataSource?: string;
+  sourcesDisagree?: boolean;
+  confidence?: number | null;
+  provenance?: ReportProvenance | null;
+}
+
+export interface FieldProvenance {
+  source: string;
+  confidence: number;
+  method: 'single' | 'blended' | 'trusted';
+  disagree: boolean;
+  values: Record<string, number>;
+}
+
+export interface ReportProvenance {
+  sources: string[];
+  confidence: number;
+  sourcesDisagree: boolean;
+  disagreements: string[];
+  fields: Record<string, FieldProvenance>;
+}
+
+// Snowfall history (backend only)
+export interface SnowHistoryDay {
+  date: string; // YYYY-MM-DD
+  snowfall: number | null; // observed 24hr snow, null when not reported
+  baseDepth: number | null;
+  seasonTotal: number;
+}
+
+export interface SnowHistory {
+  resortId: string;
+  from: string;
+  to: string;
+  days: SnowHistoryDay[];
+  summary: {
+    reportedDays: number;
+    totalSnowfall: number;
+    snowDays: number;
+    biggestDay: { date: string; snowfall: number } | null;
+    baseDepthStart: number | null;
+    baseDepthEnd: number | null;
+    baseDepthChange: number | null;
+  };
+}
+
+export interface SeasonSummary {
+  resortId: string;
+  season: string; // e.g., "2025-26"
+  seasonStart: string;
+  asOf: string;
+  seasonToDate: number;
+  reportedDays: number;
+  snowDays: number;
+  biggestDay: { date: string; snowfall: number } | null;
+  baseDepth: number | null;
+  peakBaseDepth: number | null;
+  previousSeasons: Array<{ season: string; toDate: number; total: number; reportedDays: number }>;
+  averageToDate: number | null;
+  percentOfAverage: number | null;
 }
 
 export interface SearchState {